@@ -0,0 +1,41 @@
+const { requireRole } = require('../shared/auth');
+const { isSupabaseConfigured } = require('../shared/supabase');
+const { uploadCaptures } = require('../shared/captures');
+
+/**
+ * POST /api/capture
+ * Body: { url: string, screenshot?: string, pdf?: string } - base64 captures from Crawl4AI
+ * Uploads them to the page-captures Storage bucket with the service-role key (the only role allowed
+ * to write there, in either ingest mode) and responds with { screenshot_url?, pdf_url?, captured_at }.
+ */
+module.exports = async function (context, req) {
+    const principal = requireRole(context, req, 'authenticated');
+    if (!principal) {
+        return;
+    }
+
+    if (!isSupabaseConfigured()) {
+        context.log.error('SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is not configured');
+        context.res = { status: 500, body: { error: 'Capture storage is not configured' } };
+        return;
+    }
+
+    const { url, screenshot, pdf } = req.body || {};
+    if (typeof url !== 'string' || !url) {
+        context.res = { status: 400, body: { error: 'Request body must contain the page url' } };
+        return;
+    }
+    if (!screenshot && !pdf) {
+        context.res = { status: 400, body: { error: 'Request body must contain a screenshot or pdf' } };
+        return;
+    }
+
+    try {
+        const metadata = await uploadCaptures(url, { screenshot, pdf });
+        context.log(`Stored captures of ${url} for ${principal.userDetails}`);
+        context.res = { status: 200, body: metadata };
+    } catch (error) {
+        context.log.error('Capture upload failed:', error.message);
+        context.res = { status: 502, body: { error: error.message } };
+    }
+};
@@ -0,0 +1,131 @@
+const { requireRole } = require('../shared/auth');
+const { isCrawl4aiConfigured, authorizationHeader, CRAWL4AI_API_URL } = require('../shared/crawl4ai');
+const { isSupabaseConfigured } = require('../shared/supabase');
+const { credentialDomain, loadCredentialProfile, applyCredentialProfile } = require('../shared/credentials');
+
+const UPSTREAM_TIMEOUT_MS = 290000; // Just under the 5 minute functionTimeout in host.json
+
+// Only these Crawl4AI endpoints are reachable through the proxy
+const ROUTES = [
+    { method: 'POST', pattern: /^(crawl)?$/, upstream: () => '/crawl' },
+    { method: 'GET', pattern: /^task\/([A-Za-z0-9_-]+)$/, upstream: (match) => `/task/${match[1]}` },
+    { method: 'DELETE', pattern: /^task\/([A-Za-z0-9_-]+)$/, upstream: (match) => `/task/${match[1]}` },
+    { method: 'GET', pattern: /^health$/, upstream: () => '/health' }
+];
+
+function resolveRoute(method, path) {
+    const cleanPath = (path || '').replace(/^\/+|\/+$/g, '');
+    for (const route of ROUTES) {
+        const match = cleanPath.match(route.pattern);
+        if (route.method === method && match) {
+            return route.upstream(match);
+        }
+    }
+    return null;
+}
+
+/**
+ * The crawl request with the credential profile of its domain applied, when there is one.
+ * A profile's cookies and headers go to every URL of the request, so it is only applied when all of
+ * them are on the profile's host; a mixed-host request for a host with a profile is rejected.
+ * Returns { body } or { error }.
+ */
+async function withCredentials(context, body) {
+    const urls = Array.isArray(body.urls) ? body.urls : [];
+    if (urls.length === 0 || !isSupabaseConfigured()) {
+        return { body };
+    }
+
+    const domains = [...new Set(urls.map(url => credentialDomain(String(url))))];
+    const profiles = (await Promise.all(domains.map(domain => domain && loadCredentialProfile(`https://${domain}`, context.log)))).filter(Boolean);
+    if (profiles.length === 0) {
+        return { body };
+    }
+    if (domains.length > 1) {
+        return { error: `A crawl request for ${profiles[0].domain}, which has a credential profile, may only contain URLs on that host` };
+    }
+
+    const [profile] = profiles;
+    context.log(`Applying credential profile "${profile.name}" for ${profile.domain}`);
+    return { body: applyCredentialProfile(body, profile) };
+}
+
+/**
+ * Proxies /api/crawl/* to Crawl4AI so the API key stays server-side.
+ *   POST /api/crawl[/crawl]   -> POST /crawl
+ *   GET  /api/crawl/task/{id} -> GET  /task/{id}
+ *   DELETE /api/crawl/task/{id} -> DELETE /task/{id} (cancel a task, if the backend supports it)
+ *   GET  /api/crawl/health    -> GET  /health
+ * Crawl requests for a domain with a credential profile get its cookies, headers and login script here,
+ * so those secrets never reach the browser.
+ */
+module.exports = async function (context, req) {
+    const principal = requireRole(context, req, 'authenticated');
+    if (!principal) {
+        return;
+    }
+
+    if (!isCrawl4aiConfigured()) {
+        context.log.error('CRAWL4AI_API_URL or CRAWL4AI_API_KEY is not configured');
+        context.res = { status: 500, body: { error: 'Crawl proxy is not configured' } };
+        return;
+    }
+
+    const upstreamPath = resolveRoute(req.method, context.bindingData.path);
+    if (!upstreamPath) {
+        context.res = { status: 404, body: { error: `Unsupported crawl endpoint: ${req.method} ${context.bindingData.path || ''}` } };
+        return;
+    }
+
+    let requestBody;
+    if (req.method === 'POST') {
+        const credentialed = await withCredentials(context, req.body || {});
+        if (credentialed.error) {
+            context.res = { status: 400, body: { error: credentialed.error } };
+            return;
+        }
+        requestBody = JSON.stringify(credentialed.body);
+    }
+
+    context.log(`Proxying ${req.method} ${upstreamPath} for ${principal.userDetails}`);
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS);
+
+    try {
+        const response = await fetch(`${CRAWL4AI_API_URL}${upstreamPath}`, {
+            method: req.method,
+            headers: {
+                'Authorization': authorizationHeader(),
+                'Content-Type': 'application/json'
+            },
+            body: requestBody,
+            signal: controller.signal
+        });
+
+        const text = await response.text();
+        let body = text;
+        try {
+            body = JSON.parse(text);
+        } catch {
+            // Non-JSON upstream response, pass through as text
+        }
+
+        context.res = {
+            status: response.status,
+            body,
+            headers: {
+                'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json'
+            }
+        };
+    } catch (error) {
+        const timedOut = error.name === 'AbortError';
+        context.log.error('Crawl4AI proxy request failed:', error.message);
+        context.res = {
+            status: timedOut ? 504 : 502,
+            body: { error: timedOut ? 'Crawl4AI request timed out' : `Crawl4AI request failed: ${error.message}` }
+        };
+    } finally {
+        clearTimeout(timeout);
+    }
+};
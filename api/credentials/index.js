@@ -0,0 +1,76 @@
+const { requireRole } = require('../shared/auth');
+const { isSupabaseConfigured, supabaseRest } = require('../shared/supabase');
+const { toProfileSummary, toProfileRow, invalidateCredentialProfile } = require('../shared/credentials');
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+
+/**
+ * Manages credential profiles (docs/sql_files/credential_profiles.sql). Values are write-only:
+ * responses list cookie names, header names and localStorage keys, never what they are set to.
+ *   GET    /api/credentials          -> summaries of all profiles
+ *   GET    /api/credentials/{domain} -> summary of one profile
+ *   PUT    /api/credentials/{domain} -> create or replace a profile (administrator)
+ *   DELETE /api/credentials/{domain} -> remove a profile (administrator)
+ */
+module.exports = async function (context, req) {
+    const principal = requireRole(context, req, req.method === 'GET' ? 'authenticated' : 'administrator');
+    if (!principal) {
+        return;
+    }
+
+    if (!isSupabaseConfigured()) {
+        context.log.error('SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is not configured');
+        context.res = { status: 500, body: { error: 'Credential profiles are not configured' } };
+        return;
+    }
+
+    const domain = (context.bindingData.domain || '').toLowerCase();
+    if (domain && !DOMAIN_PATTERN.test(domain)) {
+        context.res = { status: 400, body: { error: `Invalid domain: ${domain}` } };
+        return;
+    }
+    if (!domain && req.method !== 'GET') {
+        context.res = { status: 400, body: { error: 'A domain is required' } };
+        return;
+    }
+
+    try {
+        if (req.method === 'GET') {
+            const rows = await supabaseRest(domain
+                ? `credential_profiles?domain=eq.${encodeURIComponent(domain)}`
+                : 'credential_profiles?order=domain.asc');
+            if (domain && rows.length === 0) {
+                context.res = { status: 404, body: { error: `No credential profile for ${domain}` } };
+                return;
+            }
+            context.res = { status: 200, body: domain ? toProfileSummary(rows[0]) : rows.map(toProfileSummary) };
+            return;
+        }
+
+        if (req.method === 'DELETE') {
+            await supabaseRest(`credential_profiles?domain=eq.${encodeURIComponent(domain)}`, { method: 'DELETE' });
+            invalidateCredentialProfile(domain);
+            context.log(`Deleted credential profile for ${domain} (${principal.userDetails})`);
+            context.res = { status: 204 };
+            return;
+        }
+
+        const { row, error } = toProfileRow(domain, req.body);
+        if (error) {
+            context.res = { status: 400, body: { error } };
+            return;
+        }
+
+        const [saved] = await supabaseRest('credential_profiles?on_conflict=domain', {
+            method: 'POST',
+            body: row,
+            prefer: 'resolution=merge-duplicates,return=representation'
+        });
+        invalidateCredentialProfile(domain);
+        context.log(`Saved credential profile "${saved.name}" for ${domain} (${principal.userDetails})`);
+        context.res = { status: 200, body: toProfileSummary(saved) };
+    } catch (error) {
+        context.log.error('Credential profile request failed:', error.message);
+        context.res = { status: 502, body: { error: error.message } };
+    }
+};
@@ -0,0 +1,55 @@
+const { requireRole } = require('../shared/auth');
+const { isSupabaseConfigured } = require('../shared/supabase');
+const { isPageTable, ingestResult } = require('../shared/ingestion');
+const { normalizeUrl } = require('../shared/urlNormalizer');
+
+/**
+ * POST /api/ingest
+ * Body: { result: CrawlResult, table?: string, embeddingProvider?: string, embeddingModel?: string }
+ * Chunks, embeds and upserts the page with the service-role key so the browser only needs read access.
+ * Responds with unchanged: true when the stored content hash matches, and canonicalUrl for near-duplicates.
+ */
+module.exports = async function (context, req) {
+    const principal = requireRole(context, req, 'authenticated');
+    if (!principal) {
+        return;
+    }
+
+    if (!isSupabaseConfigured()) {
+        context.log.error('SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is not configured');
+        context.res = { status: 500, body: { error: 'Ingestion is not configured' } };
+        return;
+    }
+
+    const { result, table = 'crawled_pages', embeddingProvider, embeddingModel } = req.body || {};
+
+    if (!result || typeof result.url !== 'string' || !result.url) {
+        context.res = { status: 400, body: { error: 'Request body must contain a crawl result with a url' } };
+        return;
+    }
+
+    if (!isPageTable(table)) {
+        context.res = { status: 403, body: { error: `Pages can't be written to table ${table} (see PAGE_TABLES)` } };
+        return;
+    }
+
+    // Stored under the normalized URL like browser saves, so every form of a URL updates the same rows
+    const page = { ...result, url: normalizeUrl(result.url) };
+    context.log(`Ingesting ${page.url} into ${table} for ${principal.userDetails}`);
+
+    try {
+        const ingested = await ingestResult(page, { table, embeddingProvider, embeddingModel }, context.log);
+
+        context.res = {
+            status: 200,
+            body: {
+                url: page.url,
+                table,
+                ...ingested
+            }
+        };
+    } catch (error) {
+        context.log.error('Ingestion failed:', error.message);
+        context.res = { status: 502, body: { error: error.message } };
+    }
+};
@@ -0,0 +1,22 @@
+const { isSupabaseConfigured } = require('../shared/supabase');
+const { isCrawl4aiConfigured } = require('../shared/crawl4ai');
+const { runDueSchedules } = require('../shared/recrawl');
+
+/**
+ * Timer trigger, every 15 minutes: runs the crawl schedules that are due.
+ * Static Web Apps managed functions only support HTTP triggers, so this needs a standalone Function App;
+ * without one, run scripts/recrawl-worker.js (npm run recrawl) from cron or CI instead.
+ */
+module.exports = async function (context, timer) {
+    if (timer && timer.isPastDue) {
+        context.log.warn('Recrawl timer is running late');
+    }
+
+    if (!isSupabaseConfigured() || !isCrawl4aiConfigured()) {
+        context.log.error('SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, CRAWL4AI_API_URL or CRAWL4AI_API_KEY is not configured');
+        return;
+    }
+
+    const runs = await runDueSchedules(context.log);
+    context.log(`Recrawl finished: ${runs.length} schedules run, ${runs.filter(run => run.status === 'failed').length} failed`);
+};
@@ -0,0 +1,36 @@
+/**
+ * Runs the crawl schedules that are due, then exits - the same work as the recrawl timer function.
+ * Use it where no Function App is available, e.g. from cron every 15 minutes:
+ *
+ *   cd api && npm run recrawl
+ *
+ * Reads SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, CRAWL4AI_API_URL, CRAWL4AI_API_KEY and the
+ * embedding settings from the environment.
+ */
+const { isSupabaseConfigured } = require('../shared/supabase');
+const { isCrawl4aiConfigured } = require('../shared/crawl4ai');
+const { runDueSchedules } = require('../shared/recrawl');
+
+// Same shape as a Functions context.log
+const log = Object.assign((...args) => console.log(...args), {
+    warn: (...args) => console.warn(...args),
+    error: (...args) => console.error(...args)
+});
+
+async function main() {
+    if (!isSupabaseConfigured() || !isCrawl4aiConfigured()) {
+        log.error('SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, CRAWL4AI_API_URL or CRAWL4AI_API_KEY is not configured');
+        process.exitCode = 1;
+        return;
+    }
+
+    const runs = await runDueSchedules(log);
+    const failed = runs.filter(run => run.status === 'failed').length;
+    log(`Recrawl finished: ${runs.length} schedules run, ${failed} failed`);
+    process.exitCode = failed > 0 ? 1 : 0;
+}
+
+main().catch(error => {
+    log.error('Recrawl worker failed:', error);
+    process.exitCode = 1;
+});
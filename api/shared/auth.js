@@ -0,0 +1,39 @@
+/**
+ * Helpers for reading the Static Web Apps client principal.
+ * SWA forwards the signed-in user to functions as a base64 JSON header.
+ */
+function getClientPrincipal(req) {
+    const header = req.headers['x-ms-client-principal'];
+    if (!header) {
+        return null;
+    }
+
+    try {
+        return JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Returns the principal when it holds the role, otherwise sets a 401/403 response and returns null.
+ */
+function requireRole(context, req, role) {
+    const principal = getClientPrincipal(req);
+
+    if (!principal) {
+        context.res = { status: 401, body: { error: 'Authentication required' } };
+        return null;
+    }
+
+    const roles = principal.userRoles || [];
+    if (!roles.includes(role)) {
+        context.log.warn(`User ${principal.userDetails} is missing role ${role}`);
+        context.res = { status: 403, body: { error: `Role '${role}' required` } };
+        return null;
+    }
+
+    return principal;
+}
+
+module.exports = { getClientPrincipal, requireRole };
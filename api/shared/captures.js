@@ -0,0 +1,48 @@
+/**
+ * Screenshot and PDF captures of crawled pages, stored in the page-captures Storage bucket.
+ * Only the service role may upload there, so the browser sends its captures to /api/capture.
+ */
+const { randomUUID } = require('crypto');
+const { supabaseStorageUpload } = require('./supabase');
+
+const CAPTURE_BUCKET = 'page-captures';
+
+const CAPTURE_FILES = {
+    screenshot: { extension: 'png', contentType: 'image/png' },
+    pdf: { extension: 'pdf', contentType: 'application/pdf' }
+};
+
+function captureObjectPath(url, kind, capturedAt) {
+    let hostname = 'unknown-host';
+    try {
+        hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+        // Keep the placeholder for an unparseable URL
+    }
+    return `${hostname}/${capturedAt.replace(/[:.]/g, '-')}-${randomUUID()}.${CAPTURE_FILES[kind].extension}`;
+}
+
+function decodeCapture(base64) {
+    return Buffer.from(base64.replace(/^data:[^,]*,/, ''), 'base64');
+}
+
+/**
+ * Upload a page's base64 captures and return the metadata that links to them
+ */
+async function uploadCaptures(url, captures) {
+    const capturedAt = new Date().toISOString();
+    const metadata = { captured_at: capturedAt };
+
+    for (const kind of Object.keys(CAPTURE_FILES)) {
+        const capture = captures[kind];
+        if (typeof capture !== 'string' || !capture) {
+            continue;
+        }
+        const path = captureObjectPath(url, kind, capturedAt);
+        metadata[`${kind}_url`] = await supabaseStorageUpload(CAPTURE_BUCKET, path, decodeCapture(capture), CAPTURE_FILES[kind].contentType);
+    }
+
+    return metadata;
+}
+
+module.exports = { CAPTURE_BUCKET, captureObjectPath, decodeCapture, uploadCaptures };
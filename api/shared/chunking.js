@@ -0,0 +1,90 @@
+/**
+ * Server-side port of the chunking in src/services/embeddings.ts.
+ * Keep both in sync so browser and server ingestion produce the same chunks.
+ */
+function estimateTokens(text) {
+    // Count words, punctuation, and special characters separately
+    const words = text.split(/\s+/).length;
+    const punctuation = (text.match(/[.,;:!?()[\]{}"'-]/g) || []).length;
+    const whitespace = (text.match(/\s/g) || []).length;
+
+    // Rough formula: words + punctuation + whitespace/4
+    return Math.ceil(words + punctuation + whitespace / 4);
+}
+
+function chunkText(text, maxTokens = 4500) {
+    if (estimateTokens(text) <= maxTokens) {
+        return [text];
+    }
+
+    const chunks = [];
+    let currentChunk = '';
+
+    // Split by paragraphs first, then sentences, then words
+    for (const paragraph of text.split('\n\n')) {
+        const testChunk = currentChunk + (currentChunk ? '\n\n' : '') + paragraph;
+        if (estimateTokens(testChunk) <= maxTokens) {
+            currentChunk = testChunk;
+            continue;
+        }
+
+        if (currentChunk) {
+            chunks.push(currentChunk.trim());
+            currentChunk = '';
+        }
+
+        if (estimateTokens(paragraph) <= maxTokens) {
+            currentChunk = paragraph;
+            continue;
+        }
+
+        for (const sentence of paragraph.split(/[.!?]+/)) {
+            const testSentence = currentChunk + (currentChunk ? '. ' : '') + sentence;
+            if (estimateTokens(testSentence) <= maxTokens) {
+                currentChunk = testSentence;
+                continue;
+            }
+
+            if (currentChunk) {
+                chunks.push(currentChunk.trim());
+                currentChunk = '';
+            }
+
+            if (estimateTokens(sentence) <= maxTokens) {
+                currentChunk = sentence;
+                continue;
+            }
+
+            for (const word of sentence.split(' ')) {
+                const testWord = currentChunk + (currentChunk ? ' ' : '') + word;
+                if (estimateTokens(testWord) <= maxTokens) {
+                    currentChunk = testWord;
+                } else {
+                    if (currentChunk) {
+                        chunks.push(currentChunk.trim());
+                    }
+                    currentChunk = word;
+                }
+            }
+        }
+    }
+
+    if (currentChunk.trim()) {
+        chunks.push(currentChunk.trim());
+    }
+
+    return chunks.filter(chunk => chunk.length > 0);
+}
+
+/**
+ * Truncate text that is still too large for a single embedding request
+ */
+function truncateForEmbedding(text) {
+    if (estimateTokens(text) <= 7000) {
+        return text;
+    }
+    // Approximately 6000 tokens worth of text
+    return text.substring(0, 6000 * 3);
+}
+
+module.exports = { estimateTokens, chunkText, truncateForEmbedding };
@@ -0,0 +1,124 @@
+/**
+ * Content fingerprints for change detection and duplicate detection.
+ * Must match src/services/contentHash.ts.
+ */
+const { createHash } = require('crypto');
+
+const NEAR_DUPLICATE_DISTANCE = 3;
+const MIN_SIMHASH_WORDS = 50;
+const SHINGLE_SIZE = 3;
+const SIMHASH_BANDS = 4;
+
+function normalizeContent(content) {
+    return content.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * SHA-256 of the normalized page content, stored as metadata.content_hash on chunk 1
+ */
+function contentHash(content) {
+    return createHash('sha256').update(normalizeContent(content), 'utf8').digest('hex');
+}
+
+function fnv1a(input, seed) {
+    let hash = seed;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * 64-bit simhash over word shingles, as 16 hex chars. Null for pages too short to compare.
+ */
+function simhash(content) {
+    const words = normalizeContent(content).toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    if (words.length < MIN_SIMHASH_WORDS) {
+        return null;
+    }
+
+    const weights = new Array(64).fill(0);
+    for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+        const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ');
+        const halves = [fnv1a(shingle, 0x811c9dc5), fnv1a(shingle, 0x050c5d1f)];
+        for (let bit = 0; bit < 64; bit++) {
+            weights[bit] += (halves[bit >> 5] >>> (bit & 31)) & 1 ? 1 : -1;
+        }
+    }
+
+    const halves = [0, 0];
+    for (let bit = 0; bit < 64; bit++) {
+        if (weights[bit] > 0) {
+            halves[bit >> 5] |= 1 << (bit & 31);
+        }
+    }
+    return halves.map(half => (half >>> 0).toString(16).padStart(8, '0')).join('');
+}
+
+function simhashBands(hash) {
+    const width = hash.length / SIMHASH_BANDS;
+    return Array.from({ length: SIMHASH_BANDS }, (_, band) => hash.slice(band * width, (band + 1) * width));
+}
+
+function hammingDistance(a, b) {
+    let distance = 0;
+    for (let i = 0; i < a.length; i += 8) {
+        let diff = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+        while (diff) {
+            diff &= diff - 1;
+            distance++;
+        }
+    }
+    return distance;
+}
+
+function fingerprintContent(content) {
+    return { contentHash: contentHash(content), simhash: simhash(content) };
+}
+
+/**
+ * The closest stored page within NEAR_DUPLICATE_DISTANCE, resolved to its canonical URL.
+ * `candidates` are chunk 1 rows selected as url, content_hash, simhash, canonical_url.
+ */
+function nearestDuplicate(url, fingerprint, candidates) {
+    let nearest = null;
+
+    for (const candidate of candidates) {
+        const distance = candidate.content_hash === fingerprint.contentHash
+            ? 0
+            : fingerprint.simhash && candidate.simhash
+                ? hammingDistance(fingerprint.simhash, candidate.simhash)
+                : Infinity;
+        const canonicalUrl = candidate.canonical_url || candidate.url;
+
+        if (distance <= NEAR_DUPLICATE_DISTANCE && canonicalUrl !== url && (!nearest || distance < nearest.distance)) {
+            nearest = { canonicalUrl, distance };
+        }
+    }
+
+    return nearest;
+}
+
+/**
+ * PostgREST `or` filter matching stored pages with the same content hash or a shared simhash band
+ */
+function duplicateCandidateFilter(fingerprint) {
+    const filters = [`metadata->>content_hash.eq.${fingerprint.contentHash}`];
+    if (fingerprint.simhash) {
+        filters.push(...simhashBands(fingerprint.simhash).map((band, index) => `metadata->simhash_bands->>${index}.eq.${band}`));
+    }
+    return filters.join(',');
+}
+
+module.exports = {
+    NEAR_DUPLICATE_DISTANCE,
+    normalizeContent,
+    contentHash,
+    simhash,
+    simhashBands,
+    hammingDistance,
+    fingerprintContent,
+    nearestDuplicate,
+    duplicateCandidateFilter
+};
@@ -0,0 +1,126 @@
+/**
+ * Server-side Crawl4AI client, used by the /api/crawl proxy and by scheduled recrawls.
+ * The API key never leaves the server.
+ */
+const { randomUUID } = require('crypto');
+const { parseExtractedData } = require('./extraction');
+const { credentialDomain, applyCredentialProfile } = require('./credentials');
+
+const CRAWL4AI_API_URL = (process.env.CRAWL4AI_API_URL || '').replace(/\/+$/, '');
+const CRAWL4AI_API_KEY = process.env.CRAWL4AI_API_KEY || '';
+const POLL_INTERVAL_MS = 2000;
+const MAX_POLL_ATTEMPTS = 60;
+
+function isCrawl4aiConfigured() {
+    return !!(CRAWL4AI_API_URL && CRAWL4AI_API_KEY);
+}
+
+function authorizationHeader() {
+    // Accept the key with or without the Bearer prefix (the browser .env used the full header value)
+    return CRAWL4AI_API_KEY.startsWith('Bearer ') ? CRAWL4AI_API_KEY : `Bearer ${CRAWL4AI_API_KEY}`;
+}
+
+async function crawl4aiRequest(path, { method = 'GET', body } = {}) {
+    const response = await fetch(`${CRAWL4AI_API_URL}${path}`, {
+        method,
+        headers: {
+            'Authorization': authorizationHeader(),
+            'Content-Type': 'application/json'
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+        throw new Error(`Crawl4AI ${method} ${path} failed (${response.status}): ${text.substring(0, 300)}`);
+    }
+    return text ? JSON.parse(text) : {};
+}
+
+function sleep(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * POST /crawl for a list of URLs and return the raw per-page results, polling async tasks to completion.
+ * `extractionStrategy` is sent as the crawler_config extraction_strategy (see ./extraction), and a
+ * `credentialProfile` adds its cookies, headers and login script (see ./credentials); they go to every URL,
+ * so all of them must be on the profile's host.
+ */
+async function crawlUrls(urls, { extractLinks = true, extractionStrategy = null, credentialProfile = null } = {}) {
+    if (credentialProfile && !urls.every(url => credentialDomain(url) === credentialProfile.domain)) {
+        throw new Error(`Credential profile for ${credentialProfile.domain} applied to URLs on other hosts`);
+    }
+    const body = {
+        urls,
+        browser_config: {
+            headless: true,
+            ignore_https_errors: true
+        },
+        crawler_config: {
+            cache_mode: 'bypass',
+            extract_links: extractLinks,
+            same_domain_only: true,
+            check_robots_txt: true,
+            ...(extractionStrategy && { extraction_strategy: extractionStrategy })
+        }
+    };
+    let data = await crawl4aiRequest('/crawl', {
+        method: 'POST',
+        body: credentialProfile ? applyCredentialProfile(body, credentialProfile) : body
+    });
+
+    if (data.task_id && !data.results) {
+        for (let attempt = 1; ; attempt++) {
+            await sleep(POLL_INTERVAL_MS);
+            const task = await crawl4aiRequest(`/task/${data.task_id}`);
+            if (task.status === 'completed' || task.state === 'completed') {
+                data = task.result || task;
+                break;
+            }
+            if (task.status === 'failed' || task.state === 'failed') {
+                throw new Error(`Task ${data.task_id} failed: ${task.error || 'Unknown error'}`);
+            }
+            if (attempt >= MAX_POLL_ATTEMPTS) {
+                throw new Error(`Task ${data.task_id} did not finish after ${MAX_POLL_ATTEMPTS} polls`);
+            }
+        }
+    }
+
+    return Array.isArray(data.results) ? data.results : [data];
+}
+
+/**
+ * Shape a raw Crawl4AI page like the browser's CrawlResult, so ingestion treats both the same way.
+ */
+function toCrawlResult(page, metadata = {}) {
+    const rawMarkdown = (page.markdown && page.markdown.raw_markdown) || (typeof page.markdown === 'string' ? page.markdown : '');
+    const fitMarkdown = (page.markdown && page.markdown.fit_markdown) || '';
+    // Structured extraction results go to metadata, so the markdown is still what gets embedded
+    const extractedData = parseExtractedData(page.extracted_content);
+    const extractedContent = extractedData ? '' : page.extracted_content;
+    const content = fitMarkdown || rawMarkdown || extractedContent || page.cleaned_html || page.html || '';
+    const now = new Date().toISOString();
+
+    return {
+        id: page.task_id || page.id || randomUUID(),
+        url: page.url,
+        status: page.success ? 'completed' : 'failed',
+        content,
+        markdown: rawMarkdown,
+        rawMarkdown,
+        fitMarkdown,
+        links: ((page.links && page.links.internal) || []).map(link => (typeof link === 'string' ? link : link.href)).filter(Boolean),
+        metadata: {
+            ...page.metadata,
+            status_code: page.status_code,
+            ...(extractedData && { extracted_data: extractedData, extracted_items: extractedData.length }),
+            ...metadata
+        },
+        createdAt: now,
+        completedAt: now,
+        error: page.error_message
+    };
+}
+
+module.exports = { isCrawl4aiConfigured, authorizationHeader, crawl4aiRequest, crawlUrls, toCrawlResult, CRAWL4AI_API_URL };
@@ -0,0 +1,160 @@
+/**
+ * Credential profiles for crawling sites behind a login.
+ *
+ * A credential_profiles row holds cookies, extra headers, localStorage seeds and an optional login script
+ * for one domain (hostname). They are secrets, so they only ever live server-side: the /api/crawl proxy
+ * and scheduled recrawls inject them into the requests, and the browser only sees summaries.
+ */
+const { supabaseRest } = require('./supabase');
+
+const PROFILE_CACHE_TTL_MS = 60 * 1000; // Profile lookups per domain, so a batch crawl doesn't query each request
+const profileCache = new Map();
+
+// Request settings that run the client's code in the crawler's browser, or hand the browser and its traffic
+// to something else. Next to a profile's cookies, headers and localStorage they could read or forward them,
+// so they are dropped whenever a profile is applied.
+const CLIENT_SCRIPT_SETTINGS = ['hooks'];
+const CRAWLER_SCRIPT_SETTINGS = ['js_code', 'js_code_before_wait', 'c4a_script', 'js_only', 'wait_for', 'session_id'];
+const BROWSER_EXTRA_SETTINGS = ['cdp_url', 'browser_mode', 'use_managed_browser', 'user_data_dir', 'extra_args', 'proxy', 'proxy_config'];
+
+function withoutSettings(config, keys) {
+    return Object.fromEntries(Object.entries(config || {}).filter(([key]) => !keys.includes(key)));
+}
+
+function credentialDomain(url) {
+    try {
+        return new URL(url).hostname.toLowerCase();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * What the browser may see of a profile: names and keys, never values
+ */
+function toProfileSummary(row) {
+    return {
+        domain: row.domain,
+        name: row.name,
+        cookieNames: (row.cookies || []).map(cookie => cookie.name),
+        headerNames: Object.keys(row.headers || {}),
+        localStorageKeys: Object.keys(row.local_storage || {}),
+        hasLoginScript: !!row.login_script,
+        loginWaitFor: row.login_wait_for || undefined,
+        updatedAt: row.updated_at
+    };
+}
+
+function isStringRecord(value) {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+        && Object.values(value).every(entry => typeof entry === 'string');
+}
+
+/**
+ * A PUT body as a credential_profiles row, or an error message
+ */
+function toProfileRow(domain, body) {
+    const { name, cookies = [], headers = {}, localStorage = {}, loginScript, loginWaitFor } = body || {};
+
+    if (typeof name !== 'string' || !name.trim()) {
+        return { error: 'name is required' };
+    }
+    if (!Array.isArray(cookies) || !cookies.every(cookie => cookie && typeof cookie.name === 'string' && cookie.name && typeof cookie.value === 'string')) {
+        return { error: 'cookies must be a list of { name, value, path? }' };
+    }
+    if (!isStringRecord(headers) || !isStringRecord(localStorage)) {
+        return { error: 'headers and localStorage must map names to string values' };
+    }
+
+    return {
+        row: {
+            domain,
+            name: name.trim(),
+            cookies: cookies.map(cookie => ({ name: cookie.name, value: cookie.value, ...(cookie.path && { path: cookie.path }) })),
+            headers,
+            local_storage: localStorage,
+            login_script: typeof loginScript === 'string' && loginScript.trim() ? loginScript : null,
+            login_wait_for: typeof loginWaitFor === 'string' && loginWaitFor.trim() ? loginWaitFor.trim() : null,
+            updated_at: new Date().toISOString()
+        }
+    };
+}
+
+/**
+ * The credential profile for a URL's domain, or null. A missing table only disables authenticated crawling.
+ */
+async function loadCredentialProfile(url, log) {
+    const domain = credentialDomain(url);
+    if (!domain) {
+        return null;
+    }
+
+    const cached = profileCache.get(domain);
+    if (cached && Date.now() - cached.loadedAt < PROFILE_CACHE_TTL_MS) {
+        return cached.profile;
+    }
+
+    try {
+        const [row] = await supabaseRest(`credential_profiles?domain=eq.${encodeURIComponent(domain)}`);
+        const profile = row || null;
+        profileCache.set(domain, { profile, loadedAt: Date.now() });
+        return profile;
+    } catch (error) {
+        log.warn('Could not load credential profile, crawling without credentials:', error.message);
+        return null;
+    }
+}
+
+/**
+ * Forget a cached profile after it was saved or deleted
+ */
+function invalidateCredentialProfile(domain) {
+    profileCache.delete(domain);
+}
+
+/**
+ * A crawl request body with the profile's cookies, headers and localStorage in browser_config and its
+ * login script as the only crawler_config js_code. The client's scripts, hooks and browser/proxy
+ * overrides are dropped.
+ */
+function applyCredentialProfile(requestBody, profile) {
+    const browserConfig = withoutSettings(requestBody.browser_config, BROWSER_EXTRA_SETTINGS);
+    const crawlerConfig = withoutSettings(requestBody.crawler_config, CRAWLER_SCRIPT_SETTINGS);
+
+    if (profile.cookies && profile.cookies.length > 0) {
+        browserConfig.cookies = [
+            ...(browserConfig.cookies || []),
+            ...profile.cookies.map(cookie => ({ name: cookie.name, value: cookie.value, domain: profile.domain, path: cookie.path || '/' }))
+        ];
+    }
+    if (profile.headers && Object.keys(profile.headers).length > 0) {
+        browserConfig.headers = { ...browserConfig.headers, ...profile.headers };
+    }
+    if (profile.local_storage && Object.keys(profile.local_storage).length > 0) {
+        browserConfig.storage_state = {
+            cookies: [],
+            origins: [{
+                origin: `https://${profile.domain}`,
+                localStorage: Object.entries(profile.local_storage).map(([name, value]) => ({ name, value }))
+            }]
+        };
+    }
+
+    if (profile.login_script) {
+        crawlerConfig.js_code = [profile.login_script];
+        if (profile.login_wait_for) {
+            crawlerConfig.wait_for = profile.login_wait_for;
+        }
+    }
+
+    return { ...withoutSettings(requestBody, CLIENT_SCRIPT_SETTINGS), browser_config: browserConfig, crawler_config: crawlerConfig };
+}
+
+module.exports = {
+    credentialDomain,
+    toProfileSummary,
+    toProfileRow,
+    loadCredentialProfile,
+    invalidateCredentialProfile,
+    applyCredentialProfile
+};
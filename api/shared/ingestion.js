@@ -0,0 +1,248 @@
+/**
+ * Chunk, embed and upsert a crawl result into a crawled_pages-shaped table.
+ * Shared by POST /api/ingest and scheduled recrawls; rows match SupabaseService.saveCrawlResultAsDocument.
+ */
+const { chunkText, truncateForEmbedding } = require('./chunking');
+const { assertEmbeddingDimensions, createEmbeddingProvider } = require('./embeddings');
+const { supabaseRest } = require('./supabase');
+const { fingerprintContent, simhashBands, nearestDuplicate, duplicateCandidateFilter } = require('./contentHash');
+
+const EMBEDDING_BATCH_SIZE = 16;
+// Tables pages may be written to. Requests name the table, and the service-role key bypasses RLS,
+// so anything else (credential_profiles, crawl_schedules, ...) must be refused.
+const PAGE_TABLES = (process.env.PAGE_TABLES || 'crawled_pages').split(',').map(table => table.trim()).filter(Boolean);
+
+function isPageTable(table) {
+    return PAGE_TABLES.includes(table);
+}
+
+function safeHostname(url) {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * The text that gets chunked and embedded for a page
+ */
+function pageContent(result) {
+    return result.fitMarkdown || result.rawMarkdown || result.markdown || result.content || '';
+}
+
+const FINGERPRINT_SELECT = 'url,content_hash:metadata->>content_hash,simhash:metadata->>simhash,canonical_url:metadata->>canonical_url';
+const DUPLICATE_CANDIDATE_LIMIT = 50;
+
+/**
+ * Whether a stored page (chunk 1 metadata) already holds this content, embedded by the current provider.
+ * Vectors from another provider or model live in a different embedding space, so the page is re-embedded.
+ * Must match SupabaseService.isStoredPageCurrent.
+ */
+function isStoredPageCurrent(metadata, hash, provider) {
+    if (!metadata || metadata.content_hash !== hash) {
+        return false;
+    }
+    // Near-duplicates are searchable through their canonical page and keep no vectors of their own
+    if (metadata.canonical_url || !provider.isConfigured()) {
+        return true;
+    }
+    return metadata.embedding_provider === provider.type && metadata.embedding_model === provider.model;
+}
+
+/**
+ * Chunk 1 of the page as stored now, or undefined for a new page
+ */
+async function loadStoredPage(table, url) {
+    const [row] = await supabaseRest(
+        `${table}?select=id,url,chunk_number,content,metadata,created_at&url=eq.${encodeURIComponent(url)}&chunk_number=eq.1`
+    );
+    return row;
+}
+
+/**
+ * Another stored page with the same or nearly the same content, resolved to its canonical URL
+ */
+async function findNearDuplicate(table, url, fingerprint, log) {
+    try {
+        const candidates = await supabaseRest(
+            `${table}?select=${FINGERPRINT_SELECT}&chunk_number=eq.1&url=neq.${encodeURIComponent(url)}` +
+            `&or=(${encodeURIComponent(duplicateCandidateFilter(fingerprint))})&limit=${DUPLICATE_CANDIDATE_LIMIT}`
+        );
+        return nearestDuplicate(url, fingerprint, candidates);
+    } catch (error) {
+        log.warn('Near-duplicate lookup failed, saving as a new page:', error.message);
+        return null;
+    }
+}
+
+async function embedChunks(provider, chunks, prefix, log) {
+    const embeddings = [];
+    for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+        const inputs = chunks
+            .slice(i, i + EMBEDDING_BATCH_SIZE)
+            .map(chunk => truncateForEmbedding([prefix, chunk].filter(Boolean).join('\n\n')));
+        log(`Embedding chunks ${i + 1}-${i + inputs.length}/${chunks.length} with ${provider.type}`);
+        embeddings.push(...await provider.embed(inputs));
+    }
+    return embeddings;
+}
+
+/**
+ * Append the page's new content to page_versions. Best effort: without the table only the history is lost.
+ */
+async function savePageVersion(table, result, content, hash, log) {
+    try {
+        await supabaseRest('page_versions', {
+            method: 'POST',
+            body: {
+                table_name: table,
+                url: result.url,
+                content_hash: hash,
+                title: (result.metadata && result.metadata.title) || safeHostname(result.url),
+                content,
+                crawl_id: result.id,
+                crawled_at: result.completedAt || result.createdAt || new Date().toISOString()
+            }
+        });
+    } catch (error) {
+        log.warn('Could not record page version:', error.message);
+    }
+}
+
+/**
+ * Builds one row per chunk, matching SupabaseService.saveCrawlResultAsDocument in the browser.
+ * `embeddedWith` is the provider that made `embeddings`, or null when the page has none.
+ */
+function buildRows(result, chunks, embeddings, embeddedWith, fingerprint, duplicate) {
+    const title = (result.metadata && result.metadata.title) || safeHostname(result.url);
+    const pageMetadata = {
+        title,
+        crawl_id: result.id,
+        crawl_status: result.status,
+        links_found: (result.links || []).length,
+        crawled_at: result.createdAt,
+        completed_at: result.completedAt,
+        source: 'crawl4ai',
+        ...result.metadata
+    };
+
+    const rows = chunks.map((chunk, index) => ({
+        url: result.url,
+        chunk_number: index + 1,
+        content: chunk,
+        metadata: { ...pageMetadata, total_chunks: chunks.length },
+        // Always written, so changed text never keeps the vector of its previous version
+        embedding: embeddings[index] || null
+    }));
+
+    // Markdown variants and fingerprints describe the whole page, so store them once on the first chunk
+    for (const [key, field] of [['raw_markdown', 'rawMarkdown'], ['fit_markdown', 'fitMarkdown'], ['markdown', 'markdown']]) {
+        if (result[field]) {
+            rows[0].metadata[key] = result[field];
+        }
+    }
+    if (embeddedWith) {
+        rows[0].metadata.embedding_provider = embeddedWith.type;
+        rows[0].metadata.embedding_model = embeddedWith.model;
+    }
+    if (fingerprint) {
+        rows[0].metadata.content_hash = fingerprint.contentHash;
+        if (fingerprint.simhash) {
+            rows[0].metadata.simhash = fingerprint.simhash;
+            rows[0].metadata.simhash_bands = simhashBands(fingerprint.simhash);
+        }
+    }
+    if (duplicate) {
+        rows[0].metadata.canonical_url = duplicate.canonicalUrl;
+        rows[0].metadata.duplicate_distance = duplicate.distance;
+    }
+
+    return rows;
+}
+
+/**
+ * Chunk, embed and upsert one page, then remove chunks left over from a longer previous version.
+ * A page whose content hash and embedding provider match the stored ones is left alone. A near-duplicate
+ * of another stored page is saved without embeddings and linked to that page through metadata.canonical_url.
+ * If embedding fails the page is saved without a content hash, so the next save embeds it again.
+ * `log` is a Functions context.log (a function with .warn and .error).
+ */
+async function ingestResult(result, { table = 'crawled_pages', embeddingProvider, embeddingModel } = {}, log) {
+    const content = pageContent(result);
+    const chunks = content.trim() ? chunkText(content) : [''];
+    const provider = createEmbeddingProvider(embeddingProvider, embeddingModel);
+    const fingerprint = content.trim() ? fingerprintContent(content) : null;
+    const outcome = {
+        embeddingProvider: provider.type,
+        embeddingModel: provider.model
+    };
+
+    if (fingerprint) {
+        const stored = await loadStoredPage(table, result.url);
+        if (stored && isStoredPageCurrent(stored.metadata, fingerprint.contentHash, provider)) {
+            log(`Content of ${result.url} is unchanged, skipping embedding and upsert`);
+            return { chunks: 0, embedded: 0, unchanged: true, ...outcome, document: stored };
+        }
+    }
+
+    const duplicate = fingerprint ? await findNearDuplicate(table, result.url, fingerprint, log) : null;
+
+    let embeddings = [];
+    let embeddingFailed = false;
+    if (duplicate) {
+        log(`${result.url} is a near-duplicate of ${duplicate.canonicalUrl} (distance ${duplicate.distance}), saving without embeddings`);
+    } else if (content.trim() && provider.isConfigured()) {
+        try {
+            const title = (result.metadata && result.metadata.title) || safeHostname(result.url);
+            embeddings = await embedChunks(provider, chunks, title, log);
+        } catch (error) {
+            log.warn('Embedding failed, saving without vector data:', error.message);
+            embeddings = [];
+            embeddingFailed = true;
+        }
+    } else if (content.trim()) {
+        log.warn(`Saving without embeddings: ${provider.configurationHint()}`);
+    }
+    // Vectors of another dimension would only fail the upsert with an opaque pgvector error
+    assertEmbeddingDimensions(embeddings, provider.model);
+
+    const rows = await supabaseRest(`${table}?on_conflict=url,chunk_number&order=chunk_number.asc`, {
+        method: 'POST',
+        body: buildRows(
+            result,
+            chunks,
+            embeddings,
+            embeddings.length ? provider : null,
+            // Without a hash the page doesn't count as unchanged next time, so its embedding is retried
+            embeddingFailed ? null : fingerprint,
+            duplicate
+        ),
+        prefer: 'resolution=merge-duplicates,return=representation'
+    });
+
+    if (fingerprint) {
+        await savePageVersion(table, result, content, fingerprint.contentHash, log);
+    }
+
+    // Remove chunks left over from a previous, longer version of this page
+    try {
+        await supabaseRest(
+            `${table}?url=eq.${encodeURIComponent(result.url)}&chunk_number=gt.${chunks.length}`,
+            { method: 'DELETE' }
+        );
+    } catch (error) {
+        log.warn('Failed to remove stale chunks:', error.message);
+    }
+
+    return {
+        chunks: chunks.length,
+        embedded: embeddings.length,
+        unchanged: false,
+        canonicalUrl: duplicate ? duplicate.canonicalUrl : null,
+        ...outcome,
+        document: rows && rows[0]
+    };
+}
+
+module.exports = { isPageTable, pageContent, isStoredPageCurrent, ingestResult };
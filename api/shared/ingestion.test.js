@@ -0,0 +1,89 @@
+const { test, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+// ingestion.js picks its dependencies up when it is loaded, so they are replaced before requiring it
+const supabase = require('./supabase');
+const embeddings = require('./embeddings');
+const { contentHash } = require('./contentHash');
+
+let storedPage; // Chunk 1 of the page as the fake table holds it
+let candidates; // Rows the near-duplicate lookup returns
+let upserted;
+let provider;
+
+supabase.supabaseRest = async (path, { method = 'GET', body } = {}) => {
+    if (method === 'POST' && path.startsWith('crawled_pages?')) {
+        upserted = body;
+        return body;
+    }
+    if (method === 'GET' && path.includes('select=id,')) {
+        return storedPage ? [storedPage] : [];
+    }
+    if (method === 'GET') {
+        return candidates;
+    }
+    return null;
+};
+embeddings.createEmbeddingProvider = () => provider;
+
+const { ingestResult } = require('./ingestion');
+
+const log = Object.assign(() => {}, { warn: () => {}, error: () => {} });
+const CONTENT = 'The quick guide to crawling.';
+const result = { id: 'crawl-1', url: 'https://example.com/guide', status: 'completed', markdown: CONTENT, metadata: { title: 'Guide' } };
+
+function fakeProvider(model, embed = async (texts) => texts.map(() => new Array(embeddings.EMBEDDING_DIMENSIONS).fill(0.1))) {
+    return { type: 'hashing', model, isConfigured: () => true, configurationHint: () => '', embed };
+}
+
+beforeEach(() => {
+    storedPage = null;
+    candidates = [];
+    upserted = null;
+    provider = fakeProvider('hashing-1536');
+});
+
+test('a page saved with the same content and embedding model is left alone', async () => {
+    storedPage = { url: result.url, metadata: { content_hash: contentHash(CONTENT), embedding_provider: 'hashing', embedding_model: 'hashing-1536' } };
+
+    const outcome = await ingestResult(result, {}, log);
+
+    assert.equal(outcome.unchanged, true);
+    assert.equal(upserted, null);
+});
+
+test('an unchanged page embedded with another model is embedded again', async () => {
+    storedPage = { url: result.url, metadata: { content_hash: contentHash(CONTENT), embedding_provider: 'openai', embedding_model: 'text-embedding-3-small' } };
+
+    const outcome = await ingestResult(result, {}, log);
+
+    assert.equal(outcome.unchanged, false);
+    assert.equal(outcome.embedded, 1);
+    assert.equal(upserted[0].metadata.embedding_provider, 'hashing');
+    assert.equal(upserted[0].metadata.embedding_model, 'hashing-1536');
+    assert.equal(upserted[0].metadata.content_hash, contentHash(CONTENT));
+});
+
+test('a failed embedding clears the old vector and leaves the page to retry', async () => {
+    provider = fakeProvider('hashing-1536', async () => { throw new Error('rate limited'); });
+
+    await ingestResult(result, {}, log);
+
+    assert.equal(upserted[0].embedding, null);
+    assert.equal(upserted[0].metadata.content_hash, undefined);
+    assert.equal(upserted[0].metadata.embedding_model, undefined);
+});
+
+test('near-duplicates are saved without vectors and count as unchanged afterwards', async () => {
+    candidates = [{ url: 'https://example.com/guide-copy', content_hash: contentHash(CONTENT) }];
+
+    const outcome = await ingestResult(result, {}, log);
+
+    assert.equal(outcome.canonicalUrl, 'https://example.com/guide-copy');
+    assert.equal(upserted[0].embedding, null);
+    assert.equal(upserted[0].metadata.canonical_url, 'https://example.com/guide-copy');
+
+    storedPage = upserted[0];
+    upserted = null;
+    assert.equal((await ingestResult(result, {}, log)).unchanged, true);
+});
@@ -0,0 +1,61 @@
+/**
+ * Minimal JSON Schema validation for LLM extraction records (type, enum, properties, required,
+ * additionalProperties: false, items). Must match src/services/jsonSchema.ts.
+ */
+
+function typeOf(value) {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function matchesType(value, type) {
+    switch (type) {
+        case 'integer': return Number.isInteger(value);
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        default: return typeOf(value) === type;
+    }
+}
+
+/**
+ * Errors of a value against a schema, as "path: problem" strings - empty when it's valid
+ */
+function validateJsonSchema(value, schema, path = '$') {
+    const errors = [];
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(value, type))) {
+            return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+        }
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+        errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+
+    if (typeOf(value) === 'object') {
+        const properties = schema.properties || {};
+
+        for (const key of Array.isArray(schema.required) ? schema.required : []) {
+            if (value[key] === undefined) {
+                errors.push(`${path}.${key}: is required`);
+            }
+        }
+        for (const [key, propertyValue] of Object.entries(value)) {
+            if (properties[key]) {
+                errors.push(...validateJsonSchema(propertyValue, properties[key], `${path}.${key}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${key}: is not allowed`);
+            }
+        }
+    }
+
+    if (Array.isArray(value) && schema.items && typeof schema.items === 'object') {
+        value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items, `${path}[${index}]`)));
+    }
+
+    return errors;
+}
+
+module.exports = { validateJsonSchema };
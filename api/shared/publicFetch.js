@@ -0,0 +1,127 @@
+/**
+ * Fetching user-supplied URLs from the Functions app without exposing its network.
+ *
+ * Only http(s) URLs whose host resolves to public addresses are fetched - loopback, private, link-local
+ * (including the cloud metadata endpoint) and other reserved ranges are refused. Redirects are followed
+ * by hand so every hop is checked again, and bodies are read as a stream that stops at a byte limit
+ * instead of being buffered whole.
+ */
+const dns = require('dns').promises;
+const net = require('net');
+
+const MAX_REDIRECTS = 5;
+
+const BLOCKED_RANGES = new net.BlockList();
+[
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([network, prefix]) => BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4'));
+[
+    ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8], ['64:ff9b::', 96]
+].forEach(([network, prefix]) => BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6'));
+
+class BlockedUrlError extends Error {}
+
+function parseHttpUrl(value) {
+    try {
+        const url = new URL(value);
+        return ['http:', 'https:'].includes(url.protocol) ? url : null;
+    } catch {
+        return null;
+    }
+}
+
+function isPublicAddress(address) {
+    // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address it maps to
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+    if (mapped) {
+        return isPublicAddress(mapped[1]);
+    }
+    const family = net.isIP(address);
+    return family !== 0 && !BLOCKED_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Throw a BlockedUrlError unless the URL is http(s) and its host resolves only to public addresses
+ */
+async function assertPublicUrl(url) {
+    if (!['http:', 'https:'].includes(url.protocol)) {
+        throw new BlockedUrlError(`Only http(s) URLs can be fetched: ${url.href}`);
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    const addresses = net.isIP(hostname)
+        ? [hostname]
+        : (await dns.lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+    if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+        throw new BlockedUrlError(`${url.hostname} is not a public address`);
+    }
+}
+
+/**
+ * The response body, at most maxBytes of it: with `truncate` the rest is dropped unread, otherwise a
+ * larger body is an error
+ */
+async function readBody(response, maxBytes, truncate) {
+    const chunks = [];
+    let length = 0;
+    const reader = response.body.getReader();
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        chunks.push(Buffer.from(value));
+        length += value.length;
+        if (length >= maxBytes) {
+            await reader.cancel();
+            if (!truncate && length > maxBytes) {
+                throw new Error(`Response exceeds ${maxBytes} bytes`);
+            }
+            break;
+        }
+    }
+
+    return Buffer.concat(chunks, length).subarray(0, maxBytes);
+}
+
+/**
+ * GET a public URL, following up to 5 redirects that each pass assertPublicUrl.
+ * Returns { status, buffer, url } with the final URL.
+ */
+async function fetchPublic(url, { maxBytes, truncate = false, timeoutMs, headers = {} }) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+        let current = url;
+        for (let redirects = 0; ; redirects++) {
+            await assertPublicUrl(current);
+            const response = await fetch(current, { headers, redirect: 'manual', signal: controller.signal });
+
+            const location = response.headers.get('location');
+            if (response.status >= 300 && response.status < 400 && location) {
+                await response.body?.cancel();
+                if (redirects >= MAX_REDIRECTS) {
+                    throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+                }
+                current = new URL(location, current);
+                continue;
+            }
+
+            const buffer = response.body ? await readBody(response, maxBytes, truncate) : Buffer.alloc(0);
+            return { status: response.status, buffer, url: current };
+        }
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+module.exports = {
+    BlockedUrlError,
+    parseHttpUrl,
+    isPublicAddress,
+    assertPublicUrl,
+    fetchPublic
+};
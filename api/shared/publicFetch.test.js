@@ -0,0 +1,75 @@
+const { test, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+const dns = require('dns').promises;
+const { BlockedUrlError, parseHttpUrl, isPublicAddress, assertPublicUrl, fetchPublic } = require('./publicFetch');
+
+let records; // Addresses the fake resolver returns, by hostname
+let fetched;
+let responses; // Response factories the fake fetch serves, by URL
+
+dns.lookup = async (hostname) => (records[hostname] || []).map(address => ({ address }));
+globalThis.fetch = async (url) => {
+    fetched.push(String(url));
+    return responses[String(url)]();
+};
+
+const OPTIONS = { maxBytes: 1024, timeoutMs: 1000 };
+
+beforeEach(() => {
+    records = { 'example.com': ['93.184.216.34'], 'internal.example.com': ['10.0.0.5'] };
+    fetched = [];
+    responses = {};
+});
+
+test('only public addresses pass', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:10.0.0.1', 'localhost']) {
+        assert.equal(isPublicAddress(address), false, address);
+    }
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8']) {
+        assert.equal(isPublicAddress(address), true, address);
+    }
+});
+
+test('URLs are refused unless http(s) and every address the host resolves to is public', async () => {
+    assert.equal(parseHttpUrl('file:///etc/passwd'), null);
+    assert.equal(parseHttpUrl('not a url'), null);
+
+    await assertPublicUrl(new URL('https://example.com/'));
+    await assert.rejects(assertPublicUrl(new URL('ftp://example.com/')), BlockedUrlError);
+    await assert.rejects(assertPublicUrl(new URL('http://internal.example.com/')), BlockedUrlError);
+    await assert.rejects(assertPublicUrl(new URL('http://[::1]:8080/')), BlockedUrlError);
+    await assert.rejects(assertPublicUrl(new URL('http://169.254.169.254/latest/meta-data/')), BlockedUrlError);
+    await assert.rejects(assertPublicUrl(new URL('http://unresolved.example.com/')), BlockedUrlError);
+
+    records['mixed.example.com'] = ['93.184.216.34', '127.0.0.1'];
+    await assert.rejects(assertPublicUrl(new URL('http://mixed.example.com/')), BlockedUrlError);
+});
+
+test('every redirect hop is checked before it is fetched', async () => {
+    responses['https://example.com/robots.txt'] = () => new Response(null, { status: 302, headers: { Location: 'http://internal.example.com/robots.txt' } });
+
+    await assert.rejects(fetchPublic(new URL('https://example.com/robots.txt'), OPTIONS), BlockedUrlError);
+    assert.deepEqual(fetched, ['https://example.com/robots.txt']);
+});
+
+test('redirects on public hosts are followed, up to five', async () => {
+    responses['https://example.com/a'] = () => new Response(null, { status: 301, headers: { Location: '/b' } });
+    responses['https://example.com/b'] = () => new Response('ok', { status: 200 });
+
+    const { status, buffer, url } = await fetchPublic(new URL('https://example.com/a'), OPTIONS);
+    assert.equal(status, 200);
+    assert.equal(buffer.toString(), 'ok');
+    assert.equal(url.href, 'https://example.com/b');
+
+    responses['https://example.com/loop'] = () => new Response(null, { status: 302, headers: { Location: '/loop' } });
+    await assert.rejects(fetchPublic(new URL('https://example.com/loop'), OPTIONS), /More than 5 redirects/);
+    assert.equal(fetched.filter(entry => entry.endsWith('/loop')).length, 6);
+});
+
+test('bodies stop at maxBytes', async () => {
+    responses['https://example.com/big'] = () => new Response('x'.repeat(4096), { status: 200 });
+
+    const { buffer } = await fetchPublic(new URL('https://example.com/big'), { ...OPTIONS, truncate: true });
+    assert.equal(buffer.length, 1024);
+    await assert.rejects(fetchPublic(new URL('https://example.com/big'), OPTIONS), /exceeds 1024 bytes/);
+});
@@ -0,0 +1,302 @@
+/**
+ * Scheduled recrawls with change detection.
+ *
+ * A crawl schedule (crawl_schedules row) is a saved recipe - URL, crawl type and options - plus a cron
+ * expression. A run recrawls the site, compares each page's content hash with the row already in
+ * crawled_pages and only re-embeds pages that are new, changed or embedded by another provider or model. Pages that now return 404/410, and pages
+ * an earlier run of the schedule saved that its crawl no longer reaches, are deleted - never pages other
+ * crawls saved on the same site.
+ * Every run records what was added, changed and removed in crawl_schedule_runs.
+ */
+const { supabaseRest } = require('./supabase');
+const { crawlUrls, toCrawlResult } = require('./crawl4ai');
+const { pageContent, ingestResult, isPageTable, isStoredPageCurrent } = require('./ingestion');
+const { createEmbeddingProvider } = require('./embeddings');
+const { contentHash } = require('./contentHash');
+const { nextCronRun } = require('./cron');
+const { loadExtractionSchema, toExtractionStrategy, extractionMetadata, llmTokenUsage } = require('./extraction');
+const { credentialDomain, loadCredentialProfile } = require('./credentials');
+const { normalizeUrl, cleanUrl, sameSite, canonicalPageUrl } = require('./urlNormalizer');
+const { DEFAULT_URL_RULE_SET, createUrlRuleMatcher, loadUrlRuleSet } = require('./urlRules');
+
+const DEFAULT_MAX_PAGES = 50;
+const DEFAULT_MAX_DEPTH = 3;
+const BATCH_SIZE = 10;
+const STORED_PAGE_LIMIT = 1000; // PostgREST page size when loading stored hashes
+const GONE_STATUS_CODES = [404, 410];
+const SKIPPED_EXTENSIONS = /\.(pdf|jpe?g|png|gif|svg|webp|ico|zip|gz|css|js|json|xml|mp4|mp3)$/i;
+
+/**
+ * Crawl a schedule's site breadth-first within its page and depth budgets.
+ * `complete` is false when pages were left unvisited, in which case missing pages can't be told apart
+ * from unreached ones and nothing is treated as removed.
+ */
+async function crawlSite(schedule, extractionSchema, log) {
+    const options = schedule.options || {};
+    const extractionStrategy = extractionSchema ? toExtractionStrategy(extractionSchema) : null;
+    // Sites behind a login are recrawled with the domain's credential profile, like browser crawls via the proxy
+    const credentialProfile = await loadCredentialProfile(schedule.url, log);
+
+    if (schedule.crawl_type === 'single') {
+        const [page] = await crawlUrls([schedule.url], { extractLinks: false, extractionStrategy, credentialProfile });
+        return { pages: [{ ...page, url: (page && page.url) || schedule.url }], complete: true };
+    }
+
+    // Links are filtered with the schedule's URL rules, else the domain's, like browser crawls
+    const urlRules = createUrlRuleMatcher(options.urlRules || await loadUrlRuleSet(schedule.url, log) || DEFAULT_URL_RULE_SET, log);
+    const maxPages = options.maxPages || DEFAULT_MAX_PAGES;
+    const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+    const seen = new Set([normalizeUrl(schedule.url)]);
+    const queue = [{ url: schedule.url, depth: 0 }];
+    const pages = [];
+    let complete = true;
+
+    while (queue.length > 0) {
+        if (pages.length >= maxPages) {
+            complete = false;
+            break;
+        }
+
+        // One host per batch, so the credential profile only goes to requests for its own host
+        const taken = queue.splice(0, Math.min(BATCH_SIZE, maxPages - pages.length));
+        const batchHost = credentialDomain(taken[0].url);
+        const batch = taken.filter(item => credentialDomain(item.url) === batchHost);
+        queue.unshift(...taken.filter(item => credentialDomain(item.url) !== batchHost));
+        log(`Recrawling ${batch.length} pages at depth ${batch[0].depth} (${pages.length}/${maxPages} done)`);
+        const depthByUrl = new Map(batch.map(item => [normalizeUrl(item.url), item.depth]));
+        const results = await crawlUrls(batch.map(item => item.url), {
+            extractLinks: batch.some(item => item.depth < maxDepth),
+            extractionStrategy,
+            credentialProfile: credentialProfile && credentialProfile.domain === batchHost ? credentialProfile : null
+        });
+
+        for (const [index, page] of results.entries()) {
+            const url = (page && page.url) || batch[index].url;
+            const depth = depthByUrl.get(normalizeUrl(url)) ?? batch[index].depth;
+            pages.push({ ...page, url });
+            seen.add(canonicalPageUrl({ ...page, url })); // Don't recrawl the page under its canonical URL
+
+            for (const link of toCrawlResult({ ...page, url }).links) {
+                let target;
+                try {
+                    target = urlRules.rewrite(cleanUrl(new URL(link, url).toString()));
+                } catch {
+                    continue;
+                }
+                const key = normalizeUrl(target);
+                if (seen.has(key) || !sameSite(target, schedule.url) || SKIPPED_EXTENSIONS.test(new URL(target).pathname) || !urlRules.check(target).allowed) {
+                    continue;
+                }
+                seen.add(key);
+                if (depth + 1 > maxDepth) {
+                    complete = false;
+                } else {
+                    queue.push({ url: target, depth: depth + 1 });
+                }
+            }
+        }
+    }
+
+    return { pages, complete };
+}
+
+const STORED_PAGE_SELECT = [
+    'url',
+    'schedule_id:metadata->>schedule_id',
+    'content_hash:metadata->>content_hash',
+    'canonical_url:metadata->>canonical_url',
+    'embedding_provider:metadata->>embedding_provider',
+    'embedding_model:metadata->>embedding_model'
+].join(',');
+
+/**
+ * Fingerprints of the pages already stored for a schedule's site, keyed by normalized URL, with the
+ * id of the schedule that saved each one (metadata.schedule_id) if a schedule did.
+ * Pages are looked up both as the schedule's URL was entered and in normalized form, which is how
+ * pages are stored since URL normalization was added.
+ */
+async function loadStoredPages(table, schedule) {
+    const stored = new Map();
+    const forms = Array.from(new Set([schedule.url, normalizeUrl(schedule.url)]));
+    const filter = schedule.crawl_type === 'single'
+        ? `url=in.${encodeURIComponent(`(${forms.map(url => `"${url}"`).join(',')})`)}`
+        : `or=${encodeURIComponent(`(${forms.map(url => `url.like."${new URL(url).origin}*"`).join(',')})`)}`;
+
+    for (let offset = 0; ; offset += STORED_PAGE_LIMIT) {
+        const rows = await supabaseRest(
+            `${table}?select=${STORED_PAGE_SELECT}&chunk_number=eq.1&${filter}&order=url.asc&limit=${STORED_PAGE_LIMIT}&offset=${offset}`
+        );
+        for (const row of rows) {
+            // The prefix also matches hosts like docs.example.com.evil.net
+            if (sameSite(row.url, schedule.url)) {
+                const { url, schedule_id: scheduleId, ...metadata } = row;
+                stored.set(normalizeUrl(url), { url, scheduleId: scheduleId || null, metadata });
+            }
+        }
+        if (rows.length < STORED_PAGE_LIMIT) {
+            return stored;
+        }
+    }
+}
+
+/**
+ * URLs of stored pages that count as removed because the crawl no longer reaches them: only after a
+ * complete crawl, and only pages this schedule saved itself. Pages other crawls saved on the site, or
+ * that the schedule's URL rules and skipped extensions keep it from visiting, are left alone.
+ */
+function unreachedPages(schedule, stored, crawled, complete) {
+    if (!complete || schedule.crawl_type === 'single') {
+        return [];
+    }
+    return Array.from(stored)
+        .filter(([key, page]) => !crawled.has(key) && page.scheduleId === String(schedule.id))
+        .map(([, page]) => page.url);
+}
+
+/**
+ * Recrawl one schedule, re-embed what changed and record the run
+ */
+async function runSchedule(schedule, log) {
+    const options = schedule.options || {};
+    const table = options.table || 'crawled_pages';
+    const summary = { pages_crawled: 0, added: [], changed: [], removed: [], failed: [], unchanged_count: 0 };
+
+    const [run] = await supabaseRest('crawl_schedule_runs', {
+        method: 'POST',
+        body: { schedule_id: schedule.id, status: 'running', started_at: new Date().toISOString() },
+        prefer: 'return=representation'
+    });
+
+    let status = 'completed';
+    let errorMessage = null;
+    try {
+        if (!isPageTable(table)) {
+            throw new Error(`Pages can't be written to table ${table} (see PAGE_TABLES)`);
+        }
+
+        log(`Running schedule "${schedule.name}" (${schedule.crawl_type}) for ${schedule.url}`);
+        // The domain's extraction schema is reused so recrawled pages keep their structured data
+        const extractionSchema = await loadExtractionSchema(schedule.url, log);
+        // Pages embedded by another provider or model are re-embedded even when their content is unchanged
+        const embeddingProvider = createEmbeddingProvider(options.embeddingProvider, options.embeddingModel);
+        const { pages, complete } = await crawlSite(schedule, extractionSchema, log);
+        const stored = await loadStoredPages(table, schedule);
+        const crawled = new Set();
+        summary.pages_crawled = pages.length;
+
+        for (const page of pages) {
+            const key = canonicalPageUrl(page);
+            const existing = stored.get(key);
+
+            if (!page.success) {
+                if (existing && GONE_STATUS_CODES.includes(page.status_code)) {
+                    summary.removed.push(existing.url);
+                } else {
+                    summary.failed.push(page.url);
+                    crawled.add(key); // Still there, just not crawlable right now - keep its rows
+                }
+                continue;
+            }
+            crawled.add(key);
+
+            const structured = extractionSchema ? extractionMetadata(extractionSchema, page.extracted_content) : null;
+            let llmUsage = null;
+            if (structured && extractionSchema.mode === 'llm') {
+                llmUsage = { provider: extractionSchema.llm_config.provider, ...llmTokenUsage(extractionSchema, page) };
+                log(`LLM extraction of ${page.url}: ${structured.extracted_items} records, ${llmUsage.estimated ? '~' : ''}${llmUsage.totalTokens} tokens`);
+            }
+
+            // Keep the stored URL so the page's rows are updated rather than duplicated
+            const result = toCrawlResult({ ...page, url: existing ? existing.url : key }, {
+                ...structured,
+                ...(llmUsage && { llm_usage: llmUsage }),
+                crawl_type: 'scheduled_recrawl',
+                schedule_id: schedule.id
+            });
+            const content = pageContent(result);
+            if (!content.trim()) {
+                continue;
+            }
+
+            // Pages stored before content hashes were recorded have no hash and count as changed
+            if (existing && isStoredPageCurrent(existing.metadata, contentHash(content), embeddingProvider)) {
+                summary.unchanged_count++;
+                continue;
+            }
+
+            await ingestResult(result, {
+                table,
+                embeddingProvider: options.embeddingProvider,
+                embeddingModel: options.embeddingModel
+            }, log);
+            (existing ? summary.changed : summary.added).push(result.url);
+        }
+
+        summary.removed.push(...unreachedPages(schedule, stored, crawled, complete).filter(url => !summary.removed.includes(url)));
+
+        for (const url of summary.removed) {
+            await supabaseRest(`${table}?url=eq.${encodeURIComponent(url)}`, { method: 'DELETE' });
+        }
+
+        log(`Schedule "${schedule.name}": ${summary.added.length} added, ${summary.changed.length} changed, ${summary.removed.length} removed, ${summary.unchanged_count} unchanged`);
+    } catch (error) {
+        status = 'failed';
+        errorMessage = error.message;
+        log.error(`Schedule "${schedule.name}" failed:`, error.message);
+    }
+
+    const finishedAt = new Date().toISOString();
+    await supabaseRest(`crawl_schedule_runs?id=eq.${run.id}`, {
+        method: 'PATCH',
+        body: { ...summary, status, error: errorMessage, finished_at: finishedAt }
+    });
+    await supabaseRest(`crawl_schedules?id=eq.${schedule.id}`, {
+        method: 'PATCH',
+        body: { last_run_at: finishedAt, last_run_status: status, updated_at: finishedAt }
+    });
+
+    return { scheduleId: schedule.id, runId: run.id, status, ...summary };
+}
+
+/**
+ * Move a due schedule's next_run_at forward before running it. The update only matches while
+ * next_run_at is unchanged, so when a timer and a worker overlap only one of them runs the schedule.
+ */
+async function claimSchedule(schedule, now) {
+    const nextRunAt = nextCronRun(schedule.cron, now);
+    const claimed = await supabaseRest(
+        `crawl_schedules?id=eq.${schedule.id}&next_run_at=eq.${encodeURIComponent(schedule.next_run_at)}`,
+        {
+            method: 'PATCH',
+            body: nextRunAt ? { next_run_at: nextRunAt.toISOString() } : { next_run_at: null, enabled: false },
+            prefer: 'return=representation'
+        }
+    );
+    return claimed.length > 0;
+}
+
+/**
+ * Run every enabled schedule whose next_run_at has passed, one after another
+ */
+async function runDueSchedules(log, now = new Date()) {
+    const due = await supabaseRest(
+        `crawl_schedules?enabled=eq.true&next_run_at=lte.${encodeURIComponent(now.toISOString())}&order=next_run_at.asc`
+    );
+    log(`${due.length} crawl schedules due`);
+
+    const runs = [];
+    for (const schedule of due) {
+        try {
+            if (!await claimSchedule(schedule, now)) {
+                log(`Schedule "${schedule.name}" was already claimed by another runner`);
+                continue;
+            }
+            runs.push(await runSchedule(schedule, log));
+        } catch (error) {
+            log.error(`Could not run schedule "${schedule.name}":`, error.message);
+        }
+    }
+    return runs;
+}
+
+module.exports = { runDueSchedules, runSchedule };
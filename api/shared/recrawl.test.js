@@ -0,0 +1,129 @@
+const { test, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+// recrawl.js picks its dependencies up when it is loaded, so they are replaced before requiring it
+const supabase = require('./supabase');
+const crawl4ai = require('./crawl4ai');
+const ingestion = require('./ingestion');
+const credentials = require('./credentials');
+const extraction = require('./extraction');
+const urlRules = require('./urlRules');
+
+let site; // Pages the fake Crawl4AI serves, by URL
+let storedRows; // Chunk-1 rows the fake crawled_pages table holds
+let deleted;
+let ingested;
+
+supabase.supabaseRest = async (path, { method = 'GET' } = {}) => {
+    if (method === 'POST' && path === 'crawl_schedule_runs') {
+        return [{ id: 'run-1' }];
+    }
+    if (method === 'DELETE') {
+        deleted.push(decodeURIComponent(path.split('url=eq.')[1]));
+        return null;
+    }
+    if (method === 'GET' && path.startsWith('crawled_pages?')) {
+        return storedRows;
+    }
+    return [];
+};
+crawl4ai.crawlUrls = async (urls) => urls.map(url => site[url] || { url, success: false, status_code: 404 });
+ingestion.ingestResult = async (result) => {
+    ingested.push(result.url);
+    return {};
+};
+credentials.loadCredentialProfile = async () => null;
+extraction.loadExtractionSchema = async () => null;
+urlRules.loadUrlRuleSet = async () => null;
+
+const { runSchedule } = require('./recrawl');
+
+const log = Object.assign(() => {}, { warn: () => {}, error: () => {} });
+
+function page(url, links = []) {
+    return { url, success: true, status_code: 200, markdown: { raw_markdown: `Content of ${url}` }, links: { internal: links } };
+}
+
+function schedule(options = {}) {
+    return { id: 'schedule-1', name: 'Docs', url: 'https://example.com/', crawl_type: 'smart_site', options };
+}
+
+beforeEach(() => {
+    site = {
+        'https://example.com/': page('https://example.com/', ['/a', '/private/x', '/guide.pdf']),
+        'https://example.com/a': page('https://example.com/a')
+    };
+    storedRows = [];
+    deleted = [];
+    ingested = [];
+});
+
+test('a complete run removes only pages this schedule saved that it no longer reaches', async () => {
+    storedRows = [
+        { url: 'https://example.com/a', content_hash: null, schedule_id: 'schedule-1' },
+        { url: 'https://example.com/old', content_hash: 'x', schedule_id: 'schedule-1' },
+        { url: 'https://example.com/saved-by-hand', content_hash: 'x', schedule_id: null },
+        { url: 'https://example.com/other-schedule', content_hash: 'x', schedule_id: 'schedule-2' },
+        { url: 'https://example.com/guide.pdf', content_hash: 'x', schedule_id: null },
+        { url: 'https://example.com/private/x', content_hash: 'x', schedule_id: null }
+    ];
+    const rules = { rules: [{ id: 'no-private', action: 'exclude', match: 'path_prefix', pattern: '/private/' }], queryParams: 'keep' };
+
+    const run = await runSchedule(schedule({ urlRules: rules }), log);
+
+    assert.equal(run.status, 'completed');
+    assert.deepEqual(run.removed, ['https://example.com/old']);
+    assert.deepEqual(deleted, ['https://example.com/old']);
+    assert.deepEqual(run.changed, ['https://example.com/a']);
+    assert.deepEqual(run.added, ['https://example.com/']);
+});
+
+test('pages that now return 404 are removed whoever saved them', async () => {
+    site['https://example.com/'] = page('https://example.com/', ['/a', '/gone']);
+    storedRows = [{ url: 'https://example.com/gone', content_hash: 'x', schedule_id: null }];
+
+    const run = await runSchedule(schedule(), log);
+
+    assert.deepEqual(run.removed, ['https://example.com/gone']);
+    assert.deepEqual(deleted, ['https://example.com/gone']);
+});
+
+test('an incomplete run removes nothing it did not see gone', async () => {
+    storedRows = [{ url: 'https://example.com/old', content_hash: 'x', schedule_id: 'schedule-1' }];
+
+    const run = await runSchedule(schedule({ maxPages: 1 }), log);
+
+    assert.equal(run.pages_crawled, 1);
+    assert.deepEqual(run.removed, []);
+    assert.deepEqual(deleted, []);
+});
+
+test('unchanged pages are not re-embedded', async () => {
+    const { contentHash } = require('./contentHash');
+    storedRows = [{ url: 'https://example.com/a', content_hash: contentHash('Content of https://example.com/a'), schedule_id: 'schedule-1' }];
+
+    const run = await runSchedule(schedule(), log);
+
+    assert.equal(run.unchanged_count, 1);
+    assert.deepEqual(ingested, ['https://example.com/']);
+});
+
+test('pages embedded by another provider are re-embedded even when unchanged', async () => {
+    const { contentHash } = require('./contentHash');
+    const hash = contentHash('Content of https://example.com/a');
+    storedRows = [{ url: 'https://example.com/a', content_hash: hash, schedule_id: 'schedule-1', embedding_provider: 'openai', embedding_model: 'text-embedding-3-small' }];
+
+    const run = await runSchedule(schedule({ embeddingProvider: 'hashing' }), log);
+    assert.deepEqual(run.changed, ['https://example.com/a']);
+
+    storedRows = [{ url: 'https://example.com/a', content_hash: hash, schedule_id: 'schedule-1', embedding_provider: 'hashing', embedding_model: 'hashing-1536' }];
+    const again = await runSchedule(schedule({ embeddingProvider: 'hashing' }), log);
+    assert.equal(again.unchanged_count, 1);
+});
+
+test('tables outside PAGE_TABLES fail the run', async () => {
+    const run = await runSchedule(schedule({ table: 'credential_profiles' }), log);
+
+    assert.equal(run.status, 'failed');
+    assert.deepEqual(ingested, []);
+});
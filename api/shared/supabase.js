@@ -0,0 +1,69 @@
+/**
+ * Minimal Supabase REST (PostgREST) client using the service-role key.
+ * The service role bypasses RLS, so this must only ever run server-side.
+ */
+const SUPABASE_URL = (process.env.SUPABASE_URL || '').replace(/\/+$/, '');
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+function isSupabaseConfigured() {
+    return !!(SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY);
+}
+
+/**
+ * Call /rest/v1/{path}. Throws with the PostgREST error message on non-2xx responses.
+ */
+async function supabaseRest(path, { method = 'GET', body, prefer } = {}) {
+    const headers = {
+        'apikey': SUPABASE_SERVICE_ROLE_KEY,
+        'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+        'Content-Type': 'application/json'
+    };
+    if (prefer) {
+        headers['Prefer'] = prefer;
+    }
+
+    const response = await fetch(`${SUPABASE_URL}/rest/v1/${path}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+    const text = await response.text();
+    let data = null;
+    try {
+        data = text ? JSON.parse(text) : null;
+    } catch {
+        data = { message: text };
+    }
+
+    if (!response.ok) {
+        const message = (data && (data.message || data.error)) || response.statusText;
+        throw new Error(`Supabase ${method} ${path.split('?')[0]} failed (${response.status}): ${message}`);
+    }
+
+    return data;
+}
+
+/**
+ * Upload a file to Storage at {bucket}/{path} and return its public URL
+ */
+async function supabaseStorageUpload(bucket, path, buffer, contentType) {
+    const response = await fetch(`${SUPABASE_URL}/storage/v1/object/${bucket}/${path}`, {
+        method: 'POST',
+        headers: {
+            'apikey': SUPABASE_SERVICE_ROLE_KEY,
+            'Authorization': `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+            'Content-Type': contentType
+        },
+        body: buffer
+    });
+
+    if (!response.ok) {
+        const text = await response.text();
+        throw new Error(`Supabase Storage upload to ${bucket} failed (${response.status}): ${text || response.statusText}`);
+    }
+
+    return `${SUPABASE_URL}/storage/v1/object/public/${bucket}/${path}`;
+}
+
+module.exports = { isSupabaseConfigured, supabaseRest, supabaseStorageUpload };
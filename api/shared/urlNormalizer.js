@@ -0,0 +1,133 @@
+/**
+ * URL normalization and canonicalization for recrawls and server ingestion.
+ * Rules come from the URL_NORMALIZATION app setting (comma-separated, empty = all, "none" = off) and
+ * should match the browser's VITE_URL_NORMALIZATION. Must match src/services/urlNormalizer.ts.
+ */
+const URL_NORMALIZATION_RULES = [
+    'drop_fragment',
+    'strip_tracking_params',
+    'sort_query',
+    'strip_www',
+    'strip_trailing_slash',
+    'follow_canonical'
+];
+
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|twclid|igshid|mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi|mkt_tok)$/i;
+
+function parseNormalizationRules(value) {
+    if (!value || !value.trim()) {
+        return new Set(URL_NORMALIZATION_RULES);
+    }
+    return new Set(
+        value.split(',')
+            .map(rule => rule.trim().toLowerCase())
+            .filter(rule => URL_NORMALIZATION_RULES.includes(rule))
+    );
+}
+
+const activeRules = parseNormalizationRules(process.env.URL_NORMALIZATION);
+
+function hostKey(hostname, rules = activeRules) {
+    const host = hostname.toLowerCase();
+    return rules.has('strip_www') && host.startsWith('www.') && host.split('.').length > 2 ? host.slice(4) : host;
+}
+
+function sameSite(url, otherUrl, rules = activeRules) {
+    try {
+        return hostKey(new URL(url).hostname, rules) === hostKey(new URL(otherUrl).hostname, rules);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Normalize a URL for dedupe and storage. Invalid URLs are returned unchanged.
+ */
+function normalizeUrl(url, rules = activeRules) {
+    try {
+        const parsed = new URL(url);
+        if (rules.has('drop_fragment')) {
+            parsed.hash = '';
+        }
+        if (rules.has('strip_tracking_params')) {
+            for (const key of Array.from(parsed.searchParams.keys())) {
+                if (TRACKING_PARAMS.test(key)) {
+                    parsed.searchParams.delete(key);
+                }
+            }
+        }
+        if (rules.has('sort_query')) {
+            parsed.searchParams.sort();
+        }
+        if (!parsed.searchParams.toString()) {
+            parsed.search = '';
+        }
+        parsed.hostname = hostKey(parsed.hostname, rules);
+        if (rules.has('strip_trailing_slash') && parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+            parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+        }
+        return parsed.toString();
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Normalize a URL that is going to be fetched, keeping the host as it was linked
+ */
+function cleanUrl(url, rules = activeRules) {
+    const fetchRules = new Set(rules);
+    fetchRules.delete('strip_www');
+    return normalizeUrl(url, fetchRules);
+}
+
+function tagAttribute(tag, name) {
+    const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+    return match ? match[1] ?? match[2] ?? match[3] : null;
+}
+
+/**
+ * The absolute rel=canonical URL declared in a page's <head>, or null if it declares none
+ */
+function canonicalLink(html, pageUrl) {
+    const headEnd = html.search(/<\/head>/i);
+    const head = headEnd >= 0 ? html.slice(0, headEnd) : html;
+
+    for (const tag of head.match(/<link\b[^>]*>/gi) || []) {
+        const rel = (tagAttribute(tag, 'rel') || '').toLowerCase().split(/\s+/);
+        const href = tagAttribute(tag, 'href');
+        if (rel.includes('canonical') && href) {
+            try {
+                return new URL(href, pageUrl).toString();
+            } catch {
+                return null;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * The normalized URL a raw Crawl4AI page result is stored under - its same-site rel=canonical URL
+ * when follow_canonical is on, otherwise the URL it was crawled at
+ */
+function canonicalPageUrl(page, rules = activeRules) {
+    const url = normalizeUrl(String(page.url || ''), rules);
+    if (!rules.has('follow_canonical') || typeof page.html !== 'string') {
+        return url;
+    }
+
+    const canonical = canonicalLink(page.html, url);
+    return canonical && sameSite(canonical, url, rules) ? normalizeUrl(canonical, rules) : url;
+}
+
+module.exports = {
+    URL_NORMALIZATION_RULES,
+    parseNormalizationRules,
+    hostKey,
+    sameSite,
+    normalizeUrl,
+    cleanUrl,
+    canonicalLink,
+    canonicalPageUrl
+};
@@ -0,0 +1,174 @@
+/**
+ * Include/exclude URL rules for scheduled recrawls: the schedule's own rule set, else the one saved
+ * for the domain in url_rule_sets, else the defaults. Must match src/services/urlRules.ts.
+ */
+const { supabaseRest } = require('./supabase');
+const { extractionDomain } = require('./extraction');
+
+const DEFAULT_URL_RULE_SET = {
+    rules: [
+        { id: 'auth-pages', action: 'exclude', match: 'regex', pattern: '/(login|register|signup|signin|auth)' },
+        { id: 'commerce-pages', action: 'exclude', match: 'regex', pattern: '/(cart|checkout|payment|billing)' },
+        { id: 'admin-pages', action: 'exclude', match: 'regex', pattern: '/(admin|wp-admin)' },
+        { id: 'static-files', action: 'exclude', match: 'regex', pattern: '\\.(css|js|json|txt|xml)$' },
+        { id: 'content-sections', action: 'boost', match: 'regex', pattern: '/(docs|documentation|api|guide|tutorial|blog|news|product)', boost: 1 }
+    ],
+    queryParams: 'keep'
+};
+
+const NO_INCLUDE_MATCH_RULE_ID = 'no_include_match';
+const QUERY_PARAMS_RULE_ID = 'query_params';
+
+function globToRegExp(glob) {
+    const source = glob
+        .split('**')
+        .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+        .join('.*');
+    return new RegExp(`^${source}$`, 'i');
+}
+
+function validateUrlRule(rule) {
+    if (!rule.id || !rule.id.trim()) {
+        return 'Every rule needs an id';
+    }
+    if (!rule.pattern || !rule.pattern.trim()) {
+        return 'The pattern is empty';
+    }
+    if (rule.match === 'path_prefix' && !rule.pattern.startsWith('/')) {
+        return 'Path prefixes start with /';
+    }
+    if (rule.match === 'regex') {
+        try {
+            new RegExp(rule.pattern);
+        } catch (error) {
+            return `Invalid regex: ${error.message}`;
+        }
+    }
+    return null;
+}
+
+function compileRule(rule) {
+    switch (rule.match) {
+        case 'regex': {
+            const pattern = new RegExp(rule.pattern, 'i');
+            return { rule, test: url => pattern.test(url.toString()) };
+        }
+        case 'glob': {
+            const pattern = globToRegExp(rule.pattern);
+            return { rule, test: url => pattern.test(url.pathname + url.search) };
+        }
+        default: {
+            const prefix = rule.pattern.toLowerCase();
+            return { rule, test: url => url.pathname.toLowerCase().startsWith(prefix) };
+        }
+    }
+}
+
+/**
+ * Compiled rule set with check(url), boost(url) and rewrite(url). Invalid rules are left out.
+ */
+function createUrlRuleMatcher(ruleSet = DEFAULT_URL_RULE_SET, log = console) {
+    const includes = [];
+    const excludes = [];
+    const boosts = [];
+    for (const rule of ruleSet.rules || []) {
+        const problem = validateUrlRule(rule);
+        if (problem) {
+            log.warn(`Ignoring URL rule "${rule.id}": ${problem}`);
+            continue;
+        }
+        (rule.action === 'include' ? includes : rule.action === 'exclude' ? excludes : boosts).push(compileRule(rule));
+    }
+    const queryParams = ruleSet.queryParams || 'keep';
+    const allowedQueryParams = new Set((ruleSet.allowedQueryParams || []).map(param => param.toLowerCase()));
+
+    function rewrite(url) {
+        if (queryParams !== 'strip') {
+            return url;
+        }
+        try {
+            const parsed = new URL(url);
+            for (const key of Array.from(parsed.searchParams.keys())) {
+                if (!allowedQueryParams.has(key.toLowerCase())) {
+                    parsed.searchParams.delete(key);
+                }
+            }
+            if (!parsed.searchParams.toString()) {
+                parsed.search = '';
+            }
+            return parsed.toString();
+        } catch {
+            return url;
+        }
+    }
+
+    function check(url) {
+        let parsed;
+        try {
+            parsed = new URL(url);
+        } catch {
+            return { allowed: false, ruleId: NO_INCLUDE_MATCH_RULE_ID };
+        }
+
+        const excluded = excludes.find(compiled => compiled.test(parsed));
+        if (excluded) {
+            return { allowed: false, ruleId: excluded.rule.id };
+        }
+        if (queryParams === 'exclude' && Array.from(parsed.searchParams.keys()).some(key => !allowedQueryParams.has(key.toLowerCase()))) {
+            return { allowed: false, ruleId: QUERY_PARAMS_RULE_ID };
+        }
+        if (includes.length > 0 && !includes.some(compiled => compiled.test(parsed))) {
+            return { allowed: false, ruleId: NO_INCLUDE_MATCH_RULE_ID };
+        }
+        return { allowed: true };
+    }
+
+    function boost(url) {
+        try {
+            const parsed = new URL(url);
+            return boosts
+                .filter(compiled => compiled.test(parsed))
+                .reduce((total, compiled) => total + (compiled.rule.boost ?? 1), 0);
+        } catch {
+            return 0;
+        }
+    }
+
+    return { check, boost, rewrite };
+}
+
+/**
+ * The url_rule_sets row saved for a URL's domain as a rule set, or null. A missing table only means
+ * the defaults are used.
+ */
+async function loadUrlRuleSet(url, log) {
+    const domain = extractionDomain(url);
+    if (!domain) {
+        return null;
+    }
+
+    try {
+        const [row] = await supabaseRest(`url_rule_sets?domain=eq.${encodeURIComponent(domain)}`);
+        if (!row) {
+            return null;
+        }
+        log(`Using URL rules saved for ${domain}`);
+        return {
+            rules: row.rules || [],
+            queryParams: row.query_params || 'keep',
+            allowedQueryParams: row.allowed_query_params || undefined
+        };
+    } catch (error) {
+        log.warn('Could not load URL rules, using the defaults:', error.message);
+        return null;
+    }
+}
+
+module.exports = {
+    DEFAULT_URL_RULE_SET,
+    NO_INCLUDE_MATCH_RULE_ID,
+    QUERY_PARAMS_RULE_ID,
+    validateUrlRule,
+    createUrlRuleMatcher,
+    loadUrlRuleSet
+};
@@ -0,0 +1,173 @@
+const zlib = require('zlib');
+const { requireRole } = require('../shared/auth');
+const { BlockedUrlError, parseHttpUrl, fetchPublic } = require('../shared/publicFetch');
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_BYTES = 512 * 1024; // robots.txt parsers only need the first 500 KiB (RFC 9309)
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024; // sitemaps.org limit for an uncompressed sitemap
+const USER_AGENT = process.env.CRAWL4AI_USER_AGENT || 'Crawl4AI';
+// Carries the site's own status on passed-through responses, so callers can tell it from this function's errors.
+// Must match SITE_STATUS_HEADER in src/services/robots.ts.
+const SITE_STATUS_HEADER = 'X-Site-Status';
+// Child sitemaps listed by the sitemap indexes fetched for a site, by site host. An index may point at
+// sitemaps on another host (e.g. a CDN) that robots.txt doesn't list. Kept per instance for an hour.
+const INDEX_CHILDREN_TTL_MS = 60 * 60 * 1000;
+const MAX_INDEX_CHILDREN = 50000; // sitemaps.org limit for one index
+const indexChildren = new Map();
+
+async function fetchRobots(url) {
+    const { status, buffer } = await fetchPublic(new URL('/robots.txt', url.origin), {
+        maxBytes: MAX_BYTES,
+        truncate: true,
+        timeoutMs: FETCH_TIMEOUT_MS,
+        headers: { 'User-Agent': USER_AGENT }
+    });
+    return { status, body: buffer.toString('utf8') };
+}
+
+function decodeXml(value) {
+    return value
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&')
+        .trim();
+}
+
+/**
+ * The child sitemap URLs of a <sitemapindex>, or none for a <urlset>. Must match parseSitemap in
+ * src/services/sitemap.ts.
+ */
+function sitemapIndexChildren(xml) {
+    if (!/<(?:\w+:)?sitemapindex[\s>]/i.test(xml)) {
+        return [];
+    }
+    return (xml.match(/<(?:\w+:)?sitemap[\s>][\s\S]*?<\/(?:\w+:)?sitemap>/gi) || [])
+        .map(block => block.match(/<(?:\w+:)?loc(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?loc>/i))
+        .map(match => match && parseHttpUrl(decodeXml(match[1])))
+        .filter(Boolean)
+        .map(url => url.href);
+}
+
+/**
+ * Allow the child sitemaps of a fetched sitemap index for the site
+ */
+function rememberIndexChildren(siteUrl, xml) {
+    const children = sitemapIndexChildren(xml);
+    if (children.length === 0) {
+        return;
+    }
+
+    const now = Date.now();
+    for (const [host, entry] of indexChildren) {
+        if (entry.expiresAt <= now) {
+            indexChildren.delete(host);
+        }
+    }
+    const entry = indexChildren.get(siteUrl.hostname) || { urls: new Set() };
+    children.slice(0, Math.max(0, MAX_INDEX_CHILDREN - entry.urls.size)).forEach(url => entry.urls.add(url));
+    entry.expiresAt = now + INDEX_CHILDREN_TTL_MS;
+    indexChildren.set(siteUrl.hostname, entry);
+}
+
+function isIndexChild(sitemapUrl, siteUrl) {
+    const entry = indexChildren.get(siteUrl.hostname);
+    return !!entry && entry.expiresAt > Date.now() && entry.urls.has(sitemapUrl.href);
+}
+
+/**
+ * Whether a sitemap belongs to the crawled site: it is on the site's host, listed in its robots.txt or
+ * listed by a sitemap index fetched for the site
+ */
+async function isSiteSitemap(sitemapUrl, siteUrl) {
+    if (sitemapUrl.hostname === siteUrl.hostname || isIndexChild(sitemapUrl, siteUrl)) {
+        return true;
+    }
+
+    const { status, body } = await fetchRobots(siteUrl);
+    if (status >= 400) {
+        return false;
+    }
+    return body.split(/\r?\n/)
+        .map(line => line.match(/^\s*sitemap\s*:\s*(\S+)/i))
+        .some(match => match && (parseHttpUrl(match[1]) || {}).href === sitemapUrl.href);
+}
+
+async function fetchSitemap(url) {
+    let { status, buffer } = await fetchPublic(url, {
+        maxBytes: MAX_SITEMAP_BYTES,
+        timeoutMs: FETCH_TIMEOUT_MS,
+        headers: { 'User-Agent': USER_AGENT }
+    });
+
+    // .xml.gz sitemaps arrive as raw gzip bytes (fetch only decodes Content-Encoding)
+    if (buffer[0] === 0x1f && buffer[1] === 0x8b) {
+        buffer = zlib.gunzipSync(buffer, { maxOutputLength: MAX_SITEMAP_BYTES });
+    }
+    if (buffer.length > MAX_SITEMAP_BYTES) {
+        throw new Error('Sitemap exceeds 50 MB');
+    }
+
+    return { status, body: buffer.toString('utf8') };
+}
+
+/**
+ * Fetches crawl-policy files from target sites server-side, where CORS does not apply.
+ *   GET /api/site/robots?url={origin}  -> {origin}/robots.txt
+ *   GET /api/site/sitemap?url={sitemap}&site={start URL} -> the sitemap XML, gunzipped when needed.
+ *     Only sitemaps on the site's host, listed in its robots.txt or listed by a sitemap index fetched
+ *     for the site are fetched.
+ * Upstream status codes are passed through, and repeated in X-Site-Status. Hosts that resolve to private, loopback or link-local
+ * addresses are refused, also after a redirect (see ../shared/publicFetch).
+ */
+module.exports = async function (context, req) {
+    const principal = requireRole(context, req, 'authenticated');
+    if (!principal) {
+        return;
+    }
+
+    const kind = context.bindingData.kind;
+    const url = parseHttpUrl(req.query.url);
+
+    if (!url) {
+        context.res = { status: 400, body: { error: 'Query parameter url must be an http(s) URL' } };
+        return;
+    }
+
+    try {
+        if (kind === 'robots') {
+            const { status, body } = await fetchRobots(url);
+            context.res = { status, body, headers: { 'Content-Type': 'text/plain', [SITE_STATUS_HEADER]: String(status) } };
+            return;
+        }
+
+        if (kind === 'sitemap') {
+            const site = parseHttpUrl(req.query.site);
+            if (!site || !(await isSiteSitemap(url, site))) {
+                context.res = { status: 403, body: { error: 'Only sitemaps on the site\'s host, listed in its robots.txt or listed by its sitemap index can be fetched' } };
+                return;
+            }
+            const { status, body } = await fetchSitemap(url);
+            if (status < 400) {
+                rememberIndexChildren(site, body);
+            }
+            context.res = { status, body, headers: { 'Content-Type': 'application/xml', [SITE_STATUS_HEADER]: String(status) } };
+            return;
+        }
+
+        context.res = { status: 404, body: { error: `Unsupported site file: ${kind}` } };
+    } catch (error) {
+        if (error instanceof BlockedUrlError) {
+            context.res = { status: 403, body: { error: error.message } };
+            return;
+        }
+        const timedOut = error.name === 'AbortError';
+        context.log.error(`Fetching ${kind} for ${url.href} failed:`, error.message);
+        context.res = {
+            status: timedOut ? 504 : 502,
+            body: { error: timedOut ? `${kind} request timed out` : `${kind} request failed: ${error.message}` }
+        };
+    }
+};
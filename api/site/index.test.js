@@ -0,0 +1,71 @@
+const { test, beforeEach } = require('node:test');
+const assert = require('node:assert/strict');
+
+// The function picks its dependencies up when it is loaded, so they are replaced before requiring it
+const auth = require('../shared/auth');
+const publicFetch = require('../shared/publicFetch');
+
+let files; // Bodies the fake web serves, by URL
+let fetched;
+
+auth.requireRole = () => ({ userDetails: 'tester' });
+publicFetch.fetchPublic = async (url) => {
+    fetched.push(url.href);
+    const body = files[url.href];
+    return { status: body === undefined ? 404 : 200, buffer: Buffer.from(body || ''), url };
+};
+
+const site = require('./index');
+
+const INDEX = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://cdn.example.net/sitemaps/pages-1.xml</loc></sitemap>
+  <sitemap><loc><![CDATA[https://cdn.example.net/sitemaps/pages-2.xml?v=1&amp;x=2]]></loc></sitemap>
+</sitemapindex>`;
+
+async function get(kind, query) {
+    const context = { bindingData: { kind }, log: Object.assign(() => {}, { warn: () => {}, error: () => {} }) };
+    await site(context, { method: 'GET', query });
+    return context.res;
+}
+
+const sitemap = (url) => get('sitemap', { url, site: 'https://example.com/' });
+
+beforeEach(() => {
+    files = {
+        'https://example.com/robots.txt': 'User-agent: *\nSitemap: https://cdn.example.net/sitemap-index.xml',
+        'https://cdn.example.net/sitemap-index.xml': INDEX,
+        'https://cdn.example.net/sitemaps/pages-1.xml': '<urlset><url><loc>https://example.com/a</loc></url></urlset>',
+        'https://cdn.example.net/sitemaps/pages-2.xml?v=1&x=2': '<urlset></urlset>',
+        'https://cdn.example.net/unlisted.xml': '<urlset></urlset>'
+    };
+    fetched = [];
+});
+
+test('robots.txt passes the site status through in X-Site-Status', async () => {
+    const found = await get('robots', { url: 'https://example.com' });
+    assert.equal(found.status, 200);
+    assert.equal(found.headers['X-Site-Status'], '200');
+
+    const missing = await get('robots', { url: 'https://other.example.org' });
+    assert.equal(missing.status, 404);
+    assert.equal(missing.headers['X-Site-Status'], '404');
+});
+
+test('sitemaps off the site host are refused unless robots.txt or a fetched index lists them', async () => {
+    assert.equal((await sitemap('https://cdn.example.net/sitemaps/pages-1.xml')).status, 403);
+    assert.equal((await sitemap('https://cdn.example.net/sitemap-index.xml')).status, 200);
+
+    assert.equal((await sitemap('https://cdn.example.net/sitemaps/pages-1.xml')).status, 200);
+    assert.equal((await sitemap('https://cdn.example.net/sitemaps/pages-2.xml?v=1&x=2')).status, 200);
+    assert.equal((await sitemap('https://cdn.example.net/unlisted.xml')).status, 403);
+    assert.equal(fetched.includes('https://cdn.example.net/unlisted.xml'), false);
+});
+
+test("an index's children are only allowed for the site it was fetched for", async () => {
+    files['https://other.example.org/robots.txt'] = '';
+    await sitemap('https://cdn.example.net/sitemap-index.xml');
+
+    const other = await get('sitemap', { url: 'https://cdn.example.net/sitemaps/pages-1.xml', site: 'https://other.example.org/' });
+    assert.equal(other.status, 403);
+});
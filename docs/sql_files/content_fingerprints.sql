@@ -0,0 +1,17 @@
+-- Content fingerprints for deduplication
+-- Run this in your Supabase SQL editor (repeat for each crawled_pages-shaped table you save into).
+-- Chunk 1 of every saved page carries metadata.content_hash (SHA-256 of the normalized content) and,
+-- for pages long enough to compare, metadata.simhash split into four simhash_bands. Saves look pages up
+-- by hash to skip unchanged ones, and by band to find near-duplicates, which get metadata.canonical_url.
+-- A page only counts as unchanged if metadata.embedding_provider / embedding_model also match the current
+-- provider; pages whose embedding failed are saved without a hash, so the next save embeds them again.
+
+create index if not exists idx_crawled_pages_content_hash on crawled_pages ((metadata->>'content_hash')) where chunk_number = 1;
+
+create index if not exists idx_crawled_pages_simhash_band_0 on crawled_pages ((metadata->'simhash_bands'->>0)) where chunk_number = 1;
+create index if not exists idx_crawled_pages_simhash_band_1 on crawled_pages ((metadata->'simhash_bands'->>1)) where chunk_number = 1;
+create index if not exists idx_crawled_pages_simhash_band_2 on crawled_pages ((metadata->'simhash_bands'->>2)) where chunk_number = 1;
+create index if not exists idx_crawled_pages_simhash_band_3 on crawled_pages ((metadata->'simhash_bands'->>3)) where chunk_number = 1;
+
+-- Pages linked to a canonical URL, e.g. for listing duplicates of a page
+create index if not exists idx_crawled_pages_canonical_url on crawled_pages ((metadata->>'canonical_url')) where chunk_number = 1;
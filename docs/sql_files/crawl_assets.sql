@@ -0,0 +1,43 @@
+-- Asset inventory of crawls
+-- Run this in your Supabase SQL editor. Crawls with "Collect assets" turned on record every linked document,
+-- image, video, audio file and download here instead of skipping it, once per crawl, with the page it was
+-- first found on. Size and content type come from a HEAD request and stay null when the host refuses it.
+
+create table if not exists crawl_assets (
+    id uuid primary key default gen_random_uuid(),
+    job_id text not null,  -- The crawl's job id (crawl_jobs.id for smart crawls)
+    url text not null,
+    type text not null check (type in ('document', 'image', 'video', 'audio', 'archive', 'installer')),
+    extension text,
+    source_url text not null,
+    text text,  -- Anchor text of a link, alt text of an image
+    size_bytes bigint,
+    content_type text,
+    converted_at timestamp with time zone,  -- "Convert documents": saved as a markdown page in the crawl's table
+    conversion_error text,
+    created_at timestamp with time zone not null default now(),
+    unique (job_id, url)
+);
+
+create index if not exists idx_crawl_assets_source on crawl_assets (source_url);
+create index if not exists idx_crawl_assets_type on crawl_assets (type, created_at desc);
+
+-- Enable RLS (Row Level Security). Crawls in the browser upsert the inventory with the anon key and the
+-- Assets view reads it; rows are never deleted from the browser.
+alter table crawl_assets enable row level security;
+
+drop policy if exists "Allow public read access to crawl_assets" on crawl_assets;
+create policy "Allow public read access to crawl_assets" on crawl_assets
+    for select to public
+    using (true);
+
+drop policy if exists "Allow public insert access to crawl_assets" on crawl_assets;
+create policy "Allow public insert access to crawl_assets" on crawl_assets
+    for insert to public
+    with check (true);
+
+drop policy if exists "Allow public update access to crawl_assets" on crawl_assets;
+create policy "Allow public update access to crawl_assets" on crawl_assets
+    for update to public
+    using (true)
+    with check (true);
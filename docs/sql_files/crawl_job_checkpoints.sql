@@ -0,0 +1,30 @@
+-- Resumable crawl jobs
+-- Run this in your Supabase SQL editor on databases created from an older database-schema.sql.
+-- Smart crawls save a checkpoint (frontier + progress) on crawl_jobs after every batch and record
+-- each page in crawl_results, so an interrupted crawl can be resumed and failed pages retried.
+
+-- Frontier snapshot and progress (CrawlCheckpoint)
+alter table crawl_jobs add column if not exists checkpoint jsonb;
+
+-- Drop duplicate page rows so the unique constraint can be created, keeping the newest row
+delete from crawl_results a
+using crawl_results b
+where a.job_id = b.job_id
+  and a.url = b.url
+  and a.created_at < b.created_at;
+
+-- One row per page of a job; retries upsert on (job_id, url)
+do $$
+begin
+    if not exists (
+        select 1 from pg_constraint where conname = 'crawl_results_job_id_url_key'
+    ) then
+        alter table crawl_results
+            add constraint crawl_results_job_id_url_key unique (job_id, url);
+    end if;
+end $$;
+
+-- Cancelled jobs are told apart from failed ones, so History offers to resume them
+alter table crawl_jobs drop constraint if exists crawl_jobs_status_check;
+alter table crawl_jobs
+    add constraint crawl_jobs_status_check check (status in ('pending', 'running', 'completed', 'failed', 'cancelled'));
@@ -0,0 +1,72 @@
+-- Scheduled recrawls
+-- Run this in your Supabase SQL editor. Schedules are saved crawl recipes (URL, crawl type, options)
+-- with a cron expression; api/recrawl (or `npm run recrawl` in api/) runs the due ones, re-embeds only
+-- pages whose content hash changed and records what was added, changed and removed.
+
+create table if not exists crawl_schedules (
+    id uuid primary key default gen_random_uuid(),
+    name text not null,
+    url text not null,
+    crawl_type text not null default 'smart_site' check (crawl_type in ('single', 'smart_site')),
+    options jsonb not null default '{}'::jsonb,  -- maxDepth, maxPages, table, embeddingProvider, embeddingModel
+    cron text not null,  -- Five fields, UTC
+    enabled boolean not null default true,
+    next_run_at timestamp with time zone,
+    last_run_at timestamp with time zone,
+    last_run_status text check (last_run_status in ('running', 'completed', 'failed')),
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now()
+);
+
+create index if not exists idx_crawl_schedules_due on crawl_schedules (next_run_at) where enabled;
+
+create table if not exists crawl_schedule_runs (
+    id uuid primary key default gen_random_uuid(),
+    schedule_id uuid not null references crawl_schedules(id) on delete cascade,
+    status text not null default 'running' check (status in ('running', 'completed', 'failed')),
+    pages_crawled integer not null default 0,
+    added jsonb not null default '[]'::jsonb,    -- URLs saved for the first time
+    changed jsonb not null default '[]'::jsonb,  -- URLs whose content hash changed (re-embedded)
+    removed jsonb not null default '[]'::jsonb,  -- URLs that are gone (404/410, or saved by this schedule and no longer linked); their rows are deleted
+    failed jsonb not null default '[]'::jsonb,   -- URLs that could not be crawled this time; their rows are kept
+    unchanged_count integer not null default 0,
+    error text,
+    started_at timestamp with time zone not null default now(),
+    finished_at timestamp with time zone
+);
+
+create index if not exists idx_crawl_schedule_runs_schedule on crawl_schedule_runs (schedule_id, started_at desc);
+
+-- Each page's content hash is stored on chunk 1 (metadata.content_hash); index it for lookups by hash
+create index if not exists idx_crawled_pages_content_hash on crawled_pages ((metadata->>'content_hash')) where chunk_number = 1;
+
+-- Enable RLS (Row Level Security). The browser manages schedules with the anon key and only reads runs;
+-- api/recrawl records runs and updates schedules with the service role, which bypasses RLS.
+alter table crawl_schedules enable row level security;
+alter table crawl_schedule_runs enable row level security;
+
+drop policy if exists "Allow public read access to crawl_schedules" on crawl_schedules;
+create policy "Allow public read access to crawl_schedules" on crawl_schedules
+    for select to public
+    using (true);
+
+drop policy if exists "Allow public insert access to crawl_schedules" on crawl_schedules;
+create policy "Allow public insert access to crawl_schedules" on crawl_schedules
+    for insert to public
+    with check (true);
+
+drop policy if exists "Allow public update access to crawl_schedules" on crawl_schedules;
+create policy "Allow public update access to crawl_schedules" on crawl_schedules
+    for update to public
+    using (true)
+    with check (true);
+
+drop policy if exists "Allow public delete access to crawl_schedules" on crawl_schedules;
+create policy "Allow public delete access to crawl_schedules" on crawl_schedules
+    for delete to public
+    using (true);
+
+drop policy if exists "Allow public read access to crawl_schedule_runs" on crawl_schedule_runs;
+create policy "Allow public read access to crawl_schedule_runs" on crawl_schedule_runs
+    for select to public
+    using (true);
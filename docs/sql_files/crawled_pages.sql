@@ -2,6 +2,8 @@
 create extension if not exists vector;
 
 -- Create the documentation chunks table
+-- Each page is split into chunks; every chunk is stored as its own row with its own embedding.
+-- Page-level metadata (title, markdown variants) lives on chunk_number = 1.
 create table crawled_pages (
     id bigserial primary key,
     url varchar not null,
@@ -65,17 +67,6 @@ create policy "Allow public read access"
   to public
   using (true);
 
--- Create a policy that allows anyone to insert
-create policy "Allow public insert access"
-  on crawled_pages
-  for insert
-  to public
-  with check (true);
-
--- Create a policy that allows anyone to update
-create policy "Allow public update access"
-  on crawled_pages
-  for update
-  to public
-  using (true)
-  with check (true);
\ No newline at end of file
+-- Writes go through the /api/ingest function, which uses the service-role key and bypasses RLS,
+-- so no insert/update policies are created here. If you still ingest from the browser
+-- (VITE_INGEST_MODE=browser), run fix_crawled_pages_rls.sql to re-open writes.
\ No newline at end of file
@@ -0,0 +1,29 @@
+-- Credential profiles for crawling sites behind a login
+-- Run this in your Supabase SQL editor. A profile is saved per domain (hostname) and injected into the
+-- browser_config (and crawler_config js_code for a login script) of every crawl request for that domain
+-- by the /api/crawl proxy and scheduled recrawls. The values are secrets: only the service role used by
+-- the Azure Functions (/api/credentials, /api/crawl, api/recrawl) can read or write the table.
+
+create table if not exists credential_profiles (
+    domain text primary key,
+    name text not null,
+    cookies jsonb not null default '[]'::jsonb,  -- [{ name, value, path? }], set for the profile's domain
+    headers jsonb not null default '{}'::jsonb,  -- { "Authorization": "Bearer ..." }
+    local_storage jsonb not null default '{}'::jsonb,  -- { key: value } seeded for the domain's https origin
+    login_script text,  -- JavaScript run on each page before extraction, e.g. filling in a login form
+    login_wait_for text,  -- Selector or JS condition that signals the login script has finished
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now()
+);
+
+-- Enable RLS (Row Level Security) with a policy for the service role only, and take away the table
+-- privileges Supabase grants the anon and authenticated roles by default
+alter table credential_profiles enable row level security;
+
+drop policy if exists "Allow service role access to credential_profiles" on credential_profiles;
+create policy "Allow service role access to credential_profiles" on credential_profiles
+    for all to service_role
+    using (true)
+    with check (true);
+
+revoke all on credential_profiles from anon, authenticated;
@@ -10,7 +10,8 @@ CREATE EXTENSION IF NOT EXISTS "vector";
 CREATE TABLE crawl_jobs (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     config JSONB NOT NULL, -- Stores CrawlConfig object
-    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+    checkpoint JSONB, -- Frontier snapshot and progress saved after every batch (CrawlCheckpoint)
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE -- For user-specific jobs when auth is implemented
@@ -36,7 +37,9 @@ CREATE TABLE crawl_results (
     -- Full text search index
     content_search TSVECTOR GENERATED ALWAYS AS (
         to_tsvector('english', COALESCE(content, '') || ' ' || COALESCE(markdown, ''))
-    ) STORED
+    ) STORED,
+
+    UNIQUE(job_id, url) -- One row per page of a job; retries update it in place
 );
 
 -- Content Embeddings Table
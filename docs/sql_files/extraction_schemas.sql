@@ -0,0 +1,47 @@
+-- Structured extraction schemas
+-- Run this in your Supabase SQL editor. A schema is saved per domain (hostname) and sent with every crawl
+-- of that domain - including scheduled recrawls - as Crawl4AI's JsonCssExtractionStrategy (or
+-- JsonXPathExtractionStrategy), or as its LLMExtractionStrategy in 'llm' mode. The structured results
+-- are stored on chunk 1 as metadata.extracted_data.
+
+create table if not exists extraction_schemas (
+    domain text primary key,
+    name text not null,
+    mode text not null default 'selectors' check (mode in ('selectors', 'llm')),
+    selector_type text not null default 'css' check (selector_type in ('css', 'xpath')),
+    base_selector text,  -- Required in 'selectors' mode
+    fields jsonb not null default '[]'::jsonb,  -- [{ name, selector, type: text | attribute | html, attribute? }]
+    llm_config jsonb,  -- 'llm' mode: { provider, instruction, outputSchema }
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now()
+);
+
+-- Tables created before LLM extraction was added
+alter table extraction_schemas add column if not exists mode text not null default 'selectors' check (mode in ('selectors', 'llm'));
+alter table extraction_schemas add column if not exists llm_config jsonb;
+alter table extraction_schemas alter column base_selector drop not null;
+
+-- Enable RLS (Row Level Security). The browser manages schemas with the anon key; the Azure Functions
+-- read them with the service role, which bypasses RLS.
+alter table extraction_schemas enable row level security;
+
+drop policy if exists "Allow public read access to extraction_schemas" on extraction_schemas;
+create policy "Allow public read access to extraction_schemas" on extraction_schemas
+    for select to public
+    using (true);
+
+drop policy if exists "Allow public insert access to extraction_schemas" on extraction_schemas;
+create policy "Allow public insert access to extraction_schemas" on extraction_schemas
+    for insert to public
+    with check (true);
+
+drop policy if exists "Allow public update access to extraction_schemas" on extraction_schemas;
+create policy "Allow public update access to extraction_schemas" on extraction_schemas
+    for update to public
+    using (true)
+    with check (true);
+
+drop policy if exists "Allow public delete access to extraction_schemas" on extraction_schemas;
+create policy "Allow public delete access to extraction_schemas" on extraction_schemas
+    for delete to public
+    using (true);
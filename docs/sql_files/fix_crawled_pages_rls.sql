@@ -1,5 +1,7 @@
 -- Fix RLS policies for crawled_pages table
 -- Run this in your Supabase SQL editor to allow INSERT and UPDATE operations
+-- Only needed when ingesting from the browser (VITE_INGEST_MODE=browser).
+-- With VITE_INGEST_MODE=server, run tighten_crawled_pages_rls.sql instead.
 
 -- Create a policy that allows anyone to insert
 create policy "Allow public insert access"
@@ -0,0 +1,16 @@
+-- Storage for page screenshots and PDFs
+-- Run this in your Supabase SQL editor. Crawls with "Capture screenshot" or "Capture PDF" turned on
+-- upload each page's captures to the public page-captures bucket and link them from the page's
+-- metadata (screenshot_url, pdf_url, captured_at).
+
+insert into storage.buckets (id, name, public)
+values ('page-captures', 'page-captures', true)
+on conflict (id) do nothing;
+
+-- Reads are public through the bucket's public URLs. Uploads go through the /api/capture function in
+-- either ingest mode, so only the service role may insert; the anon policy of earlier setups is dropped.
+drop policy if exists "Allow public upload of page captures" on storage.objects;
+drop policy if exists "Allow service role upload of page captures" on storage.objects;
+create policy "Allow service role upload of page captures" on storage.objects
+    for insert to service_role
+    with check (bucket_id = 'page-captures');
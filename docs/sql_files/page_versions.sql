@@ -0,0 +1,44 @@
+-- Page version history
+-- Run this in your Supabase SQL editor. Saves upsert crawled pages in place, so every save that changes a
+-- page's content hash also appends the full page markdown here. The History tab diffs any two versions.
+
+create table if not exists page_versions (
+    id uuid primary key default gen_random_uuid(),
+    table_name text not null default 'crawled_pages',  -- The crawled_pages-shaped table the page is saved in
+    url text not null,
+    content_hash text,  -- metadata.content_hash at the time; null for versions backfilled below
+    title text,
+    content text not null,
+    content_length integer generated always as (length(content)) stored,
+    crawl_id text,
+    crawled_at timestamp with time zone not null default now()
+);
+
+create index if not exists idx_page_versions_page on page_versions (table_name, url, crawled_at desc);
+
+-- Start each page's history with what is stored today (repeat with another table name for other tables)
+insert into page_versions (table_name, url, content_hash, title, content, crawled_at)
+select 'crawled_pages',
+       p.url,
+       p.metadata->>'content_hash',
+       p.metadata->>'title',
+       coalesce(nullif(p.metadata->>'fit_markdown', ''), nullif(p.metadata->>'raw_markdown', ''), nullif(p.metadata->>'markdown', ''), p.content),
+       p.created_at
+from crawled_pages p
+where p.chunk_number = 1
+  and not exists (select 1 from page_versions v where v.table_name = 'crawled_pages' and v.url = p.url);
+
+-- Enable RLS (Row Level Security). Versions are read by the History tab and never changed once written.
+alter table page_versions enable row level security;
+
+drop policy if exists "Allow public read access to page_versions" on page_versions;
+create policy "Allow public read access to page_versions" on page_versions
+    for select to public
+    using (true);
+
+-- Browser ingest mode records versions with the anon key. With VITE_INGEST_MODE=server /api/ingest records
+-- them with the service role instead, and this policy can be left out.
+drop policy if exists "Allow public insert access to page_versions" on page_versions;
+create policy "Allow public insert access to page_versions" on page_versions
+    for insert to public
+    with check (true);
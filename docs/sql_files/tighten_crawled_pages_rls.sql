@@ -0,0 +1,24 @@
+-- Tighten RLS on crawled_pages-style tables to read-only for the browser
+-- Run this in your Supabase SQL editor once /api/ingest is deployed with
+-- SUPABASE_SERVICE_ROLE_KEY and the frontend uses VITE_INGEST_MODE=server.
+-- The service role bypasses RLS, so server-side ingestion keeps working.
+
+-- crawled_pages (policies from crawled_pages.sql / fix_crawled_pages_rls.sql)
+drop policy if exists "Allow public insert access" on crawled_pages;
+drop policy if exists "Allow public update access" on crawled_pages;
+
+-- Predefined tables (policies from predefined_tables_setup.sql)
+drop policy if exists "allow_public_insert_microsoft_docs" on microsoft_docs;
+drop policy if exists "allow_public_update_microsoft_docs" on microsoft_docs;
+
+drop policy if exists "allow_public_insert_agent_building" on agent_building;
+drop policy if exists "allow_public_update_agent_building" on agent_building;
+
+drop policy if exists "allow_public_insert_azure_platforms" on azure_platforms;
+drop policy if exists "allow_public_update_azure_platforms" on azure_platforms;
+
+drop policy if exists "allow_public_insert_knowledge_base" on knowledge_base;
+drop policy if exists "allow_public_update_knowledge_base" on knowledge_base;
+
+-- Read access stays public
+-- create policy "Allow public read access" on crawled_pages for select to public using (true);
@@ -0,0 +1,38 @@
+-- URL include/exclude rules
+-- Run this in your Supabase SQL editor. A rule set is saved per domain (hostname) and used by every
+-- crawl of that domain - including scheduled recrawls - that doesn't bring its own. Without one the
+-- built-in rules apply (skip login, cart, admin and static file URLs; boost docs, blog and product pages).
+
+create table if not exists url_rule_sets (
+    domain text primary key,
+    rules jsonb not null default '[]'::jsonb,  -- [{ id, action: include | exclude | boost, match: glob | regex | path_prefix, pattern, boost? }]
+    query_params text not null default 'keep' check (query_params in ('keep', 'strip', 'exclude')),
+    allowed_query_params jsonb,  -- Parameter names the strip and exclude policies leave alone
+    created_at timestamp with time zone not null default now(),
+    updated_at timestamp with time zone not null default now()
+);
+
+-- Enable RLS (Row Level Security). The browser manages rule sets with the anon key; the Azure Functions
+-- read them with the service role, which bypasses RLS.
+alter table url_rule_sets enable row level security;
+
+drop policy if exists "Allow public read access to url_rule_sets" on url_rule_sets;
+create policy "Allow public read access to url_rule_sets" on url_rule_sets
+    for select to public
+    using (true);
+
+drop policy if exists "Allow public insert access to url_rule_sets" on url_rule_sets;
+create policy "Allow public insert access to url_rule_sets" on url_rule_sets
+    for insert to public
+    with check (true);
+
+drop policy if exists "Allow public update access to url_rule_sets" on url_rule_sets;
+create policy "Allow public update access to url_rule_sets" on url_rule_sets
+    for update to public
+    using (true)
+    with check (true);
+
+drop policy if exists "Allow public delete access to url_rule_sets" on url_rule_sets;
+create policy "Allow public delete access to url_rule_sets" on url_rule_sets
+    for delete to public
+    using (true);
@@ -1,27 +1,57 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { crawl4aiService } from './services/crawl4ai';
+import type { CrawlSession } from './services/crawlSession';
 import { supabaseService, type Document } from './services/supabase';
 import { settingsService } from './services/settings';
+import { embeddingsService } from './services/embeddings';
+import { EMBEDDING_PROVIDER_LABELS, type EmbeddingProviderType } from './services/embeddingProviders';
 import CrawlHistory from './components/CrawlHistory';
+import CrawlSchedules from './components/CrawlSchedules';
 import CrawlStatusDashboard from './components/CrawlStatusDashboard';
+import ExtractionSchemaEditor from './components/ExtractionSchemaEditor';
+import CredentialProfileEditor from './components/CredentialProfileEditor';
+import UrlRulesEditor from './components/UrlRulesEditor';
+import CrawlScopeOptions from './components/CrawlScopeOptions';
+import RelevanceOptions from './components/RelevanceOptions';
+import AdvancedCrawlOptions from './components/AdvancedCrawlOptions';
 import TableManager from './components/TableManager';
 import AuthenticationWrapper from './components/AuthenticationWrapper';
-import type { SimplifiedCrawlConfig, CrawlResult } from './types';
+import type { SimplifiedCrawlConfig, CrawlResult, CrawlerOptions, CrawlScope, RelevanceConfig, UrlRuleSet } from './types';
+
+// A finished crawl keeps its dashboard card until it is dismissed, or for this long
+const FINISHED_CARD_MS = 60_000;
 
 function App() {
   const [crawlConfig, setCrawlConfig] = useState<{ crawlType: 'single' | 'smart_site' }>({ 
     crawlType: 'single' 
   });
   const [crawlResults, setCrawlResults] = useState<CrawlResult[]>([]);
-  const [isCrawling, setIsCrawling] = useState(false);
-  const [activeTab, setActiveTab] = useState<'crawl' | 'search' | 'results' | 'history' | 'settings'>('crawl');
+  const [crawlSessions, setCrawlSessions] = useState<CrawlSession[]>([]); // Running crawls
+  const [sessionCards, setSessionCards] = useState<CrawlSession[]>([]); // Running and recently finished crawls
+  const [activeTab, setActiveTab] = useState<'crawl' | 'search' | 'results' | 'history' | 'schedules' | 'settings'>('crawl');
   const [urlInput, setUrlInput] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Document[]>([]);
   const [recentCrawls, setRecentCrawls] = useState<string[]>([]);
   const [appStats, setAppStats] = useState(settingsService.getFormattedStats());
-  const [crawlController, setCrawlController] = useState<AbortController | null>(null);
   const [selectedTable, setSelectedTable] = useState<string>('crawled_pages');
+  const [embeddingPreferences, setEmbeddingPreferences] = useState({
+    embeddingProvider: settingsService.getSettings().crawlPreferences.embeddingProvider,
+    embeddingModel: settingsService.getSettings().crawlPreferences.embeddingModel
+  });
+  const [embeddingTestMessage, setEmbeddingTestMessage] = useState<string | null>(null);
+  const [showAdvancedOptions, setShowAdvancedOptions] = useState(settingsService.getSettings().uiPreferences.showAdvancedOptions);
+  const [advancedOptions, setAdvancedOptions] = useState<CrawlerOptions>({});
+  const [urlRules, setUrlRules] = useState<UrlRuleSet | null>(null);
+  const [crawlScope, setCrawlScope] = useState<CrawlScope>({ mode: 'host' });
+  const [relevance, setRelevance] = useState<RelevanceConfig | null>(null);
+  // Read when a crawl finishes, after the render that started it
+  const activeTabRef = useRef(activeTab);
+  const runningSessions = useRef(new Set<CrawlSession>());
+
+  useEffect(() => {
+    activeTabRef.current = activeTab;
+  }, [activeTab]);
 
   useEffect(() => {
     // Load recent crawls from localStorage
@@ -33,30 +63,38 @@ function App() {
     // Initialize settings and load preferences
     const settings = settingsService.getSettings();
     setCrawlConfig({ crawlType: settings.crawlPreferences.defaultCrawlType });
-    setActiveTab(settings.uiPreferences.defaultTab as 'crawl' | 'search' | 'results' | 'history' | 'settings');
+    embeddingsService.configure(settings.crawlPreferences);
+    setActiveTab(settings.uiPreferences.defaultTab as 'crawl' | 'search' | 'results' | 'history' | 'schedules' | 'settings');
     setAppStats(settingsService.getFormattedStats());
   }, []);
 
-  const handleCrawl = async () => {
-    if (!urlInput.trim()) return;
-    
-    setIsCrawling(true);
-    
-    // Create new abort controller for this crawl
-    const controller = new AbortController();
-    setCrawlController(controller);
-    
-    const config: SimplifiedCrawlConfig = { url: urlInput, crawlType: crawlConfig.crawlType };
+  const isCrawling = crawlSessions.length > 0;
+
+  /**
+   * Follow a crawl session (new, resumed or retried) and record its result, stats and recent URL.
+   * Several sessions can run at once, so state is only ever updated from its previous value.
+   */
+  const trackSession = async (session: CrawlSession) => {
+    const targetUrl = session.url;
+    runningSessions.current.add(session);
+    setCrawlSessions(prev => [...prev.filter(active => active.id !== session.id), session]);
+    setSessionCards(prev => [...prev.filter(card => card.id !== session.id), session]);
     
     try {
-      console.log(`🚀 Starting ${config.crawlType} crawl for:`, urlInput);
-      const result = await crawl4aiService.crawlUrl(config, controller.signal);
+      const result = await session.result;
       setCrawlResults(prev => [result, ...prev]);
       
+      // A cancelled crawl reports the pages it saved but doesn't count as a mission
+      if (result.metadata?.cancelled) {
+        return;
+      }
+      
       // Save to recent crawls
-      const newRecentCrawls = [urlInput, ...recentCrawls.filter(url => url !== urlInput)].slice(0, 5);
-      setRecentCrawls(newRecentCrawls);
-      localStorage.setItem('recentCrawls', JSON.stringify(newRecentCrawls));
+      setRecentCrawls(prev => {
+        const newRecentCrawls = [targetUrl, ...prev.filter(url => url !== targetUrl)].slice(0, 5);
+        localStorage.setItem('recentCrawls', JSON.stringify(newRecentCrawls));
+        return newRecentCrawls;
+      });
       
       // Save to Supabase if there's content
       const hasContent = (result.content?.length || 0) > 0;
@@ -79,7 +117,7 @@ function App() {
       
       // Record site if it's a new domain
       try {
-        const hostname = new URL(urlInput).hostname;
+        const hostname = new URL(targetUrl).hostname;
         if (hostname) {
           settingsService.recordSiteCrawled();
         }
@@ -90,8 +128,11 @@ function App() {
       // Update stats display
       setAppStats(settingsService.getFormattedStats());
       
-      // Switch to results tab
-      setActiveTab('results');
+      // Show the results once the last running crawl is done, unless the user has left the crawl tab meanwhile
+      const lastRunning = runningSessions.current.size === 1 && runningSessions.current.has(session);
+      if (lastRunning && activeTabRef.current === 'crawl') {
+        setActiveTab('results');
+      }
       
     } catch (error) {
       console.error('❌ Crawl failed:', error);
@@ -102,35 +143,58 @@ function App() {
       
       const errorResult: CrawlResult = {
         id: crypto.randomUUID(),
-        url: urlInput,
+        url: targetUrl,
         status: 'failed',
         error: error instanceof Error ? error.message : 'Unknown error',
         createdAt: new Date().toISOString(),
       };
       setCrawlResults(prev => [errorResult, ...prev]);
     } finally {
-      setIsCrawling(false);
-      setCrawlController(null);
+      runningSessions.current.delete(session);
+      setCrawlSessions(prev => prev.filter(active => active !== session));
+      setTimeout(() => handleDismissSessionCard(session), FINISHED_CARD_MS);
     }
   };
 
-  const handleCancelCrawl = () => {
-    if (crawlController) {
-      console.log('🕳️ Cancelling crawl operation...');
-      crawlController.abort();
-      setCrawlController(null);
-      setIsCrawling(false);
-      
-      // Add cancelled result to results
-      const cancelledResult: CrawlResult = {
-        id: crypto.randomUUID(),
-        url: urlInput,
-        status: 'failed',
-        error: 'Crawl operation was cancelled by user',
-        createdAt: new Date().toISOString(),
-      };
-      setCrawlResults(prev => [cancelledResult, ...prev]);
-    }
+  // Resuming a job reuses its id, so cards are removed by session rather than by id
+  const handleDismissSessionCard = (session: CrawlSession) => {
+    setSessionCards(prev => prev.filter(card => card !== session));
+  };
+
+  const handleCrawl = async () => {
+    if (!urlInput.trim()) return;
+    
+    const config: SimplifiedCrawlConfig = {
+      url: urlInput,
+      crawlType: crawlConfig.crawlType,
+      // Hidden options don't apply, so turning the panel off goes back to the defaults
+      ...(showAdvancedOptions && { advanced: advancedOptions }),
+      ...(urlRules && { urlRules }),
+      ...(crawlConfig.crawlType === 'smart_site' && { scope: crawlScope }),
+      ...(crawlConfig.crawlType === 'smart_site' && relevance && { relevance })
+    };
+    console.log(`🚀 Starting ${config.crawlType} crawl for:`, urlInput);
+    await trackSession(crawl4aiService.startCrawl(config));
+  };
+
+  const handleResumeJob = async (jobId: string, url: string) => {
+    setActiveTab('crawl');
+    await trackSession(crawl4aiService.resumeCrawl(jobId, url));
+  };
+
+  const handleRetryFailedUrls = async (jobId: string, url: string) => {
+    setActiveTab('crawl');
+    await trackSession(crawl4aiService.retryFailedCrawl(jobId, url));
+  };
+
+  // The session stops its requests and waits, then settles with a report that trackSession records
+  const handleCancelCrawl = (session: CrawlSession) => {
+    console.log('🕳️ Cancelling crawl operation...', session.id);
+    session.cancel();
+  };
+
+  const handleCancelAllCrawls = () => {
+    crawlSessions.forEach(handleCancelCrawl);
   };
 
   const handleSearch = async () => {
@@ -159,11 +223,37 @@ function App() {
     }
   };
 
-  const handleTabClick = (tab: 'crawl' | 'search' | 'results' | 'history' | 'settings', event: React.MouseEvent) => {
+  const handleTabClick = (tab: 'crawl' | 'search' | 'results' | 'history' | 'schedules' | 'settings', event: React.MouseEvent) => {
     setActiveTab(tab);
     updateTabIndicator(event.currentTarget as HTMLElement);
   };
 
+  const handleEmbeddingPreferencesChange = (embeddingProvider: EmbeddingProviderType, embeddingModel: string) => {
+    const preferences = { embeddingProvider, embeddingModel };
+    setEmbeddingPreferences(preferences);
+    setEmbeddingTestMessage(null);
+    settingsService.updateSetting('crawlPreferences', {
+      ...settingsService.getSettings().crawlPreferences,
+      ...preferences
+    });
+    embeddingsService.configure(preferences);
+  };
+
+  const handleToggleAdvancedOptions = () => {
+    const show = !showAdvancedOptions;
+    setShowAdvancedOptions(show);
+    settingsService.updateSetting('uiPreferences', {
+      ...settingsService.getSettings().uiPreferences,
+      showAdvancedOptions: show
+    });
+  };
+
+  const handleTestEmbeddings = async () => {
+    setEmbeddingTestMessage('Testing embedding provider...');
+    const result = await embeddingsService.testConnection();
+    setEmbeddingTestMessage(`${result.success ? '✅' : '❌'} ${result.message}`);
+  };
+
   const handleTableChange = (tableName: string) => {
     setSelectedTable(tableName);
     supabaseService.setCurrentTable(tableName);
@@ -654,6 +744,28 @@ function App() {
           font-size: 0.9rem;
         }
 
+        .memory-item.selected {
+          border-color: #8dd7f7;
+          background: rgba(141, 215, 247, 0.25);
+          box-shadow: 0 0 15px rgba(141, 215, 247, 0.3);
+        }
+
+        .settings-input {
+          width: 100%;
+          background: rgba(10, 10, 15, 0.6);
+          border: 1px solid rgba(141, 215, 247, 0.3);
+          border-radius: 8px;
+          padding: 0.5rem 0.75rem;
+          color: #e6f3ff;
+          font-family: 'Orbitron', monospace;
+          font-size: 0.85rem;
+          outline: none;
+        }
+
+        .settings-input:focus {
+          border-color: #8dd7f7;
+        }
+
         .crawl-result {
           background: rgba(141, 215, 247, 0.1);
           border: 1px solid rgba(141, 215, 247, 0.2);
@@ -702,6 +814,16 @@ function App() {
           text-overflow: ellipsis;
         }
 
+        .saved-urls {
+          margin: 0.5rem 0 0;
+          padding-left: 1.25rem;
+          max-height: 150px;
+          overflow-y: auto;
+          color: rgba(230, 243, 255, 0.8);
+          font-size: 0.85rem;
+          word-break: break-all;
+        }
+
         .search-result {
           background: rgba(141, 215, 247, 0.1);
           border: 1px solid rgba(141, 215, 247, 0.2);
@@ -757,8 +879,19 @@ function App() {
       <main>
         <h1 className="cosmic-title">🌌 Crawl4AI Navigation Hub</h1>
         
-        {/* Real-time Crawling Dashboard */}
-        <CrawlStatusDashboard isActive={isCrawling} crawlService={crawl4aiService} />
+        {/* Real-time Crawling Dashboard - one card per running or recently finished crawl session */}
+        {sessionCards.length === 0 ? (
+          <CrawlStatusDashboard />
+        ) : (
+          sessionCards.map(session => (
+            <CrawlStatusDashboard
+              key={session.id}
+              session={session}
+              onCancel={crawlSessions.includes(session) ? () => handleCancelCrawl(session) : undefined}
+              onDismiss={crawlSessions.includes(session) ? undefined : () => handleDismissSessionCard(session)}
+            />
+          ))
+        )}
         
         <div className="hybrid-component">
           <div className="nav-hub">
@@ -778,22 +911,20 @@ function App() {
                   placeholder="Enter URL to crawl the cosmos..." 
                   value={urlInput}
                   onChange={(e) => setUrlInput(e.target.value)}
-                  onKeyPress={(e) => e.key === 'Enter' && !isCrawling && handleCrawl()}
-                  disabled={isCrawling}
+                  onKeyPress={(e) => e.key === 'Enter' && handleCrawl()}
                 />
-                {!isCrawling ? (
-                  <button 
-                    className="search-btn" 
-                    onClick={handleCrawl}
-                    disabled={!urlInput.trim()}
-                  >
-                    🚀 Crawl
-                  </button>
-                ) : (
+                <button 
+                  className="search-btn" 
+                  onClick={handleCrawl}
+                  disabled={!urlInput.trim()}
+                >
+                  🚀 Crawl
+                </button>
+                {isCrawling && (
                   <button 
                     className="cancel-btn blackhole-btn" 
-                    onClick={handleCancelCrawl}
-                    title="Cancel Crawl"
+                    onClick={handleCancelAllCrawls}
+                    title={crawlSessions.length > 1 ? `Cancel all ${crawlSessions.length} crawls` : 'Cancel Crawl'}
                   >
                     <div className="blackhole">
                       <div className="event-horizon"></div>
@@ -821,6 +952,17 @@ function App() {
               </button>
             </div>
 
+            {crawlConfig.crawlType === 'smart_site' && (
+              <>
+                <CrawlScopeOptions url={urlInput} scope={crawlScope} onChange={setCrawlScope} />
+                <RelevanceOptions value={relevance} onChange={setRelevance} />
+              </>
+            )}
+
+            {showAdvancedOptions && (
+              <AdvancedCrawlOptions options={advancedOptions} onChange={setAdvancedOptions} />
+            )}
+
             {/* Recent Crawls Memory Panel */}
             {recentCrawls.length > 0 && (
               <div className="memory-panel">
@@ -870,6 +1012,12 @@ function App() {
               >
                 📚 History
               </button>
+              <button 
+                className={`tab-btn ${activeTab === 'schedules' ? 'active' : ''}`}
+                onClick={(e) => handleTabClick('schedules', e)}
+              >
+                ⏰ Schedules
+              </button>
               <button 
                 className={`tab-btn ${activeTab === 'settings' ? 'active' : ''}`}
                 onClick={(e) => handleTabClick('settings', e)}
@@ -892,7 +1040,10 @@ function App() {
                 {isCrawling && (
                   <div className="loading-indicator">
                     <div className="spinner"></div>
-                    <span>Scanning the digital cosmos...</span>
+                    <span>
+                      Scanning the digital cosmos...
+                      {crawlSessions.length > 1 && ` (${crawlSessions.length} crawls running)`}
+                    </span>
                   </div>
                 )}
 
@@ -903,6 +1054,12 @@ function App() {
                   <br/><br/>
                   <strong>📋 Storage:</strong> All crawled content will be saved to the <code style={{color: '#8dd7f7', background: 'rgba(141, 215, 247, 0.1)', padding: '0.2rem 0.4rem', borderRadius: '4px'}}>{selectedTable}</code> table.
                 </div>
+
+                <ExtractionSchemaEditor url={urlInput} />
+                <CredentialProfileEditor url={urlInput} />
+                {crawlConfig.crawlType === 'smart_site' && (
+                  <UrlRulesEditor url={urlInput} value={urlRules} onChange={setUrlRules} />
+                )}
               </div>
 
               {/* Search Tab */}
@@ -941,6 +1098,11 @@ function App() {
                     {searchResults.map((result, index) => (
                       <div key={index} className="search-result">
                         <div className="result-url">{result.url}</div>
+                        {result.metadata?.total_chunks > 1 && (
+                          <div style={{color: '#8dd7f7', fontSize: '0.8rem', marginBottom: '0.5rem'}}>
+                            📑 Best match: chunk {result.metadata?.chunk_number} of {result.metadata?.total_chunks}
+                          </div>
+                        )}
                         <div className="result-content">
                           {result.content?.substring(0, 200)}...
                         </div>
@@ -967,13 +1129,25 @@ function App() {
                       <div key={result.id} className="crawl-result">
                         <div className="result-url">{result.url}</div>
                         <div className={`result-status ${result.status}`}>
-                          {result.status === 'completed' ? '✅ COMPLETED' : '❌ FAILED'}
+                          {result.status === 'completed' ? '✅ COMPLETED' : result.metadata?.cancelled ? '🛑 CANCELLED' : '❌ FAILED'}
                         </div>
-                        {result.error && (
+                        {result.error && !result.metadata?.cancelled && (
                           <div style={{color: '#ef4444', fontSize: '0.9rem', marginBottom: '0.5rem'}}>
                             Error: {result.error}
                           </div>
                         )}
+                        {result.metadata?.cancelled && (
+                          <div style={{color: '#f97316', fontSize: '0.9rem', marginBottom: '0.5rem'}}>
+                            🛑 Cancelled after saving {result.metadata.pages_saved} pages
+                            {result.metadata.saved_urls?.length > 0 && (
+                              <ul className="saved-urls">
+                                {result.metadata.saved_urls.map((url: string) => (
+                                  <li key={url}>{url}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        )}
                         {result.content && (
                           <div className="result-content">
                             {result.content.substring(0, 300)}...
@@ -984,6 +1158,25 @@ function App() {
                             📊 {result.metadata.pages_crawled} pages crawled
                           </div>
                         )}
+                        {(result.metadata?.screenshot_url || result.metadata?.pdf_url) && (
+                          <div style={{display: 'flex', alignItems: 'flex-end', gap: '0.75rem', marginTop: '0.5rem'}}>
+                            {result.metadata.screenshot_url && (
+                              <a href={result.metadata.screenshot_url} target="_blank" rel="noopener noreferrer">
+                                <img
+                                  src={result.metadata.screenshot_url}
+                                  alt={`Screenshot of ${result.url}`}
+                                  loading="lazy"
+                                  style={{width: '160px', maxHeight: '120px', objectFit: 'cover', objectPosition: 'top', borderRadius: '6px', border: '1px solid rgba(141, 215, 247, 0.3)'}}
+                                />
+                              </a>
+                            )}
+                            {result.metadata.pdf_url && (
+                              <a href={result.metadata.pdf_url} target="_blank" rel="noopener noreferrer" style={{color: '#8dd7f7', fontSize: '0.9rem'}}>
+                                📄 PDF
+                              </a>
+                            )}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -992,7 +1185,16 @@ function App() {
 
               {/* History Tab */}
               <div className={`content-panel ${activeTab === 'history' ? 'active' : ''}`}>
-                <CrawlHistory />
+                <CrawlHistory
+                  activeJobIds={crawlSessions.map(session => session.id)}
+                  onResumeJob={handleResumeJob}
+                  onRetryFailed={handleRetryFailedUrls}
+                />
+              </div>
+
+              {/* Schedules Tab */}
+              <div className={`content-panel ${activeTab === 'schedules' ? 'active' : ''}`}>
+                <CrawlSchedules recentUrls={recentCrawls} table={selectedTable} />
               </div>
 
               {/* Settings Tab */}
@@ -1051,7 +1253,7 @@ function App() {
                     </div>
                     <div className="memory-item">
                       <div className="memory-item-title">AI Embeddings</div>
-                      <div className="memory-item-desc">OpenAI Connected</div>
+                      <div className="memory-item-desc">{EMBEDDING_PROVIDER_LABELS[embeddingPreferences.embeddingProvider]}</div>
                     </div>
                     <div className="memory-item">
                       <div className="memory-item-title">Session Results</div>
@@ -1060,6 +1262,51 @@ function App() {
                   </div>
                 </div>
 
+                <div className="memory-panel">
+                  <div className="memory-header">
+                    <h3 className="memory-title">🧠 Embedding Provider</h3>
+                    <div className="memory-status">{embeddingsService.getProvider().model}</div>
+                  </div>
+                  <div className="memory-items">
+                    {(Object.keys(EMBEDDING_PROVIDER_LABELS) as EmbeddingProviderType[]).map((provider) => (
+                      <div 
+                        key={provider}
+                        className={`memory-item ${embeddingPreferences.embeddingProvider === provider ? 'selected' : ''}`}
+                        onClick={() => handleEmbeddingPreferencesChange(provider, '')}
+                      >
+                        <div className="memory-item-title">{EMBEDDING_PROVIDER_LABELS[provider]}</div>
+                        <div className="memory-item-desc">
+                          {provider === 'hashing' ? 'Deterministic, fully offline' : 'Configured via .env'}
+                        </div>
+                      </div>
+                    ))}
+                    <div className="memory-item" style={{cursor: 'default'}}>
+                      <div className="memory-item-title">Model / Deployment</div>
+                      {/* The provider is rebuilt once the model is entered, not on every keystroke */}
+                      <input 
+                        type="text"
+                        className="settings-input"
+                        placeholder={embeddingPreferences.embeddingProvider === 'openai_compatible' ? 'Required: a 1536-dimension model' : 'Provider default'}
+                        key={`${embeddingPreferences.embeddingProvider}:${embeddingPreferences.embeddingModel}`}
+                        defaultValue={embeddingPreferences.embeddingModel}
+                        onBlur={(e) => {
+                          if (e.target.value !== embeddingPreferences.embeddingModel) {
+                            handleEmbeddingPreferencesChange(embeddingPreferences.embeddingProvider, e.target.value);
+                          }
+                        }}
+                        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                      />
+                    </div>
+                    <div 
+                      className="memory-item"
+                      onClick={handleTestEmbeddings}
+                    >
+                      <div className="memory-item-title">🧪 Test Connection</div>
+                      <div className="memory-item-desc">{embeddingTestMessage || 'Generate a test embedding'}</div>
+                    </div>
+                  </div>
+                </div>
+
                 <div className="memory-panel">
                   <div className="memory-header">
                     <h3 className="memory-title">🔧 Quick Actions</h3>
@@ -1077,6 +1324,14 @@ function App() {
                       <div className="memory-item-title">🔄 Refresh Stats</div>
                       <div className="memory-item-desc">Update display with latest data</div>
                     </div>
+                    <div 
+                      className={`memory-item ${showAdvancedOptions ? 'selected' : ''}`}
+                      onClick={handleToggleAdvancedOptions}
+                      style={{cursor: 'pointer'}}
+                    >
+                      <div className="memory-item-title">🎛️ Advanced Options</div>
+                      <div className="memory-item-desc">{showAdvancedOptions ? 'Shown under the crawl type' : 'Hidden - crawls use the defaults'}</div>
+                    </div>
                     <div 
                       className="memory-item"
                       onClick={() => {
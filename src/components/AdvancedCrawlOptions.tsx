@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { CACHE_MODES, hasCrawlerOptions } from '../services/crawlerOptions';
+import type { CacheMode, CrawlerOptions } from '../types';
+
+interface AdvancedCrawlOptionsProps {
+  options: CrawlerOptions;
+  onChange: (options: CrawlerOptions) => void;
+}
+
+// Used for the other side when only one viewport dimension is entered
+const DEFAULT_VIEWPORT = { width: 1920, height: 1080 };
+
+// An empty input unsets the option rather than sending 0
+const parseNumber = (value: string) => (value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value));
+
+export default function AdvancedCrawlOptions({ options, onChange }: AdvancedCrawlOptionsProps) {
+  // Excluded tags are edited as text so a trailing comma survives while typing
+  const [excludedTagsText, setExcludedTagsText] = useState((options.excludedTags || []).join(', '));
+
+  const update = (updates: Partial<CrawlerOptions>) => onChange({ ...options, ...updates });
+
+  const updateViewport = (dimension: 'width' | 'height', value: string) => {
+    const size = parseNumber(value);
+    if (size === undefined) {
+      update({ viewport: undefined });
+      return;
+    }
+    update({ viewport: { ...DEFAULT_VIEWPORT, ...options.viewport, [dimension]: size } });
+  };
+
+  const handleExcludedTagsChange = (text: string) => {
+    setExcludedTagsText(text);
+    const tags = text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+    update({ excludedTags: tags.length > 0 ? tags : undefined });
+  };
+
+  const handleReset = () => {
+    setExcludedTagsText('');
+    onChange({});
+  };
+
+  return (
+    <details className="advanced-options" open={hasCrawlerOptions(options)}>
+      <style>{`
+        .advanced-options {
+          margin-top: 1rem;
+          background: rgba(141, 215, 247, 0.05);
+          border: 1px solid rgba(141, 215, 247, 0.2);
+          border-radius: 12px;
+          padding: 1rem 1.25rem;
+        }
+
+        .advanced-options summary {
+          color: #8dd7f7;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
+        .advanced-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+          gap: 0.75rem;
+          margin-top: 1rem;
+        }
+
+        .advanced-options label {
+          display: flex;
+          flex-direction: column;
+          gap: 0.3rem;
+          color: #8dd7f7;
+          font-size: 0.8rem;
+          font-weight: 600;
+        }
+
+        .advanced-options .advanced-wide {
+          grid-column: 1 / -1;
+        }
+
+        .advanced-options input, .advanced-options select, .advanced-options textarea {
+          background: rgba(141, 215, 247, 0.1);
+          border: 1px solid rgba(141, 215, 247, 0.3);
+          border-radius: 6px;
+          padding: 0.4rem 0.6rem;
+          color: #e6f3ff;
+          font-family: monospace;
+        }
+
+        .advanced-options .advanced-check {
+          flex-direction: row;
+          align-items: center;
+          gap: 0.5rem;
+        }
+
+        .advanced-viewport {
+          display: flex;
+          gap: 0.5rem;
+        }
+
+        .advanced-viewport input {
+          width: 100%;
+        }
+
+        .advanced-reset {
+          margin-top: 0.75rem;
+          background: rgba(141, 215, 247, 0.15);
+          border: 1px solid rgba(141, 215, 247, 0.4);
+          border-radius: 8px;
+          color: #e6f3ff;
+          padding: 0.4rem 0.9rem;
+          cursor: pointer;
+        }
+
+        .advanced-hint {
+          margin-top: 0.75rem;
+          color: rgba(230, 243, 255, 0.6);
+          font-size: 0.8rem;
+        }
+      `}</style>
+
+      <summary>🎛️ Advanced crawl options {hasCrawlerOptions(options) ? '(customized)' : '(defaults)'}</summary>
+
+      <div className="advanced-grid">
+        <label>
+          Wait for
+          <input
+            value={options.waitFor || ''}
+            placeholder="css:.main-content"
+            onChange={(e) => update({ waitFor: e.target.value || undefined })}
+          />
+        </label>
+        <label>
+          Page timeout (ms)
+          <input
+            type="number"
+            min={1000}
+            step={1000}
+            value={options.pageTimeout ?? ''}
+            placeholder="60000"
+            onChange={(e) => update({ pageTimeout: parseNumber(e.target.value) })}
+          />
+        </label>
+        <label>
+          Word count threshold
+          <input
+            type="number"
+            min={0}
+            value={options.wordCountThreshold ?? ''}
+            placeholder="10"
+            onChange={(e) => update({ wordCountThreshold: parseNumber(e.target.value) })}
+          />
+        </label>
+        <label>
+          Cache mode
+          <select
+            value={options.cacheMode || 'bypass'}
+            onChange={(e) => update({ cacheMode: e.target.value === 'bypass' ? undefined : e.target.value as CacheMode })}
+          >
+            {CACHE_MODES.map(mode => (
+              <option key={mode} value={mode}>{mode}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Viewport (width × height)
+          <div className="advanced-viewport">
+            <input
+              type="number"
+              min={320}
+              value={options.viewport?.width ?? ''}
+              placeholder={String(DEFAULT_VIEWPORT.width)}
+              onChange={(e) => updateViewport('width', e.target.value)}
+            />
+            <input
+              type="number"
+              min={240}
+              value={options.viewport?.height ?? ''}
+              placeholder={String(DEFAULT_VIEWPORT.height)}
+              onChange={(e) => updateViewport('height', e.target.value)}
+            />
+          </div>
+        </label>
+        <label>
+          Excluded tags
+          <input
+            value={excludedTagsText}
+            placeholder="nav, footer, aside"
+            onChange={(e) => handleExcludedTagsChange(e.target.value)}
+          />
+        </label>
+        <label className="advanced-wide">
+          User agent
+          <input
+            value={options.userAgent || ''}
+            placeholder="Crawl4AI default"
+            onChange={(e) => update({ userAgent: e.target.value || undefined })}
+          />
+        </label>
+        <label className="advanced-wide">
+          JavaScript to run before extraction
+          <textarea
+            rows={4}
+            value={options.jsCode || ''}
+            placeholder="document.querySelector('button.load-more')?.click();"
+            onChange={(e) => update({ jsCode: e.target.value || undefined })}
+          />
+        </label>
+        <label className="advanced-check">
+          <input
+            type="checkbox"
+            checked={!!options.screenshot}
+            onChange={(e) => update({ screenshot: e.target.checked || undefined })}
+          />
+          📸 Capture screenshot
+        </label>
+        <label className="advanced-check">
+          <input
+            type="checkbox"
+            checked={!!options.pdf}
+            onChange={(e) => update({ pdf: e.target.checked || undefined })}
+          />
+          📄 Capture PDF
+        </label>
+        <label className="advanced-check">
+          <input
+            type="checkbox"
+            checked={!!options.collectAssets}
+            onChange={(e) => update({
+              collectAssets: e.target.checked || undefined,
+              // Documents are converted from the inventory, so they go together
+              ...(!e.target.checked && { convertDocuments: undefined })
+            })}
+          />
+          📎 Collect file &amp; media assets
+        </label>
+        <label className="advanced-check">
+          <input
+            type="checkbox"
+            checked={!!options.convertDocuments}
+            disabled={!options.collectAssets}
+            onChange={(e) => update({ convertDocuments: e.target.checked || undefined })}
+          />
+          📑 Convert documents to markdown
+        </label>
+        <label>
+          Proxy server
+          <input
+            value={options.proxy?.server || ''}
+            placeholder="http://proxy.example.com:8080"
+            onChange={(e) => update({ proxy: { ...options.proxy, server: e.target.value } })}
+          />
+        </label>
+        <label>
+          Proxy username
+          <input
+            value={options.proxy?.username || ''}
+            onChange={(e) => update({ proxy: { ...options.proxy, username: e.target.value } })}
+          />
+        </label>
+        <label>
+          Proxy password
+          <input
+            type="password"
+            value={options.proxy?.password || ''}
+            onChange={(e) => update({ proxy: { ...options.proxy, password: e.target.value } })}
+          />
+        </label>
+      </div>
+
+      <div className="advanced-hint">
+        Sites with a credential profile run only the profile's login script: wait for, JavaScript and proxy settings are ignored there.
+      </div>
+
+      <button className="advanced-reset" onClick={handleReset}>↺ Reset to defaults</button>
+    </details>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { supabaseService } from '../services/supabase';
+import type { AssetType, CrawlAsset } from '../types';
+
+interface CrawlAssetsProps {
+  jobId?: string; // A crawl job's whole inventory...
+  sourceUrl?: string; // ...or the assets first found on one page
+}
+
+const TYPE_ICONS: Record<AssetType, string> = {
+  document: '📄',
+  image: '🖼️',
+  video: '🎬',
+  audio: '🎵',
+  archive: '🗜️',
+  installer: '📦',
+};
+
+const formatSize = (bytes?: number) => {
+  if (bytes === undefined) return 'size unknown';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${Math.round(bytes / (1024 * 1024) * 10) / 10} MB`;
+};
+
+export default function CrawlAssets({ jobId, sourceUrl }: CrawlAssetsProps) {
+  const [assets, setAssets] = useState<CrawlAsset[]>([]);
+  const [typeFilter, setTypeFilter] = useState<AssetType | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    supabaseService.getCrawlAssets({ jobId, sourceUrl })
+      .then(loaded => {
+        if (cancelled) return;
+        setAssets(loaded);
+        setError(null);
+      })
+      .catch(loadError => {
+        console.warn('⚠️ Could not load crawl assets:', loadError);
+        if (!cancelled) {
+          setError('The asset inventory is unavailable - run docs/sql_files/crawl_assets.sql in Supabase to enable it.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [jobId, sourceUrl]);
+
+  const types = Array.from(new Set(assets.map(asset => asset.type)));
+  const shown = typeFilter ? assets.filter(asset => asset.type === typeFilter) : assets;
+
+  return (
+    <div className="crawl-assets" onClick={(e) => e.stopPropagation()}>
+      <style>{`
+        .crawl-assets {
+          margin-top: 0.75rem;
+          padding: 1rem;
+          background: rgba(0, 0, 0, 0.25);
+          border: 1px solid rgba(141, 215, 247, 0.25);
+          border-radius: 8px;
+          cursor: default;
+        }
+
+        .assets-summary {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.75rem;
+          align-items: center;
+          color: rgba(230, 243, 255, 0.8);
+          font-size: 0.85rem;
+          margin-bottom: 0.75rem;
+        }
+
+        .assets-list {
+          max-height: 400px;
+          overflow: auto;
+          display: flex;
+          flex-direction: column;
+          gap: 0.5rem;
+        }
+
+        .asset-item {
+          font-size: 0.8rem;
+          color: rgba(230, 243, 255, 0.7);
+          word-break: break-all;
+        }
+
+        .asset-item a {
+          color: #8dd7f7;
+        }
+
+        .asset-error {
+          color: #f87171;
+        }
+      `}</style>
+
+      {loading ? (
+        <div className="assets-summary">⏳ Loading assets...</div>
+      ) : error ? (
+        <div className="assets-summary">⚠️ {error}</div>
+      ) : assets.length === 0 ? (
+        <div className="assets-summary">No assets recorded - turn on "Collect file &amp; media assets" in the advanced crawl options.</div>
+      ) : (
+        <>
+          <div className="assets-summary">
+            <span>📎 {assets.length} assets</span>
+            <select className="control-select" value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as AssetType | '')}>
+              <option value="">All types</option>
+              {types.map(type => (
+                <option key={type} value={type}>{TYPE_ICONS[type]} {type}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="assets-list">
+            {shown.map(asset => (
+              <div key={asset.url} className="asset-item">
+                {TYPE_ICONS[asset.type]}{' '}
+                <a href={asset.url} target="_blank" rel="noopener noreferrer">{asset.text || asset.url}</a>
+                {' · '}{asset.contentType || asset.extension || asset.type} · {formatSize(asset.sizeBytes)}
+                {!sourceUrl && <> · from {asset.sourceUrl}</>}
+                {asset.convertedAt && <> · ✅ converted</>}
+                {asset.conversionError && <span className="asset-error"> · ❌ {asset.conversionError}</span>}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
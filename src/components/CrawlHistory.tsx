@@ -1,5 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabaseService, supabase, type Document } from '../services/supabase';
+import type { CrawlJob } from '../types';
+import PageVersions from './PageVersions';
+import CrawlAssets from './CrawlAssets';
 
 interface CrawlHistoryStats {
   totalPages: number;
@@ -14,7 +17,16 @@ interface GroupedCrawls {
   [domain: string]: Document[];
 }
 
-export default function CrawlHistory() {
+interface CrawlHistoryProps {
+  activeJobIds: string[]; // Jobs currently running in a crawl session
+  onResumeJob: (jobId: string, url: string) => void;
+  onRetryFailed: (jobId: string, url: string) => void;
+}
+
+// A job still marked running without a checkpoint for this long was interrupted (tab closed, crash...)
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+export default function CrawlHistory({ activeJobIds, onResumeJob, onRetryFailed }: CrawlHistoryProps) {
   const [crawlHistory, setCrawlHistory] = useState<Document[]>([]);
   const [stats, setStats] = useState<CrawlHistoryStats>({
     totalPages: 0,
@@ -29,9 +41,11 @@ export default function CrawlHistory() {
   const [groupBy, setGroupBy] = useState<'date' | 'domain'>('domain');
   const [sortBy, setSortBy] = useState<'newest' | 'oldest' | 'size'>('newest');
   const [filterDomain, setFilterDomain] = useState<string>('');
-  const [, setSelectedPage] = useState<Document | null>(null);
+  const [selectedPage, setSelectedPage] = useState<Document | null>(null); // Page whose versions are open
   const [pageLimit, setPageLimit] = useState(100); // Reasonable default limit
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [crawlJobs, setCrawlJobs] = useState<CrawlJob[]>([]);
+  const [assetsJobId, setAssetsJobId] = useState<string | null>(null); // Job whose asset inventory is open
 
   // Optimized stats calculation with proper error handling
   const calculateStats = useCallback(async (pages: Document[]) => {
@@ -210,11 +224,27 @@ export default function CrawlHistory() {
   // Suppress unused variable warning
   void refreshHistory;
 
+  // Crawl jobs are optional (crawl_jobs may not exist yet), so failures only hide the panel
+  const loadCrawlJobs = useCallback(async () => {
+    try {
+      setCrawlJobs(await supabaseService.getCrawlJobs(20));
+    } catch (jobsError) {
+      console.warn('⚠️ Could not load crawl jobs:', jobsError);
+      setCrawlJobs([]);
+    }
+  }, []);
+
   // Initial load
   useEffect(() => {
     loadCrawlHistory();
   }, [loadCrawlHistory]);
 
+  // Reload jobs whenever a crawl session starts or finishes so their progress is current
+  const activeJobCount = activeJobIds.length;
+  useEffect(() => {
+    loadCrawlJobs();
+  }, [activeJobCount, loadCrawlJobs]);
+
   const getFilteredAndSortedHistory = (): Document[] => {
     let filtered = crawlHistory;
     
@@ -287,6 +317,36 @@ export default function CrawlHistory() {
     return `${Math.round(length / (1024 * 1024) * 10) / 10} MB`;
   };
 
+  const getJobState = (job: CrawlJob) => {
+    const active = activeJobIds.includes(job.id);
+    const queued = job.checkpoint?.frontier.queue.length || 0;
+    const budgetLeft = job.checkpoint
+      ? job.checkpoint.frontier.maxPages - job.checkpoint.frontier.dispatched
+      : 0;
+    const interrupted = job.status === 'running' && !active &&
+      Date.now() - new Date(job.updatedAt).getTime() > STALE_JOB_MS;
+
+    return {
+      queued,
+      crawled: job.checkpoint?.pagesCrawled || 0,
+      failed: job.checkpoint?.pagesFailed || 0,
+      interrupted,
+      active,
+      canResume: (job.status !== 'running' || interrupted) && queued > 0 && budgetLeft > 0,
+    };
+  };
+
+  const getJobStatusLabel = (job: CrawlJob, interrupted: boolean) => {
+    if (interrupted) return '⏸️ interrupted';
+    switch (job.status) {
+      case 'running': return '🔄 running';
+      case 'completed': return '✅ completed';
+      case 'failed': return '❌ failed';
+      case 'cancelled': return '🛑 cancelled';
+      default: return '⏳ pending';
+    }
+  };
+
   const getCrawlTypeIcon = (metadata: any) => {
     const crawlType = metadata?.crawl_type || 'unknown';
     switch (crawlType) {
@@ -541,6 +601,27 @@ export default function CrawlHistory() {
           border-left: 3px solid rgba(141, 215, 247, 0.5);
         }
 
+        .item-captures {
+          display: flex;
+          align-items: flex-end;
+          gap: 0.75rem;
+          margin-bottom: 0.75rem;
+        }
+
+        .item-captures img {
+          width: 160px;
+          max-height: 120px;
+          object-fit: cover;
+          object-position: top;
+          border-radius: 6px;
+          border: 1px solid rgba(141, 215, 247, 0.3);
+        }
+
+        .item-captures a {
+          color: #8dd7f7;
+          font-size: 0.85rem;
+        }
+
         .crawl-history-loading, .crawl-history-error {
           display: flex;
           flex-direction: column;
@@ -581,6 +662,32 @@ export default function CrawlHistory() {
           transform: scale(1.05);
         }
 
+        .retry-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+          transform: none;
+        }
+
+        .jobs-panel {
+          margin-bottom: 2rem;
+        }
+
+        .job-item {
+          cursor: default;
+        }
+
+        .job-actions {
+          display: flex;
+          gap: 0.75rem;
+          flex-wrap: wrap;
+        }
+
+        .job-actions .retry-btn {
+          margin-top: 0;
+          padding: 0.5rem 1rem;
+          font-size: 0.85rem;
+        }
+
         @keyframes spin {
           0% { transform: rotate(0deg); }
           100% { transform: rotate(360deg); }
@@ -608,7 +715,7 @@ export default function CrawlHistory() {
           📚 Crawl History Dashboard
         </h2>
         <p className="history-subtitle">
-          Track and manage your crawled sites with detailed analytics and search capabilities
+          Track and manage your crawled sites with detailed analytics and search capabilities. Click a page to compare its saved versions.
         </p>
       </div>
 
@@ -708,6 +815,80 @@ export default function CrawlHistory() {
         </button>
       </div>
 
+      {crawlJobs.length > 0 && (
+        <div className="jobs-panel">
+          <div className="group-header">
+            <div className="group-title">🧭 Crawl Jobs</div>
+            <div className="group-count">{crawlJobs.length} jobs</div>
+          </div>
+
+          <div className="history-items">
+            {crawlJobs.map((job) => {
+              const { queued, crawled, failed, interrupted, active, canResume } = getJobState(job);
+              const hasAssets = !!job.config.crawlerOptions?.collectAssets;
+              return (
+                <div key={job.id} className="history-item job-item">
+                  <div className="item-header">
+                    <div className="item-url">{job.config.url}</div>
+                    <div className="item-meta">
+                      <div className="crawl-type-badge">{getJobStatusLabel(job, interrupted)}</div>
+                    </div>
+                  </div>
+
+                  <div className="item-details">
+                    <div className="detail-item">
+                      <span className="detail-label">Updated:</span> {formatDate(job.updatedAt)}
+                    </div>
+                    <div className="detail-item">
+                      <span className="detail-label">Crawled:</span> {crawled}
+                    </div>
+                    <div className="detail-item">
+                      <span className="detail-label">Failed:</span> {failed}
+                    </div>
+                    <div className="detail-item">
+                      <span className="detail-label">Queued:</span> {queued}
+                    </div>
+                  </div>
+
+                  {(canResume || failed > 0 || hasAssets) && (
+                    <div className="job-actions">
+                      {canResume && (
+                        <button
+                          className="retry-btn"
+                          disabled={active}
+                          onClick={() => onResumeJob(job.id, job.config.url)}
+                        >
+                          ▶️ Resume
+                        </button>
+                      )}
+                      {failed > 0 && (
+                        <button
+                          className="retry-btn"
+                          disabled={active}
+                          onClick={() => onRetryFailed(job.id, job.config.url)}
+                        >
+                          🔁 Retry {failed} failed
+                        </button>
+                      )}
+                      {hasAssets && (
+                        <button
+                          className="retry-btn"
+                          onClick={() => setAssetsJobId(assetsJobId === job.id ? null : job.id)}
+                        >
+                          📎 {assetsJobId === job.id ? 'Hide' : 'Show'} assets
+                        </button>
+                      )}
+                    </div>
+                  )}
+
+                  {assetsJobId === job.id && <CrawlAssets jobId={job.id} />}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       <div className="history-content">
         {Object.keys(groupedHistory).length === 0 ? (
           <div className="crawl-history-error">
@@ -729,7 +910,7 @@ export default function CrawlHistory() {
                   <div 
                     key={page.id} 
                     className="history-item"
-                    onClick={() => setSelectedPage(page)}
+                    onClick={() => setSelectedPage(selectedPage?.id === page.id ? null : page)}
                   >
                     <div className="item-header">
                       <div className="item-url">{page.url}</div>
@@ -757,12 +938,34 @@ export default function CrawlHistory() {
                         </div>
                       )}
                     </div>
+
+                    {(page.metadata?.screenshot_url || page.metadata?.pdf_url) && (
+                      <div className="item-captures">
+                        {page.metadata.screenshot_url && (
+                          <a href={page.metadata.screenshot_url} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()}>
+                            <img src={page.metadata.screenshot_url} alt={`Screenshot of ${page.url}`} loading="lazy" />
+                          </a>
+                        )}
+                        {page.metadata.pdf_url && (
+                          <a href={page.metadata.pdf_url} target="_blank" rel="noopener noreferrer" onClick={(e) => e.stopPropagation()}>
+                            📄 PDF
+                          </a>
+                        )}
+                      </div>
+                    )}
                     
                     {page.content && (
                       <div className="item-preview">
                         {page.content.substring(0, 150)}...
                       </div>
                     )}
+
+                    {selectedPage?.id === page.id && (
+                      <>
+                        <PageVersions url={page.url} />
+                        <CrawlAssets sourceUrl={page.url} />
+                      </>
+                    )}
                   </div>
                 ))}
               </div>
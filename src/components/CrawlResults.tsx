@@ -133,6 +133,31 @@ export const CrawlResults: React.FC<CrawlResultsProps> = ({ results, isLoading =
                     )}
                   </div>
 
+                  {(result.metadata?.screenshot_url || result.metadata?.pdf_url) && (
+                    <div className="mt-2 flex items-end space-x-3">
+                      {result.metadata.screenshot_url && (
+                        <a href={result.metadata.screenshot_url} target="_blank" rel="noopener noreferrer">
+                          <img
+                            src={result.metadata.screenshot_url}
+                            alt={`Screenshot of ${result.url}`}
+                            loading="lazy"
+                            className="w-40 max-h-28 object-cover object-top rounded border border-gray-200"
+                          />
+                        </a>
+                      )}
+                      {result.metadata.pdf_url && (
+                        <a
+                          href={result.metadata.pdf_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm text-blue-600 hover:text-blue-800"
+                        >
+                          📄 PDF
+                        </a>
+                      )}
+                    </div>
+                  )}
+
                   {result.error && (
                     <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
                       {result.error}
@@ -0,0 +1,480 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabaseService } from '../services/supabase';
+import { embeddingsService } from '../services/embeddings';
+import { isValidCron, nextCronRun } from '../services/cron';
+import type { CrawlSchedule, CrawlScheduleRun, SimplifiedCrawlConfig, UrlRuleSet } from '../types';
+import UrlRulesEditor from './UrlRulesEditor';
+
+interface CrawlSchedulesProps {
+  recentUrls: string[]; // Suggested in the URL field - these are the sites crawled by hand
+  table: string; // Table new schedules save into
+}
+
+const CRON_PRESETS = [
+  { label: 'Every Monday 03:00 UTC', cron: '0 3 * * 1' },
+  { label: 'Every day 03:00 UTC', cron: '0 3 * * *' },
+  { label: 'Every 6 hours', cron: '0 */6 * * *' },
+  { label: 'First of the month', cron: '0 3 1 * *' },
+];
+
+// Runs shown per schedule
+const RUNS_PER_SCHEDULE = 5;
+
+const emptyForm = {
+  name: '',
+  url: '',
+  crawlType: 'smart_site' as SimplifiedCrawlConfig['crawlType'],
+  cron: CRON_PRESETS[0].cron,
+  maxPages: 50,
+  maxDepth: 3,
+  urlRules: null as UrlRuleSet | null, // Saved with the recipe; null uses the domain's rules at run time
+};
+
+export default function CrawlSchedules({ recentUrls, table }: CrawlSchedulesProps) {
+  const [schedules, setSchedules] = useState<CrawlSchedule[]>([]);
+  const [runs, setRuns] = useState<CrawlScheduleRun[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadSchedules = useCallback(async () => {
+    try {
+      const [loadedSchedules, loadedRuns] = await Promise.all([
+        supabaseService.getCrawlSchedules(),
+        supabaseService.getCrawlScheduleRuns(undefined, 100),
+      ]);
+      setSchedules(loadedSchedules);
+      setRuns(loadedRuns);
+      setError(null);
+    } catch (loadError) {
+      console.warn('⚠️ Could not load crawl schedules:', loadError);
+      setError('Crawl schedules are unavailable - run docs/sql_files/crawl_schedules.sql in Supabase to enable them.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  const cronIsValid = isValidCron(form.cron);
+  const nextRun = cronIsValid ? nextCronRun(form.cron) : null;
+  const canSave = !saving && cronIsValid && !!form.url.trim() && !!form.name.trim();
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setSaving(true);
+
+    const provider = embeddingsService.getProvider();
+    const now = new Date().toISOString();
+    try {
+      await supabaseService.saveCrawlSchedule({
+        id: crypto.randomUUID(),
+        name: form.name.trim(),
+        url: form.url.trim(),
+        crawlType: form.crawlType,
+        options: {
+          ...(form.crawlType === 'smart_site' && { maxPages: form.maxPages, maxDepth: form.maxDepth }),
+          ...(form.crawlType === 'smart_site' && form.urlRules && { urlRules: form.urlRules }),
+          table,
+          embeddingProvider: provider.type,
+          embeddingModel: provider.model,
+        },
+        cron: form.cron.trim(),
+        enabled: true,
+        nextRunAt: nextRun?.toISOString(),
+        createdAt: now,
+        updatedAt: now,
+      });
+      console.log('⏰ Saved crawl schedule:', form.name);
+      setForm(emptyForm);
+      await loadSchedules();
+    } catch (saveError) {
+      console.error('❌ Failed to save crawl schedule:', saveError);
+      setError(`Failed to save schedule: ${saveError instanceof Error ? saveError.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Apply a change to a schedule, then reload the list
+  const updateSchedule = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      await loadSchedules();
+    } catch (updateError) {
+      console.error(`❌ ${failure}:`, updateError);
+      setError(`${failure}: ${updateError instanceof Error ? updateError.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleToggle = (schedule: CrawlSchedule) => {
+    // Re-enabling starts from the next matching time rather than catching up on missed runs
+    const nextRunAt = !schedule.enabled && isValidCron(schedule.cron) ? nextCronRun(schedule.cron)?.toISOString() : undefined;
+    updateSchedule(
+      () => supabaseService.updateCrawlSchedule(schedule.id, { enabled: !schedule.enabled, nextRunAt }),
+      'Failed to update schedule'
+    );
+  };
+
+  // The next timer tick (at most 15 minutes away) picks the schedule up
+  const handleRunNow = (schedule: CrawlSchedule) => {
+    updateSchedule(
+      () => supabaseService.updateCrawlSchedule(schedule.id, { enabled: true, nextRunAt: new Date().toISOString() }),
+      'Failed to queue schedule'
+    );
+  };
+
+  const handleDelete = (schedule: CrawlSchedule) => {
+    if (!window.confirm(`Delete the schedule "${schedule.name}" and its run history?`)) return;
+    updateSchedule(() => supabaseService.deleteCrawlSchedule(schedule.id), 'Failed to delete schedule');
+  };
+
+  const formatDate = (date?: string) => date ? new Date(date).toLocaleString() : '--';
+
+  const renderUrlList = (label: string, urls: string[]) => urls.length > 0 && (
+    <details className="run-urls">
+      <summary>{label} ({urls.length})</summary>
+      <ul>
+        {urls.map(url => <li key={url}>{url}</li>)}
+      </ul>
+    </details>
+  );
+
+  return (
+    <div className="crawl-schedules">
+      <style>{`
+        .crawl-schedules {
+          padding: 1rem;
+        }
+
+        .schedules-title {
+          color: #8dd7f7;
+          font-size: 1.8rem;
+          font-weight: 700;
+          margin-bottom: 0.5rem;
+        }
+
+        .schedules-subtitle {
+          color: rgba(230, 243, 255, 0.7);
+          margin-bottom: 1.5rem;
+        }
+
+        .schedule-form {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+          gap: 1rem;
+          background: rgba(141, 215, 247, 0.05);
+          border: 1px solid rgba(141, 215, 247, 0.2);
+          border-radius: 12px;
+          padding: 1.25rem;
+          margin-bottom: 2rem;
+        }
+
+        .schedule-field {
+          display: flex;
+          flex-direction: column;
+          gap: 0.4rem;
+        }
+
+        .schedule-field label {
+          color: #8dd7f7;
+          font-weight: 600;
+          font-size: 0.85rem;
+        }
+
+        .schedule-field input, .schedule-field select {
+          background: rgba(141, 215, 247, 0.1);
+          border: 1px solid rgba(141, 215, 247, 0.3);
+          border-radius: 8px;
+          padding: 0.5rem 0.75rem;
+          color: #e6f3ff;
+          font-family: 'Orbitron', monospace;
+          font-size: 0.9rem;
+        }
+
+        .schedule-field input.invalid {
+          border-color: #ef4444;
+        }
+
+        .schedule-hint {
+          color: rgba(230, 243, 255, 0.6);
+          font-size: 0.8rem;
+        }
+
+        .schedule-hint.invalid {
+          color: #fca5a5;
+        }
+
+        .schedule-btn {
+          background: linear-gradient(45deg, #4a9eff, #8dd7f7);
+          border: none;
+          padding: 0.5rem 1rem;
+          border-radius: 8px;
+          color: #0a0a0f;
+          font-weight: 700;
+          cursor: pointer;
+          font-family: 'Orbitron', monospace;
+          font-size: 0.85rem;
+        }
+
+        .schedule-btn.secondary {
+          background: rgba(141, 215, 247, 0.15);
+          border: 1px solid rgba(141, 215, 247, 0.4);
+          color: #8dd7f7;
+        }
+
+        .schedule-btn.danger {
+          background: rgba(239, 68, 68, 0.15);
+          border: 1px solid rgba(239, 68, 68, 0.5);
+          color: #fca5a5;
+        }
+
+        .schedule-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .schedule-item {
+          background: rgba(141, 215, 247, 0.05);
+          border: 1px solid rgba(141, 215, 247, 0.2);
+          border-radius: 10px;
+          padding: 1rem;
+          margin-bottom: 1rem;
+        }
+
+        .schedule-item.paused {
+          opacity: 0.6;
+        }
+
+        .schedule-header {
+          display: flex;
+          justify-content: space-between;
+          gap: 1rem;
+          flex-wrap: wrap;
+          margin-bottom: 0.5rem;
+        }
+
+        .schedule-name {
+          color: #8dd7f7;
+          font-weight: 700;
+        }
+
+        .schedule-url {
+          color: rgba(230, 243, 255, 0.8);
+          font-size: 0.85rem;
+          word-break: break-all;
+        }
+
+        .schedule-details {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(160px, 1fr));
+          gap: 0.5rem;
+          color: rgba(230, 243, 255, 0.8);
+          font-size: 0.85rem;
+          margin-bottom: 0.75rem;
+        }
+
+        .schedule-actions {
+          display: flex;
+          gap: 0.5rem;
+          flex-wrap: wrap;
+        }
+
+        .schedule-runs {
+          margin-top: 0.75rem;
+          border-top: 1px solid rgba(141, 215, 247, 0.15);
+          padding-top: 0.75rem;
+          display: grid;
+          gap: 0.5rem;
+        }
+
+        .schedule-run {
+          font-size: 0.85rem;
+          color: rgba(230, 243, 255, 0.8);
+        }
+
+        .run-counts {
+          display: flex;
+          gap: 0.75rem;
+          flex-wrap: wrap;
+        }
+
+        .run-added { color: #10b981; }
+        .run-changed { color: #f59e0b; }
+        .run-removed { color: #ef4444; }
+
+        .run-urls summary {
+          cursor: pointer;
+          color: #8dd7f7;
+        }
+
+        .run-urls ul {
+          margin: 0.25rem 0 0;
+          padding-left: 1.25rem;
+          max-height: 150px;
+          overflow-y: auto;
+          word-break: break-all;
+        }
+
+        .schedules-error {
+          color: #fca5a5;
+          margin-bottom: 1rem;
+        }
+      `}</style>
+
+      <h2 className="schedules-title">⏰ Scheduled Recrawls</h2>
+      <p className="schedules-subtitle">
+        Save a crawl as a recipe and recrawl it on a schedule. Only pages whose content changed are re-embedded,
+        and every run records what was added, changed and removed.
+      </p>
+
+      {error && <div className="schedules-error">⚠️ {error}</div>}
+
+      <div className="schedule-form">
+        <div className="schedule-field">
+          <label htmlFor="schedule-name">Name</label>
+          <input
+            id="schedule-name"
+            value={form.name}
+            placeholder="Weekly docs refresh"
+            onChange={e => setForm({ ...form, name: e.target.value })}
+          />
+        </div>
+        <div className="schedule-field">
+          <label htmlFor="schedule-url">URL</label>
+          <input
+            id="schedule-url"
+            value={form.url}
+            list="schedule-recent-urls"
+            placeholder="https://docs.example.com"
+            onChange={e => setForm({ ...form, url: e.target.value })}
+          />
+          <datalist id="schedule-recent-urls">
+            {recentUrls.map(url => <option key={url} value={url} />)}
+          </datalist>
+        </div>
+        <div className="schedule-field">
+          <label htmlFor="schedule-type">Crawl Type</label>
+          <select
+            id="schedule-type"
+            value={form.crawlType}
+            onChange={e => setForm({ ...form, crawlType: e.target.value as SimplifiedCrawlConfig['crawlType'] })}
+          >
+            <option value="smart_site">🌐 Smart Site Crawl</option>
+            <option value="single">📄 Single Page</option>
+          </select>
+        </div>
+        {form.crawlType === 'smart_site' && (
+          <>
+            <div className="schedule-field">
+              <label htmlFor="schedule-max-pages">Max Pages</label>
+              <input
+                id="schedule-max-pages"
+                type="number"
+                min={1}
+                value={form.maxPages}
+                onChange={e => setForm({ ...form, maxPages: Math.max(1, parseInt(e.target.value) || 1) })}
+              />
+            </div>
+            <div className="schedule-field">
+              <label htmlFor="schedule-max-depth">Max Depth</label>
+              <input
+                id="schedule-max-depth"
+                type="number"
+                min={0}
+                value={form.maxDepth}
+                onChange={e => setForm({ ...form, maxDepth: Math.max(0, parseInt(e.target.value) || 0) })}
+              />
+            </div>
+          </>
+        )}
+        <div className="schedule-field">
+          <label htmlFor="schedule-cron">Schedule (cron, UTC)</label>
+          <input
+            id="schedule-cron"
+            className={cronIsValid ? '' : 'invalid'}
+            value={form.cron}
+            onChange={e => setForm({ ...form, cron: e.target.value })}
+          />
+          <select value="" onChange={e => e.target.value && setForm({ ...form, cron: e.target.value })}>
+            <option value="">Presets...</option>
+            {CRON_PRESETS.map(preset => <option key={preset.cron} value={preset.cron}>{preset.label}</option>)}
+          </select>
+          <span className={`schedule-hint ${cronIsValid ? '' : 'invalid'}`}>
+            {cronIsValid ? `Next run: ${formatDate(nextRun?.toISOString())}` : 'Use five fields: minute hour day month weekday'}
+          </span>
+        </div>
+        <div className="schedule-field">
+          <label>&nbsp;</label>
+          <button className="schedule-btn" disabled={!canSave} onClick={handleSave}>
+            {saving ? '⏳ Saving...' : '💾 Save Schedule'}
+          </button>
+          <span className="schedule-hint">Saves into {table}</span>
+        </div>
+      </div>
+
+      {form.crawlType === 'smart_site' && (
+        <UrlRulesEditor url={form.url} value={form.urlRules} onChange={urlRules => setForm({ ...form, urlRules })} />
+      )}
+
+      {loading ? (
+        <div className="schedule-hint">Loading schedules...</div>
+      ) : schedules.length === 0 ? (
+        !error && <div className="schedule-hint">No schedules yet.</div>
+      ) : (
+        schedules.map(schedule => {
+          const scheduleRuns = runs.filter(run => run.scheduleId === schedule.id).slice(0, RUNS_PER_SCHEDULE);
+          return (
+            <div key={schedule.id} className={`schedule-item ${schedule.enabled ? '' : 'paused'}`}>
+              <div className="schedule-header">
+                <div>
+                  <div className="schedule-name">{schedule.name}</div>
+                  <div className="schedule-url">{schedule.url}</div>
+                </div>
+                <div className="schedule-actions">
+                  <button className="schedule-btn" onClick={() => handleRunNow(schedule)}>▶️ Run now</button>
+                  <button className="schedule-btn secondary" onClick={() => handleToggle(schedule)}>
+                    {schedule.enabled ? '⏸️ Pause' : '▶️ Enable'}
+                  </button>
+                  <button className="schedule-btn danger" onClick={() => handleDelete(schedule)}>🗑️ Delete</button>
+                </div>
+              </div>
+
+              <div className="schedule-details">
+                <div><strong>Type:</strong> {schedule.crawlType === 'single' ? '📄 Single page' : `🌐 Smart (${schedule.options.maxPages ?? '?'} pages, depth ${schedule.options.maxDepth ?? '?'}${schedule.options.urlRules ? `, ${schedule.options.urlRules.rules.length} URL rules` : ''})`}</div>
+                <div><strong>Cron:</strong> <code>{schedule.cron}</code></div>
+                <div><strong>Next run:</strong> {schedule.enabled ? formatDate(schedule.nextRunAt) : 'Paused'}</div>
+                <div><strong>Last run:</strong> {formatDate(schedule.lastRunAt)} {schedule.lastRunStatus === 'failed' && '❌'}</div>
+              </div>
+
+              {scheduleRuns.length > 0 && (
+                <div className="schedule-runs">
+                  {scheduleRuns.map(run => (
+                    <div key={run.id} className="schedule-run">
+                      <div className="run-counts">
+                        <span>{run.status === 'running' ? '🔄' : run.status === 'completed' ? '✅' : '❌'} {formatDate(run.startedAt)}</span>
+                        <span>{run.pagesCrawled} crawled</span>
+                        <span className="run-added">+{run.added.length} added</span>
+                        <span className="run-changed">~{run.changed.length} changed</span>
+                        <span className="run-removed">-{run.removed.length} removed</span>
+                        <span>{run.unchangedCount} unchanged</span>
+                      </div>
+                      {run.error && <div className="schedule-hint invalid">{run.error}</div>}
+                      {renderUrlList('Added', run.added)}
+                      {renderUrlList('Changed', run.changed)}
+                      {renderUrlList('Removed', run.removed)}
+                      {renderUrlList('Failed', run.failed)}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
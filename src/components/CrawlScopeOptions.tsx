@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { CrawlScopeMatcher } from '../services/crawlScope';
+import type { CrawlScope, CrawlScopeMode } from '../types';
+
+interface CrawlScopeOptionsProps {
+  url: string; // The start URL the scope is shown for
+  scope: CrawlScope;
+  onChange: (scope: CrawlScope) => void;
+}
+
+const SCOPE_LABELS: Record<CrawlScopeMode, string> = {
+  host: 'This host only',
+  domain: 'All subdomains of its domain',
+  hosts: 'These hosts',
+  external_one_hop: 'Follow external links one hop',
+};
+
+/**
+ * The scope in words for a start URL, or null while the URL isn't valid
+ */
+function describeScope(scope: CrawlScope, url: string): string | null {
+  try {
+    return new CrawlScopeMatcher(scope, url.trim()).describe();
+  } catch {
+    return null;
+  }
+}
+
+export default function CrawlScopeOptions({ url, scope, onChange }: CrawlScopeOptionsProps) {
+  // Hosts are edited as text so a trailing comma survives while typing
+  const [hostsText, setHostsText] = useState((scope.allowedHosts || []).join(', '));
+  const description = describeScope(scope, url);
+
+  const handleHostsChange = (text: string) => {
+    setHostsText(text);
+    const hosts = text.split(',').map(host => host.trim()).filter(Boolean);
+    onChange({ ...scope, allowedHosts: hosts.length > 0 ? hosts : undefined });
+  };
+
+  return (
+    <div className="crawl-scope">
+      <style>{`
+        .crawl-scope {
+          margin-top: 1rem;
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.75rem;
+          align-items: center;
+          color: #8dd7f7;
+          font-size: 0.85rem;
+          font-weight: 600;
+        }
+
+        .crawl-scope select, .crawl-scope input {
+          background: rgba(141, 215, 247, 0.1);
+          border: 1px solid rgba(141, 215, 247, 0.3);
+          border-radius: 6px;
+          padding: 0.4rem 0.6rem;
+          color: #e6f3ff;
+          font-family: monospace;
+        }
+
+        .crawl-scope input {
+          flex: 1;
+          min-width: 220px;
+        }
+
+        .crawl-scope-hint {
+          color: rgba(230, 243, 255, 0.7);
+          font-weight: 400;
+        }
+      `}</style>
+
+      <span>🗺️ Scope</span>
+      <select value={scope.mode} onChange={(e) => onChange({ ...scope, mode: e.target.value as CrawlScopeMode })}>
+        {Object.entries(SCOPE_LABELS).map(([mode, label]) => (
+          <option key={mode} value={mode}>{label}</option>
+        ))}
+      </select>
+      {scope.mode === 'hosts' && (
+        <input
+          value={hostsText}
+          placeholder="api.example.com, *.example.org"
+          onChange={(e) => handleHostsChange(e.target.value)}
+        />
+      )}
+      {description && <span className="crawl-scope-hint">Crawls {description}</span>}
+    </div>
+  );
+}
@@ -1,28 +1,80 @@
 import { useState, useEffect, useRef } from 'react';
+import type { CrawlSession } from '../services/crawlSession';
+import type { HostRateLimitState } from '../services/hostRateLimiter';
+import type {
+  CrawlStartEvent,
+  StatusUpdateEvent,
+  UrlsDiscoveredEvent,
+  UrlDiscoveredEvent,
+  BatchInfoEvent,
+  BatchStartEvent,
+  UrlCrawledEvent,
+  UrlSkippedEvent,
+  UrlFailedEvent,
+  CrawlCompleteEvent,
+  CrawlErrorEvent,
+  CrawlCancelledEvent,
+  TokenUsageEvent,
+  AssetsFoundEvent,
+  HostRateLimitEvent
+} from '../services/crawlEvents';
 
 interface CrawlStats {
   totalUrlsFound: number;
   totalUrlsSkipped: number;
   totalUrlsCrawled: number;
   currentUrl: string;
-  status: 'idle' | 'discovering' | 'crawling' | 'completed' | 'error';
+  status: 'idle' | 'discovering' | 'crawling' | 'completed' | 'error' | 'cancelled';
   batchInfo: {
     currentBatch: number;
     totalBatches: number;
     batchSize: number;
   };
   recentUrls: string[];
+  currentDepth: number;
   startTime: number | null;
   estimatedTimeRemaining: number | null;
+  llmTokens: number; // Tokens used by LLM extraction, 0 when the domain has no LLM schema
+  llmTokensEstimated: boolean;
+  assetsFound: number; // Files and media recorded in the asset inventory
+  documentsConverted: number;
+  scope: string | null; // The hosts a smart crawl covers, in words
+  skipReasons: Record<string, number>; // Skipped URLs by reason, URL rules by rule id
+  belowThreshold: number; // Topic-focused crawls: URLs left uncrawled for scoring below the relevance threshold
+  hostLimits: Record<string, HostRateLimitState>; // Hosts that have been throttled or failed, by host
 }
 
+const CIRCUIT_LABELS: Record<HostRateLimitState['circuit'], string> = {
+  closed: '🟢 ok',
+  open: '🔴 paused',
+  half_open: '🟡 probing',
+};
+
+const hostLimitSummary = (state: HostRateLimitState) => [
+  `${state.host}: ${CIRCUIT_LABELS[state.circuit]}`,
+  `${state.requestsPerSecond < 1 ? state.requestsPerSecond.toFixed(2) : state.requestsPerSecond.toFixed(1)} req/s`,
+  state.consecutiveFailures > 0 && `${state.consecutiveFailures} failures${state.lastStatus ? ` (HTTP ${state.lastStatus})` : ''}`,
+  state.pausedUntil && `backing off until ${new Date(state.pausedUntil).toLocaleTimeString()}`,
+].filter(Boolean).join(' · ');
+
+const SKIP_REASON_LABELS: Record<UrlSkippedEvent['reason'], string> = {
+  out_of_scope: 'out of scope',
+  file_extension: 'file links',
+  url_rule: 'URL rules',
+  robots_disallowed: 'robots.txt',
+};
+
+const skipReasonLabel = (event: UrlSkippedEvent) =>
+  event.reason === 'url_rule' && event.ruleId ? `rule "${event.ruleId}"` : SKIP_REASON_LABELS[event.reason];
+
 interface CrawlStatusDashboardProps {
-  isActive: boolean;
-  crawlService?: any; // The crawl4ai service instance
+  session?: CrawlSession; // The crawl shown on this card - an idle card when not set
+  onCancel?: () => void; // Set while the crawl runs
+  onDismiss?: () => void; // Set once it has finished
   onStatsUpdate?: (stats: CrawlStats) => void;
 }
 
-export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlStatusDashboardProps) {
+export default function CrawlStatusDashboard({ session, onCancel, onDismiss }: CrawlStatusDashboardProps) {
   const [stats, setStats] = useState<CrawlStats>({
     totalUrlsFound: 0,
     totalUrlsSkipped: 0,
@@ -35,33 +87,40 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
       batchSize: 0
     },
     recentUrls: [],
+    currentDepth: 0,
     startTime: null,
-    estimatedTimeRemaining: null
+    estimatedTimeRemaining: null,
+    llmTokens: 0,
+    llmTokensEstimated: false,
+    assetsFound: 0,
+    documentsConverted: 0,
+    scope: null,
+    skipReasons: {},
+    belowThreshold: 0,
+    hostLimits: {}
   });
 
+  const [cancelRequested, setCancelRequested] = useState(false);
   const starFieldRef = useRef<HTMLDivElement>(null);
   const rocketRef = useRef<HTMLDivElement>(null);
 
-  // Listen to real crawl events from the service
+  // Listen to the session's crawl events - other sessions have their own cards
   useEffect(() => {
-    if (!crawlService) {
-      return;
-    }
-
-    if (!isActive) {
+    if (!session) {
       setStats(prev => ({ ...prev, status: 'idle' }));
       return;
     }
 
-    // Immediately set status to discovering when crawl becomes active
-    console.log('🚀 Setting status to discovering because isActive=true');
+    // Immediately set status to discovering when the session starts
+    console.log('🚀 Setting status to discovering for session', session.id);
     setStats(prev => ({ 
       ...prev, 
       status: 'discovering',
-      currentUrl: 'Initializing crawl...'
+      startTime: session.startedAt,
+      currentUrl: session.url
     }));
 
-    const handleCrawlStart = (data: any) => {
+    const handleCrawlStart = (data: CrawlStartEvent) => {
       console.log('🎯 Dashboard received crawl_start:', data);
       setStats(prev => ({
         ...prev,
@@ -72,17 +131,27 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
         totalUrlsSkipped: 0,
         currentUrl: data.url,
         recentUrls: [],
-        batchInfo: { currentBatch: 0, totalBatches: 0, batchSize: 0 }
+        currentDepth: 0,
+        batchInfo: { currentBatch: 0, totalBatches: 0, batchSize: 0 },
+        llmTokens: 0,
+        llmTokensEstimated: false,
+        assetsFound: 0,
+        documentsConverted: 0,
+        scope: data.scope || null,
+        skipReasons: {},
+        belowThreshold: 0,
+        hostLimits: {}
       }));
     };
 
-    const handleStatusUpdate = (data: any) => {
+    const handleStatusUpdate = (data: StatusUpdateEvent) => {
       console.log('📊 Dashboard received status_update:', data);
       console.log('🚀 Setting rocket status to:', data.status);
-      setStats(prev => ({ ...prev, status: data.status }));
+      // A service warning doesn't change what the crawl is doing
+      setStats(prev => ({ ...prev, status: data.status === 'service_warning' ? prev.status : data.status }));
     };
 
-    const handleUrlsDiscovered = (data: any) => {
+    const handleUrlsDiscovered = (data: UrlsDiscoveredEvent) => {
       console.log('🔍 Dashboard received urls_discovered:', data);
       setStats(prev => ({
         ...prev,
@@ -91,19 +160,28 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
       }));
     };
 
-    const handleBatchInfo = (data: any) => {
+    const handleBatchInfo = (data: BatchInfoEvent) => {
       console.log('📦 Dashboard received batch_info:', data);
       setStats(prev => ({
         ...prev,
         batchInfo: {
-          currentBatch: 0,
+          // batch_info is re-sent as the deep crawl frontier grows, so keep the current batch
+          currentBatch: prev.batchInfo.currentBatch,
           totalBatches: data.totalBatches,
           batchSize: data.batchSize
         }
       }));
     };
 
-    const handleBatchStart = (data: any) => {
+    const handleUrlDiscovered = (data: UrlDiscoveredEvent) => {
+      setStats(prev => ({
+        ...prev,
+        totalUrlsFound: prev.totalUrlsFound + 1,
+        status: data.depth > 0 ? 'crawling' : prev.status
+      }));
+    };
+
+    const handleBatchStart = (data: BatchStartEvent) => {
       console.log('🚀 Dashboard received batch_start:', data);
       setStats(prev => ({
         ...prev,
@@ -114,12 +192,13 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
       }));
     };
 
-    const handleUrlCrawled = (data: any) => {
+    const handleUrlCrawled = (data: UrlCrawledEvent) => {
       console.log('✅ Dashboard received url_crawled:', data);
       setStats(prev => {
         const newStats = { ...prev };
         newStats.totalUrlsCrawled++;
         newStats.currentUrl = data.url;
+        newStats.currentDepth = data.depth ?? newStats.currentDepth;
         newStats.recentUrls = [data.url, ...newStats.recentUrls.slice(0, 4)];
         
         // Calculate time remaining
@@ -134,57 +213,96 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
       });
     };
 
-    const handleUrlSkipped = (data: any) => {
+    const handleUrlSkipped = (data: UrlSkippedEvent) => {
       console.log('⚠️ Dashboard received url_skipped:', data);
-      setStats(prev => ({ ...prev, totalUrlsSkipped: prev.totalUrlsSkipped + 1 }));
+      const label = skipReasonLabel(data);
+      setStats(prev => ({
+        ...prev,
+        totalUrlsSkipped: prev.totalUrlsSkipped + 1,
+        skipReasons: { ...prev.skipReasons, [label]: (prev.skipReasons[label] || 0) + 1 }
+      }));
     };
 
-    const handleUrlFailed = (data: any) => {
+    const handleUrlFailed = (data: UrlFailedEvent) => {
       console.log('❌ Dashboard received url_failed:', data);
       setStats(prev => ({ ...prev, totalUrlsSkipped: prev.totalUrlsSkipped + 1 }));
     };
 
-    const handleCrawlComplete = (data: any) => {
+    const handleCrawlComplete = (data: CrawlCompleteEvent) => {
       console.log('🎉 Dashboard received crawl_complete:', data);
       setStats(prev => ({
         ...prev,
         status: 'completed',
         currentUrl: '',
+        belowThreshold: data.belowThresholdUrls || 0,
         estimatedTimeRemaining: 0
       }));
     };
 
-    const handleCrawlError = (data: any) => {
+    const handleCrawlError = (data: CrawlErrorEvent) => {
       console.log('💥 Dashboard received crawl_error:', data);
       setStats(prev => ({ ...prev, status: 'error' }));
     };
 
+    const handleCrawlCancelled = (data: CrawlCancelledEvent) => {
+      console.log(`🛑 Dashboard received crawl_cancelled: ${data.savedUrls.length} pages saved`);
+      setStats(prev => ({ ...prev, status: 'cancelled' }));
+    };
+
+    const handleTokenUsage = (data: TokenUsageEvent) => {
+      console.log(`🧠 Dashboard received token_usage: ${data.totalTokens} tokens for ${data.url}`);
+      setStats(prev => ({
+        ...prev,
+        llmTokens: prev.llmTokens + data.totalTokens,
+        llmTokensEstimated: prev.llmTokensEstimated || data.estimated
+      }));
+    };
+
+    const handleAssetsFound = (data: AssetsFoundEvent) => {
+      console.log(`📎 Dashboard received assets_found: ${data.count} assets on ${data.sourceUrl}`);
+      setStats(prev => ({
+        ...prev,
+        assetsFound: prev.assetsFound + data.count,
+        documentsConverted: prev.documentsConverted + data.converted
+      }));
+    };
+
+    // Hosts show up once they misbehave, then stay so their recovery is visible
+    const handleHostRateLimit = (data: HostRateLimitEvent) => {
+      const { state } = data;
+      const troubled = state.consecutiveFailures > 0 || state.circuit !== 'closed' || !!state.pausedUntil;
+      if (troubled) {
+        console.log(`🚦 Dashboard received host_rate_limit: ${hostLimitSummary(state)}`);
+      }
+      setStats(prev => (troubled || prev.hostLimits[state.host]
+        ? { ...prev, hostLimits: { ...prev.hostLimits, [state.host]: state } }
+        : prev));
+    };
+
     // Subscribe to events
-    crawlService.on('crawl_start', handleCrawlStart);
-    crawlService.on('status_update', handleStatusUpdate);
-    crawlService.on('urls_discovered', handleUrlsDiscovered);
-    crawlService.on('batch_info', handleBatchInfo);
-    crawlService.on('batch_start', handleBatchStart);
-    crawlService.on('url_crawled', handleUrlCrawled);
-    crawlService.on('url_skipped', handleUrlSkipped);
-    crawlService.on('url_failed', handleUrlFailed);
-    crawlService.on('crawl_complete', handleCrawlComplete);
-    crawlService.on('crawl_error', handleCrawlError);
+    const unsubscribers = [
+      session.on('crawl_start', handleCrawlStart),
+      session.on('status_update', handleStatusUpdate),
+      session.on('urls_discovered', handleUrlsDiscovered),
+      session.on('url_discovered', handleUrlDiscovered),
+      session.on('batch_info', handleBatchInfo),
+      session.on('batch_start', handleBatchStart),
+      session.on('url_crawled', handleUrlCrawled),
+      session.on('url_skipped', handleUrlSkipped),
+      session.on('url_failed', handleUrlFailed),
+      session.on('crawl_complete', handleCrawlComplete),
+      session.on('crawl_error', handleCrawlError),
+      session.on('crawl_cancelled', handleCrawlCancelled),
+      session.on('token_usage', handleTokenUsage),
+      session.on('assets_found', handleAssetsFound),
+      session.on('host_rate_limit', handleHostRateLimit),
+    ];
 
     return () => {
       // Unsubscribe from events
-      crawlService.off('crawl_start', handleCrawlStart);
-      crawlService.off('status_update', handleStatusUpdate);
-      crawlService.off('urls_discovered', handleUrlsDiscovered);
-      crawlService.off('batch_info', handleBatchInfo);
-      crawlService.off('batch_start', handleBatchStart);
-      crawlService.off('url_crawled', handleUrlCrawled);
-      crawlService.off('url_skipped', handleUrlSkipped);
-      crawlService.off('url_failed', handleUrlFailed);
-      crawlService.off('crawl_complete', handleCrawlComplete);
-      crawlService.off('crawl_error', handleCrawlError);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
     };
-  }, [isActive, crawlService]);
+  }, [session]);
 
   // Animate star field
   useEffect(() => {
@@ -220,28 +338,40 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
   // Debug status changes for rocket animation
   useEffect(() => {
     console.log('🚀 Status changed to:', stats.status, '- Rocket should be:', (stats.status === 'crawling' || stats.status === 'discovering') ? 'flying' : 'idle');
-    console.log('🚀 isActive prop:', isActive);
-    console.log('🚀 crawlService available:', !!crawlService);
-  }, [stats.status, isActive, crawlService]);
+    console.log('🚀 Session:', session?.id || 'none');
+  }, [stats.status, session]);
+
+  // Progress events can still arrive while the crawl winds down, so the cancel is tracked separately
+  const isCancelling = cancelRequested || stats.status === 'cancelled';
+  const displayStatus = cancelRequested && stats.status !== 'cancelled' ? 'cancelling' : stats.status;
+
+  const handleCancel = () => {
+    setCancelRequested(true);
+    onCancel?.();
+  };
 
   const getStatusColor = () => {
-    switch (stats.status) {
+    switch (displayStatus) {
       case 'idle': return '#6b7280';
       case 'discovering': return '#f59e0b';
       case 'crawling': return '#8dd7f7';
       case 'completed': return '#10b981';
       case 'error': return '#ef4444';
+      case 'cancelling':
+      case 'cancelled': return '#f97316';
       default: return '#6b7280';
     }
   };
 
   const getStatusText = () => {
-    switch (stats.status) {
+    switch (displayStatus) {
       case 'idle': return 'Ready for Mission';
       case 'discovering': return 'Discovering URLs...';
       case 'crawling': return 'Crawling in Progress';
       case 'completed': return 'Mission Complete';
       case 'error': return 'Mission Failed';
+      case 'cancelling': return 'Aborting Mission...';
+      case 'cancelled': return 'Mission Aborted';
       default: return 'Unknown Status';
     }
   };
@@ -260,7 +390,16 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
   };
 
   return (
-    <div className="crawl-dashboard">
+    // Per-card values are CSS variables so several cards can share the stylesheet below
+    <div
+      className="crawl-dashboard"
+      style={{
+        '--status-color': getStatusColor(),
+        '--status-glow': `${getStatusColor()}33`,
+        '--status-animation': stats.status === 'crawling' || stats.status === 'discovering' ? 'pulse' : 'none',
+        '--progress': `${getProgressPercentage()}%`
+      } as React.CSSProperties}
+    >
       <style>{`
         .crawl-dashboard {
           background: linear-gradient(135deg, rgba(10, 10, 15, 0.95) 0%, rgba(22, 33, 62, 0.9) 100%);
@@ -296,6 +435,44 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
           z-index: 2;
         }
 
+        .session-url {
+          color: rgba(230, 243, 255, 0.8);
+          font-size: 0.9rem;
+          margin-bottom: 0.75rem;
+          word-break: break-all;
+        }
+
+        .session-cancel-btn {
+          margin-left: 0.75rem;
+          background: rgba(239, 68, 68, 0.15);
+          border: 1px solid rgba(239, 68, 68, 0.5);
+          color: #fca5a5;
+          padding: 0.4rem 0.9rem;
+          border-radius: 20px;
+          cursor: pointer;
+          font-family: 'Orbitron', monospace;
+          font-size: 0.8rem;
+        }
+
+        .session-cancel-btn:hover:not(:disabled) {
+          background: rgba(239, 68, 68, 0.3);
+        }
+
+        .session-cancel-btn:disabled {
+          opacity: 0.6;
+          cursor: not-allowed;
+        }
+
+        .session-dismiss-btn {
+          background: rgba(141, 215, 247, 0.1);
+          border-color: rgba(141, 215, 247, 0.4);
+          color: #8dd7f7;
+        }
+
+        .session-dismiss-btn:hover:not(:disabled) {
+          background: rgba(141, 215, 247, 0.2);
+        }
+
         .dashboard-header {
           text-align: center;
           margin-bottom: 2rem;
@@ -316,16 +493,16 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
           background: rgba(0, 0, 0, 0.4);
           padding: 0.5rem 1rem;
           border-radius: 20px;
-          border: 1px solid ${getStatusColor()};
-          box-shadow: 0 0 15px ${getStatusColor()}33;
+          border: 1px solid var(--status-color);
+          box-shadow: 0 0 15px var(--status-glow);
         }
 
         .status-dot {
           width: 12px;
           height: 12px;
           border-radius: 50%;
-          background: ${getStatusColor()};
-          animation: ${stats.status === 'crawling' || stats.status === 'discovering' ? 'pulse' : 'none'} 2s infinite;
+          background: var(--status-color);
+          animation: var(--status-animation) 2s infinite;
         }
 
         @keyframes pulse {
@@ -499,7 +676,7 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
           background: linear-gradient(90deg, #4a9eff, #8dd7f7);
           border-radius: 4px;
           transition: width 0.5s ease;
-          width: ${getProgressPercentage()}%;
+          width: var(--progress);
         }
 
         .batch-info {
@@ -524,6 +701,11 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
           font-size: 0.9rem;
         }
 
+        .skip-reasons {
+          color: rgba(230, 243, 255, 0.8);
+          font-size: 0.85rem;
+        }
+
         .current-url-text {
           color: rgba(230, 243, 255, 0.9);
           font-family: 'Courier New', monospace;
@@ -611,10 +793,30 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
       <div className="dashboard-content">
         <div className="dashboard-header">
           <h3 className="dashboard-title">🚀 Real-Time Crawl Observatory</h3>
+          {session && <div className="session-url">{session.url}</div>}
           <div className="status-indicator">
             <div className="status-dot"></div>
             <span>{getStatusText()}</span>
           </div>
+          {session && onCancel && (
+            <button
+              className="session-cancel-btn"
+              onClick={handleCancel}
+              disabled={isCancelling}
+              title="Cancel this crawl"
+            >
+              {isCancelling ? '⏳ Cancelling...' : '✖ Cancel'}
+            </button>
+          )}
+          {session && onDismiss && (
+            <button
+              className="session-cancel-btn session-dismiss-btn"
+              onClick={onDismiss}
+              title="Remove this card"
+            >
+              ✔ Dismiss
+            </button>
+          )}
         </div>
 
         <div className="visual-area">
@@ -659,6 +861,24 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
             <div className="stat-value">{stats.status === 'crawling' ? `${stats.batchInfo.currentBatch}/${stats.batchInfo.totalBatches}` : '--'}</div>
             <div className="stat-label">Current Batch</div>
           </div>
+          {stats.llmTokens > 0 && (
+            <div className="stat-card">
+              <div className="stat-value">{stats.llmTokensEstimated ? '~' : ''}{stats.llmTokens.toLocaleString()}</div>
+              <div className="stat-label">LLM Tokens</div>
+            </div>
+          )}
+          {stats.belowThreshold > 0 && (
+            <div className="stat-card">
+              <div className="stat-value">{stats.belowThreshold.toLocaleString()}</div>
+              <div className="stat-label">Below Relevance Threshold</div>
+            </div>
+          )}
+          {stats.assetsFound > 0 && (
+            <div className="stat-card">
+              <div className="stat-value">{stats.assetsFound}</div>
+              <div className="stat-label">Assets{stats.documentsConverted > 0 ? ` (${stats.documentsConverted} converted)` : ''}</div>
+            </div>
+          )}
         </div>
 
         {stats.status !== 'idle' && (
@@ -673,10 +893,34 @@ export default function CrawlStatusDashboard({ isActive, crawlService }: CrawlSt
             <div className="batch-info">
               <span>Batch Size: {stats.batchInfo.batchSize}</span>
               <span>Total Batches: {stats.batchInfo.totalBatches}</span>
+              <span>Depth: {stats.currentDepth}</span>
             </div>
           </div>
         )}
 
+        {stats.status !== 'idle' && (stats.scope || Object.keys(stats.skipReasons).length > 0) && (
+          <div className="current-url">
+            <div className="current-url-label">🗺️ Scope: {stats.scope || 'this page only'}</div>
+            {Object.keys(stats.skipReasons).length > 0 && (
+              <div className="skip-reasons">
+                Skipped: {Object.entries(stats.skipReasons)
+                  .sort((a, b) => b[1] - a[1])
+                  .map(([reason, count]) => `${reason} ${count.toLocaleString()}`)
+                  .join(' · ')}
+              </div>
+            )}
+          </div>
+        )}
+
+        {stats.status !== 'idle' && Object.keys(stats.hostLimits).length > 0 && (
+          <div className="current-url">
+            <div className="current-url-label">🚦 Host Rate Limits</div>
+            {Object.values(stats.hostLimits).map(state => (
+              <div key={state.host} className="skip-reasons">{hostLimitSummary(state)}</div>
+            ))}
+          </div>
+        )}
+
         {stats.currentUrl && (
           <div className="current-url">
             <div className="current-url-label">🎯 Currently Scanning:</div>
@@ -0,0 +1,255 @@
+import { useState, useEffect } from 'react';
+import { credentialsService } from '../services/credentials';
+import { extractionDomain } from '../services/extraction';
+import type { CredentialProfileInput, CredentialProfileSummary } from '../types';
+
+interface CredentialProfileEditorProps {
+  url: string; // The profile shown is the one saved for this URL's domain
+}
+
+// Wait for the URL to settle before looking its domain up
+const LOOKUP_DELAY_MS = 500;
+
+interface ProfileForm {
+  name: string;
+  cookies: string; // name=value per line
+  headers: string; // Name: value per line
+  localStorage: string; // key=value per line
+  loginScript: string;
+  loginWaitFor: string;
+}
+
+const emptyForm: ProfileForm = { name: '', cookies: '', headers: '', localStorage: '', loginScript: '', loginWaitFor: '' };
+
+/**
+ * "name<separator>value" lines as entries, skipping blank lines and lines without a name
+ */
+function parseLines(text: string, separator: string): Array<[string, string]> {
+  return text
+    .split('\n')
+    .map(line => {
+      const index = line.indexOf(separator);
+      return index > 0 ? [line.slice(0, index).trim(), line.slice(index + 1).trim()] as [string, string] : null;
+    })
+    .filter((entry): entry is [string, string] => !!entry && !!entry[0]);
+}
+
+function toProfileInput(form: ProfileForm): CredentialProfileInput {
+  return {
+    name: form.name.trim(),
+    cookies: parseLines(form.cookies, '=').map(([name, value]) => ({ name, value })),
+    headers: Object.fromEntries(parseLines(form.headers, ':')),
+    localStorage: Object.fromEntries(parseLines(form.localStorage, '=')),
+    loginScript: form.loginScript.trim() ? form.loginScript : undefined,
+    loginWaitFor: form.loginWaitFor.trim() || undefined,
+  };
+}
+
+const describeProfile = (profile: CredentialProfileSummary) => [
+  profile.cookieNames.length > 0 && `cookies: ${profile.cookieNames.join(', ')}`,
+  profile.headerNames.length > 0 && `headers: ${profile.headerNames.join(', ')}`,
+  profile.localStorageKeys.length > 0 && `localStorage: ${profile.localStorageKeys.join(', ')}`,
+  profile.hasLoginScript && `login script${profile.loginWaitFor ? ` (waits for ${profile.loginWaitFor})` : ''}`,
+].filter(Boolean).join(' · ') || 'empty';
+
+export default function CredentialProfileEditor({ url }: CredentialProfileEditorProps) {
+  const domain = extractionDomain(url.trim());
+  const [profile, setProfile] = useState<CredentialProfileSummary | null>(null);
+  const [form, setForm] = useState<ProfileForm>(emptyForm);
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!domain) {
+      setLoaded(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const stored = await credentialsService.getProfile(domain);
+        if (cancelled) return;
+        setProfile(stored);
+        setMessage(null);
+      } catch (loadError) {
+        console.warn('⚠️ Could not load credential profile:', loadError);
+        if (cancelled) return;
+        setProfile(null);
+        setMessage('Credential profiles are unavailable - deploy the /api/credentials function and run docs/sql_files/credential_profiles.sql in Supabase.');
+      }
+      setForm({ ...emptyForm });
+      setLoaded(true);
+    }, LOOKUP_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [domain]);
+
+  if (!domain || !loaded) {
+    return null;
+  }
+
+  const update = (updates: Partial<ProfileForm>) => setForm({ ...form, ...updates });
+  const canSave = !saving && !!form.name.trim();
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      const saved = await credentialsService.saveProfile(domain, toProfileInput(form));
+      setProfile(saved);
+      // Saved values are never sent back, so the form is cleared rather than left holding secrets
+      setForm({ ...emptyForm });
+      setMessage(`✅ Saved - crawls of ${domain} through the proxy now use "${saved.name}"`);
+    } catch (saveError) {
+      console.error('❌ Failed to save credential profile:', saveError);
+      setMessage(`Failed to save profile: ${saveError instanceof Error ? saveError.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await credentialsService.deleteProfile(domain);
+      setProfile(null);
+      setMessage(`Removed the credential profile of ${domain}`);
+    } catch (deleteError) {
+      console.error('❌ Failed to delete credential profile:', deleteError);
+      setMessage(`Failed to delete profile: ${deleteError instanceof Error ? deleteError.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <details className="credential-profile">
+      <style>{`
+        .credential-profile {
+          margin-top: 1.5rem;
+          background: rgba(141, 215, 247, 0.05);
+          border: 1px solid rgba(141, 215, 247, 0.2);
+          border-radius: 12px;
+          padding: 1rem 1.25rem;
+        }
+
+        .credential-profile summary {
+          color: #8dd7f7;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
+        .credential-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(220px, 1fr));
+          gap: 0.75rem;
+          margin: 1rem 0;
+        }
+
+        .credential-profile label {
+          display: flex;
+          flex-direction: column;
+          gap: 0.3rem;
+          color: #8dd7f7;
+          font-size: 0.8rem;
+          font-weight: 600;
+        }
+
+        .credential-profile input, .credential-profile textarea {
+          background: rgba(141, 215, 247, 0.1);
+          border: 1px solid rgba(141, 215, 247, 0.3);
+          border-radius: 6px;
+          padding: 0.4rem 0.6rem;
+          color: #e6f3ff;
+          font-family: monospace;
+        }
+
+        .credential-actions {
+          display: flex;
+          gap: 0.75rem;
+          flex-wrap: wrap;
+        }
+
+        .credential-btn {
+          background: rgba(141, 215, 247, 0.15);
+          border: 1px solid rgba(141, 215, 247, 0.4);
+          border-radius: 8px;
+          color: #e6f3ff;
+          padding: 0.4rem 0.9rem;
+          cursor: pointer;
+        }
+
+        .credential-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .credential-message {
+          color: rgba(230, 243, 255, 0.8);
+          font-size: 0.85rem;
+          margin-top: 0.75rem;
+        }
+      `}</style>
+
+      <summary>🔐 Credentials for {domain} {profile ? `- "${profile.name}"` : '(none)'}</summary>
+
+      {!credentialsService.isApplied() && (
+        <div className="credential-message">
+          ⚠️ Profiles are applied by the /api/crawl proxy - set VITE_CRAWL4AI_MODE=proxy for browser crawls to use them.
+        </div>
+      )}
+      {profile && (
+        <div className="credential-message">
+          Saved: {describeProfile(profile)}. Stored values are never shown - saving replaces the whole profile.
+        </div>
+      )}
+
+      <div className="credential-grid">
+        <label>
+          Profile name
+          <input value={form.name} placeholder="Docs SSO session" onChange={(e) => update({ name: e.target.value })} />
+        </label>
+        <label>
+          Wait for after login
+          <input value={form.loginWaitFor} placeholder="css:.signed-in" onChange={(e) => update({ loginWaitFor: e.target.value })} />
+        </label>
+        <label>
+          Cookies (name=value per line)
+          <textarea rows={4} value={form.cookies} placeholder="session_id=abc123" onChange={(e) => update({ cookies: e.target.value })} />
+        </label>
+        <label>
+          Headers (Name: value per line)
+          <textarea rows={4} value={form.headers} placeholder="Authorization: Bearer ..." onChange={(e) => update({ headers: e.target.value })} />
+        </label>
+        <label>
+          localStorage (key=value per line)
+          <textarea rows={4} value={form.localStorage} placeholder="auth_token=..." onChange={(e) => update({ localStorage: e.target.value })} />
+        </label>
+        <label>
+          Login script (runs before extraction)
+          <textarea
+            rows={4}
+            value={form.loginScript}
+            placeholder="document.querySelector('#user').value = '...'; document.querySelector('form').submit();"
+            onChange={(e) => update({ loginScript: e.target.value })}
+          />
+        </label>
+      </div>
+
+      <div className="credential-actions">
+        <button className="credential-btn" onClick={handleSave} disabled={!canSave}>
+          {saving ? '⏳ Saving...' : '💾 Save profile'}
+        </button>
+        {profile && (
+          <button className="credential-btn" onClick={handleDelete}>
+            🗑️ Remove profile
+          </button>
+        )}
+      </div>
+
+      {message && <div className="credential-message">{message}</div>}
+    </details>
+  );
+}
@@ -0,0 +1,367 @@
+import { useState, useEffect } from 'react';
+import { supabaseService } from '../services/supabase';
+import { extractionDomain } from '../services/extraction';
+import type { ExtractionField, ExtractionSchema } from '../types';
+
+interface ExtractionSchemaEditorProps {
+  url: string; // The schema shown is the one saved for this URL's domain
+}
+
+// Wait for the URL to settle before looking its domain up
+const LOOKUP_DELAY_MS = 500;
+
+const emptyField: ExtractionField = { name: '', selector: '', type: 'text' };
+
+const DEFAULT_LLM_PROVIDER = 'openai/gpt-4o-mini';
+
+const EXAMPLE_OUTPUT_SCHEMA = JSON.stringify({
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    price: { type: 'number' },
+  },
+  required: ['name'],
+}, null, 2);
+
+const emptySchema = (domain: string): ExtractionSchema => ({
+  domain,
+  name: '',
+  mode: 'selectors',
+  selectorType: 'css',
+  baseSelector: '',
+  fields: [{ ...emptyField }],
+});
+
+/**
+ * The output schema as an object, or null while the text isn't a JSON object
+ */
+function parseOutputSchema(text: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export default function ExtractionSchemaEditor({ url }: ExtractionSchemaEditorProps) {
+  const domain = extractionDomain(url.trim());
+  const [schema, setSchema] = useState<ExtractionSchema | null>(null);
+  const [saved, setSaved] = useState(false); // Whether the domain has a schema in the database
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // The LLM output schema is edited as JSON text and parsed on save
+  const [outputSchemaText, setOutputSchemaText] = useState(EXAMPLE_OUTPUT_SCHEMA);
+
+  useEffect(() => {
+    if (!domain) {
+      setSchema(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const stored = await supabaseService.getExtractionSchema(domain);
+        if (cancelled) return;
+        setSchema(stored || emptySchema(domain));
+        setSaved(!!stored);
+        setOutputSchemaText(stored?.llm ? JSON.stringify(stored.llm.outputSchema, null, 2) : EXAMPLE_OUTPUT_SCHEMA);
+        setMessage(null);
+      } catch (loadError) {
+        console.warn('⚠️ Could not load extraction schema:', loadError);
+        if (cancelled) return;
+        setSchema(emptySchema(domain));
+        setSaved(false);
+        setMessage('Extraction schemas are unavailable - run docs/sql_files/extraction_schemas.sql in Supabase to enable them.');
+      }
+    }, LOOKUP_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [domain]);
+
+  if (!domain || !schema) {
+    return null;
+  }
+
+  const updateField = (index: number, updates: Partial<ExtractionField>) => {
+    setSchema({
+      ...schema,
+      fields: schema.fields.map((field, i) => (i === index ? { ...field, ...updates } : field)),
+    });
+  };
+
+  const completeFields = schema.fields.filter(field =>
+    field.name.trim() && field.selector.trim() && (field.type !== 'attribute' || field.attribute?.trim())
+  );
+  const llm = schema.llm || { provider: DEFAULT_LLM_PROVIDER, instruction: '', outputSchema: {} };
+  const outputSchema = parseOutputSchema(outputSchemaText);
+  const canSave = !saving && !!schema.name.trim() && (schema.mode === 'llm'
+    ? !!llm.provider.trim() && !!llm.instruction.trim() && !!outputSchema
+    : !!schema.baseSelector.trim() && completeFields.length > 0);
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      const stored = await supabaseService.saveExtractionSchema({
+        ...schema,
+        name: schema.name.trim(),
+        baseSelector: schema.baseSelector.trim(),
+        fields: completeFields.map(field => ({
+          ...field,
+          name: field.name.trim(),
+          selector: field.selector.trim(),
+          attribute: field.type === 'attribute' ? field.attribute?.trim() : undefined,
+        })),
+        llm: schema.mode === 'llm' && outputSchema
+          ? { provider: llm.provider.trim(), instruction: llm.instruction.trim(), outputSchema }
+          : undefined,
+      });
+      setSchema(stored);
+      setSaved(true);
+      setMessage(`✅ Saved - crawls of ${domain} now store structured data in metadata.extracted_data`);
+    } catch (saveError) {
+      console.error('❌ Failed to save extraction schema:', saveError);
+      setMessage(`Failed to save schema: ${saveError instanceof Error ? saveError.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await supabaseService.deleteExtractionSchema(domain);
+      setSchema(emptySchema(domain));
+      setSaved(false);
+      setMessage(`Removed the extraction schema of ${domain}`);
+    } catch (deleteError) {
+      console.error('❌ Failed to delete extraction schema:', deleteError);
+      setMessage(`Failed to delete schema: ${deleteError instanceof Error ? deleteError.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <details className="extraction-schema" open={saved}>
+      <style>{`
+        .extraction-schema {
+          margin-top: 1.5rem;
+          background: rgba(141, 215, 247, 0.05);
+          border: 1px solid rgba(141, 215, 247, 0.2);
+          border-radius: 12px;
+          padding: 1rem 1.25rem;
+        }
+
+        .extraction-schema summary {
+          color: #8dd7f7;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
+        .extraction-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(180px, 1fr));
+          gap: 0.75rem;
+          margin: 1rem 0;
+        }
+
+        .extraction-field-row {
+          display: grid;
+          grid-template-columns: 1fr 2fr 1fr 1fr auto;
+          gap: 0.5rem;
+          margin-bottom: 0.5rem;
+        }
+
+        .extraction-schema label {
+          display: flex;
+          flex-direction: column;
+          gap: 0.3rem;
+          color: #8dd7f7;
+          font-size: 0.8rem;
+          font-weight: 600;
+        }
+
+        .extraction-schema input, .extraction-schema select, .extraction-schema textarea {
+          background: rgba(141, 215, 247, 0.1);
+          border: 1px solid rgba(141, 215, 247, 0.3);
+          border-radius: 6px;
+          padding: 0.4rem 0.6rem;
+          color: #e6f3ff;
+          font-family: monospace;
+        }
+
+        .extraction-actions {
+          display: flex;
+          gap: 0.75rem;
+          flex-wrap: wrap;
+          margin-top: 0.75rem;
+        }
+
+        .extraction-btn {
+          background: rgba(141, 215, 247, 0.15);
+          border: 1px solid rgba(141, 215, 247, 0.4);
+          border-radius: 8px;
+          color: #e6f3ff;
+          padding: 0.4rem 0.9rem;
+          cursor: pointer;
+        }
+
+        .extraction-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        .extraction-message {
+          color: rgba(230, 243, 255, 0.8);
+          font-size: 0.85rem;
+          margin-top: 0.75rem;
+        }
+
+        @media (max-width: 768px) {
+          .extraction-field-row {
+            grid-template-columns: 1fr;
+          }
+        }
+      `}</style>
+
+      <summary>🧩 Structured extraction for {domain} {saved ? `- "${schema.name}"` : '(no schema)'}</summary>
+
+      <div className="extraction-grid">
+        <label>
+          Schema name
+          <input
+            value={schema.name}
+            placeholder="Pricing plans"
+            onChange={(e) => setSchema({ ...schema, name: e.target.value })}
+          />
+        </label>
+        <label>
+          Mode
+          <select
+            value={schema.mode}
+            onChange={(e) => setSchema({ ...schema, mode: e.target.value as ExtractionSchema['mode'] })}
+          >
+            <option value="selectors">CSS / XPath selectors</option>
+            <option value="llm">LLM with instruction</option>
+          </select>
+        </label>
+        {schema.mode === 'llm' && (
+          <label>
+            Provider (key configured on the Crawl4AI server)
+            <input
+              value={llm.provider}
+              placeholder={DEFAULT_LLM_PROVIDER}
+              onChange={(e) => setSchema({ ...schema, llm: { ...llm, provider: e.target.value } })}
+            />
+          </label>
+        )}
+      </div>
+
+      {schema.mode === 'llm' ? (
+        <div className="extraction-grid">
+          <label>
+            Instruction
+            <textarea
+              rows={8}
+              value={llm.instruction}
+              placeholder="Extract every product with its name and price"
+              onChange={(e) => setSchema({ ...schema, llm: { ...llm, instruction: e.target.value } })}
+            />
+          </label>
+          <label>
+            Output JSON Schema (one record){!outputSchema && ' - invalid JSON'}
+            <textarea
+              rows={8}
+              value={outputSchemaText}
+              onChange={(e) => setOutputSchemaText(e.target.value)}
+            />
+          </label>
+        </div>
+      ) : (
+        <>
+          <div className="extraction-grid">
+            <label>
+              Selector type
+              <select
+                value={schema.selectorType}
+                onChange={(e) => setSchema({ ...schema, selectorType: e.target.value as ExtractionSchema['selectorType'] })}
+              >
+                <option value="css">CSS</option>
+                <option value="xpath">XPath</option>
+              </select>
+            </label>
+            <label>
+              Base selector (one record per match)
+              <input
+                value={schema.baseSelector}
+                placeholder={schema.selectorType === 'css' ? 'div.pricing-card' : "//div[@class='pricing-card']"}
+                onChange={(e) => setSchema({ ...schema, baseSelector: e.target.value })}
+              />
+            </label>
+          </div>
+
+          {schema.fields.map((field, index) => (
+            <div key={index} className="extraction-field-row">
+              <input
+                value={field.name}
+                placeholder="Field name"
+                onChange={(e) => updateField(index, { name: e.target.value })}
+              />
+              <input
+                value={field.selector}
+                placeholder={schema.selectorType === 'css' ? 'h3.plan-name' : './/h3'}
+                onChange={(e) => updateField(index, { selector: e.target.value })}
+              />
+              <select
+                value={field.type}
+                onChange={(e) => updateField(index, { type: e.target.value as ExtractionField['type'] })}
+              >
+                <option value="text">Text</option>
+                <option value="attribute">Attribute</option>
+                <option value="html">HTML</option>
+              </select>
+              <input
+                value={field.attribute || ''}
+                placeholder="href"
+                disabled={field.type !== 'attribute'}
+                onChange={(e) => updateField(index, { attribute: e.target.value })}
+              />
+              <button
+                className="extraction-btn"
+                disabled={schema.fields.length === 1}
+                onClick={() => setSchema({ ...schema, fields: schema.fields.filter((_, i) => i !== index) })}
+              >
+                ✖
+              </button>
+            </div>
+          ))}
+
+        </>
+      )}
+
+      <div className="extraction-actions">
+        {schema.mode === 'selectors' && (
+          <button
+            className="extraction-btn"
+            onClick={() => setSchema({ ...schema, fields: [...schema.fields, { ...emptyField }] })}
+          >
+            ➕ Add field
+          </button>
+        )}
+        <button className="extraction-btn" onClick={handleSave} disabled={!canSave}>
+          {saving ? '⏳ Saving...' : '💾 Save schema'}
+        </button>
+        {saved && (
+          <button className="extraction-btn" onClick={handleDelete}>
+            🗑️ Remove schema
+          </button>
+        )}
+      </div>
+
+      {message && <div className="extraction-message">{message}</div>}
+    </details>
+  );
+}
@@ -0,0 +1,259 @@
+import { Fragment, useState, useEffect, useMemo } from 'react';
+import { supabaseService } from '../services/supabase';
+import { diffLines, toSideBySide, withContext, type DiffLine } from '../services/textDiff';
+import type { PageVersion } from '../types';
+
+interface PageVersionsProps {
+  url: string;
+}
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 3;
+
+const formatVersion = (version: PageVersion) =>
+  `${new Date(version.crawledAt).toLocaleString()} · ${version.contentHash?.slice(0, 8) || 'no hash'} · ${version.contentLength.toLocaleString()} chars`;
+
+const lineNumber = (line?: DiffLine) => line?.oldLine ?? line?.newLine ?? '';
+
+export default function PageVersions({ url }: PageVersionsProps) {
+  const [versions, setVersions] = useState<PageVersion[]>([]);
+  const [contents, setContents] = useState<Record<string, string>>({});
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [mode, setMode] = useState<'inline' | 'side-by-side'>('inline');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    supabaseService.getPageVersions(url)
+      .then(loaded => {
+        if (cancelled) return;
+        setVersions(loaded);
+        // Compare the latest version with the one before it
+        setToId(loaded[0]?.id || '');
+        setFromId(loaded[1]?.id || loaded[0]?.id || '');
+        setError(null);
+      })
+      .catch(loadError => {
+        console.warn('⚠️ Could not load page versions:', loadError);
+        if (!cancelled) {
+          setError('Page versions are unavailable - run docs/sql_files/page_versions.sql in Supabase to enable them.');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  // Content is only fetched for the two versions being compared
+  useEffect(() => {
+    for (const id of [fromId, toId]) {
+      if (!id || contents[id] !== undefined) continue;
+      supabaseService.getPageVersion(id)
+        .then(version => setContents(prev => ({ ...prev, [id]: version.content || '' })))
+        .catch(loadError => {
+          console.warn('⚠️ Could not load page version content:', loadError);
+          setError('Could not load the content of that version.');
+        });
+    }
+  }, [fromId, toId, contents]);
+
+  const before = contents[fromId];
+  const after = contents[toId];
+  const diff = useMemo(
+    () => (before !== undefined && after !== undefined ? diffLines(before, after) : null),
+    [before, after]
+  );
+  const added = diff?.filter(line => line.type === 'added').length || 0;
+  const removed = diff?.filter(line => line.type === 'removed').length || 0;
+  const hunks = diff ? withContext(diff, CONTEXT_LINES) : [];
+
+  const renderVersionSelect = (value: string, onChange: (id: string) => void) => (
+    <select className="control-select" value={value} onChange={(e) => onChange(e.target.value)}>
+      {versions.map(version => (
+        <option key={version.id} value={version.id}>{formatVersion(version)}</option>
+      ))}
+    </select>
+  );
+
+  const renderSideBySide = () => {
+    // Pair lines within each hunk so gaps stay full width
+    const segments: Array<DiffLine[] | number> = [];
+    for (const item of hunks) {
+      if (item.type === 'gap') {
+        segments.push(item.count);
+      } else if (Array.isArray(segments[segments.length - 1])) {
+        (segments[segments.length - 1] as DiffLine[]).push(item);
+      } else {
+        segments.push([item]);
+      }
+    }
+
+    return segments.map((segment, index) =>
+      typeof segment === 'number' ? (
+        <tr key={index} className="diff-gap"><td colSpan={4}>⋯ {segment} unchanged lines</td></tr>
+      ) : (
+        <Fragment key={index}>
+          {toSideBySide(segment).map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              <td className="diff-number">{lineNumber(row.left)}</td>
+              <td className={`diff-text diff-${row.left?.type === 'equal' ? 'equal' : row.left ? 'removed' : 'empty'}`}>{row.left?.text}</td>
+              <td className="diff-number">{lineNumber(row.right)}</td>
+              <td className={`diff-text diff-${row.right?.type === 'equal' ? 'equal' : row.right ? 'added' : 'empty'}`}>{row.right?.text}</td>
+            </tr>
+          ))}
+        </Fragment>
+      )
+    );
+  };
+
+  const renderInline = () => hunks.map((item, index) =>
+    item.type === 'gap' ? (
+      <tr key={index} className="diff-gap"><td colSpan={3}>⋯ {item.count} unchanged lines</td></tr>
+    ) : (
+      <tr key={index}>
+        <td className="diff-number">{item.oldLine ?? ''}</td>
+        <td className="diff-number">{item.newLine ?? ''}</td>
+        <td className={`diff-text diff-${item.type}`}>
+          {item.type === 'added' ? '+ ' : item.type === 'removed' ? '- ' : '  '}{item.text}
+        </td>
+      </tr>
+    )
+  );
+
+  return (
+    <div className="page-versions" onClick={(e) => e.stopPropagation()}>
+      <style>{`
+        .page-versions {
+          margin-top: 0.75rem;
+          padding: 1rem;
+          background: rgba(0, 0, 0, 0.25);
+          border: 1px solid rgba(141, 215, 247, 0.25);
+          border-radius: 8px;
+          cursor: default;
+        }
+
+        .versions-controls {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 0.75rem;
+          align-items: center;
+          margin-bottom: 0.75rem;
+        }
+
+        .versions-summary {
+          color: rgba(230, 243, 255, 0.8);
+          font-size: 0.85rem;
+          margin-bottom: 0.75rem;
+        }
+
+        .versions-summary .diff-count-added {
+          color: #4ade80;
+        }
+
+        .versions-summary .diff-count-removed {
+          color: #f87171;
+        }
+
+        .diff-table {
+          width: 100%;
+          border-collapse: collapse;
+          table-layout: fixed;
+          font-family: monospace;
+          font-size: 0.8rem;
+        }
+
+        .diff-scroll {
+          max-height: 500px;
+          overflow: auto;
+        }
+
+        .diff-number {
+          width: 3.5rem;
+          color: rgba(230, 243, 255, 0.4);
+          text-align: right;
+          padding-right: 0.5rem;
+          vertical-align: top;
+          user-select: none;
+        }
+
+        .diff-text {
+          white-space: pre-wrap;
+          word-break: break-word;
+          color: rgba(230, 243, 255, 0.85);
+          padding: 0 0.5rem;
+        }
+
+        .diff-added {
+          background: rgba(74, 222, 128, 0.15);
+        }
+
+        .diff-removed {
+          background: rgba(248, 113, 113, 0.15);
+        }
+
+        .diff-empty {
+          background: rgba(255, 255, 255, 0.03);
+        }
+
+        .diff-gap td {
+          color: #8dd7f7;
+          text-align: center;
+          padding: 0.25rem;
+          background: rgba(141, 215, 247, 0.08);
+        }
+      `}</style>
+
+      {loading ? (
+        <div className="versions-summary">⏳ Loading versions...</div>
+      ) : error ? (
+        <div className="versions-summary">⚠️ {error}</div>
+      ) : versions.length === 0 ? (
+        <div className="versions-summary">No versions recorded for this page yet.</div>
+      ) : versions.length === 1 ? (
+        <div className="versions-summary">Only one version so far ({formatVersion(versions[0])}) - a recrawl that changes the page adds the next.</div>
+      ) : (
+        <>
+          <div className="versions-controls">
+            <span className="control-label">Compare</span>
+            {renderVersionSelect(fromId, setFromId)}
+            <span className="control-label">with</span>
+            {renderVersionSelect(toId, setToId)}
+            <select
+              className="control-select"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as 'inline' | 'side-by-side')}
+            >
+              <option value="inline">Inline</option>
+              <option value="side-by-side">Side by side</option>
+            </select>
+          </div>
+
+          {!diff ? (
+            <div className="versions-summary">⏳ Loading content...</div>
+          ) : added === 0 && removed === 0 ? (
+            <div className="versions-summary">No differences between these versions.</div>
+          ) : (
+            <>
+              <div className="versions-summary">
+                {versions.length} versions · <span className="diff-count-added">+{added}</span> / <span className="diff-count-removed">-{removed}</span> lines
+              </div>
+              <div className="diff-scroll">
+                <table className="diff-table">
+                  <tbody>{mode === 'inline' ? renderInline() : renderSideBySide()}</tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
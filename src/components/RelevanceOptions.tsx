@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { embeddingsService } from '../services/embeddings';
+import { DEFAULT_RELEVANCE_THRESHOLD } from '../services/relevance';
+import type { RelevanceConfig } from '../types';
+
+interface RelevanceOptionsProps {
+  value: RelevanceConfig | null; // null crawls the whole site in the usual order
+  onChange: (relevance: RelevanceConfig | null) => void;
+}
+
+export default function RelevanceOptions({ value, onChange }: RelevanceOptionsProps) {
+  // Keywords are edited as text so a trailing comma survives while typing
+  const [keywordsText, setKeywordsText] = useState((value?.keywords || []).join(', '));
+  const [query, setQuery] = useState(value?.query || '');
+  const [threshold, setThreshold] = useState(value?.threshold ?? DEFAULT_RELEVANCE_THRESHOLD);
+  const provider = embeddingsService.getProvider();
+
+  // Relevance only applies once there are keywords or a query to score links against
+  const update = (next: { keywordsText?: string; query?: string; threshold?: number }) => {
+    const keywords = (next.keywordsText ?? keywordsText).split(',').map(keyword => keyword.trim()).filter(Boolean);
+    const nextQuery = (next.query ?? query).trim();
+    onChange(keywords.length > 0 || nextQuery
+      ? { keywords, query: nextQuery || undefined, threshold: next.threshold ?? threshold }
+      : null);
+  };
+
+  return (
+    <details className="relevance-options" open={!!value}>
+      <style>{`
+        .relevance-options {
+          margin-top: 1rem;
+          background: rgba(141, 215, 247, 0.05);
+          border: 1px solid rgba(141, 215, 247, 0.2);
+          border-radius: 12px;
+          padding: 1rem 1.25rem;
+        }
+
+        .relevance-options summary {
+          color: #8dd7f7;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
+        .relevance-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+          gap: 0.75rem;
+          margin-top: 1rem;
+        }
+
+        .relevance-options label {
+          display: flex;
+          flex-direction: column;
+          gap: 0.3rem;
+          color: #8dd7f7;
+          font-size: 0.8rem;
+          font-weight: 600;
+        }
+
+        .relevance-options input {
+          background: rgba(141, 215, 247, 0.1);
+          border: 1px solid rgba(141, 215, 247, 0.3);
+          border-radius: 6px;
+          padding: 0.4rem 0.6rem;
+          color: #e6f3ff;
+          font-family: monospace;
+        }
+
+        .relevance-hint {
+          color: rgba(230, 243, 255, 0.7);
+          font-size: 0.8rem;
+          margin-top: 0.75rem;
+        }
+      `}</style>
+
+      <summary>🎯 Topic focus {value ? `(best-first, threshold ${value.threshold})` : '(off)'}</summary>
+
+      <div className="relevance-grid">
+        <label>
+          Keywords (comma-separated)
+          <input
+            value={keywordsText}
+            placeholder="pricing, rate limits, quotas"
+            onChange={(e) => {
+              setKeywordsText(e.target.value);
+              update({ keywordsText: e.target.value });
+            }}
+          />
+        </label>
+        <label>
+          Query for embedding similarity (optional)
+          <input
+            value={query}
+            placeholder="How are API requests billed?"
+            onChange={(e) => {
+              setQuery(e.target.value);
+              update({ query: e.target.value });
+            }}
+          />
+        </label>
+        <label>
+          Relevance threshold (0-1)
+          <input
+            type="number"
+            min={0}
+            max={1}
+            step={0.05}
+            value={threshold}
+            onChange={(e) => {
+              const next = Math.min(1, Math.max(0, parseFloat(e.target.value) || 0));
+              setThreshold(next);
+              update({ threshold: next });
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="relevance-hint">
+        Links are scored by their anchor text and URL against the keywords{query.trim() && `, and by similarity to the query with ${provider.name}${provider.isConfigured() ? '' : ' (not configured - keywords only)'}`}.
+        The crawl follows the best link first and stops when no queued link scores at least the threshold, or the page budget runs out.
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,298 @@
+import { useState, useEffect } from 'react';
+import { supabaseService } from '../services/supabase';
+import { extractionDomain } from '../services/extraction';
+import { DEFAULT_URL_RULE_SET, validateUrlRule } from '../services/urlRules';
+import type { UrlRule, UrlRuleSet } from '../types';
+
+interface UrlRulesEditorProps {
+  url: string; // Saved rules are looked up for this URL's domain
+  value: UrlRuleSet | null; // The crawl's own rules, or null to use the domain's saved rules / the defaults
+  onChange: (ruleSet: UrlRuleSet | null) => void;
+}
+
+// Wait for the URL to settle before looking its domain up
+const LOOKUP_DELAY_MS = 500;
+
+const MATCH_PLACEHOLDERS: Record<UrlRule['match'], string> = {
+  glob: '/blog/**',
+  regex: '/(tag|category)/',
+  path_prefix: '/docs/',
+};
+
+const parseParams = (text: string) => text.split(',').map(param => param.trim()).filter(Boolean);
+
+export default function UrlRulesEditor({ url, value, onChange }: UrlRulesEditorProps) {
+  const domain = extractionDomain(url.trim());
+  const [savedRules, setSavedRules] = useState<UrlRuleSet | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!domain) {
+      setSavedRules(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const stored = await supabaseService.getUrlRuleSet(domain);
+        if (cancelled) return;
+        setSavedRules(stored);
+        setMessage(null);
+      } catch (loadError) {
+        console.warn('⚠️ Could not load URL rules:', loadError);
+        if (cancelled) return;
+        setSavedRules(null);
+        setMessage('Saved URL rules are unavailable - run docs/sql_files/url_rule_sets.sql in Supabase to enable them.');
+      }
+    }, LOOKUP_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [domain]);
+
+  if (!domain) {
+    return null;
+  }
+
+  const ruleSet = value || savedRules || DEFAULT_URL_RULE_SET;
+  const problems = ruleSet.rules.map(rule => validateUrlRule(rule));
+  const duplicateIds = ruleSet.rules.filter((rule, index) => ruleSet.rules.findIndex(other => other.id === rule.id) !== index);
+  const canSave = !saving && problems.every(problem => !problem) && duplicateIds.length === 0;
+
+  const updateRule = (index: number, updates: Partial<UrlRule>) => {
+    onChange({ ...ruleSet, rules: ruleSet.rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)) });
+  };
+
+  const addRule = () => {
+    let n = ruleSet.rules.length + 1;
+    while (ruleSet.rules.some(rule => rule.id === `rule-${n}`)) n++;
+    onChange({ ...ruleSet, rules: [...ruleSet.rules, { id: `rule-${n}`, action: 'exclude', match: 'glob', pattern: '' }] });
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      const stored = await supabaseService.saveUrlRuleSet(domain, ruleSet);
+      setSavedRules(stored);
+      onChange(null); // The crawl now uses the saved rules
+      setMessage(`✅ Saved - crawls and schedules of ${domain} use these rules unless they bring their own`);
+    } catch (saveError) {
+      console.error('❌ Failed to save URL rules:', saveError);
+      setMessage(`Failed to save URL rules: ${saveError instanceof Error ? saveError.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await supabaseService.deleteUrlRuleSet(domain);
+      setSavedRules(null);
+      setMessage(`Removed the saved URL rules of ${domain} - its crawls use the defaults again`);
+    } catch (deleteError) {
+      console.error('❌ Failed to delete URL rules:', deleteError);
+      setMessage(`Failed to delete URL rules: ${deleteError instanceof Error ? deleteError.message : 'Unknown error'}`);
+    }
+  };
+
+  const source = value ? 'custom for this crawl' : savedRules ? 'saved for the domain' : 'defaults';
+
+  return (
+    <details className="url-rules">
+      <style>{`
+        .url-rules {
+          margin-top: 1.5rem;
+          background: rgba(141, 215, 247, 0.05);
+          border: 1px solid rgba(141, 215, 247, 0.2);
+          border-radius: 12px;
+          padding: 1rem 1.25rem;
+        }
+
+        .url-rules summary {
+          color: #8dd7f7;
+          font-weight: 700;
+          cursor: pointer;
+        }
+
+        .url-rules-hint {
+          color: rgba(230, 243, 255, 0.7);
+          font-size: 0.8rem;
+          margin: 0.75rem 0;
+        }
+
+        .url-rule-row {
+          display: grid;
+          grid-template-columns: 1fr 1fr 1fr 2fr 0.6fr auto;
+          gap: 0.5rem;
+          margin-bottom: 0.5rem;
+        }
+
+        .url-rule-problem {
+          color: #f87171;
+          font-size: 0.75rem;
+          margin: -0.25rem 0 0.5rem;
+        }
+
+        .url-rules-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fit, minmax(180px, 1fr));
+          gap: 0.75rem;
+          margin: 1rem 0;
+        }
+
+        .url-rules label {
+          display: flex;
+          flex-direction: column;
+          gap: 0.3rem;
+          color: #8dd7f7;
+          font-size: 0.8rem;
+          font-weight: 600;
+        }
+
+        .url-rules input, .url-rules select {
+          background: rgba(141, 215, 247, 0.1);
+          border: 1px solid rgba(141, 215, 247, 0.3);
+          border-radius: 6px;
+          padding: 0.4rem 0.6rem;
+          color: #e6f3ff;
+          font-family: monospace;
+        }
+
+        .url-rules-actions {
+          display: flex;
+          gap: 0.75rem;
+          flex-wrap: wrap;
+          margin-top: 0.75rem;
+        }
+
+        .url-rules-btn {
+          background: rgba(141, 215, 247, 0.15);
+          border: 1px solid rgba(141, 215, 247, 0.4);
+          border-radius: 8px;
+          color: #e6f3ff;
+          padding: 0.4rem 0.9rem;
+          cursor: pointer;
+        }
+
+        .url-rules-btn:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+
+        @media (max-width: 768px) {
+          .url-rule-row {
+            grid-template-columns: 1fr;
+          }
+        }
+      `}</style>
+
+      <summary>🧭 URL rules for {domain} ({source})</summary>
+
+      <div className="url-rules-hint">
+        Exclude rules win over include rules; once there is an include rule, only URLs matching one are crawled.
+        Regexes match the whole URL, globs the path and query (** crosses slashes, * doesn't), prefixes the path.
+        Boosts move matching URLs up the queue by that many path levels.
+      </div>
+
+      {ruleSet.rules.map((rule, index) => (
+        <div key={index}>
+          <div className="url-rule-row">
+            <input
+              value={rule.id}
+              placeholder="rule id"
+              onChange={(e) => updateRule(index, { id: e.target.value })}
+            />
+            <select
+              value={rule.action}
+              onChange={(e) => updateRule(index, { action: e.target.value as UrlRule['action'] })}
+            >
+              <option value="exclude">Exclude</option>
+              <option value="include">Include</option>
+              <option value="boost">Boost</option>
+            </select>
+            <select
+              value={rule.match}
+              onChange={(e) => updateRule(index, { match: e.target.value as UrlRule['match'] })}
+            >
+              <option value="glob">Glob</option>
+              <option value="regex">Regex</option>
+              <option value="path_prefix">Path prefix</option>
+            </select>
+            <input
+              value={rule.pattern}
+              placeholder={MATCH_PLACEHOLDERS[rule.match]}
+              onChange={(e) => updateRule(index, { pattern: e.target.value })}
+            />
+            <input
+              type="number"
+              step={0.5}
+              value={rule.boost ?? 1}
+              disabled={rule.action !== 'boost'}
+              title="Path levels to boost by"
+              onChange={(e) => updateRule(index, { boost: parseFloat(e.target.value) || 0 })}
+            />
+            <button
+              className="url-rules-btn"
+              onClick={() => onChange({ ...ruleSet, rules: ruleSet.rules.filter((_, i) => i !== index) })}
+            >
+              ✕
+            </button>
+          </div>
+          {(problems[index] || duplicateIds.includes(rule)) && (
+            <div className="url-rule-problem">⚠️ {problems[index] || `The id "${rule.id}" is used twice`}</div>
+          )}
+        </div>
+      ))}
+
+      <div className="url-rules-grid">
+        <label>
+          Query parameters
+          <select
+            value={ruleSet.queryParams}
+            onChange={(e) => onChange({ ...ruleSet, queryParams: e.target.value as UrlRuleSet['queryParams'] })}
+          >
+            <option value="keep">Keep them</option>
+            <option value="strip">Strip them before crawling</option>
+            <option value="exclude">Skip URLs that have them</option>
+          </select>
+        </label>
+        <label>
+          Allowed parameters (comma-separated)
+          <input
+            key={(ruleSet.allowedQueryParams || []).join(',')}
+            defaultValue={(ruleSet.allowedQueryParams || []).join(', ')}
+            placeholder="page, lang"
+            disabled={ruleSet.queryParams === 'keep'}
+            onBlur={(e) => onChange({ ...ruleSet, allowedQueryParams: parseParams(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      <div className="url-rules-actions">
+        <button className="url-rules-btn" onClick={addRule}>
+          ➕ Add rule
+        </button>
+        <button className="url-rules-btn" disabled={!canSave} onClick={handleSave}>
+          {saving ? '⏳ Saving...' : `💾 Save for ${domain}`}
+        </button>
+        {value && (
+          <button className="url-rules-btn" onClick={() => onChange(null)}>
+            ↩️ Reset
+          </button>
+        )}
+        {savedRules && (
+          <button className="url-rules-btn" onClick={handleDelete}>
+            🗑️ Delete saved rules
+          </button>
+        )}
+      </div>
+
+      {message && <div className="url-rules-hint">{message}</div>}
+    </details>
+  );
+}
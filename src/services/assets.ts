@@ -0,0 +1,123 @@
+/**
+ * File and media asset inventory
+ *
+ * Links to documents, images, videos and downloads are never crawled as pages (isCrawlableUrl skips
+ * them), but with collectAssets on they are recorded per crawl in crawl_assets: what kind of file it
+ * is, the page it was found on, its anchor or alt text and, where the host answers a HEAD request,
+ * its size and content type.
+ */
+import type { AssetType, CrawlAsset } from '../types';
+
+export const ASSET_EXTENSIONS: Record<string, AssetType> = {
+  pdf: 'document', doc: 'document', docx: 'document', xls: 'document', xlsx: 'document', ppt: 'document', pptx: 'document',
+  jpg: 'image', jpeg: 'image', png: 'image', gif: 'image', svg: 'image', webp: 'image',
+  mp4: 'video', avi: 'video', mov: 'video', flv: 'video',
+  mp3: 'audio', wav: 'audio',
+  zip: 'archive', rar: 'archive', tar: 'archive', gz: 'archive',
+  exe: 'installer', dmg: 'installer', pkg: 'installer',
+};
+
+// Media Crawl4AI reports without a recognisable extension still has a known type
+const MEDIA_TYPES: Record<string, AssetType> = { images: 'image', videos: 'video', audios: 'audio' };
+
+// HEAD requests in flight at once, and how long each may take
+const PROBE_CONCURRENCY = 5;
+const PROBE_TIMEOUT_MS = 5000;
+
+/**
+ * Lowercase file extension of a URL's path, or undefined if it has none
+ */
+export function assetExtension(url: string): string | undefined {
+  try {
+    const fileName = new URL(url).pathname.split('/').pop() || '';
+    const dot = fileName.lastIndexOf('.');
+    return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The asset type of a URL judged by its extension, or null for anything that may be a page
+ */
+export function assetType(url: string): AssetType | null {
+  const extension = assetExtension(url);
+  return (extension && ASSET_EXTENSIONS[extension]) || null;
+}
+
+/**
+ * The file links and media of a raw Crawl4AI page result, one entry per URL
+ */
+export function pageAssets(result: Record<string, unknown>, jobId: string): CrawlAsset[] {
+  const sourceUrl = String(result.url || '');
+  const createdAt = new Date().toISOString();
+  const assets = new Map<string, CrawlAsset>();
+
+  const add = (href: unknown, text: unknown, knownType?: AssetType) => {
+    if (typeof href !== 'string' || !href) return;
+    let url: string;
+    try {
+      url = new URL(href, sourceUrl).toString();
+    } catch {
+      return;
+    }
+    const type = assetType(url) || knownType;
+    if (!type || !url.startsWith('http') || assets.has(url)) return;
+    assets.set(url, {
+      jobId,
+      url,
+      type,
+      extension: assetExtension(url),
+      sourceUrl,
+      text: typeof text === 'string' && text.trim() ? text.trim() : undefined,
+      createdAt,
+    });
+  };
+
+  const links = (result.links || {}) as Record<string, unknown>;
+  for (const group of ['internal', 'external']) {
+    for (const link of (links[group] || []) as Array<string | Record<string, unknown>>) {
+      if (typeof link === 'string') {
+        add(link, undefined);
+      } else {
+        add(link?.href, link?.text || link?.title);
+      }
+    }
+  }
+
+  const media = (result.media || {}) as Record<string, unknown>;
+  for (const [group, type] of Object.entries(MEDIA_TYPES)) {
+    for (const item of (media[group] || []) as Array<Record<string, unknown>>) {
+      add(item?.src, item?.alt || item?.desc, type);
+    }
+  }
+
+  return Array.from(assets.values());
+}
+
+/**
+ * Fill in size and content type from HEAD requests. Hosts that refuse (or block cross-origin HEAD
+ * requests from the browser) leave them unknown.
+ */
+export async function probeAssets(assets: CrawlAsset[]): Promise<CrawlAsset[]> {
+  const probed: CrawlAsset[] = [];
+  for (let i = 0; i < assets.length; i += PROBE_CONCURRENCY) {
+    probed.push(...await Promise.all(assets.slice(i, i + PROBE_CONCURRENCY).map(probeAsset)));
+  }
+  return probed;
+}
+
+async function probeAsset(asset: CrawlAsset): Promise<CrawlAsset> {
+  try {
+    const response = await fetch(asset.url, { method: 'HEAD', signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    if (!response.ok) return asset;
+    const length = Number(response.headers.get('content-length'));
+    return {
+      ...asset,
+      sizeBytes: length > 0 ? length : undefined,
+      contentType: response.headers.get('content-type')?.split(';')[0].trim() || undefined,
+    };
+  } catch {
+    return asset;
+  }
+}
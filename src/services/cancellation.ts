@@ -0,0 +1,38 @@
+/**
+ * Cancellation helpers for crawls
+ *
+ * Every phase of a crawl takes the session's AbortSignal: waits end early instead of sleeping
+ * out their delay, and cancelled work fails with the same message wherever it stops.
+ */
+
+export const CANCELLED_MESSAGE = 'Crawl was cancelled';
+
+/**
+ * Throw if the crawl has been cancelled
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error(CANCELLED_MESSAGE);
+  }
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting as soon as the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(new Error(CANCELLED_MESSAGE));
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error(CANCELLED_MESSAGE));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,23 @@
+/**
+ * Screenshot and PDF captures of crawled pages
+ *
+ * When a crawl asks Crawl4AI for a screenshot or PDF, the page result carries it base64-encoded. The
+ * /api/capture function uploads it to the page-captures Storage bucket (see api/shared/captures.js) and
+ * the page's metadata links to it (screenshot_url, pdf_url, captured_at), so reviewers can see what the
+ * page looked like when its content was captured.
+ */
+import type { PageCaptures } from '../types';
+
+/**
+ * The captures in a raw Crawl4AI page result, or null when it has none
+ */
+export function pageCaptures(result: Record<string, unknown>): PageCaptures | null {
+  const captures: PageCaptures = {};
+  if (typeof result.screenshot === 'string' && result.screenshot) {
+    captures.screenshot = result.screenshot;
+  }
+  if (typeof result.pdf === 'string' && result.pdf) {
+    captures.pdf = result.pdf;
+  }
+  return captures.screenshot || captures.pdf ? captures : null;
+}
@@ -0,0 +1,70 @@
+import { CANCELLED_MESSAGE } from './cancellation';
+
+/**
+ * Concurrency limiter shared by all crawl sessions
+ *
+ * Caps how many requests are in flight against the Crawl4AI backend at once, however many crawls
+ * are running. Tasks over the limit wait in FIFO order; a waiting task whose signal is aborted
+ * leaves the queue without ever running.
+ */
+export class ConcurrencyLimiter {
+  readonly limit: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, isNaN(limit) ? 1 : limit);
+  }
+
+  /** Number of tasks currently running */
+  get activeCount(): number {
+    return this.active;
+  }
+
+  /** Number of tasks waiting for a slot */
+  get pendingCount(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Run a task as soon as a slot is free
+   */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new Error(CANCELLED_MESSAGE));
+    }
+    if (this.active < this.limit) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.active++;
+        resolve();
+      };
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(waiter => waiter !== grant);
+        reject(new Error(CANCELLED_MESSAGE));
+      };
+
+      this.waiting.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+}
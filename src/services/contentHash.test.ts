@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  NEAR_DUPLICATE_DISTANCE,
+  contentHash,
+  duplicateCandidateFilter,
+  fingerprintContent,
+  hammingDistance,
+  nearestDuplicate,
+  simhash,
+  simhashBands,
+} from './contentHash';
+
+const words = (count: number, offset = 0) =>
+  Array.from({ length: count }, (_, i) => `word${i + offset}`).join(' ');
+const BASE = words(300);
+const EDITED = BASE.replace('word150', 'changed');
+const OTHER = words(300, 1000);
+
+/** Simhash of a page long enough to have one */
+const hashOf = (content: string) => simhash(content) ?? '';
+
+describe('contentHash', () => {
+  it('hashes normalized content with SHA-256', async () => {
+    expect(await contentHash('hello world')).toBe('b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9');
+    expect(await contentHash('  hello \n\n world ')).toBe(await contentHash('hello world'));
+    expect(await contentHash('hello world!')).not.toBe(await contentHash('hello world'));
+  });
+});
+
+describe('simhash', () => {
+  it('skips pages too short to compare', () => {
+    expect(simhash(words(49))).toBeNull();
+    expect(simhash(words(50))).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('keeps a small edit within a few bits and splits into four bands', () => {
+    expect(hammingDistance(hashOf(BASE), hashOf(BASE))).toBe(0);
+    expect(hammingDistance(hashOf(BASE), hashOf(EDITED))).toBeLessThanOrEqual(NEAR_DUPLICATE_DISTANCE);
+    expect(hammingDistance(hashOf(BASE), hashOf(OTHER))).toBeGreaterThan(NEAR_DUPLICATE_DISTANCE);
+    expect(simhashBands('0123456789abcdef')).toEqual(['0123', '4567', '89ab', 'cdef']);
+  });
+});
+
+describe('nearestDuplicate', () => {
+  it('resolves exact and near copies to the canonical URL', async () => {
+    const fingerprint = await fingerprintContent(BASE);
+
+    expect(nearestDuplicate('https://example.com/copy', fingerprint, [
+      { url: 'https://example.com/other', content_hash: 'x', simhash: hashOf(OTHER), canonical_url: null },
+      { url: 'https://example.com/near', content_hash: 'y', simhash: hashOf(EDITED), canonical_url: 'https://example.com/original' },
+    ])).toEqual({ canonicalUrl: 'https://example.com/original', distance: hammingDistance(hashOf(BASE), hashOf(EDITED)) });
+
+    expect(nearestDuplicate('https://example.com/copy', fingerprint, [
+      { url: 'https://example.com/same', content_hash: fingerprint.contentHash, simhash: null, canonical_url: null },
+    ])).toEqual({ canonicalUrl: 'https://example.com/same', distance: 0 });
+  });
+
+  it('never points a page at itself', async () => {
+    const fingerprint = await fingerprintContent(BASE);
+    expect(nearestDuplicate('https://example.com/a', fingerprint, [
+      { url: 'https://example.com/b', content_hash: fingerprint.contentHash, simhash: null, canonical_url: 'https://example.com/a' },
+    ])).toBeNull();
+  });
+
+  it('looks candidates up by hash and simhash band', async () => {
+    const fingerprint = await fingerprintContent(BASE);
+    const filter = duplicateCandidateFilter(fingerprint);
+    expect(filter.split(',')).toHaveLength(5);
+    expect(filter).toContain(`metadata->>content_hash.eq.${fingerprint.contentHash}`);
+    expect(duplicateCandidateFilter({ contentHash: 'abc', simhash: null })).toBe('metadata->>content_hash.eq.abc');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Content fingerprints for change detection and duplicate detection
+ *
+ * Every saved page gets metadata.content_hash (on chunk 1) so saves and scheduled recrawls can tell
+ * whether a page changed without re-embedding it, plus metadata.simhash / simhash_bands so the same
+ * article under another URL or query string is spotted and linked to a canonical URL.
+ * Must match api/shared/contentHash.js.
+ */
+
+/** Pages within this many differing simhash bits count as near-duplicates */
+export const NEAR_DUPLICATE_DISTANCE = 3;
+
+// Shorter pages (nav stubs, error pages) share too many shingles for the simhash to mean anything
+const MIN_SIMHASH_WORDS = 50;
+const SHINGLE_SIZE = 3;
+const SIMHASH_BANDS = 4;
+
+/**
+ * Unicode-normalized content with whitespace runs collapsed, so reflowed markdown hashes the same
+ */
+export function normalizeContent(content: string): string {
+  return content.normalize('NFKC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * SHA-256 of the normalized page content, as hex
+ */
+export async function contentHash(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeContent(content)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fnv1a(input: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 64-bit simhash over word shingles, as 16 hex chars. Returns null for pages too short to compare.
+ */
+export function simhash(content: string): string | null {
+  const words = normalizeContent(content).toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  if (words.length < MIN_SIMHASH_WORDS) {
+    return null;
+  }
+
+  const weights = new Array<number>(64).fill(0);
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ');
+    // Two differently seeded 32-bit hashes make up the 64 bits
+    const halves = [fnv1a(shingle, 0x811c9dc5), fnv1a(shingle, 0x050c5d1f)];
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (halves[bit >> 5] >>> (bit & 31)) & 1 ? 1 : -1;
+    }
+  }
+
+  const halves = [0, 0];
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) {
+      halves[bit >> 5] |= 1 << (bit & 31);
+    }
+  }
+  return halves.map(half => (half >>> 0).toString(16).padStart(8, '0')).join('');
+}
+
+/**
+ * The simhash split into equal bands. Two hashes within NEAR_DUPLICATE_DISTANCE bits share at least
+ * one band, so candidates can be looked up by exact band match.
+ */
+export function simhashBands(hash: string): string[] {
+  const width = hash.length / SIMHASH_BANDS;
+  return Array.from({ length: SIMHASH_BANDS }, (_, band) => hash.slice(band * width, (band + 1) * width));
+}
+
+/**
+ * Number of differing bits between two simhashes
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let diff = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    while (diff) {
+      diff &= diff - 1;
+      distance++;
+    }
+  }
+  return distance;
+}
+
+export interface ContentFingerprint {
+  contentHash: string;
+  simhash: string | null;
+}
+
+/** Chunk 1 of a stored page, as far as duplicate detection is concerned */
+export interface StoredFingerprint {
+  url: string;
+  content_hash: string | null;
+  simhash: string | null;
+  canonical_url: string | null;
+}
+
+export interface NearDuplicate {
+  canonicalUrl: string;
+  distance: number;
+}
+
+export async function fingerprintContent(content: string): Promise<ContentFingerprint> {
+  return { contentHash: await contentHash(content), simhash: simhash(content) };
+}
+
+/**
+ * The closest stored page within NEAR_DUPLICATE_DISTANCE, resolved to its canonical URL.
+ * The page that was stored first stays canonical; duplicates of duplicates point at the same one.
+ */
+export function nearestDuplicate(url: string, fingerprint: ContentFingerprint, candidates: StoredFingerprint[]): NearDuplicate | null {
+  let nearest: NearDuplicate | null = null;
+
+  for (const candidate of candidates) {
+    const distance = candidate.content_hash === fingerprint.contentHash
+      ? 0
+      : fingerprint.simhash && candidate.simhash
+        ? hammingDistance(fingerprint.simhash, candidate.simhash)
+        : Infinity;
+    const canonicalUrl = candidate.canonical_url || candidate.url;
+
+    if (distance <= NEAR_DUPLICATE_DISTANCE && canonicalUrl !== url && (!nearest || distance < nearest.distance)) {
+      nearest = { canonicalUrl, distance };
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * PostgREST `or` filter matching stored pages with the same content hash or a shared simhash band
+ */
+export function duplicateCandidateFilter(fingerprint: ContentFingerprint): string {
+  const filters = [`metadata->>content_hash.eq.${fingerprint.contentHash}`];
+  if (fingerprint.simhash) {
+    filters.push(...simhashBands(fingerprint.simhash).map((band, index) => `metadata->simhash_bands->>${index}.eq.${band}`));
+  }
+  return filters.join(',');
+}
@@ -1,35 +1,85 @@
 import axios from 'axios';
-import type { AxiosInstance } from 'axios';
-import type { SimplifiedCrawlConfig, CrawlResult } from '../types';
+import type { AxiosInstance, AxiosRequestConfig } from 'axios';
+import type { SimplifiedCrawlConfig, CrawlAsset, CrawlJob, CrawlResult, CrawlerOptions, CrawlScope, ExtractionSchema, UrlRuleSet } from '../types';
 import { supabaseService } from './supabase';
+import { fetchRobotsTxt, RobotsTxt } from './robots';
+import { discoverSitemapEntries, type SitemapEntry } from './sitemap';
+import { CRAWL_STRATEGIES, CrawlFrontier, type CrawlStrategy, type FrontierItem, type FrontierOptions } from './frontier';
+import { canonicalPageUrl, cleanUrl, normalizeUrl } from './urlNormalizer';
+import { DEFAULT_URL_RULE_SET, UrlRuleMatcher } from './urlRules';
+import { CrawlScopeMatcher, DEFAULT_CRAWL_SCOPE } from './crawlScope';
+import { RelevanceScorer } from './relevance';
+import { CrawlEventBus } from './crawlEvents';
+import { CrawlSession, type CrawlSessionKind } from './crawlSession';
+import { ConcurrencyLimiter } from './concurrency';
+import { HostRateLimiter, THROTTLE_STATUSES, parseRetryAfter, rateLimitHost, type HostFailure } from './hostRateLimiter';
+import { CANCELLED_MESSAGE, sleep, throwIfCancelled } from './cancellation';
+import { extractionDomain, extractionMetadata, llmTokenUsage, toExtractionStrategy } from './extraction';
+import { pageCaptures } from './captures';
+import { assetType, pageAssets, probeAssets } from './assets';
+import { DEFAULT_BROWSER_CONFIG, DEFAULT_CRAWLER_CONFIG, hasCrawlerOptions, toBrowserConfig, toCrawlerConfig } from './crawlerOptions';
 
-// Event emitter for real-time crawl updates
-export interface CrawlEvent {
-  type: 'status' | 'url_discovered' | 'url_crawled' | 'url_skipped' | 'batch_start' | 'batch_complete' | 'progress';
-  data: any;
-}
+// 'direct' calls Crawl4AI from the browser, 'proxy' goes through the /api/crawl function
+type Crawl4AIConnectionMode = 'direct' | 'proxy';
 
-class EventEmitter {
-  private listeners: { [key: string]: Function[] } = {};
+// Progress of the crawl_jobs row backing a smart crawl
+interface JobProgress {
+  id: string;
+  pagesCrawled: number;
+  pagesFailed: number;
+}
 
-  on(event: string, callback: Function) {
-    if (!this.listeners[event]) {
-      this.listeners[event] = [];
-    }
-    this.listeners[event].push(callback);
-  }
+// Body of a POST /crawl request
+interface CrawlRequest {
+  urls: string[];
+  browser_config?: Record<string, unknown>;
+  crawler_config?: Record<string, unknown>;
+}
 
-  off(event: string, callback: Function) {
-    if (!this.listeners[event]) return;
-    this.listeners[event] = this.listeners[event].filter(cb => cb !== callback);
-  }
+// One page of a /crawl response - the fields read here are typed, the rest passed through
+interface Crawl4AIPage {
+  [key: string]: unknown;
+  id?: string;
+  task_id?: string;
+  url?: string;
+  success?: boolean;
+  error_message?: string;
+  status_code?: number;
+  content?: string;
+  html?: string;
+  cleaned_html?: string;
+  markdown?: string | { raw_markdown?: string; fit_markdown?: string };
+  extracted_content?: string;
+  links?: Record<string, Array<string | { href?: string; text?: string }> | undefined>;
+  metadata?: { title?: string; [key: string]: unknown };
+}
 
-  emit(event: string, data?: any) {
-    if (!this.listeners[event]) return;
-    this.listeners[event].forEach(callback => callback(data));
-  }
+// A /crawl response - the pages in `results`, or a single page's fields at the top level
+interface Crawl4AIResponse extends Crawl4AIPage {
+  results?: Crawl4AIPage[];
 }
 
+// Product token matched against robots.txt User-agent groups
+const ROBOTS_USER_AGENT = import.meta.env.VITE_CRAWL4AI_USER_AGENT || 'Crawl4AI';
+const RESPECT_ROBOTS = import.meta.env.VITE_CRAWL4AI_RESPECT_ROBOTS !== 'false';
+const USE_SITEMAPS = import.meta.env.VITE_CRAWL4AI_USE_SITEMAPS !== 'false';
+const ROBOTS_CACHE_TTL = 24 * 60 * 60 * 1000; // RFC 9309: don't reuse a cached robots.txt for more than 24 hours
+// Crawl4AI requests in flight at once, shared by all crawl sessions
+const MAX_CONCURRENT_REQUESTS = parseInt(import.meta.env.VITE_CRAWL4AI_MAX_CONCURRENT_REQUESTS || '3');
+// Request pacing per crawled host, shared by all crawl sessions
+const HOST_RATE_LIMIT = {
+  requestsPerSecond: parseFloat(import.meta.env.VITE_CRAWL4AI_HOST_REQUESTS_PER_SECOND || '2'),
+  burst: parseInt(import.meta.env.VITE_CRAWL4AI_HOST_BURST || '10'),
+  baseDelayMs: parseInt(import.meta.env.VITE_CRAWL4AI_COOL_OFF_DELAY || '5000'),
+  maxDelayMs: 5 * 60 * 1000,
+  failureThreshold: parseInt(import.meta.env.VITE_CRAWL4AI_CIRCUIT_BREAKER_THRESHOLD || '5'),
+  cooldownMs: parseInt(import.meta.env.VITE_CRAWL4AI_CIRCUIT_BREAKER_COOLDOWN || '120000'),
+};
+// Linked documents a crawl converts to markdown pages at most (crawlerOptions convertDocuments)
+const MAX_CONVERTED_DOCUMENTS = 100;
+// Rules for URLs checked outside a crawl that resolved its own
+const DEFAULT_URL_RULES = new UrlRuleMatcher(DEFAULT_URL_RULE_SET);
+
 /**
  * Simplified Crawl4AI Service
  * 
@@ -43,81 +93,493 @@ class EventEmitter {
  * - Clear error handling with fallback extraction
  * - Session management for smart crawls
  */
-class SimplifiedCrawl4AIService extends EventEmitter {
+class SimplifiedCrawl4AIService extends CrawlEventBus {
   private client: AxiosInstance;
   private baseURL: string;
   private token: string;
+  private mode: Crawl4AIConnectionMode;
+  private robotsCache = new Map<string, { robots: RobotsTxt; fetchedAt: number }>();
+  private limiter = new ConcurrencyLimiter(MAX_CONCURRENT_REQUESTS);
+  private hostLimiter = new HostRateLimiter(HOST_RATE_LIMIT);
+  private sessions = new Map<string, CrawlSession>();
+  private extractionSchemas = new Map<string, ExtractionSchema>(); // By job id, see loadExtractionSchema
+  private crawlerOptions = new Map<string, CrawlerOptions>(); // Advanced options of running crawls, by job id
+  private assetInventories = new Map<string, { seen: Set<string>; converted: number }>(); // By job id, see harvestAssets
+  private urlRules = new Map<string, { ruleSet: UrlRuleSet; matcher: UrlRuleMatcher }>(); // By job id, see loadUrlRules
+  private crawlScopes = new Map<string, CrawlScopeMatcher>(); // By job id, see setCrawlScope
+  private relevanceScorers = new Map<string, RelevanceScorer>(); // Topic-focused crawls, by job id
 
   constructor() {
     super();
-    this.baseURL = import.meta.env.VITE_CRAWL4AI_API_URL || '';
-    this.token = import.meta.env.VITE_CRAWL4AI_API_KEY || '';
+    this.mode = import.meta.env.VITE_CRAWL4AI_MODE === 'proxy' ? 'proxy' : 'direct';
+
+    // In proxy mode the browser only talks to the /api/crawl Azure Function,
+    // which holds the Crawl4AI key server-side
+    this.baseURL = this.mode === 'proxy' ? '/api/crawl' : import.meta.env.VITE_CRAWL4AI_API_URL || '';
+    this.token = this.mode === 'proxy' ? '' : import.meta.env.VITE_CRAWL4AI_API_KEY || '';
     
     if (!this.baseURL) {
       console.warn('⚠️ VITE_CRAWL4AI_API_URL not set');
     }
     
-    this.client = axios.create({
-      baseURL: this.baseURL,
-      headers: {
-        'Authorization': this.token,
-        'Content-Type': 'application/json',
-      },
-      timeout: 300000, // 5 minutes timeout for crawling operations
-    });
+    this.client = this.createClient(300000); // 5 minutes timeout for crawling operations
     
     console.log('🚀 Crawl4AI Service initialized:', {
+      mode: this.mode,
       baseURL: this.baseURL,
       hasToken: !!this.token
     });
   }
 
+  /**
+   * Create an HTTP client for the configured connection mode
+   */
+  private createClient(timeout: number): AxiosInstance {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.mode === 'direct') {
+      headers['Authorization'] = this.token;
+    }
+
+    return axios.create({
+      baseURL: this.baseURL,
+      headers,
+      timeout,
+    });
+  }
+
+  /**
+   * Submit a crawl request to Crawl4AI, waiting until each of its hosts may get more requests (see
+   * services/hostRateLimiter.ts) and for a free slot under the shared concurrency limit.
+   * Async responses are polled until the task's results are in, so the response always carries them.
+   * Requests for a domain with an extraction schema carry it as the extraction_strategy.
+   */
+  private async postCrawl(jobId: string, requestData: CrawlRequest, requestConfig: AxiosRequestConfig = {}) {
+    const schema = this.extractionSchema(jobId, requestData.urls[0]);
+    const body = schema
+      ? { ...requestData, crawler_config: { ...requestData.crawler_config, extraction_strategy: toExtractionStrategy(schema) } }
+      : requestData;
+    const signal = requestConfig.signal as AbortSignal | undefined;
+
+    const pagesByHost = new Map<string, number>();
+    for (const url of requestData.urls) {
+      const host = rateLimitHost(url);
+      pagesByHost.set(host, (pagesByHost.get(host) || 0) + 1);
+    }
+
+    const acquired: string[] = [];
+    const reported = new Set<string>();
+    try {
+      for (const [host, pages] of pagesByHost) {
+        if (this.hostLimiter.pausedFor([host]) > 0) {
+          console.log(`⏳ Waiting for ${host} to accept requests again...`);
+        }
+        await this.hostLimiter.acquire(host, pages, signal);
+        acquired.push(host);
+      }
+
+      // A failed request (no response, or an error from /api/crawl or Crawl4AI itself) says nothing about
+      // the target hosts, so only the per-page results below count for or against them
+      const response = await this.limiter.run(() => this.client.post('/crawl', body, requestConfig), signal);
+      let data = response.data;
+      if (data?.task_id && !data.results) {
+        console.log(`⏳ Task ${data.task_id} is async, polling for results...`);
+        data = await this.pollForResults(data.task_id, signal);
+      }
+      if (Array.isArray(data?.results)) {
+        this.recordHostOutcomes(jobId, data.results).forEach(host => reported.add(host));
+      }
+      return { ...response, data };
+    } finally {
+      // A half-open host whose probe ended without an outcome (cancelled, failed request, or no results
+      // to judge) must let the next request probe it
+      for (const host of acquired) {
+        if (!reported.has(host)) {
+          this.hostLimiter.releaseProbe(host);
+        }
+      }
+    }
+  }
+
+  /**
+   * Tell the host limiter how each host's pages fared. A host failed when any page was throttled
+   * (429/503) or all of its pages failed with a server error; otherwise it succeeded.
+   * Returns the hosts an outcome was recorded for.
+   */
+  private recordHostOutcomes(jobId: string, results: Array<Record<string, unknown>>): Set<string> {
+    const outcomes = new Map<string, { pages: number; serverErrors: number; throttled?: HostFailure; lastStatus?: number }>();
+    for (const result of results) {
+      const host = rateLimitHost(String(result?.url || ''));
+      if (!host) continue;
+      const outcome = outcomes.get(host) || { pages: 0, serverErrors: 0 };
+      const status = typeof result.status_code === 'number' ? result.status_code : undefined;
+      outcome.pages++;
+
+      if (status && THROTTLE_STATUSES.includes(status)) {
+        // The longest Retry-After of the host's pages wins
+        const headers = (result.response_headers || {}) as Record<string, unknown>;
+        const retryAfterMs = parseRetryAfter(Object.entries(headers).find(([name]) => name.toLowerCase() === 'retry-after')?.[1]);
+        if (!outcome.throttled || (retryAfterMs ?? 0) > (outcome.throttled.retryAfterMs ?? 0)) {
+          outcome.throttled = { status, retryAfterMs };
+        }
+      } else if (!result.success && (!status || status >= 500)) {
+        outcome.serverErrors++;
+        outcome.lastStatus = status;
+      }
+      outcomes.set(host, outcome);
+    }
+
+    for (const [host, outcome] of outcomes) {
+      if (outcome.throttled) {
+        this.recordHostFailure(jobId, host, outcome.throttled);
+      } else if (outcome.serverErrors === outcome.pages) {
+        this.recordHostFailure(jobId, host, { status: outcome.lastStatus });
+      } else {
+        this.hostLimiter.recordSuccess(host);
+        this.emit('host_rate_limit', { jobId, state: this.hostLimiter.state(host) });
+      }
+    }
+    return new Set(outcomes.keys());
+  }
+
+  /**
+   * Back a failing host off and report its new state
+   */
+  private recordHostFailure(jobId: string, host: string, failure: HostFailure): void {
+    const pausedFor = this.hostLimiter.recordFailure(host, failure);
+    const reason = failure.status ? `HTTP ${failure.status}` : 'request failed';
+    const retryAfter = failure.retryAfterMs !== undefined ? ' (Retry-After)' : '';
+    console.warn(`🐢 ${host}: ${reason}, backing off for ${Math.ceil(pausedFor / 1000)}s${retryAfter}`);
+    this.emit('host_rate_limit', { jobId, state: this.hostLimiter.state(host) });
+  }
+
+  /**
+   * Body of a crawl request for a job: the default configs, then the request's own settings,
+   * then the job's advanced options
+   */
+  private buildRequest(
+    jobId: string,
+    urls: string[],
+    crawlerConfig: Record<string, unknown> = {},
+    browserConfig: Record<string, unknown> = {}
+  ): CrawlRequest {
+    const options = this.crawlerOptions.get(jobId);
+    return {
+      urls,
+      browser_config: { ...DEFAULT_BROWSER_CONFIG, ...browserConfig, ...toBrowserConfig(options) },
+      crawler_config: { ...DEFAULT_CRAWLER_CONFIG, ...crawlerConfig, ...toCrawlerConfig(options) },
+    };
+  }
+
+  /**
+   * Load the extraction schema saved for a crawl's domain, so postCrawl sends it with the crawl's requests.
+   * Schemas are optional: without one (or without the extraction_schemas table) pages are crawled as markdown only.
+   */
+  private async loadExtractionSchema(jobId: string, url: string): Promise<void> {
+    const domain = extractionDomain(url);
+    if (!domain) {
+      return;
+    }
+
+    try {
+      const schema = await supabaseService.getExtractionSchema(domain);
+      if (schema) {
+        console.log(`🧩 Using ${schema.mode === 'llm' ? 'LLM' : 'selector'} extraction schema "${schema.name}" for ${domain}`);
+        this.extractionSchemas.set(jobId, schema);
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not load extraction schema, crawling without structured extraction:', error);
+    }
+  }
+
+  /**
+   * The crawl's extraction schema, if the URL is on the domain it was saved for
+   */
+  private extractionSchema(jobId: string, url: string): ExtractionSchema | undefined {
+    const schema = this.extractionSchemas.get(jobId);
+    return schema && extractionDomain(url) === schema.domain ? schema : undefined;
+  }
+
+  /**
+   * Resolve the URL rules of a crawl: its own, else the ones saved for its domain, else the defaults
+   */
+  private async loadUrlRules(jobId: string, url: string, ruleSet?: UrlRuleSet): Promise<void> {
+    let resolved = ruleSet;
+    const domain = extractionDomain(url);
+    if (!resolved && domain) {
+      try {
+        resolved = await supabaseService.getUrlRuleSet(domain) || undefined;
+        if (resolved) {
+          console.log(`🧭 Using URL rules saved for ${domain}`);
+        }
+      } catch (error) {
+        console.warn('⚠️ Could not load URL rules, using the defaults:', error);
+      }
+    }
+
+    resolved = resolved || DEFAULT_URL_RULE_SET;
+    this.urlRules.set(jobId, { ruleSet: resolved, matcher: new UrlRuleMatcher(resolved) });
+  }
+
+  private urlRuleMatcher(jobId: string): UrlRuleMatcher {
+    return this.urlRules.get(jobId)?.matcher || DEFAULT_URL_RULES;
+  }
+
+  /**
+   * Resolve a smart crawl's scope against its start URL. An invalid start URL fails the crawl later on.
+   */
+  private setCrawlScope(jobId: string, url: string, scope: CrawlScope = DEFAULT_CRAWL_SCOPE): CrawlScopeMatcher | undefined {
+    try {
+      const matcher = new CrawlScopeMatcher(scope, url);
+      this.crawlScopes.set(jobId, matcher);
+      console.log(`🗺️ Crawl scope: ${matcher.describe()}`);
+      return matcher;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private crawlScope(jobId: string, baseUrl: string): CrawlScopeMatcher {
+    return this.crawlScopes.get(jobId) || new CrawlScopeMatcher(DEFAULT_CRAWL_SCOPE, baseUrl);
+  }
+
+  /**
+   * A page's structured extraction results as metadata, or null if it has none. They are kept out of
+   * the page text so the markdown is still what gets chunked and embedded. LLM extractions also report
+   * their token usage through token_usage and keep it as metadata.llm_usage.
+   */
+  private structuredExtraction(jobId: string, result: Record<string, unknown>): Record<string, unknown> | null {
+    const url = String(result.url || '');
+    const schema = this.extractionSchema(jobId, url);
+    const metadata = extractionMetadata(schema, result.extracted_content);
+
+    if (schema?.mode !== 'llm' || !schema.llm || !result.success) {
+      return metadata;
+    }
+
+    const usage = llmTokenUsage(schema, result);
+    this.emit('token_usage', { jobId, url, provider: schema.llm.provider, ...usage });
+    return { ...metadata, llm_usage: { provider: schema.llm.provider, ...usage } };
+  }
+
+  /**
+   * Store the screenshot / PDF a page was crawled with (see crawlerOptions screenshot / pdf) and
+   * return the metadata linking to them
+   */
+  private async storeCaptures(result: Record<string, unknown>): Promise<Record<string, string> | null> {
+    const captures = pageCaptures(result);
+    return captures ? supabaseService.uploadPageCaptures(String(result.url || ''), captures) : null;
+  }
+
+  /**
+   * Record the file and media links of a crawled page in the job's asset inventory (crawlerOptions
+   * collectAssets), converting newly found documents to markdown pages when convertDocuments is on.
+   * Each asset is recorded once per job, with the first page it was found on.
+   */
+  private async harvestAssets(jobId: string, result: Record<string, unknown>, signal?: AbortSignal): Promise<void> {
+    const options = this.crawlerOptions.get(jobId);
+    if (!options?.collectAssets) {
+      return;
+    }
+
+    let inventory = this.assetInventories.get(jobId);
+    if (!inventory) {
+      inventory = { seen: new Set(), converted: 0 };
+      this.assetInventories.set(jobId, inventory);
+    }
+    const seen = inventory.seen;
+    const found = pageAssets(result, jobId).filter(asset => !seen.has(asset.url));
+    if (found.length === 0) {
+      return;
+    }
+    found.forEach(asset => seen.add(asset.url));
+
+    try {
+      const assets = await probeAssets(found);
+      for (let i = 0; i < assets.length; i++) {
+        if (options.convertDocuments && assets[i].type === 'document' && inventory.converted < MAX_CONVERTED_DOCUMENTS) {
+          inventory.converted++;
+          assets[i] = await this.convertDocument(jobId, assets[i], signal);
+        }
+      }
+
+      await supabaseService.saveCrawlAssets(assets);
+      console.log(`📎 Recorded ${assets.length} assets found on ${found[0].sourceUrl}`);
+      this.emit('assets_found', {
+        jobId,
+        sourceUrl: found[0].sourceUrl,
+        count: assets.length,
+        documents: assets.filter(asset => asset.type === 'document').length,
+        converted: assets.filter(asset => asset.convertedAt).length,
+      });
+    } catch (error) {
+      console.warn('⚠️ Could not record page assets:', error);
+    }
+  }
+
+  /**
+   * Crawl a linked document through Crawl4AI and save its text as a markdown page. Crawl4AI decides
+   * which formats it can read; a document it returns no text for is kept in the inventory with the error.
+   */
+  private async convertDocument(jobId: string, asset: CrawlAsset, signal?: AbortSignal): Promise<CrawlAsset> {
+    try {
+      const data = (await this.postCrawl(jobId, this.buildRequest(jobId, [asset.url]), { signal })).data;
+
+      const result = (Array.isArray(data.results) ? data.results[0] : data) as Record<string, unknown>;
+      const output = result.markdown as { raw_markdown?: string } | string | undefined;
+      const markdown = (typeof output === 'string' ? output : output?.raw_markdown) || '';
+      const metadata = (result.metadata || {}) as Record<string, unknown>;
+      if (!result.success || !markdown.trim()) {
+        throw new Error(String(result.error_message || 'No text could be extracted'));
+      }
+
+      await supabaseService.saveCrawlResultAsDocument({
+        id: crypto.randomUUID(),
+        url: normalizeUrl(asset.url),
+        status: 'completed',
+        content: markdown,
+        markdown,
+        rawMarkdown: markdown,
+        links: [],
+        metadata: {
+          ...metadata,
+          title: metadata.title || asset.text || asset.url.split('/').pop(),
+          crawl_type: 'document',
+          asset_type: asset.type,
+          file_extension: asset.extension,
+          source_url: asset.sourceUrl
+        },
+        createdAt: new Date().toISOString(),
+        completedAt: new Date().toISOString(),
+      });
+      console.log(`📄 Converted document: ${asset.url}`);
+      this.emit('page_saved', { jobId, url: asset.url });
+      return { ...asset, convertedAt: new Date().toISOString() };
+    } catch (error) {
+      throwIfCancelled(signal);
+      console.warn(`⚠️ Could not convert document ${asset.url}:`, error);
+      return { ...asset, conversionError: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Start a crawl as an independent session that can run alongside others
+   */
+  startCrawl(config: SimplifiedCrawlConfig): CrawlSession {
+    const sessionId = crypto.randomUUID();
+    return this.openSession(sessionId, config.url, 'crawl', signal => this.runCrawl(sessionId, config, signal));
+  }
+
+  /**
+   * Continue an interrupted smart crawl job from its last checkpoint
+   */
+  resumeCrawl(jobId: string, url: string): CrawlSession {
+    return this.openSession(jobId, url, 'resume', signal => this.runStoredJob(jobId, 'resume', signal));
+  }
+
+  /**
+   * Crawl only the pages of a job that failed, keeping the rest of its frontier for a later resume
+   */
+  retryFailedCrawl(jobId: string, url: string): CrawlSession {
+    return this.openSession(jobId, url, 'retry_failed', signal => this.runStoredJob(jobId, 'retry_failed', signal));
+  }
+
+  /**
+   * Sessions that are still running
+   */
+  getActiveSessions(): CrawlSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  /**
+   * Register a session until its crawl settles. A job that is already running returns its session.
+   */
+  private openSession(
+    id: string,
+    url: string,
+    kind: CrawlSessionKind,
+    run: (signal: AbortSignal) => Promise<CrawlResult>
+  ): CrawlSession {
+    const existing = this.sessions.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const session = new CrawlSession(id, url, kind, this, run);
+    this.sessions.set(id, session);
+    const forget = () => { this.sessions.delete(id); };
+    session.result.then(forget, forget);
+    return session;
+  }
+
   /**
    * Main crawl method - handles both single page and smart site crawling
    */
   async crawlUrl(config: SimplifiedCrawlConfig, signal?: AbortSignal): Promise<CrawlResult> {
+    return this.runCrawl(crypto.randomUUID(), config, signal);
+  }
+
+  /**
+   * Run a crawl whose events carry jobId; smart crawls also use it for their crawl_jobs row
+   */
+  private async runCrawl(jobId: string, config: SimplifiedCrawlConfig, signal?: AbortSignal): Promise<CrawlResult> {
     console.log(`🔍 Starting ${config.crawlType} crawl for:`, config.url);
+    const scope = config.crawlType === 'smart_site' ? this.setCrawlScope(jobId, config.url, config.scope) : undefined;
     
     // Emit crawl start event
     this.emit('crawl_start', { 
+      jobId,
       type: config.crawlType, 
       url: config.url, 
-      timestamp: Date.now() 
+      timestamp: Date.now(),
+      scope: scope?.describe()
     });
     
     // Emit initial status to trigger dashboard animations
     this.emit('status_update', { 
+      jobId,
       status: 'discovering', 
       message: 'Initializing crawl operation...' 
     });
     
+    const savedPages = this.trackSavedPages(jobId);
+    if (config.advanced && hasCrawlerOptions(config.advanced)) {
+      console.log('🎛️ Using advanced crawl options:', config.advanced);
+      this.crawlerOptions.set(jobId, config.advanced);
+    }
     try {
-      // Check for abort signal
-      if (signal?.aborted) {
-        throw new Error('Crawl was cancelled');
-      }
+      throwIfCancelled(signal);
       
       // Health check first (but be more tolerant)
       const healthStatus = await this.healthCheck();
       if (!healthStatus.success) {
         console.warn('⚠️ Service health check failed, will attempt crawl anyway');
-        this.emit('status_update', { status: 'service_warning', message: 'Service health check failed, attempting crawl anyway' });
+        this.emit('status_update', { jobId, status: 'service_warning', message: 'Service health check failed, attempting crawl anyway' });
         // Continue with crawl attempt instead of fallback
       }
 
-      // Check for abort signal again
-      if (signal?.aborted) {
-        throw new Error('Crawl was cancelled');
-      }
+      await this.loadExtractionSchema(jobId, config.url);
+      throwIfCancelled(signal);
 
       if (config.crawlType === 'single') {
-        return await this.singlePageCrawl(config.url, signal);
+        return await this.singlePageCrawl(jobId, config.url, signal);
       } else {
-        return await this.smartSiteCrawl(config.url, signal);
+        await this.loadUrlRules(jobId, config.url, config.urlRules);
+        if (config.relevance) {
+          console.log('🎯 Topic-focused crawl:', config.relevance);
+          this.relevanceScorers.set(jobId, new RelevanceScorer(config.relevance));
+        }
+        throwIfCancelled(signal);
+        return await this.smartSiteCrawl(jobId, config.url, this.resolveFrontierOptions(config), signal);
       }
     } catch (error) {
+      if (signal?.aborted) {
+        return this.cancelledResult(jobId, config.url, savedPages.urls);
+      }
+
       console.error('❌ Crawl failed:', error);
-      this.emit('crawl_error', { error: error instanceof Error ? error.message : 'Unknown error' });
+      this.emit('crawl_error', { jobId, error: error instanceof Error ? error.message : 'Unknown error' });
       
       // Return error result instead of attempting CORS-problematic fallback
       return {
@@ -127,41 +589,92 @@ class SimplifiedCrawl4AIService extends EventEmitter {
         error: `Crawl service failed: ${error instanceof Error ? error.message : 'Unknown error'}. Please check service availability.`,
         createdAt: new Date().toISOString(),
       };
+    } finally {
+      savedPages.stop();
+      this.crawlerOptions.delete(jobId);
+      this.extractionSchemas.delete(jobId);
+      this.assetInventories.delete(jobId);
+      this.urlRules.delete(jobId);
+      this.crawlScopes.delete(jobId);
+      this.relevanceScorers.delete(jobId);
     }
   }
 
+  /**
+   * Collect the URLs of the pages a crawl saves, for the report if it is cancelled
+   */
+  private trackSavedPages(jobId: string): { urls: string[]; stop: () => void } {
+    const urls: string[] = [];
+    const stop = this.on('page_saved', payload => {
+      if (payload.jobId === jobId) {
+        urls.push(payload.url);
+      }
+    });
+    return { urls, stop };
+  }
+
+  /**
+   * Report for a cancelled crawl - the pages saved before the cancel are kept
+   */
+  private cancelledResult(jobId: string, url: string, savedUrls: string[]): CrawlResult {
+    console.log(`🛑 Crawl ${jobId} cancelled after saving ${savedUrls.length} pages`);
+    this.emit('crawl_cancelled', { jobId, savedUrls: [...savedUrls] });
+
+    return {
+      id: crypto.randomUUID(),
+      url,
+      status: 'failed',
+      error: `${CANCELLED_MESSAGE} after saving ${savedUrls.length} pages`,
+      metadata: {
+        crawl_type: 'cancelled',
+        cancelled: true,
+        pages_saved: savedUrls.length,
+        saved_urls: [...savedUrls]
+      },
+      createdAt: new Date().toISOString(),
+      completedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Depth, page budget and strategy for a smart crawl - the config wins, then VITE_CRAWL4AI_* defaults.
+   * Topic-focused crawls are always best-first, with their relevance threshold as the minimum score.
+   */
+  private resolveFrontierOptions(config: SimplifiedCrawlConfig): FrontierOptions {
+    const envStrategy = import.meta.env.VITE_CRAWL4AI_STRATEGY as CrawlStrategy;
+    return {
+      strategy: config.relevance ? 'bestfirst' : config.strategy || (CRAWL_STRATEGIES.includes(envStrategy) ? envStrategy : 'bfs'),
+      maxDepth: config.maxDepth ?? parseInt(import.meta.env.VITE_CRAWL4AI_MAX_DEPTH || '10'),
+      maxPages: config.maxPages ?? parseInt(import.meta.env.VITE_CRAWL4AI_MAX_PAGES || '5000'),
+      minScore: config.relevance?.threshold,
+    };
+  }
+
   /**
    * Single page crawl - fast and focused
    */
-  private async singlePageCrawl(url: string, signal?: AbortSignal): Promise<CrawlResult> {
+  private async singlePageCrawl(jobId: string, url: string, signal?: AbortSignal): Promise<CrawlResult> {
     console.log('📄 Performing single page crawl');
-    this.emit('status_update', { status: 'crawling', message: 'Crawling single page...' });
+    this.emit('status_update', { jobId, status: 'crawling', message: 'Crawling single page...' });
     
-    const requestData = {
-      urls: [url],
-      browser_config: {
-        headless: true,
-        ignore_https_errors: true
-      },
-      crawler_config: {
-        cache_mode: "bypass"
-      }
-    };
+    const requestData = this.buildRequest(jobId, [url]);
 
     // Add abort signal to axios request
     const requestConfig = signal ? { signal } : {};
-    const response = await this.client.post('/crawl', requestData, requestConfig);
+    const response = await this.postCrawl(jobId, requestData, requestConfig);
     
     this.emit('url_crawled', { 
+      jobId,
       url, 
       contentLength: response.data.results?.[0]?.content?.length || 0,
       title: response.data.results?.[0]?.metadata?.title || 'Untitled'
     });
     
-    const result = this.processResponse(response.data, url, 'single');
+    const result = await this.processResponse(jobId, response.data, url, 'single', signal);
     
     // Emit completion event
     this.emit('crawl_complete', {
+      jobId,
       totalUrls: 1,
       successfulUrls: result.status === 'completed' ? 1 : 0,
       successRate: result.status === 'completed' ? 100 : 0,
@@ -172,37 +685,37 @@ class SimplifiedCrawl4AIService extends EventEmitter {
   }
 
   /**
-   * Native deep crawl using Crawl4AI's built-in deep crawling capabilities
+   * Configure native deep crawling request with supported parameters
+   */
+  private buildDeepCrawlRequest(jobId: string, url: string) {
+    return this.buildRequest(jobId, [url], {
+      // Use basic parameters that are definitely supported
+      extract_links: true,
+      same_domain_only: !this.crawlScope(jobId, url).followsExternalLinks,
+      verbose: true,
+
+      // Note: Deep crawling parameters might not be supported by the Azure service,
+      // so link following is driven by our own frontier
+    }, {
+      viewport_width: 1920,
+      viewport_height: 1080
+    });
+  }
+
+  /**
+   * Native deep crawl: crawl the start page, then follow links level by level through the frontier
    */
-  private async smartSiteCrawlNative(url: string): Promise<CrawlResult> {
-    console.log('🚀 Starting native deep crawl for:', url);
+  private async smartSiteCrawlNative(jobId: string, url: string, options: FrontierOptions, signal?: AbortSignal): Promise<CrawlResult> {
+    console.log('🚀 Starting native deep crawl for:', url, options);
+    let job: JobProgress | undefined;
     
     try {
-      // Configure native deep crawling request with supported parameters
-      const requestData = {
-        urls: [url],
-        browser_config: {
-          headless: true,
-          ignore_https_errors: true,
-          viewport_width: 1920,
-          viewport_height: 1080
-        },
-        crawler_config: {
-          // Use basic parameters that are definitely supported
-          cache_mode: "bypass",
-          extract_links: true,
-          same_domain_only: true,
-          verbose: true,
-          
-          // Note: Deep crawling parameters might not be supported by the Azure service
-          // We'll start with link extraction and use arun_many for discovered URLs
-        }
-      };
+      const requestData = this.buildDeepCrawlRequest(jobId, url);
       
       console.log('📡 Starting enhanced native crawl (Azure-compatible):', { url });
       
       // Step 1: Get initial page with link extraction
-      const initialResponse = await this.client.post('/crawl', requestData);
+      const initialResponse = await this.postCrawl(jobId, requestData, { signal });
       
       if (!initialResponse.data.success || !initialResponse.data.results?.[0]) {
         throw new Error('Initial page crawl failed');
@@ -211,38 +724,64 @@ class SimplifiedCrawl4AIService extends EventEmitter {
       const initialResult = initialResponse.data.results[0];
       console.log('✅ Initial page crawled, extracting links...');
       
-      // Step 2: Extract and filter links for multi-URL crawling
-      const links = initialResult.links || {};
-      const internalLinkObjects = links.internal || [];
+      // Step 2: Seed the frontier with the start page's links and the site's sitemaps
+      const robots = await this.loadRobots(url);
+      const sitemapEntries = await this.loadSitemapEntries(jobId, url, robots);
+      throwIfCancelled(signal);
+      const frontier = new CrawlFrontier(options);
       
-      if (internalLinkObjects.length === 0) {
-        console.log('ℹ️ No internal links found, returning single page result');
-        return this.processResponse(initialResponse.data, url, 'native_deep_crawl');
-      }
+      frontier.markCrawled(url);
+      frontier.reject(canonicalPageUrl(initialResult)); // Its canonical URL is the same page
+      this.emit('url_discovered', { jobId, url, depth: 0 });
+      
+      const pageLinks = this.extractPageLinks(jobId, initialResult);
+      await this.enqueueLinks(jobId, frontier, pageLinks, 1, url, url, robots, sitemapEntries, this.linkAnchors(initialResult));
+      await this.enqueueLinks(jobId, frontier, Array.from(sitemapEntries.keys()), 1, undefined, url, robots, sitemapEntries);
       
-      // Extract href URLs from link objects
-      const internalLinks = internalLinkObjects.map((link: any) => {
-        // Handle both string and object formats
-        return typeof link === 'string' ? link : link.href;
-      }).filter((href: string) => href && href.startsWith('http'));
+      console.log(`🔗 Found ${pageLinks.length} links and ${sitemapEntries.size} sitemap URLs, ${frontier.size} queued`);
       
-      console.log(`🔗 Extracted ${internalLinks.length} valid URLs from ${internalLinkObjects.length} link objects`);
+      if (!frontier.hasNext()) {
+        console.log('ℹ️ No crawlable links or sitemap URLs found, returning single page result');
+        throwIfCancelled(signal);
+        const singleResult = await this.processResponse(jobId, initialResponse.data, url, 'native_deep_crawl', signal);
+        this.emit('crawl_complete', {
+          jobId,
+          totalUrls: 1,
+          successfulUrls: singleResult.status === 'completed' ? 1 : 0,
+          successRate: singleResult.status === 'completed' ? 100 : 0,
+          totalBatches: 1
+        });
+        return singleResult;
+      }
       
-      // Step 3: Filter and prioritize URLs using our existing logic
-      const allUrls = [url, ...internalLinks];
-      const prioritizedUrls = this.filterAndPrioritizeUrls(allUrls, url);
+      // Every multi-page crawl is backed by a crawl_jobs row so it can be resumed
+      job = await this.createJob(jobId, url, options);
       
-      console.log(`🔍 Found ${internalLinks.length} internal links, prioritized to ${prioritizedUrls.length} URLs`);
+      // The start page is already crawled - save it like every other page
+      this.emit('url_crawled', {
+        jobId,
+        url,
+        depth: 0,
+        contentLength: initialResult.content?.length || 0,
+        title: initialResult.metadata?.title || 'Untitled'
+      });
+      throwIfCancelled(signal);
+      await this.saveIndividualPage(jobId, { ...initialResult, url: initialResult.url || url }, signal);
+      await this.recordPage(job, url, 'completed', { depth: 0, title: initialResult.metadata?.title });
       
-      // Step 4: Intelligent batching for large sites
-      if (prioritizedUrls.length > 1) {
-        return await this.intelligentBatchCrawl(prioritizedUrls, requestData, url);
-      } else {
-        // Single URL, return the initial result
-        return this.processResponse(initialResponse.data, url, 'native_deep_crawl');
-      }
+      // Step 3: Crawl the frontier within the depth and page budgets
+      const result = await this.intelligentBatchCrawl(jobId, frontier, requestData, url, robots, sitemapEntries, [initialResult], job, signal);
+      await this.finishJob(job, frontier, 'completed');
+      return result;
       
     } catch (error) {
+      if (job) {
+        // A cancelled job is left with its checkpoint, so it can be resumed from History
+        await this.updateJobStatus(job.id, signal?.aborted ? 'cancelled' : 'failed');
+      }
+      if (signal?.aborted) {
+        throw error;
+      }
       console.error('❌ Native deep crawl failed:', error);
       
       // Re-throw error to allow fallback handling in parent method
@@ -253,27 +792,43 @@ class SimplifiedCrawl4AIService extends EventEmitter {
   /**
    * Intelligent smart site crawl using batch processing (FALLBACK METHOD)
    */
-  private async smartSiteCrawlManual(url: string): Promise<CrawlResult> {
+  private async smartSiteCrawlManual(jobId: string, url: string, options: FrontierOptions, signal?: AbortSignal): Promise<CrawlResult> {
     console.log('🧠 Starting intelligent smart site crawl for:', url);
     
     try {
-      // Step 1: Discover URLs from the starting page
-      const discoveredUrls = await this.discoverUrls(url);
+      // Step 1: Discover URLs from the starting page and the site's sitemaps
+      const robots = await this.loadRobots(url);
+      const sitemapEntries = await this.loadSitemapEntries(jobId, url, robots);
+      throwIfCancelled(signal);
+      const discoveredUrls = await this.discoverUrls(jobId, url, sitemapEntries, signal);
       console.log(`🔍 Discovered ${discoveredUrls.length} URLs to crawl`);
       
       // Step 2: Filter and prioritize URLs
-      const prioritizedUrls = this.filterAndPrioritizeUrls(discoveredUrls, url);
+      await this.loadScopeRobots(jobId, discoveredUrls, url, url);
+      const prioritizedUrls = await this.filterAndPrioritizeUrls(jobId, discoveredUrls, url, robots, sitemapEntries, options.maxPages);
       console.log(`✅ Filtered to ${prioritizedUrls.length} high-value URLs`);
       
       // Step 3: Crawl URLs with intelligent batch processing
-      const crawlResults = await this.crawlManyWithBatching(prioritizedUrls);
+      const crawlResults = await this.crawlManyWithBatching(jobId, prioritizedUrls, robots, signal);
       
       // Step 4: Save individual pages and create aggregated result
-      await this.saveMultiplePages(crawlResults);
+      await this.saveMultiplePages(jobId, crawlResults, signal);
+      const successfulUrls = crawlResults.filter(result => result && result.content).length;
+      this.emit('crawl_complete', {
+        jobId,
+        totalUrls: crawlResults.length,
+        successfulUrls,
+        successRate: crawlResults.length > 0 ? Math.round((successfulUrls / crawlResults.length) * 100) : 0,
+        totalBatches: Math.ceil(prioritizedUrls.length / (this.getCrawlDelayMs(robots) === undefined ? 5 : 1))
+      });
       return this.createAggregatedResult(crawlResults, url);
       
     } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
       console.error('❌ Smart crawl failed:', error);
+      this.emit('crawl_error', { jobId, error: error instanceof Error ? error.message : 'Unknown error' });
       
       // Return error instead of more fallback attempts
       return {
@@ -287,99 +842,140 @@ class SimplifiedCrawl4AIService extends EventEmitter {
   }
 
   /**
-   * Intelligent batch crawling with cool-off periods for large sites
+   * Intelligent batch crawling with cool-off periods for large sites.
+   * Batches are taken from the frontier, and links found on each page are queued one level deeper.
    */
-  private async intelligentBatchCrawl(urls: string[], requestConfig: any, originalUrl: string): Promise<CrawlResult> {
-    console.log(`🎯 Starting intelligent batch crawl for ${urls.length} URLs`);
+  private async intelligentBatchCrawl(
+    jobId: string,
+    frontier: CrawlFrontier,
+    requestConfig: CrawlRequest,
+    originalUrl: string,
+    robots: RobotsTxt | undefined,
+    sitemapEntries: Map<string, SitemapEntry>,
+    startResults: Crawl4AIPage[],
+    job?: JobProgress,
+    signal?: AbortSignal
+  ): Promise<CrawlResult> {
+    console.log(`🎯 Starting intelligent batch crawl (${frontier.strategy}, max depth ${frontier.maxDepth}) with ${frontier.size} queued URLs`);
     
     // Configuration for batching (from environment variables)
-    const maxBatchSize = parseInt(import.meta.env.VITE_CRAWL4AI_BATCH_SIZE || '50');
-    const coolOffDelay = parseInt(import.meta.env.VITE_CRAWL4AI_COOL_OFF_DELAY || '5000');
+    let maxBatchSize = parseInt(import.meta.env.VITE_CRAWL4AI_BATCH_SIZE || '50');
+    let coolOffDelay = parseInt(import.meta.env.VITE_CRAWL4AI_COOL_OFF_DELAY || '5000');
     const maxRetries = parseInt(import.meta.env.VITE_CRAWL4AI_MAX_RETRIES || '3');
     
-    const allResults: any[] = [];
-    const batches = [];
-    
-    // Split URLs into batches
-    for (let i = 0; i < urls.length; i += maxBatchSize) {
-      batches.push(urls.slice(i, i + maxBatchSize));
+    // A robots.txt Crawl-delay is per request, so crawl one page at a time at the site's pace
+    const crawlDelayMs = this.getCrawlDelayMs(robots);
+    if (crawlDelayMs !== undefined) {
+      maxBatchSize = 1;
+      coolOffDelay = Math.max(coolOffDelay, crawlDelayMs);
+      console.log(`🤖 Honouring robots.txt Crawl-delay: one URL per batch, ${coolOffDelay / 1000}s apart`);
     }
     
-    console.log(`📦 Split ${urls.length} URLs into ${batches.length} batches of max ${maxBatchSize} URLs each`);
-    console.log(`⏱️ Estimated time: ${Math.ceil((batches.length * coolOffDelay) / 1000 / 60)} minutes (with cool-off periods)`);
+    const allResults: Crawl4AIPage[] = [...startResults];
+    let attemptedUrls = startResults.length;
+    let batchNumber = 0;
+    let deepestLevel = 0;
+    const throttledAttempts = new Map<string, number>(); // Pages that got a 429/503, by normalized URL
     
-    // Emit batch info
-    this.emit('batch_info', {
-      totalUrls: urls.length,
-      totalBatches: batches.length,
-      batchSize: maxBatchSize,
-      estimatedTime: Math.ceil((batches.length * coolOffDelay) / 1000 / 60)
-    });
+    // The frontier grows while crawling, so the batch count is re-estimated after every batch
+    const emitBatchInfo = () => {
+      const pendingUrls = Math.min(frontier.size, frontier.remainingBudget);
+      const totalBatches = batchNumber + Math.ceil(pendingUrls / maxBatchSize);
+      this.emit('batch_info', {
+        jobId,
+        totalUrls: attemptedUrls + pendingUrls,
+        totalBatches,
+        batchSize: maxBatchSize,
+        estimatedTime: Math.ceil(((totalBatches - batchNumber) * coolOffDelay) / 1000 / 60)
+      });
+      return totalBatches;
+    };
     
-    // Process each batch with cool-off periods
-    for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-      const batch = batches[batchIndex];
-      const batchNumber = batchIndex + 1;
+    let totalBatches = emitBatchInfo();
+    console.log(`📦 Crawling in batches of max ${maxBatchSize} URLs (page budget ${frontier.remainingBudget})`);
+    
+    while (frontier.hasNext()) {
+      throwIfCancelled(signal);
+      // One host per batch: credential profiles and extraction schemas only apply to requests for their own host
+      const taken = frontier.next(maxBatchSize);
+      const batchHost = extractionDomain(taken[0].url);
+      const items = taken.filter(item => extractionDomain(item.url) === batchHost);
+      frontier.requeue(taken.filter(item => extractionDomain(item.url) !== batchHost));
+      const batch = items.map(item => item.url);
+      const itemsByUrl = new Map(items.map(item => [normalizeUrl(item.url), item]));
+      const batchHosts = [...new Set(batch.map(rateLimitHost))];
+      const processed = new Set<string>();
+      batchNumber++;
+      attemptedUrls += batch.length;
       
-      console.log(`🚀 Processing batch ${batchNumber}/${batches.length} (${batch.length} URLs)`);
+      console.log(`🚀 Processing batch ${batchNumber}/${totalBatches} (${batch.length} URLs, depth ${items[0].depth})`);
       this.emit('batch_start', {
+        jobId,
         batchNumber,
-        totalBatches: batches.length,
+        totalBatches,
         batchSize: batch.length,
         urls: batch
       });
       
+      // Links are only needed while there are levels left to explore
+      const needsLinks = items.some(item => item.depth < frontier.maxDepth);
       let retryCount = 0;
       let batchSuccess = false;
       
-      while (retryCount < maxRetries && !batchSuccess) {
+      while (retryCount < maxRetries && !batchSuccess && !signal?.aborted) {
         try {
           const multiUrlRequest = {
             urls: batch,
             browser_config: requestConfig.browser_config,
             crawler_config: {
               ...requestConfig.crawler_config,
-              extract_links: false // Don't need links for subsequent pages
+              extract_links: needsLinks
             }
           };
           
-          const response = await this.client.post('/crawl', multiUrlRequest);
-          
-          // Handle async responses if needed
-          if (response.data.task_id && !response.data.results) {
-            console.log(`⏳ Batch ${batchNumber} is async, polling for results...`);
-            const asyncResult = await this.pollForResults(response.data.task_id, originalUrl);
-            
-            // Extract results from the async response
-            if (asyncResult.metadata?.crawled_urls) {
-              // This means it's an aggregated result, we need to handle it differently
-              console.log(`✅ Batch ${batchNumber} completed asynchronously`);
-              batchSuccess = true;
-              continue; // The async handler already saved the pages
-            }
-          }
+          const data = (await this.postCrawl(jobId, multiUrlRequest, { signal })).data;
           
-          // Process synchronous response
-          if (response.data.results && Array.isArray(response.data.results)) {
-            console.log(`✅ Batch ${batchNumber} completed: ${response.data.results.length} pages crawled`);
+          if (data.results && Array.isArray(data.results)) {
+            console.log(`✅ Batch ${batchNumber} completed: ${data.results.length} pages crawled`);
             
-            // Save each page individually
-            for (const result of response.data.results) {
+            // Save each page individually and queue its links one level deeper
+            for (const [index, result] of data.results.entries()) {
+              if (signal?.aborted) break;
+              const item = itemsByUrl.get(normalizeUrl(result?.url || '')) || items[index];
+              processed.add(normalizeUrl(item?.url || result?.url || ''));
+              
               if (result && result.success) {
-                console.log(`✅ Successfully crawled: ${result.url}`);
+                console.log(`✅ Successfully crawled (depth ${item?.depth}): ${result.url}`);
                 this.emit('url_crawled', { 
+                  jobId,
                   url: result.url, 
+                  depth: item?.depth,
                   contentLength: result.content?.length || 0,
                   title: result.metadata?.title || 'Untitled'
                 });
-                await this.saveIndividualPage(result);
+                await this.saveIndividualPage(jobId, result, signal);
+                await this.recordPage(job, result.url, 'completed', { depth: item?.depth, parentUrl: item?.parentUrl, title: result.metadata?.title });
+                frontier.reject(canonicalPageUrl(result)); // Don't crawl the page again under its canonical URL
                 allResults.push(result);
+                
+                if (item) {
+                  deepestLevel = Math.max(deepestLevel, item.depth);
+                  await this.enqueueLinks(jobId, frontier, this.extractPageLinks(jobId, result), item.depth + 1, result.url, originalUrl, robots, sitemapEntries, this.linkAnchors(result));
+                }
+              } else if (item && THROTTLE_STATUSES.includes(result?.status_code) && (throttledAttempts.get(normalizeUrl(item.url)) || 0) + 1 < maxRetries) {
+                // The host asked us to slow down - crawl the page again once its backoff is over
+                const key = normalizeUrl(item.url);
+                throttledAttempts.set(key, (throttledAttempts.get(key) || 0) + 1);
+                console.log(`🐢 Throttled (HTTP ${result.status_code}), will retry: ${result.url}`);
+                frontier.requeue([item]);
               } else {
-                console.log(`❌ Failed to crawl: ${result.url}`);
+                console.log(`❌ Failed to crawl: ${result?.url}`);
                 this.emit('url_failed', { 
-                  url: result.url, 
-                  error: result.error_message || 'Unknown error' 
+                  jobId,
+                  url: result?.url, 
+                  error: result?.error_message || 'Unknown error' 
                 });
+                await this.recordPage(job, result?.url || item?.url, 'failed', { depth: item?.depth, parentUrl: item?.parentUrl, error: result?.error_message });
               }
             }
             
@@ -389,35 +985,63 @@ class SimplifiedCrawl4AIService extends EventEmitter {
           }
           
         } catch (error) {
+          if (signal?.aborted) break;
           retryCount++;
           console.warn(`⚠️ Batch ${batchNumber} attempt ${retryCount} failed:`, error);
           
           if (retryCount < maxRetries) {
-            const retryDelay = coolOffDelay * retryCount; // Exponential backoff
-            console.log(`🔄 Retrying batch ${batchNumber} in ${retryDelay / 1000}s...`);
-            await new Promise(resolve => setTimeout(resolve, retryDelay));
+            // The hosts' own backoff (set by their pages' results in postCrawl), at least the cool-off per attempt
+            const retryDelay = Math.max(this.hostLimiter.pausedFor(batchHosts), coolOffDelay * retryCount);
+            console.log(`🔄 Retrying batch ${batchNumber} in ${Math.ceil(retryDelay / 1000)}s...`);
+            await sleep(retryDelay, signal).catch(() => undefined); // A cancel ends the retry loop
           } else {
             console.error(`❌ Batch ${batchNumber} failed after ${maxRetries} attempts`);
+            
+            // Record the whole batch as failed so "retry failed URLs" can pick it up later
+            for (const item of items) {
+              this.emit('url_failed', { jobId, url: item.url, error: error instanceof Error ? error.message : 'Batch failed' });
+              await this.recordPage(job, item.url, 'failed', { depth: item.depth, parentUrl: item.parentUrl, error: error instanceof Error ? error.message : 'Batch failed' });
+            }
           }
         }
       }
       
+      if (signal?.aborted) {
+        // Put back the pages this batch never got to, so resuming the job crawls them
+        frontier.requeue(items.filter(item => !processed.has(normalizeUrl(item.url))));
+        await this.saveCheckpoint(job, frontier);
+        throwIfCancelled(signal);
+      }
+      
+      await this.saveCheckpoint(job, frontier);
+      totalBatches = emitBatchInfo();
+      
       // Cool-off period between batches (except for the last batch)
-      if (batchIndex < batches.length - 1) {
+      if (frontier.hasNext()) {
         console.log(`⏸️ Cool-off period: waiting ${coolOffDelay / 1000}s before next batch...`);
-        await new Promise(resolve => setTimeout(resolve, coolOffDelay));
+        await sleep(coolOffDelay, signal);
       }
     }
     
-    const successRate = urls.length > 0 ? Math.round((allResults.length / urls.length) * 100) : 0;
-    console.log(`🎉 Intelligent batch crawl completed: ${allResults.length}/${urls.length} pages successfully crawled (${successRate}% success rate)`);
+    const successRate = attemptedUrls > 0 ? Math.round((allResults.length / attemptedUrls) * 100) : 0;
+    console.log(`🎉 Intelligent batch crawl completed: ${allResults.length}/${attemptedUrls} pages successfully crawled (${successRate}% success rate, deepest level ${deepestLevel})`);
+    
+    if (frontier.size > 0) {
+      console.log(`📏 Page budget reached with ${frontier.size} URLs still queued`);
+    } else if (frontier.heldCount > 0) {
+      console.log(`🎯 Relevance threshold reached: ${frontier.heldCount} queued URLs scored too low to crawl`);
+    }
     
     // Emit completion event
     this.emit('crawl_complete', {
-      totalUrls: urls.length,
+      jobId,
+      totalUrls: attemptedUrls,
       successfulUrls: allResults.length,
       successRate,
-      totalBatches: batches.length
+      totalBatches: batchNumber,
+      deepestLevel,
+      unvisitedUrls: frontier.size,
+      belowThresholdUrls: frontier.heldCount
     });
     
     // Return an aggregated result
@@ -427,33 +1051,28 @@ class SimplifiedCrawl4AIService extends EventEmitter {
   /**
    * Main smart site crawl method - tries native deep crawling first, falls back to manual
    */
-  private async smartSiteCrawl(url: string, signal?: AbortSignal): Promise<CrawlResult> {
+  private async smartSiteCrawl(jobId: string, url: string, options: FrontierOptions, signal?: AbortSignal): Promise<CrawlResult> {
     console.log('🎯 Starting smart site crawl with native-first approach for:', url);
     
     try {
-      // Check for abort signal
-      if (signal?.aborted) {
-        throw new Error('Crawl was cancelled');
-      }
+      throwIfCancelled(signal);
       
       // Try native deep crawling first
       console.log('🚀 Attempting native deep crawl...');
-      return await this.smartSiteCrawlNative(url);
+      return await this.smartSiteCrawlNative(jobId, url, options, signal);
       
     } catch (nativeError) {
+      // A cancelled crawl must not start the fallback
+      throwIfCancelled(signal);
       console.warn('⚠️ Native deep crawl failed, falling back to manual method:', nativeError);
       
-      // Check for abort signal
-      if (signal?.aborted) {
-        throw new Error('Crawl was cancelled');
-      }
-      
       try {
         // Fallback to manual smart crawl
         console.log('🔄 Attempting manual smart crawl...');
-        return await this.smartSiteCrawlManual(url);
+        return await this.smartSiteCrawlManual(jobId, url, options, signal);
         
       } catch (manualError) {
+        throwIfCancelled(signal);
         console.error('❌ Both native and manual smart crawl failed:', {
           nativeError: nativeError instanceof Error ? nativeError.message : 'Unknown error',
           manualError: manualError instanceof Error ? manualError.message : 'Unknown error'
@@ -461,6 +1080,7 @@ class SimplifiedCrawl4AIService extends EventEmitter {
         
         // Return error instead of endless fallback attempts
         console.error('❌ All crawl methods failed');
+        this.emit('crawl_error', { jobId, error: 'All crawl methods failed' });
         return {
           id: crypto.randomUUID(),
           url,
@@ -472,135 +1092,308 @@ class SimplifiedCrawl4AIService extends EventEmitter {
     }
   }
 
+  /**
+   * Load (and cache per origin) the robots.txt rules for a site
+   */
+  private async loadRobots(url: string): Promise<RobotsTxt | undefined> {
+    if (!RESPECT_ROBOTS) {
+      return undefined;
+    }
+
+    const origin = new URL(url).origin;
+    const cached = this.robotsCache.get(origin);
+    if (cached && Date.now() - cached.fetchedAt < ROBOTS_CACHE_TTL) {
+      return cached.robots;
+    }
+
+    const robots = await fetchRobotsTxt(origin, this.mode === 'proxy');
+    this.robotsCache.set(origin, { robots, fetchedAt: Date.now() });
+    console.log('🤖 robots.txt loaded:', {
+      origin,
+      userAgent: ROBOTS_USER_AGENT,
+      rules: robots.ruleCount(ROBOTS_USER_AGENT),
+      crawlDelay: robots.getCrawlDelay(ROBOTS_USER_AGENT)
+    });
+    return robots;
+  }
+
+  /**
+   * Collect sitemap URLs for the site (robots.txt Sitemap: lines or /sitemap.xml), keyed by URL
+   */
+  private async loadSitemapEntries(jobId: string, url: string, robots?: RobotsTxt): Promise<Map<string, SitemapEntry>> {
+    if (!USE_SITEMAPS) {
+      return new Map();
+    }
+
+    this.emit('status_update', { jobId, status: 'discovering', message: 'Reading sitemaps...' });
+    const maxUrls = parseInt(import.meta.env.VITE_CRAWL4AI_MAX_PAGES || '5000');
+    const entries = await discoverSitemapEntries(new URL(url).origin, robots?.sitemaps || [], this.mode === 'proxy', maxUrls);
+    console.log(`🗺️ Sitemap discovery found ${entries.length} URLs`);
+    return new Map(entries.map(entry => [cleanUrl(entry.url), entry]));
+  }
+
+  /**
+   * The site's Crawl-delay in milliseconds, if robots.txt sets one
+   */
+  private getCrawlDelayMs(robots?: RobotsTxt): number | undefined {
+    const crawlDelay = robots?.getCrawlDelay(ROBOTS_USER_AGENT);
+    return crawlDelay === undefined ? undefined : crawlDelay * 1000;
+  }
+
   /**
    * Discover URLs from a starting page for smart crawling
    */
-  private async discoverUrls(startUrl: string): Promise<string[]> {
+  private async discoverUrls(jobId: string, startUrl: string, sitemapEntries: Map<string, SitemapEntry>, signal?: AbortSignal): Promise<string[]> {
     console.log('🔍 Discovering URLs from:', startUrl);
-    this.emit('status_update', { status: 'discovering', message: 'Analyzing website structure...' });
+    this.emit('status_update', { jobId, status: 'discovering', message: 'Analyzing website structure...' });
     
     try {
       // First, get the starting page to extract links
-      const requestData = {
-        urls: [startUrl],
-        browser_config: {
-          headless: true,
-          ignore_https_errors: true
-        },
-        crawler_config: {
-          cache_mode: "bypass",
-          extract_links: true,
-          same_domain_only: true
-        }
-      };
+      const requestData = this.buildRequest(jobId, [startUrl], {
+        extract_links: true,
+        same_domain_only: !this.crawlScope(jobId, startUrl).followsExternalLinks
+      });
       
-      const response = await this.client.post('/crawl', requestData);
+      const response = await this.postCrawl(jobId, requestData, { signal });
       const result = response.data.results?.[0] || response.data;
       
       // Extract links from the response
-      const links = result.links || {};
-      const internalLinks = links.internal || [];
+      const pageLinks = this.extractPageLinks(jobId, result);
       
-      // Combine all discovered URLs (skip sitemap due to CORS)
-      const allUrls = new Set([startUrl, ...internalLinks]);
+      // Combine links from the start page with sitemap URLs, one per normalized URL
+      const allUrls = new Set(
+        new Map([startUrl, ...pageLinks, ...sitemapEntries.keys()].map(link => [normalizeUrl(link), link])).values()
+      );
       
       console.log(`📊 Link discovery results:`, {
-        internalLinks: internalLinks.length,
+        pageLinks: pageLinks.length,
+        sitemapUrls: sitemapEntries.size,
         totalUnique: allUrls.size
       });
       
       // Emit discovery events
       this.emit('urls_discovered', { 
+        jobId,
         total: allUrls.size, 
-        internal: internalLinks.length,
+        internal: pageLinks.length,
+        sitemap: sitemapEntries.size,
         urls: Array.from(allUrls)
       });
       
       return Array.from(allUrls);
       
     } catch (error) {
-      console.warn('⚠️ URL discovery failed, using starting URL only:', error);
-      this.emit('discovery_error', { error: error instanceof Error ? error.message : 'Unknown error' });
-      return [startUrl];
+      console.warn('⚠️ URL discovery failed, using starting URL and sitemap URLs only:', error);
+      this.emit('discovery_error', { jobId, error: error instanceof Error ? error.message : 'Unknown error' });
+      return Array.from(new Set([startUrl, ...sitemapEntries.keys()]));
+    }
+  }
+  
+  /**
+   * Check a discovered URL against the crawl filters, reporting rejections through url_skipped
+   */
+  private isCrawlableUrl(jobId: string, url: string, baseUrl: string, robots?: RobotsTxt, parentUrl?: string): boolean {
+    try {
+      // Must be on a host in the crawl's scope (www. and the bare domain count as one unless strip_www is turned off)
+      if (!this.crawlScope(jobId, baseUrl).allows(url, parentUrl)) {
+        console.log(`❌ Rejected (out of scope): ${url}`);
+        this.emit('url_skipped', { jobId, url, reason: 'out_of_scope' });
+        return false;
+      }
+      
+      // Skip file downloads - they go to the asset inventory instead (see harvestAssets)
+      if (assetType(url)) {
+        console.log(`❌ Rejected (file extension): ${url}`);
+        this.emit('url_skipped', { jobId, url, reason: 'file_extension' });
+        return false;
+      }
+      
+      // The crawl's include/exclude rules - the start URL is crawled whatever they say
+      const verdict = this.urlRuleMatcher(jobId).check(url);
+      if (!verdict.allowed && normalizeUrl(url) !== normalizeUrl(baseUrl)) {
+        console.log(`❌ Rejected (URL rule ${verdict.ruleId}): ${url}`);
+        this.emit('url_skipped', { jobId, url, reason: 'url_rule', ruleId: verdict.ruleId });
+        return false;
+      }
+      
+      // Other hosts in scope are checked against their own robots.txt (see loadScopeRobots)
+      const siteRobots = new URL(url).origin === new URL(baseUrl).origin ? robots : this.robotsCache.get(new URL(url).origin)?.robots;
+      if (siteRobots && !siteRobots.isAllowed(url, ROBOTS_USER_AGENT)) {
+        console.log(`❌ Rejected (robots.txt): ${url}`);
+        this.emit('url_skipped', { jobId, url, reason: 'robots_disallowed' });
+        return false;
+      }
+      
+      console.log(`✅ Accepted: ${url}`);
+      return true;
+      
+    } catch {
+      console.log(`❌ Rejected (invalid URL): ${url}`);
+      return false; // Invalid URL
+    }
+  }
+  
+  /**
+   * Priority of a URL - closer to root = higher priority, so lower values are crawled first
+   */
+  private urlPriority(jobId: string, url: string, sitemapEntries: Map<string, SitemapEntry>): number {
+    const parsedUrl = new URL(url);
+    const pathDepth = parsedUrl.pathname.split('/').filter(Boolean).length;
+    const sitemapEntry = sitemapEntries.get(url);
+    
+    // Sitemap priority (0.0-1.0, default 0.5) is worth up to two path levels
+    const sitemapBoost = sitemapEntry ? (sitemapEntry.priority ?? 0.5) * 2 : 0;
+    
+    return pathDepth - this.urlRuleMatcher(jobId).boost(url) - sitemapBoost; // Boost rules lift important content
+  }
+  
+  /**
+   * Extract absolute link URLs from a Crawl4AI result (links may be strings or { href } objects),
+   * cleaned of fragments and tracking parameters. External links are only read when the crawl's
+   * scope reaches beyond the start host.
+   */
+  private extractPageLinks(jobId: string, result: { links?: Record<string, Array<string | { href?: string }> | undefined> }): string[] {
+    const linkObjects = [
+      ...(result?.links?.internal || []),
+      ...(this.crawlScopes.get(jobId)?.followsExternalLinks ? result?.links?.external || [] : [])
+    ];
+    return linkObjects
+      .map(link => typeof link === 'string' ? link : link?.href || '')
+      .filter(href => href.startsWith('http'))
+      .map(href => cleanUrl(href));
+  }
+  
+  /**
+   * Anchor text of a Crawl4AI result's links, by normalized URL
+   */
+  private linkAnchors(result: { links?: Record<string, Array<string | { href?: string; text?: string }> | undefined> }): Map<string, string> {
+    const anchors = new Map<string, string>();
+    for (const link of [...(result?.links?.internal || []), ...(result?.links?.external || [])]) {
+      if (typeof link !== 'string' && link?.href && link.text?.trim()) {
+        anchors.set(normalizeUrl(link.href), link.text.trim());
+      }
+    }
+    return anchors;
+  }
+
+  /**
+   * Load the robots.txt of every other host the crawl's scope lets these URLs reach, so
+   * isCrawlableUrl can check them against their own site's rules
+   */
+  private async loadScopeRobots(jobId: string, urls: string[], baseUrl: string, parentUrl?: string): Promise<void> {
+    if (!RESPECT_ROBOTS) {
+      return;
+    }
+
+    const scope = this.crawlScope(jobId, baseUrl);
+    const baseOrigin = new URL(baseUrl).origin;
+    const origins = new Set<string>();
+    for (const url of urls) {
+      try {
+        const origin = new URL(url).origin;
+        if (origin !== baseOrigin && scope.allows(url, parentUrl)) {
+          origins.add(origin);
+        }
+      } catch {
+        // Invalid URLs are rejected by isCrawlableUrl
+      }
+    }
+
+    for (const origin of origins) {
+      await this.loadRobots(origin);
+    }
+  }
+
+  /**
+   * Filter newly found links and queue them in the frontier at the given depth
+   */
+  private async enqueueLinks(
+    jobId: string,
+    frontier: CrawlFrontier,
+    links: string[],
+    depth: number,
+    parentUrl: string | undefined,
+    baseUrl: string,
+    robots: RobotsTxt | undefined,
+    sitemapEntries: Map<string, SitemapEntry>,
+    anchors: Map<string, string> = new Map()
+  ): Promise<void> {
+    if (depth > frontier.maxDepth) {
+      return;
+    }
+    
+    const candidates: FrontierItem[] = [];
+    const rules = this.urlRuleMatcher(jobId);
+    const newLinks = links.map(url => rules.rewrite(url)).filter(link => !frontier.has(link));
+    await this.loadScopeRobots(jobId, newLinks, baseUrl, parentUrl);
+    
+    for (const link of newLinks) {
+      if (frontier.has(link)) {
+        continue; // Linked twice on the page
+      }
+      if (!this.isCrawlableUrl(jobId, link, baseUrl, robots, parentUrl)) {
+        frontier.reject(link);
+        continue;
+      }
+      candidates.push({ url: link, depth, parentUrl, score: -this.urlPriority(jobId, link, sitemapEntries) });
+    }
+    
+    // Topic-focused crawls rank links by relevance instead; the frontier holds back those below the threshold
+    const scorer = this.relevanceScorers.get(jobId);
+    if (scorer && candidates.length > 0) {
+      const scores = await scorer.score(candidates.map(item => ({ url: item.url, text: anchors.get(normalizeUrl(item.url)) })));
+      candidates.forEach((item, index) => { item.score = scores[index]; });
+    }
+    
+    for (const item of frontier.addMany(candidates)) {
+      this.emit('url_discovered', { jobId, url: item.url, depth: item.depth, parentUrl: item.parentUrl });
     }
   }
   
   /**
    * Filter and prioritize URLs for intelligent crawling
    */
-  private filterAndPrioritizeUrls(urls: string[], baseUrl: string): string[] {
+  private async filterAndPrioritizeUrls(
+    jobId: string,
+    urls: string[],
+    baseUrl: string,
+    robots?: RobotsTxt,
+    sitemapEntries: Map<string, SitemapEntry> = new Map(),
+    maxUrls: number = parseInt(import.meta.env.VITE_CRAWL4AI_MAX_PAGES || '5000')
+  ): Promise<string[]> {
     const urlObj = new URL(baseUrl);
     const baseDomain = urlObj.hostname;
     
     console.log(`🔍 Filtering ${urls.length} URLs for domain: ${baseDomain}`);
     
     // Filter criteria
-    const filtered = urls.filter(url => {
-      try {
-        const parsedUrl = new URL(url);
-        
-        // Must be same domain
-        if (parsedUrl.hostname !== baseDomain) {
-          console.log(`❌ Rejected (different domain): ${url}`);
-          return false;
-        }
-        
-        // Skip file downloads
-        const path = parsedUrl.pathname.toLowerCase();
-        const skipExtensions = ['.pdf', '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', 
-                               '.zip', '.rar', '.tar', '.gz', '.exe', '.dmg', '.pkg',
-                               '.jpg', '.jpeg', '.png', '.gif', '.svg', '.webp',
-                               '.mp3', '.mp4', '.avi', '.mov', '.wav', '.flv'];
-        
-        if (skipExtensions.some(ext => path.endsWith(ext))) {
-          console.log(`❌ Rejected (file extension): ${url}`);
-          this.emit('url_skipped', { url, reason: 'file_extension' });
-          return false;
-        }
-        
-        // Skip obvious low-value pages but be more permissive
-        const skipPatterns = [
-          /\/(login|register|signup|signin|auth)/i,
-          /\/(cart|checkout|payment|billing)/i,
-          /\/(admin|wp-admin)/i,
-          /#/,  // Skip anchor links
-          /\.(css|js|json|txt|xml)$/i
-        ];
-        
-        if (skipPatterns.some(pattern => pattern.test(url))) {
-          console.log(`❌ Rejected (low-value pattern): ${url}`);
-          this.emit('url_skipped', { url, reason: 'low_value_pattern' });
-          return false;
-        }
-        
-        console.log(`✅ Accepted: ${url}`);
-        return true;
-        
-      } catch (error) {
-        console.log(`❌ Rejected (invalid URL): ${url}`);
-        return false; // Invalid URL
-      }
-    });
+    const rules = this.urlRuleMatcher(jobId);
+    const rewritten = urls.map(url => rules.rewrite(cleanUrl(url)));
+    const unique = Array.from(new Map(rewritten.map(url => [normalizeUrl(url), url])).values());
+    const filtered = unique.filter(url => this.isCrawlableUrl(jobId, url, baseUrl, robots, baseUrl)); // Found on the start page
     
     console.log(`📋 After filtering: ${filtered.length} URLs remaining`);
     
-    // Prioritize URLs (closer to root = higher priority)
+    // Topic-focused crawls rank by relevance and drop URLs below the threshold, except the start page
+    const scorer = this.relevanceScorers.get(jobId);
+    const relevance = scorer ? await scorer.score(filtered.map(url => ({ url }))) : [];
+    
+    // Prioritize URLs (lower priority value first)
     const prioritized = filtered
-      .map(url => {
-        const parsedUrl = new URL(url);
-        const pathDepth = parsedUrl.pathname.split('/').filter(Boolean).length;
-        const hasImportantKeywords = /\/(docs|documentation|api|guide|tutorial|blog|news|product)/i.test(url);
-        
+      .map((url, index) => {
+        const sitemapEntry = sitemapEntries.get(url);
         return {
           url,
-          priority: hasImportantKeywords ? pathDepth - 1 : pathDepth // Boost important content
+          priority: scorer ? -relevance[index] : this.urlPriority(jobId, url, sitemapEntries),
+          relevant: !scorer || relevance[index] >= scorer.threshold || normalizeUrl(url) === normalizeUrl(baseUrl),
+          lastmod: sitemapEntry?.lastmod ? Date.parse(sitemapEntry.lastmod) || 0 : 0
         };
       })
-      .sort((a, b) => a.priority - b.priority)
+      .filter(item => item.relevant)
+      // Recently modified pages first when scores tie
+      .sort((a, b) => a.priority - b.priority || b.lastmod - a.lastmod)
       .map(item => item.url);
     
-    // Use environment variable for max URLs, or no limit if set to a high value
-    const maxUrls = parseInt(import.meta.env.VITE_CRAWL4AI_MAX_PAGES || '5000');
     const final = prioritized.slice(0, maxUrls);
     
     console.log(`📊 Final prioritized list: ${final.length} URLs (limit: ${maxUrls})`);
@@ -611,45 +1404,31 @@ class SimplifiedCrawl4AIService extends EventEmitter {
   /**
    * Crawl multiple URLs using intelligent batch processing with the /crawl endpoint
    */
-  private async crawlManyWithBatching(urls: string[]): Promise<any[]> {
+  private async crawlManyWithBatching(jobId: string, urls: string[], robots?: RobotsTxt, signal?: AbortSignal): Promise<Crawl4AIPage[]> {
     console.log(`🚀 Crawling ${urls.length} URLs with intelligent batch processing`);
     
-    const results: any[] = [];
-    const batchSize = 5; // Process 5 URLs at a time
-    const delay = 2000; // 2 second delay between batches
+    const results: Crawl4AIPage[] = [];
+    const crawlDelayMs = this.getCrawlDelayMs(robots);
+    const batchSize = crawlDelayMs === undefined ? 5 : 1; // Process 5 URLs at a time unless the site sets a Crawl-delay
+    const delay = Math.max(2000, crawlDelayMs || 0); // 2 second delay between batches
     
     // Process URLs in batches to avoid overwhelming the API
     for (let i = 0; i < urls.length; i += batchSize) {
+      throwIfCancelled(signal);
       const batch = urls.slice(i, i + batchSize);
       console.log(`📦 Processing batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(urls.length / batchSize)}: ${batch.length} URLs`);
       
       // Process batch concurrently
-      const batchPromises = batch.map(async (url) => {
+      const batchPromises = batch.map(async (url): Promise<Crawl4AIPage> => {
         try {
-          const requestData = {
-            urls: [url],
-            browser_config: {
-              headless: true,
-              ignore_https_errors: true
-            },
-            crawler_config: {
-              cache_mode: "bypass",
-              extract_links: true,
-              same_domain_only: true
-            }
-          };
-          
-          const response = await this.client.post('/crawl', requestData);
+          const requestData = this.buildRequest(jobId, [url], {
+            extract_links: true,
+            same_domain_only: true
+          });
           
-          // Handle async responses
-          if (response.data.task_id && !response.data.results) {
-            console.log(`⏳ URL ${url} is async, polling for results...`);
-            const pollResult = await this.pollForResults(response.data.task_id, url);
-            return pollResult;
-          }
+          const data = (await this.postCrawl(jobId, requestData, { signal })).data;
           
-          // Process synchronous response
-          const result = response.data.results?.[0] || response.data;
+          const result = data.results?.[0] || data;
           return {
             ...result,
             url: url,
@@ -657,6 +1436,9 @@ class SimplifiedCrawl4AIService extends EventEmitter {
           };
           
         } catch (error) {
+          if (signal?.aborted) {
+            throw error;
+          }
           console.warn(`⚠️ Failed to crawl ${url}:`, error);
           return {
             url: url,
@@ -673,7 +1455,7 @@ class SimplifiedCrawl4AIService extends EventEmitter {
       // Add delay between batches (except for the last batch)
       if (i + batchSize < urls.length) {
         console.log(`⏸️ Waiting ${delay / 1000}s before next batch...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await sleep(delay, signal);
       }
     }
     
@@ -684,46 +1466,63 @@ class SimplifiedCrawl4AIService extends EventEmitter {
   /**
    * Save multiple pages from batch crawl results
    */
-  private async saveMultiplePages(results: any[]): Promise<void> {
+  private async saveMultiplePages(jobId: string, results: Crawl4AIPage[], signal?: AbortSignal): Promise<void> {
     console.log(`💾 Saving ${results.length} pages from batch crawl`);
     
     for (const result of results) {
-      await this.saveIndividualPage(result);
+      throwIfCancelled(signal);
+      await this.saveIndividualPage(jobId, result, signal);
     }
   }
   
   /**
-   * Save individual page with error handling
+   * A page's markdown variants - Crawl4AI sends either a plain string or { raw_markdown, fit_markdown }
+   */
+  private pageMarkdown(page: Crawl4AIPage): { raw_markdown?: string; fit_markdown?: string } {
+    return typeof page.markdown === 'string' ? { raw_markdown: page.markdown } : page.markdown || {};
+  }
+
+  /**
+   * URLs of a page's internal links
+   */
+  private internalLinks(page: Crawl4AIPage): string[] {
+    return (page.links?.internal || []).map(link => (typeof link === 'string' ? link : link.href || '')).filter(Boolean);
+  }
+
+  /**
+   * Save individual page with error handling, emitting page_saved once it is stored
    */
-  private async saveIndividualPage(result: any): Promise<void> {
+  private async saveIndividualPage(jobId: string, result: Crawl4AIPage, signal?: AbortSignal): Promise<void> {
     try {
       if (!result.success) {
         console.warn(`⚠️ Skipping failed result: ${result.error_message || 'Unknown error'}`);
         return;
       }
+      await this.harvestAssets(jobId, result, signal);
       
       // Extract content from various sources
-      const rawMarkdown = result.markdown?.raw_markdown || result.markdown || '';
-      const fitMarkdown = result.markdown?.fit_markdown || '';
+      const { raw_markdown: rawMarkdown = '', fit_markdown: fitMarkdown = '' } = this.pageMarkdown(result);
       const htmlContent = result.cleaned_html || result.html || '';
-      const extractedContent = result.extracted_content || '';
+      const structured = this.structuredExtraction(jobId, result);
+      const extractedContent = structured?.extracted_data ? '' : result.extracted_content || '';
       
       const content = fitMarkdown || rawMarkdown || extractedContent || htmlContent || '';
       
       if (content.trim()) {
-        // Use imported supabaseService
-        
+        const captures = await this.storeCaptures(result);
         const pageResult: CrawlResult = {
           id: result.task_id || result.id || crypto.randomUUID(),
-          url: result.url,
+          url: canonicalPageUrl(result),
           status: 'completed',
           content,
           markdown: rawMarkdown,
           rawMarkdown,
           fitMarkdown,
-          links: result.links?.internal || [],
+          links: this.internalLinks(result),
           metadata: {
             ...result.metadata,
+            ...structured,
+            ...captures,
             crawl_type: 'smart_site_page',
             batch_crawl: true,
             discovered_links: result.links?.internal?.length || 0
@@ -734,6 +1533,7 @@ class SimplifiedCrawl4AIService extends EventEmitter {
 
         await supabaseService.saveCrawlResultAsDocument(pageResult);
         console.log(`💾 Saved: ${result.url}`);
+        this.emit('page_saved', { jobId, url: pageResult.url });
       }
     } catch (error) {
       console.warn(`⚠️ Failed to save page ${result.url}:`, error);
@@ -783,7 +1583,7 @@ class SimplifiedCrawl4AIService extends EventEmitter {
   /**
    * Process the API response and convert to our CrawlResult format
    */
-  private processResponse(responseData: any, originalUrl: string, crawlType: string): CrawlResult {
+  private async processResponse(jobId: string, responseData: Crawl4AIResponse, originalUrl: string, crawlType: string, signal?: AbortSignal): Promise<CrawlResult> {
     console.log('📊 Processing response:', {
       hasResults: !!responseData.results,
       resultsLength: responseData.results?.length,
@@ -796,22 +1596,22 @@ class SimplifiedCrawl4AIService extends EventEmitter {
 
     // Handle multiple results (smart crawl)
     if (responseData.results && Array.isArray(responseData.results)) {
-      return this.processMultipleResults(responseData, originalUrl, crawlType);
+      return this.processMultipleResults(jobId, responseData, originalUrl, crawlType, signal);
     }
     
     // Handle single result
-    return this.processSingleResult(responseData, originalUrl, crawlType);
+    return this.processSingleResult(jobId, responseData, originalUrl, crawlType, signal);
   }
 
   /**
    * Process multiple results from smart crawl
    */
-  private processMultipleResults(responseData: any, originalUrl: string, crawlType: string): CrawlResult {
-    const results = responseData.results;
+  private async processMultipleResults(jobId: string, responseData: Crawl4AIResponse, originalUrl: string, crawlType: string, signal?: AbortSignal): Promise<CrawlResult> {
+    const results = responseData.results || [];
     console.log(`📚 Processing ${results.length} pages from smart crawl`);
 
-    // Save each page individually to database
-    this.saveIndividualPages(results);
+    // Save each page individually to database - a single page crawl shows its captures in the summary
+    const captures = await this.saveIndividualPages(jobId, results, signal);
 
     // Return summary result for UI
     return {
@@ -825,7 +1625,8 @@ class SimplifiedCrawl4AIService extends EventEmitter {
         crawl_type: crawlType,
         pages_crawled: results.length,
         summary: `Successfully crawled ${results.length} pages`,
-        note: 'Pages saved individually to database'
+        note: 'Pages saved individually to database',
+        ...captures[0]
       },
       createdAt: new Date().toISOString(),
       completedAt: new Date().toISOString(),
@@ -835,16 +1636,20 @@ class SimplifiedCrawl4AIService extends EventEmitter {
   /**
    * Process single result
    */
-  private processSingleResult(responseData: any, originalUrl: string, crawlType: string): CrawlResult {
-    const content = responseData.extracted_content || 
-                   responseData.markdown?.raw_markdown || 
-                   responseData.markdown || 
+  private async processSingleResult(jobId: string, responseData: Crawl4AIResponse, originalUrl: string, crawlType: string, signal?: AbortSignal): Promise<CrawlResult> {
+    const structured = this.structuredExtraction(jobId, { ...responseData, url: responseData.url || originalUrl });
+    const captures = await this.storeCaptures({ ...responseData, url: responseData.url || originalUrl });
+    if (responseData.success) {
+      await this.harvestAssets(jobId, { ...responseData, url: responseData.url || originalUrl }, signal);
+    }
+    const pageMarkdown = this.pageMarkdown(responseData);
+    const content = (!structured?.extracted_data && responseData.extracted_content) || 
+                   pageMarkdown.raw_markdown || 
                    responseData.cleaned_html || 
                    responseData.content || '';
 
-    const markdown = responseData.markdown?.raw_markdown || 
-                    responseData.markdown?.fit_markdown || 
-                    responseData.markdown || '';
+    const markdown = pageMarkdown.raw_markdown || 
+                    pageMarkdown.fit_markdown || '';
 
     console.log('✅ Single result processed:', {
       contentLength: content.length,
@@ -854,13 +1659,15 @@ class SimplifiedCrawl4AIService extends EventEmitter {
 
     return {
       id: responseData.task_id || responseData.id || crypto.randomUUID(),
-      url: originalUrl,
+      url: canonicalPageUrl({ ...responseData, url: responseData.url || originalUrl }),
       status: responseData.success ? 'completed' : 'failed',
       content,
       markdown,
-      links: responseData.links || [],
+      links: this.internalLinks(responseData),
       metadata: {
         ...responseData.metadata,
+        ...structured,
+        ...captures,
         crawl_type: crawlType,
         title: responseData.metadata?.title || 'Untitled'
       },
@@ -870,10 +1677,12 @@ class SimplifiedCrawl4AIService extends EventEmitter {
   }
 
   /**
-   * Save individual pages from smart crawl to database
+   * Save individual pages from smart crawl to database, emitting page_saved for each one and returning
+   * the capture metadata of the saved pages
    */
-  private async saveIndividualPages(results: any[]): Promise<void> {
+  private async saveIndividualPages(jobId: string, results: Crawl4AIPage[], signal?: AbortSignal): Promise<Array<Record<string, string>>> {
     console.log(`💾 Saving ${results.length} individual pages to database`);
+    const savedCaptures: Array<Record<string, string>> = [];
     
     for (let i = 0; i < results.length; i++) {
       const result = results[i];
@@ -883,12 +1692,13 @@ class SimplifiedCrawl4AIService extends EventEmitter {
         console.warn(`⚠️ Skipping failed result ${i + 1}: ${result.error_message || 'Unknown error'}`);
         continue;
       }
+      await this.harvestAssets(jobId, result, signal);
       
       // Extract content from various sources (prioritize markdown, fallback to HTML)
-      const rawMarkdown = result.markdown?.raw_markdown || result.markdown || '';
-      const fitMarkdown = result.markdown?.fit_markdown || '';
+      const { raw_markdown: rawMarkdown = '', fit_markdown: fitMarkdown = '' } = this.pageMarkdown(result);
       const htmlContent = result.cleaned_html || result.html || '';
-      const extractedContent = result.extracted_content || '';
+      const structured = this.structuredExtraction(jobId, result);
+      const extractedContent = structured?.extracted_data ? '' : result.extracted_content || '';
       
       // Use the best available content
       const content = fitMarkdown || rawMarkdown || extractedContent || htmlContent || '';
@@ -903,19 +1713,20 @@ class SimplifiedCrawl4AIService extends EventEmitter {
 
       if (content.trim()) {
         try {
-          // Use imported supabaseService
-          
+          const captures = await this.storeCaptures(result);
           const pageResult: CrawlResult = {
             id: result.task_id || result.id || crypto.randomUUID(),
-            url: result.url,
+            url: canonicalPageUrl(result),
             status: 'completed',
             content,
             markdown: rawMarkdown,
             fitMarkdown,
             rawMarkdown,
-            links: result.links || [],
+            links: this.internalLinks(result),
             metadata: {
               ...result.metadata,
+              ...structured,
+              ...captures,
               crawl_type: 'smart_site_page',
               page_index: i + 1,
               total_pages: results.length
@@ -926,60 +1737,268 @@ class SimplifiedCrawl4AIService extends EventEmitter {
 
           await supabaseService.saveCrawlResultAsDocument(pageResult);
           console.log(`✅ Saved page ${i + 1}/${results.length}: ${result.url}`);
+          this.emit('page_saved', { jobId, url: pageResult.url });
+          if (captures) {
+            savedCaptures.push(captures);
+          }
         } catch (error) {
           console.warn(`⚠️ Failed to save page ${i + 1}:`, error);
         }
       }
     }
+
+    return savedCaptures;
   }
 
   /**
-   * Poll for async results
+   * Poll an async task until it completes and return its data (with the crawled pages in `results`).
+   * If the crawl is cancelled meanwhile, the backend is asked to cancel the task too.
    */
-  private async pollForResults(taskId: string, originalUrl: string, maxAttempts: number = 15): Promise<CrawlResult> {
+  private async pollForResults(taskId: string, signal?: AbortSignal, maxAttempts: number = 15): Promise<Record<string, unknown>> {
     console.log(`🔄 Polling for task ${taskId}`);
     
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       try {
-        const response = await this.client.get(`/task/${taskId}`);
+        const response = await this.client.get(`/task/${taskId}`, { signal });
         const result = response.data;
         
         if (result.status === 'completed' || result.state === 'completed') {
           console.log('✅ Async task completed');
-          return this.processResponse(result, originalUrl, 'smart_site');
+          return result.result || result;
         } else if (result.status === 'failed' || result.state === 'failed') {
           throw new Error(`Task failed: ${result.error || 'Unknown error'}`);
         }
         
         console.log(`⏳ Attempt ${attempt}/${maxAttempts}: Task still in progress`);
-        await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2 seconds
+        await sleep(2000, signal); // Wait 2 seconds
         
       } catch (error) {
+        if (signal?.aborted) {
+          await this.cancelTask(taskId);
+          throw new Error(CANCELLED_MESSAGE);
+        }
         if (attempt === maxAttempts) {
           throw new Error(`Polling failed after ${maxAttempts} attempts`);
         }
         console.warn(`Polling attempt ${attempt} failed:`, error);
-        await new Promise(resolve => setTimeout(resolve, 2000));
+        await sleep(2000, signal).catch(() => undefined); // Noticed by the next attempt's request
       }
     }
     
     throw new Error('Polling timed out');
   }
 
+  /**
+   * Ask the backend to cancel an async task. Best-effort: not every Crawl4AI deployment supports it.
+   */
+  private async cancelTask(taskId: string): Promise<void> {
+    try {
+      await this.client.delete(`/task/${taskId}`, { timeout: 10000 });
+      console.log(`🛑 Cancelled task ${taskId}`);
+    } catch (error) {
+      console.warn(`⚠️ Could not cancel task ${taskId}, it will finish on the server:`, axios.isAxiosError(error) ? error.response?.status || error.code : error);
+    }
+  }
+
+  /**
+   * Create the crawl_jobs row for a smart crawl.
+   * Persistence is best-effort: without Supabase the crawl still runs, it just can't be resumed.
+   */
+  private async createJob(jobId: string, url: string, options: FrontierOptions): Promise<JobProgress | undefined> {
+    const now = new Date().toISOString();
+    try {
+      const job = await supabaseService.saveCrawlJob({
+        id: jobId,
+        config: {
+          url,
+          crawlStrategy: 'deep_crawl',
+          depth: options.maxDepth,
+          maxPages: options.maxPages,
+          deepCrawlMethod: options.strategy,
+          crawlerOptions: this.crawlerOptions.get(jobId),
+          urlRules: this.urlRules.get(jobId)?.ruleSet,
+          scope: this.crawlScopes.get(jobId)?.scope,
+          relevance: this.relevanceScorers.get(jobId)?.config
+        },
+        status: 'running',
+        results: [],
+        createdAt: now,
+        updatedAt: now,
+      });
+      console.log('🗂️ Created crawl job:', job.id);
+      this.emit('job_created', { jobId: job.id, url });
+      return { id: job.id, pagesCrawled: 0, pagesFailed: 0 };
+    } catch (error) {
+      console.warn('⚠️ Could not create crawl job, this crawl will not be resumable:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Record one page's outcome in crawl_results
+   */
+  private async recordPage(
+    job: JobProgress | undefined,
+    url: string,
+    status: 'completed' | 'failed',
+    details: { depth?: number; parentUrl?: string; title?: string; error?: string }
+  ): Promise<void> {
+    if (!job || !url) {
+      return;
+    }
+
+    if (status === 'completed') {
+      job.pagesCrawled++;
+    } else {
+      job.pagesFailed++;
+    }
+
+    try {
+      await supabaseService.saveCrawlResult({
+        id: crypto.randomUUID(),
+        url,
+        status,
+        error: details.error,
+        metadata: { depth: details.depth, parent_url: details.parentUrl, title: details.title },
+        createdAt: new Date().toISOString(),
+        completedAt: new Date().toISOString(),
+      }, job.id);
+    } catch (error) {
+      console.warn(`⚠️ Failed to record ${status} page for job ${job.id}:`, error);
+    }
+  }
+
+  /**
+   * Save the frontier and counters so the job can continue from here
+   */
+  private async saveCheckpoint(job: JobProgress | undefined, frontier: CrawlFrontier): Promise<void> {
+    if (!job) {
+      return;
+    }
+
+    try {
+      await supabaseService.saveCrawlCheckpoint(job.id, {
+        frontier: frontier.snapshot(),
+        pagesCrawled: job.pagesCrawled,
+        pagesFailed: job.pagesFailed,
+        savedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.warn(`⚠️ Failed to checkpoint job ${job.id}:`, error);
+    }
+  }
+
+  private async updateJobStatus(jobId: string, status: CrawlJob['status']): Promise<void> {
+    try {
+      await supabaseService.updateCrawlJob(jobId, { status });
+    } catch (error) {
+      console.warn(`⚠️ Failed to mark job ${jobId} as ${status}:`, error);
+    }
+  }
+
+  private async finishJob(job: JobProgress | undefined, frontier: CrawlFrontier, status: CrawlJob['status']): Promise<void> {
+    if (!job) {
+      return;
+    }
+
+    await this.saveCheckpoint(job, frontier);
+    await this.updateJobStatus(job.id, status);
+    console.log(`🗂️ Job ${job.id} ${status}: ${job.pagesCrawled} crawled, ${job.pagesFailed} failed, ${frontier.size} still queued`);
+  }
+
+  /**
+   * Continue a stored smart crawl job, either from its checkpointed frontier or with only its failed pages
+   */
+  private async runStoredJob(jobId: string, mode: 'resume' | 'retry_failed', signal?: AbortSignal): Promise<CrawlResult> {
+    let url = jobId;
+    let job: JobProgress | undefined;
+    const savedPages = this.trackSavedPages(jobId);
+
+    try {
+      const storedJob = await supabaseService.getCrawlJob(jobId);
+      if (!storedJob?.checkpoint) {
+        throw new Error(`Crawl job ${jobId} has no checkpoint to continue from`);
+      }
+
+      url = storedJob.config.url;
+      if (storedJob.config.crawlerOptions) {
+        this.crawlerOptions.set(jobId, storedJob.config.crawlerOptions);
+      }
+      console.log(`🔁 ${mode === 'resume' ? 'Resuming' : 'Retrying failed pages of'} job ${jobId} for:`, url);
+      const scope = this.setCrawlScope(jobId, url, storedJob.config.scope);
+      this.emit('crawl_start', { jobId, type: 'smart_site', url, timestamp: Date.now(), scope: scope?.describe() });
+      this.emit('status_update', { jobId, status: 'discovering', message: 'Restoring crawl checkpoint...' });
+      throwIfCancelled(signal);
+
+      const { checkpoint } = storedJob;
+      const frontier = CrawlFrontier.restore(checkpoint.frontier);
+      job = { id: jobId, pagesCrawled: checkpoint.pagesCrawled, pagesFailed: checkpoint.pagesFailed };
+
+      // For a retry, crawl only the failed pages and park the rest of the queue until afterwards
+      let parkedQueue: FrontierItem[] = [];
+      if (mode === 'retry_failed') {
+        const failedPages = await supabaseService.getCrawlResults(jobId, 'failed');
+        if (failedPages.length === 0) {
+          throw new Error(`Crawl job ${jobId} has no failed pages to retry`);
+        }
+        parkedQueue = frontier.replaceQueue(failedPages.map(page => ({
+          url: page.url,
+          depth: page.metadata?.depth ?? 1,
+          score: 0,
+          parentUrl: page.metadata?.parent_url,
+        })));
+        job.pagesFailed = Math.max(0, job.pagesFailed - failedPages.length);
+      }
+
+      await this.updateJobStatus(jobId, 'running');
+      await this.loadExtractionSchema(jobId, url);
+      // Jobs stored before URL rules were added get the domain's rules
+      await this.loadUrlRules(jobId, url, storedJob.config.urlRules);
+      if (storedJob.config.relevance) {
+        this.relevanceScorers.set(jobId, new RelevanceScorer(storedJob.config.relevance));
+      }
+      const robots = await this.loadRobots(url);
+      const result = await this.intelligentBatchCrawl(jobId, frontier, this.buildDeepCrawlRequest(jobId, url), url, robots, new Map(), [], job, signal);
+
+      frontier.appendQueue(parkedQueue);
+      await this.finishJob(job, frontier, 'completed');
+      return result;
+    } catch (error) {
+      if (job) {
+        await this.updateJobStatus(job.id, signal?.aborted ? 'cancelled' : 'failed');
+      }
+      if (signal?.aborted) {
+        return this.cancelledResult(jobId, url, savedPages.urls);
+      }
+
+      console.error(`❌ Failed to ${mode === 'resume' ? 'resume' : 'retry'} job ${jobId}:`, error);
+      this.emit('crawl_error', { jobId, error: error instanceof Error ? error.message : 'Unknown error' });
+
+      return {
+        id: crypto.randomUUID(),
+        url,
+        status: 'failed',
+        error: `Could not ${mode === 'resume' ? 'resume' : 'retry'} crawl job: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        createdAt: new Date().toISOString(),
+      };
+    } finally {
+      savedPages.stop();
+      this.crawlerOptions.delete(jobId);
+      this.extractionSchemas.delete(jobId);
+      this.assetInventories.delete(jobId);
+      this.urlRules.delete(jobId);
+      this.crawlScopes.delete(jobId);
+      this.relevanceScorers.delete(jobId);
+    }
+  }
+
   /**
    * Health check to verify service is available
    */
   async healthCheck(): Promise<{ success: boolean; message?: string }> {
     try {
       // Use shorter timeout for health check only
-      const healthClient = axios.create({
-        baseURL: this.baseURL,
-        headers: {
-          'Authorization': this.token,
-          'Content-Type': 'application/json',
-        },
-        timeout: 15000, // 15 seconds timeout for health check
-      });
+      const healthClient = this.createClient(15000); // 15 seconds timeout for health check
       
       await healthClient.get('/health');
       return { success: true, message: 'Service is healthy' };
@@ -1011,7 +2030,7 @@ class SimplifiedCrawl4AIService extends EventEmitter {
     return {
       success: health.success,
       message: health.message || 'Unknown status',
-      details: { baseURL: this.baseURL, hasToken: !!this.token }
+      details: { mode: this.mode, baseURL: this.baseURL, hasToken: !!this.token }
     };
   }
 
@@ -0,0 +1,299 @@
+/**
+ * Typed crawl event bus
+ *
+ * Every event has a payload type in CrawlEventMap, and every payload carries the jobId of the crawl
+ * that emitted it so listeners can tell concurrent crawls apart. Besides on/off the bus supports
+ * once, wildcard ('*') listeners that receive every event, and an async iterator for consuming
+ * progress as a stream:
+ *
+ *   for await (const event of crawl4aiService.stream({ jobId })) { ... }
+ */
+import type { HostRateLimitState } from './hostRateLimiter';
+
+export type CrawlType = 'single' | 'smart_site';
+
+export type UrlSkipReason = 'out_of_scope' | 'file_extension' | 'url_rule' | 'robots_disallowed';
+
+interface CrawlEventBase {
+  jobId: string;
+}
+
+export interface CrawlStartEvent extends CrawlEventBase {
+  type: CrawlType;
+  url: string;
+  timestamp: number;
+  scope?: string; // Smart crawls: the hosts the crawl covers, in words (see services/crawlScope.ts)
+}
+
+export interface StatusUpdateEvent extends CrawlEventBase {
+  status: 'discovering' | 'crawling' | 'service_warning';
+  message: string;
+}
+
+export interface UrlDiscoveredEvent extends CrawlEventBase {
+  url: string;
+  depth: number;
+  parentUrl?: string;
+}
+
+export interface UrlsDiscoveredEvent extends CrawlEventBase {
+  total: number;
+  internal: number;
+  sitemap: number;
+  urls: string[];
+}
+
+export interface UrlCrawledEvent extends CrawlEventBase {
+  url: string;
+  depth?: number;
+  contentLength: number;
+  title: string;
+}
+
+export interface UrlFailedEvent extends CrawlEventBase {
+  url?: string;
+  error: string;
+}
+
+export interface UrlSkippedEvent extends CrawlEventBase {
+  url: string;
+  reason: UrlSkipReason;
+  ruleId?: string; // With reason 'url_rule': the id of the rule that skipped the URL
+}
+
+export interface BatchInfoEvent extends CrawlEventBase {
+  totalUrls: number;
+  totalBatches: number;
+  batchSize: number;
+  estimatedTime: number; // minutes
+}
+
+export interface BatchStartEvent extends CrawlEventBase {
+  batchNumber: number;
+  totalBatches: number;
+  batchSize: number;
+  urls: string[];
+}
+
+export interface CrawlCompleteEvent extends CrawlEventBase {
+  totalUrls: number;
+  successfulUrls: number;
+  successRate: number;
+  totalBatches: number;
+  deepestLevel?: number;
+  unvisitedUrls?: number; // Left in the queue when the page budget ran out
+  belowThresholdUrls?: number; // Topic-focused crawls: queued URLs that scored below the relevance threshold
+}
+
+export interface CrawlErrorEvent extends CrawlEventBase {
+  error: string;
+}
+
+export interface CrawlCancelledEvent extends CrawlEventBase {
+  savedUrls: string[]; // Pages saved before the cancel - they are kept
+}
+
+export interface PageSavedEvent extends CrawlEventBase {
+  url: string;
+}
+
+export interface TokenUsageEvent extends CrawlEventBase {
+  url: string;
+  provider: string; // LLM extraction provider/model
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean; // Crawl4AI didn't report usage, so it was estimated from the text length
+}
+
+export interface AssetsFoundEvent extends CrawlEventBase {
+  sourceUrl: string;
+  count: number; // Assets first seen on this page
+  documents: number;
+  converted: number; // Documents saved as markdown pages
+}
+
+export interface JobCreatedEvent extends CrawlEventBase {
+  url: string;
+}
+
+export interface HostRateLimitEvent extends CrawlEventBase {
+  state: HostRateLimitState;
+}
+
+export interface CrawlEventMap {
+  crawl_start: CrawlStartEvent;
+  status_update: StatusUpdateEvent;
+  url_discovered: UrlDiscoveredEvent;
+  urls_discovered: UrlsDiscoveredEvent;
+  url_crawled: UrlCrawledEvent;
+  url_failed: UrlFailedEvent;
+  url_skipped: UrlSkippedEvent;
+  batch_info: BatchInfoEvent;
+  batch_start: BatchStartEvent;
+  crawl_complete: CrawlCompleteEvent;
+  crawl_error: CrawlErrorEvent;
+  crawl_cancelled: CrawlCancelledEvent;
+  page_saved: PageSavedEvent;
+  token_usage: TokenUsageEvent; // An LLM extraction of one page
+  assets_found: AssetsFoundEvent; // File and media links recorded in the asset inventory
+  discovery_error: CrawlErrorEvent;
+  job_created: JobCreatedEvent; // The crawl_jobs row was saved, so the crawl can be resumed
+  host_rate_limit: HostRateLimitEvent; // A host's request pacing changed after a response (see services/hostRateLimiter.ts)
+}
+
+export type CrawlEventName = keyof CrawlEventMap;
+
+export type CrawlEventListener<K extends CrawlEventName> = (payload: CrawlEventMap[K]) => void;
+
+/** An event as seen by wildcard listeners and streams - narrow on `type` to get the payload type */
+export type AnyCrawlEvent = {
+  [K in CrawlEventName]: { type: K; payload: CrawlEventMap[K] };
+}[CrawlEventName];
+
+export type WildcardCrawlEventListener = (event: AnyCrawlEvent) => void;
+
+export interface CrawlEventStreamOptions {
+  /** Only yield this crawl's events, and end the stream after its crawl_complete, crawl_error or crawl_cancelled */
+  jobId?: string;
+  /** End the stream when aborted */
+  signal?: AbortSignal;
+}
+
+// Events after which a crawl emits nothing more
+const TERMINAL_EVENTS: CrawlEventName[] = ['crawl_complete', 'crawl_error', 'crawl_cancelled'];
+
+type ListenerKey = CrawlEventName | '*';
+
+interface ListenerEntry {
+  listener: (payload: never) => void;
+  once: boolean;
+}
+
+export class CrawlEventBus {
+  private listeners = new Map<ListenerKey, ListenerEntry[]>();
+
+  /**
+   * Subscribe to one event, or to every event with '*'. Returns a function that unsubscribes.
+   */
+  on<K extends CrawlEventName>(event: K, listener: CrawlEventListener<K>): () => void;
+  on(event: '*', listener: WildcardCrawlEventListener): () => void;
+  on(event: ListenerKey, listener: (payload: never) => void): () => void {
+    return this.addListener(event, listener, false);
+  }
+
+  /**
+   * Subscribe for the next occurrence only
+   */
+  once<K extends CrawlEventName>(event: K, listener: CrawlEventListener<K>): () => void;
+  once(event: '*', listener: WildcardCrawlEventListener): () => void;
+  once(event: ListenerKey, listener: (payload: never) => void): () => void {
+    return this.addListener(event, listener, true);
+  }
+
+  off<K extends CrawlEventName>(event: K, listener: CrawlEventListener<K>): void;
+  off(event: '*', listener: WildcardCrawlEventListener): void;
+  off(event: ListenerKey, listener: (payload: never) => void): void {
+    const entries = this.listeners.get(event);
+    if (!entries) return;
+    this.listeners.set(event, entries.filter(entry => entry.listener !== listener));
+  }
+
+  /**
+   * Deliver an event to its listeners, then to wildcard listeners.
+   * A throwing listener is logged and does not stop the crawl or the other listeners.
+   */
+  emit<K extends CrawlEventName>(event: K, payload: CrawlEventMap[K]): void {
+    this.dispatch(event, payload);
+    this.dispatch('*', { type: event, payload } as AnyCrawlEvent);
+  }
+
+  /**
+   * Consume events as an async iterator. Events are buffered until read, so none are lost
+   * while the consumer is busy. Breaking out of a for await loop unsubscribes.
+   */
+  stream(options: CrawlEventStreamOptions = {}): AsyncIterableIterator<AnyCrawlEvent> {
+    const { jobId, signal } = options;
+    const buffer: AnyCrawlEvent[] = [];
+    let waiting: ((result: IteratorResult<AnyCrawlEvent>) => void) | null = null;
+    let closed = false;
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      signal?.removeEventListener('abort', close);
+      if (waiting) {
+        waiting({ value: undefined, done: true });
+        waiting = null;
+      }
+    };
+
+    const unsubscribe = this.on('*', event => {
+      if (jobId && event.payload.jobId !== jobId) return;
+
+      if (waiting) {
+        waiting({ value: event, done: false });
+        waiting = null;
+      } else {
+        buffer.push(event);
+      }
+
+      if (jobId && TERMINAL_EVENTS.includes(event.type)) {
+        close();
+      }
+    });
+
+    if (signal?.aborted) {
+      close();
+    } else {
+      signal?.addEventListener('abort', close);
+    }
+
+    return {
+      next: () => {
+        const event = buffer.shift();
+        if (event) return Promise.resolve({ value: event, done: false });
+        if (closed) return Promise.resolve({ value: undefined, done: true });
+        return new Promise(resolve => { waiting = resolve; });
+      },
+      return: () => {
+        close();
+        buffer.length = 0;
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /** Iterate over every event from every crawl until the loop is left */
+  [Symbol.asyncIterator](): AsyncIterableIterator<AnyCrawlEvent> {
+    return this.stream();
+  }
+
+  private addListener(event: ListenerKey, listener: (payload: never) => void, once: boolean): () => void {
+    const entries = this.listeners.get(event) || [];
+    this.listeners.set(event, [...entries, { listener, once }]);
+    return () => this.off(event as '*', listener as WildcardCrawlEventListener);
+  }
+
+  private dispatch(event: ListenerKey, payload: unknown): void {
+    const entries = this.listeners.get(event);
+    if (!entries || entries.length === 0) return;
+
+    if (entries.some(entry => entry.once)) {
+      this.listeners.set(event, entries.filter(entry => !entry.once));
+    }
+
+    // Iterate over a snapshot so listeners can unsubscribe while being called
+    for (const { listener } of entries) {
+      try {
+        (listener as (payload: unknown) => void)(payload);
+      } catch (error) {
+        console.error(`❌ Crawl event listener for ${event} failed:`, error);
+      }
+    }
+  }
+}
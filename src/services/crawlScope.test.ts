@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CrawlScopeMatcher, registrableDomain } from './crawlScope';
+
+describe('registrableDomain', () => {
+  it('strips subdomains down to the registrable domain', () => {
+    expect(registrableDomain('docs.example.com')).toBe('example.com');
+    expect(registrableDomain('www.example.co.uk')).toBe('example.co.uk');
+    expect(registrableDomain('shop.example.com.au.')).toBe('example.com.au');
+  });
+
+  it('treats private suffixes as registries', () => {
+    expect(registrableDomain('docs.user.github.io')).toBe('user.github.io');
+    expect(registrableDomain('project.readthedocs.io')).toBe('project.readthedocs.io');
+    expect(registrableDomain('my-app.herokuapp.com')).toBe('my-app.herokuapp.com');
+    expect(registrableDomain('someone.blogspot.com')).toBe('someone.blogspot.com');
+    expect(registrableDomain('preview.my-site.vercel.app')).toBe('my-site.vercel.app');
+    expect(registrableDomain('my-func.azurewebsites.net')).toBe('my-func.azurewebsites.net');
+  });
+
+  it('returns IP addresses and bare public suffixes unchanged', () => {
+    expect(registrableDomain('192.168.1.10')).toBe('192.168.1.10');
+    expect(registrableDomain('[::1]')).toBe('[::1]');
+    expect(registrableDomain('github.io')).toBe('github.io');
+  });
+});
+
+describe('CrawlScopeMatcher', () => {
+  it('stays on the start host by default', () => {
+    const scope = new CrawlScopeMatcher({ mode: 'host' }, 'https://www.example.com/');
+    expect(scope.covers('https://example.com/a')).toBe(true);
+    expect(scope.covers('https://docs.example.com/a')).toBe(false);
+    expect(scope.followsExternalLinks).toBe(false);
+  });
+
+  it('covers subdomains of the registrable domain, but not other sites on a shared suffix', () => {
+    const scope = new CrawlScopeMatcher({ mode: 'domain' }, 'https://docs.user.github.io/');
+    expect(scope.covers('https://blog.user.github.io/post')).toBe(true);
+    expect(scope.covers('https://other.github.io/')).toBe(false);
+    expect(scope.describe()).toBe('user.github.io and all its subdomains');
+  });
+
+  it('matches listed hosts and wildcards', () => {
+    const scope = new CrawlScopeMatcher({ mode: 'hosts', allowedHosts: ['https://WWW.Docs.example.org/path', '*.cdn.example.net'] }, 'https://example.com/');
+    expect(scope.covers('https://docs.example.org/a')).toBe(true);
+    expect(scope.covers('https://cdn.example.net/a')).toBe(true);
+    expect(scope.covers('https://eu.cdn.example.net/a')).toBe(true);
+    expect(scope.covers('https://evilcdn.example.net/a')).toBe(false);
+  });
+
+  it('takes one hop off-site from covered pages only', () => {
+    const scope = new CrawlScopeMatcher({ mode: 'external_one_hop' }, 'https://example.com/');
+    expect(scope.allows('https://other.org/a', 'https://example.com/links')).toBe(true);
+    expect(scope.allows('https://third.org/b', 'https://other.org/a')).toBe(false);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Crawl scope: the hosts a smart crawl may follow links to
+ *
+ * By default a crawl stays on its start host. It can instead cover every subdomain of the start
+ * host's registrable domain (docs.example.com and api.example.com), an explicit list of hosts, or
+ * take one hop off-site to the pages its own pages link to. Links outside the scope are reported as
+ * url_skipped with reason 'out_of_scope'.
+ */
+import { getDomain } from 'tldts';
+import type { CrawlScope, CrawlScopeMode } from '../types';
+import { hostKey } from './urlNormalizer';
+
+export const CRAWL_SCOPE_MODES: CrawlScopeMode[] = ['host', 'domain', 'hosts', 'external_one_hop'];
+
+export const DEFAULT_CRAWL_SCOPE: CrawlScope = { mode: 'host' };
+
+/**
+ * The registrable domain of a hostname per the Public Suffix List, private suffixes included:
+ * docs.example.com -> example.com, www.example.co.uk -> example.co.uk, docs.user.github.io -> user.github.io.
+ * IP addresses, and hosts that are themselves a public suffix, are returned unchanged.
+ */
+export function registrableDomain(hostname: string): string {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (/^[\d.]+$/.test(host) || host.includes(':')) {
+    return host;
+  }
+  return getDomain(host, { allowPrivateDomains: true }) || host;
+}
+
+/**
+ * An allowed host as typed: lowercased, without a scheme, path or port
+ */
+function cleanHostEntry(entry: string): string {
+  return entry.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/[/:].*$/, '');
+}
+
+/**
+ * A crawl scope resolved against the crawl's start URL
+ */
+export class CrawlScopeMatcher {
+  readonly scope: CrawlScope;
+  private startHost: string;
+  private startDomain: string;
+  private allowedHosts: string[];
+
+  constructor(scope: CrawlScope, startUrl: string) {
+    this.scope = scope;
+    this.startHost = hostKey(new URL(startUrl).hostname);
+    this.startDomain = registrableDomain(this.startHost);
+    this.allowedHosts = (scope.allowedHosts || [])
+      .map(cleanHostEntry)
+      .filter(Boolean)
+      .map(entry => (entry.startsWith('*.') ? `*.${hostKey(entry.slice(2))}` : hostKey(entry)));
+  }
+
+  /**
+   * Whether links Crawl4AI files as external can be in scope
+   */
+  get followsExternalLinks(): boolean {
+    return this.scope.mode !== 'host';
+  }
+
+  /**
+   * Whether a URL is on one of the hosts the crawl covers
+   */
+  covers(url: string): boolean {
+    let host: string;
+    try {
+      host = hostKey(new URL(url).hostname);
+    } catch {
+      return false;
+    }
+
+    switch (this.scope.mode) {
+      case 'domain':
+        return registrableDomain(host) === this.startDomain;
+      case 'hosts':
+        return host === this.startHost || this.allowedHosts.some(entry =>
+          entry.startsWith('*.') ? host === entry.slice(2) || host.endsWith(entry.slice(1)) : host === entry
+        );
+      default:
+        return host === this.startHost;
+    }
+  }
+
+  /**
+   * Whether a URL found on parentUrl may be crawled. With external_one_hop, a page on another host is
+   * in scope when a covered page links to it, but the links on that page aren't.
+   */
+  allows(url: string, parentUrl?: string): boolean {
+    if (this.covers(url)) {
+      return true;
+    }
+    return this.scope.mode === 'external_one_hop' && !!parentUrl && this.covers(parentUrl);
+  }
+
+  /**
+   * The scope in words, for the dashboard
+   */
+  describe(): string {
+    switch (this.scope.mode) {
+      case 'domain':
+        return `${this.startDomain} and all its subdomains`;
+      case 'hosts':
+        return [this.startHost, ...this.allowedHosts].join(', ');
+      case 'external_one_hop':
+        return `${this.startHost}, plus pages it links to on other sites (one hop)`;
+      default:
+        return `${this.startHost} only`;
+    }
+  }
+}
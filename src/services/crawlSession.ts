@@ -0,0 +1,93 @@
+/**
+ * A crawl running alongside others
+ *
+ * Each session has its own id (the jobId on its events), event stream, cancel handle and result.
+ * Sessions are created by crawl4aiService.startCrawl, resumeCrawl and retryFailedCrawl and share
+ * the service's limit on concurrent Crawl4AI requests.
+ */
+
+import type { CrawlResult } from '../types';
+import type { AnyCrawlEvent, CrawlEventBus, CrawlEventListener, CrawlEventName } from './crawlEvents';
+
+export type CrawlSessionKind = 'crawl' | 'resume' | 'retry_failed';
+
+export type CrawlSessionStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export class CrawlSession {
+  readonly id: string;
+  readonly url: string;
+  readonly kind: CrawlSessionKind;
+  readonly startedAt = Date.now();
+  readonly result: Promise<CrawlResult>;
+  private bus: CrawlEventBus;
+  private controller = new AbortController();
+  // Aborted once the run settles (finished or cancelled) so its event streams close
+  private lifetime = new AbortController();
+  private currentStatus: CrawlSessionStatus = 'running';
+
+  constructor(
+    id: string,
+    url: string,
+    kind: CrawlSessionKind,
+    bus: CrawlEventBus,
+    run: (signal: AbortSignal) => Promise<CrawlResult>
+  ) {
+    this.id = id;
+    this.url = url;
+    this.kind = kind;
+    this.bus = bus;
+
+    this.result = run(this.controller.signal)
+      .then(result => {
+        this.finish(result.status === 'completed' ? 'completed' : 'failed');
+        return result;
+      })
+      .catch(error => {
+        this.finish('failed');
+        throw error;
+      });
+  }
+
+  get status(): CrawlSessionStatus {
+    return this.currentStatus;
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * Cancel the crawl. In-flight requests and waits stop straight away; the result settles with a
+   * report of the pages saved before the cancel, and event streams stay open until crawl_cancelled.
+   */
+  cancel(): void {
+    if (this.currentStatus !== 'running') return;
+    this.currentStatus = 'cancelled';
+    this.controller.abort();
+  }
+
+  /**
+   * Subscribe to one of this session's events. Returns a function that unsubscribes.
+   */
+  on<K extends CrawlEventName>(event: K, listener: CrawlEventListener<K>): () => void {
+    return this.bus.on(event, payload => {
+      if (payload.jobId === this.id) {
+        listener(payload);
+      }
+    });
+  }
+
+  /**
+   * This session's events as an async iterator, ending with the crawl
+   */
+  events(): AsyncIterableIterator<AnyCrawlEvent> {
+    return this.bus.stream({ jobId: this.id, signal: this.lifetime.signal });
+  }
+
+  private finish(status: CrawlSessionStatus): void {
+    if (this.currentStatus === 'running') {
+      this.currentStatus = status;
+    }
+    this.lifetime.abort();
+  }
+}
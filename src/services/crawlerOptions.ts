@@ -0,0 +1,83 @@
+/**
+ * Advanced crawl options as Crawl4AI browser_config / crawler_config
+ *
+ * Every request starts from the same defaults (headless, HTTPS errors ignored, cache bypassed) and a
+ * crawl's advanced options are layered on top, so an unset option keeps Crawl4AI's behaviour.
+ */
+import type { CacheMode, CrawlerOptions } from '../types';
+
+export const CACHE_MODES: CacheMode[] = ['bypass', 'enabled', 'disabled', 'read_only', 'write_only'];
+
+export const DEFAULT_BROWSER_CONFIG: Record<string, unknown> = {
+  headless: true,
+  ignore_https_errors: true,
+};
+
+export const DEFAULT_CRAWLER_CONFIG: Record<string, unknown> = {
+  cache_mode: 'bypass',
+};
+
+/**
+ * browser_config entries for the options that configure the browser
+ */
+export function toBrowserConfig(options: CrawlerOptions = {}): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+  if (options.userAgent?.trim()) {
+    config.user_agent = options.userAgent.trim();
+  }
+  if (options.viewport) {
+    config.viewport_width = options.viewport.width;
+    config.viewport_height = options.viewport.height;
+  }
+  if (options.proxy?.server?.trim()) {
+    config.proxy_config = {
+      server: options.proxy.server.trim(),
+      ...(options.proxy.username && { username: options.proxy.username }),
+      ...(options.proxy.password && { password: options.proxy.password }),
+    };
+  }
+  return config;
+}
+
+/**
+ * crawler_config entries for the options that configure each page run
+ */
+export function toCrawlerConfig(options: CrawlerOptions = {}): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+  if (options.waitFor?.trim()) {
+    config.wait_for = options.waitFor.trim();
+  }
+  if (options.jsCode?.trim()) {
+    config.js_code = options.jsCode;
+  }
+  if (options.pageTimeout) {
+    config.page_timeout = options.pageTimeout;
+  }
+  if (options.excludedTags && options.excludedTags.length > 0) {
+    config.excluded_tags = options.excludedTags;
+  }
+  if (options.wordCountThreshold !== undefined) {
+    config.word_count_threshold = options.wordCountThreshold;
+  }
+  if (options.cacheMode) {
+    config.cache_mode = options.cacheMode;
+  }
+  if (options.screenshot) {
+    config.screenshot = true;
+  }
+  if (options.pdf) {
+    config.pdf = true;
+  }
+  return config;
+}
+
+/**
+ * Options that actually change a crawl - an empty panel leaves crawls as they were
+ */
+export function hasCrawlerOptions(options?: CrawlerOptions): boolean {
+  return !!options && (
+    Object.keys(toBrowserConfig(options)).length > 0 ||
+    Object.keys(toCrawlerConfig(options)).length > 0 ||
+    !!options.collectAssets
+  );
+}
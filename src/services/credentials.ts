@@ -0,0 +1,65 @@
+/**
+ * Credential profiles for crawling sites behind a login, managed through the /api/credentials function
+ *
+ * Cookies, headers, localStorage seeds and login scripts are secrets, so they are stored server-side and
+ * applied by the /api/crawl proxy. The browser can save or delete a profile but only ever reads summaries.
+ */
+import type { CredentialProfileInput, CredentialProfileSummary } from '../types';
+
+class CredentialsService {
+  /**
+   * Profiles only reach Crawl4AI through the proxy - direct mode never sees them
+   */
+  isApplied(): boolean {
+    return import.meta.env.VITE_CRAWL4AI_MODE === 'proxy';
+  }
+
+  /**
+   * Call /api/credentials{path}; null when the profile doesn't exist
+   */
+  private async request<T>(path: string, init?: RequestInit): Promise<T | null> {
+    const response = await fetch(`/api/credentials${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    if (response.status === 204 || response.status === 404) {
+      return null;
+    }
+    // Without the function (e.g. the Vite dev server) the response isn't JSON
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body) {
+      throw new Error(body?.error || `Credential request failed with status ${response.status}`);
+    }
+    return body as T;
+  }
+
+  /**
+   * The profile summary for a domain, or null if it has none
+   */
+  async getProfile(domain: string): Promise<CredentialProfileSummary | null> {
+    return this.request<CredentialProfileSummary>(`/${encodeURIComponent(domain)}`);
+  }
+
+  /**
+   * Create or replace a domain's profile - every value is replaced, nothing is merged
+   */
+  async saveProfile(domain: string, profile: CredentialProfileInput): Promise<CredentialProfileSummary> {
+    const saved = await this.request<CredentialProfileSummary>(`/${encodeURIComponent(domain)}`, {
+      method: 'PUT',
+      body: JSON.stringify(profile),
+    });
+    if (!saved) {
+      throw new Error('Credential profiles are unavailable - deploy the /api/credentials function');
+    }
+    console.log(`🔐 Saved credential profile "${saved.name}" for ${domain}`);
+    return saved;
+  }
+
+  async deleteProfile(domain: string): Promise<void> {
+    await this.request<null>(`/${encodeURIComponent(domain)}`, { method: 'DELETE' });
+    console.log(`🗑️ Deleted credential profile for ${domain}`);
+  }
+}
+
+export const credentialsService = new CredentialsService();
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { isValidCron, nextCronRun, parseCron } from './cron';
+
+const at = (iso: string) => new Date(iso);
+
+describe('parseCron', () => {
+  it('expands ranges, steps and lists', () => {
+    const schedule = parseCron('*/15 9-17/4 1,15 * 1-5');
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.anyDayOfMonth).toBe(false);
+    expect(schedule.anyDayOfWeek).toBe(false);
+  });
+
+  it('treats 7 as Sunday and expands aliases', () => {
+    expect(parseCron('0 0 * * 7').daysOfWeek.has(0)).toBe(true);
+    expect([...parseCron('@weekly').daysOfWeek]).toEqual([0]);
+    expect(parseCron('@daily').anyDayOfMonth).toBe(true);
+  });
+
+  it('rejects malformed and out-of-range fields', () => {
+    expect(isValidCron('0 0 * *')).toBe(false);
+    expect(isValidCron('60 * * * *')).toBe(false);
+    expect(isValidCron('* 5-1 * * *')).toBe(false);
+    expect(isValidCron('*/0 * * * *')).toBe(false);
+    expect(isValidCron('a * * * *')).toBe(false);
+    expect(isValidCron('0 0 * 13 *')).toBe(false);
+  });
+
+  it('rejects a day of month no chosen month has', () => {
+    expect(() => parseCron('0 0 31 2 *')).toThrow('never runs');
+    expect(isValidCron('0 0 30 2 *')).toBe(false);
+    expect(isValidCron('0 0 31 4,6,9,11 *')).toBe(false);
+    expect(isValidCron('0 0 29 2 *')).toBe(true);
+    expect(isValidCron('0 0 31 2 1')).toBe(true); // Every Monday in February
+  });
+});
+
+describe('nextCronRun', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    expect(nextCronRun('*/15 * * * *', at('2026-03-10T10:15:00Z'))).toEqual(at('2026-03-10T10:30:00Z'));
+    expect(nextCronRun('*/15 * * * *', at('2026-03-10T10:14:59Z'))).toEqual(at('2026-03-10T10:15:00Z'));
+  });
+
+  it('rolls over hours, days, months and years', () => {
+    expect(nextCronRun('@hourly', at('2026-03-10T23:30:00Z'))).toEqual(at('2026-03-11T00:00:00Z'));
+    expect(nextCronRun('@monthly', at('2026-12-15T12:00:00Z'))).toEqual(at('2027-01-01T00:00:00Z'));
+    expect(nextCronRun('30 6 * 6 *', at('2026-07-01T00:00:00Z'))).toEqual(at('2027-06-01T06:30:00Z'));
+  });
+
+  it('runs on either restricted day field, like cron', () => {
+    // The 13th, or any Friday - 2026-03-13 is itself a Friday, so the next is the 20th
+    expect(nextCronRun('0 0 13 * 5', at('2026-03-10T00:00:00Z'))).toEqual(at('2026-03-13T00:00:00Z'));
+    expect(nextCronRun('0 0 13 * 5', at('2026-03-13T00:00:00Z'))).toEqual(at('2026-03-20T00:00:00Z'));
+    // With day of month unrestricted only the weekday counts
+    expect(nextCronRun('0 0 * * 1', at('2026-03-10T00:00:00Z'))).toEqual(at('2026-03-16T00:00:00Z'));
+  });
+
+  it('waits for the next leap day', () => {
+    expect(nextCronRun('0 0 29 2 *', at('2026-03-01T00:00:00Z'))).toEqual(at('2028-02-29T00:00:00Z'));
+  });
+
+  it('refuses expressions that never run instead of searching years of minutes', () => {
+    expect(() => nextCronRun('0 0 31 2 *', at('2026-03-01T00:00:00Z'))).toThrow('never runs');
+  });
+});
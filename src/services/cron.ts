@@ -0,0 +1,135 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC
+ *
+ * Used to validate crawl schedules and compute their next run. The recrawl runner has a port in
+ * api/shared/cron.js - keep both in sync. Fields accept *, numbers, ranges (1-5), steps (*\/15, 1-30/5)
+ * and lists (1,15); @hourly, @daily, @weekly and @monthly are shorthands.
+ */
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+// Longest each month can be (February in a leap year)
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Each search step skips a month, day, hour or minute, so this covers the 4 years a Feb 29 schedule may need
+const MAX_SEARCH_STEPS = 366 * 24 * 60 * 4;
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+function parseField(text: string, { name, min, max }: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const match = part.match(/^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid ${name} field: ${text}`);
+    }
+    const start = match[1] === '*' ? min : parseInt(match[1], 10);
+    const end = match[2] !== undefined ? parseInt(match[2], 10) : (match[1] === '*' || match[3] ? max : start);
+    const step = match[3] !== undefined ? parseInt(match[3], 10) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid ${name} field: ${text}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse an expression into sets of allowed values. Throws on invalid expressions.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim().toLowerCase()] || expression.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: ${expression}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0); // 7 is Sunday too
+  }
+  // Without a day of week to fall back on, a day of month no chosen month has (e.g. Feb 31) never runs
+  const anyDayOfWeek = parts[4] === '*';
+  if (anyDayOfWeek && ![...months].some(month => [...daysOfMonth].some(day => day <= DAYS_IN_MONTH[month - 1]))) {
+    throw new Error(`Cron expression never runs: ${expression}`);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // Like cron: when both day fields are restricted, a day matching either one runs
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek,
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The first time strictly after `after` that matches the expression, or null if none is found
+ */
+export function nextCronRun(expression: string, after: Date = new Date()): Date | null {
+  const schedule = parseCron(expression);
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  for (let steps = 0; steps < MAX_SEARCH_STEPS; steps++) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  return null;
+}
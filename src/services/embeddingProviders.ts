@@ -0,0 +1,213 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+
+export type EmbeddingProviderType = 'openai' | 'azure_openai' | 'openai_compatible' | 'hashing';
+
+/**
+ * A source of text embeddings.
+ * Every provider must return vectors of the same dimension as the crawled_pages.embedding column (1536).
+ */
+export interface EmbeddingProvider {
+  readonly type: EmbeddingProviderType;
+  readonly name: string;
+  readonly model: string;
+  isConfigured(): boolean;
+  configurationHint(): string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export const EMBEDDING_PROVIDER_LABELS: Record<EmbeddingProviderType, string> = {
+  openai: 'OpenAI',
+  azure_openai: 'Azure OpenAI',
+  openai_compatible: 'OpenAI-compatible',
+  hashing: 'Offline hashing',
+};
+
+const DEFAULT_MODELS: Record<EmbeddingProviderType, string> = {
+  openai: 'text-embedding-3-small',
+  azure_openai: import.meta.env.VITE_AZURE_OPENAI_DEPLOYMENT || 'text-embedding-3-small',
+  // No default: most models local servers offer (e.g. nomic-embed-text, 768) don't fit the 1536-dimension column
+  openai_compatible: import.meta.env.VITE_OPENAI_COMPATIBLE_MODEL || '',
+  hashing: `hashing-${EMBEDDING_DIMENSIONS}`,
+};
+
+/**
+ * Throw unless every vector fits the crawled_pages.embedding column.
+ * Must match assertEmbeddingDimensions in api/shared/embeddings.js.
+ */
+export function assertEmbeddingDimensions(embeddings: number[][], model: string): void {
+  const mismatch = embeddings.find(embedding => embedding.length !== EMBEDDING_DIMENSIONS);
+  if (mismatch) {
+    throw new Error(`Embedding model "${model}" returns ${mismatch.length}-dimension vectors, but the embedding column holds ${EMBEDDING_DIMENSIONS} - pick a ${EMBEDDING_DIMENSIONS}-dimension model`);
+  }
+}
+
+/**
+ * Provider backed by the OpenAI SDK - used for OpenAI itself, Azure OpenAI
+ * and any server exposing the OpenAI embeddings API (Ollama, LM Studio, vLLM...)
+ */
+class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly type: EmbeddingProviderType;
+  readonly name: string;
+  readonly model: string;
+  private client: OpenAI | null;
+  private hint: string;
+
+  constructor(type: EmbeddingProviderType, model: string, client: OpenAI | null, hint: string) {
+    this.type = type;
+    this.name = EMBEDDING_PROVIDER_LABELS[type];
+    this.model = model;
+    this.client = client;
+    this.hint = hint;
+  }
+
+  isConfigured(): boolean {
+    return !!this.client;
+  }
+
+  configurationHint(): string {
+    return this.hint;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.client) {
+      throw new Error(this.hint);
+    }
+
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      encoding_format: 'float',
+    });
+
+    return response.data.map(item => item.embedding);
+  }
+}
+
+/**
+ * Deterministic feature-hashing provider that runs fully offline.
+ * Similar texts share tokens and therefore vector components, which is enough for tests and demos.
+ * api/shared/embeddings.js implements the same hashing so server-ingested vectors stay comparable.
+ */
+class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly type: EmbeddingProviderType = 'hashing';
+  readonly name = EMBEDDING_PROVIDER_LABELS.hashing;
+  readonly model: string;
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  configurationHint(): string {
+    return 'The hashing provider needs no configuration';
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    // Hash unigrams and bigrams so word order contributes a little
+    const features = [...tokens];
+    for (let i = 0; i < tokens.length - 1; i++) {
+      features.push(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+
+    for (const feature of features) {
+      const hash = this.fnv1a(feature);
+      const index = hash % EMBEDDING_DIMENSIONS;
+      const sign = (hash >>> 31) === 0 ? 1 : -1;
+      vector[index] += sign;
+    }
+
+    // Dampen frequent features and normalize to unit length for cosine similarity
+    const dampened = vector.map(value => Math.sign(value) * Math.log1p(Math.abs(value)));
+    const norm = Math.sqrt(dampened.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? dampened.map(value => value / norm) : dampened;
+  }
+
+  private fnv1a(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+/**
+ * Create an embedding provider from environment configuration.
+ * An empty model falls back to the provider's default model (or Azure deployment).
+ */
+export function createEmbeddingProvider(type: EmbeddingProviderType, model?: string): EmbeddingProvider {
+  const resolvedModel = model?.trim() || DEFAULT_MODELS[type];
+
+  switch (type) {
+    case 'azure_openai': {
+      const endpoint = import.meta.env.VITE_AZURE_OPENAI_ENDPOINT || '';
+      const apiKey = import.meta.env.VITE_AZURE_OPENAI_API_KEY || '';
+      const client = endpoint && apiKey
+        ? new AzureOpenAI({
+            endpoint,
+            apiKey,
+            deployment: resolvedModel,
+            apiVersion: import.meta.env.VITE_AZURE_OPENAI_API_VERSION || '2024-10-21',
+            dangerouslyAllowBrowser: true // Note: In production, embeddings should be generated server-side
+          })
+        : null;
+      return new OpenAIEmbeddingProvider(
+        type,
+        resolvedModel,
+        client,
+        'Azure OpenAI not configured. Please add VITE_AZURE_OPENAI_ENDPOINT and VITE_AZURE_OPENAI_API_KEY to your .env file.'
+      );
+    }
+
+    case 'openai_compatible': {
+      const baseURL = import.meta.env.VITE_OPENAI_COMPATIBLE_BASE_URL || '';
+      const client = baseURL && resolvedModel
+        ? new OpenAI({
+            baseURL,
+            // Local servers such as Ollama ignore the key, but the SDK requires one
+            apiKey: import.meta.env.VITE_OPENAI_COMPATIBLE_API_KEY || 'not-needed',
+            dangerouslyAllowBrowser: true
+          })
+        : null;
+      return new OpenAIEmbeddingProvider(
+        type,
+        resolvedModel,
+        client,
+        'OpenAI-compatible endpoint not configured. Please add VITE_OPENAI_COMPATIBLE_BASE_URL to your .env file and pick a 1536-dimension model (VITE_OPENAI_COMPATIBLE_MODEL or the model setting).'
+      );
+    }
+
+    case 'hashing':
+      return new HashingEmbeddingProvider(resolvedModel);
+
+    case 'openai':
+    default: {
+      const apiKey = import.meta.env.VITE_OPENAI_API_KEY || '';
+      const client = apiKey
+        ? new OpenAI({
+            apiKey,
+            dangerouslyAllowBrowser: true // Note: In production, embeddings should be generated server-side
+          })
+        : null;
+      return new OpenAIEmbeddingProvider(
+        'openai',
+        resolvedModel,
+        client,
+        'OpenAI API key not configured. Please add VITE_OPENAI_API_KEY to your .env file.'
+      );
+    }
+  }
+}
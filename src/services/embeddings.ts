@@ -1,17 +1,34 @@
-import OpenAI from 'openai';
+import { createEmbeddingProvider, type EmbeddingProvider, type EmbeddingProviderType } from './embeddingProviders';
 
-const openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY || '';
+const defaultProvider = (import.meta.env.VITE_EMBEDDING_PROVIDER || 'openai') as EmbeddingProviderType;
+
+export interface EmbeddedChunk {
+  chunkNumber: number;
+  text: string;
+  embedding: number[];
+}
 
 class EmbeddingsService {
-  private client: OpenAI | null = null;
+  private provider: EmbeddingProvider;
 
   constructor() {
-    if (openaiApiKey) {
-      this.client = new OpenAI({
-        apiKey: openaiApiKey,
-        dangerouslyAllowBrowser: true // Note: In production, embeddings should be generated server-side
-      });
-    }
+    this.provider = createEmbeddingProvider(defaultProvider);
+  }
+
+  /**
+   * Switch embedding provider and model (see AppSettings.crawlPreferences)
+   */
+  configure(options: { embeddingProvider?: EmbeddingProviderType; embeddingModel?: string }): void {
+    this.provider = createEmbeddingProvider(options.embeddingProvider || defaultProvider, options.embeddingModel);
+    console.log('🧠 Embedding provider configured:', {
+      provider: this.provider.name,
+      model: this.provider.model,
+      configured: this.provider.isConfigured()
+    });
+  }
+
+  getProvider(): EmbeddingProvider {
+    return this.provider;
   }
 
   private estimateTokens(text: string): number {
@@ -25,7 +42,8 @@ class EmbeddingsService {
     return Math.ceil(words + punctuation + whitespace / 4);
   }
 
-  private chunkText(text: string, maxTokens: number = 4500): string[] {
+  // Mirrored in api/shared/chunking.js for server-side ingestion - keep both in sync
+  chunkText(text: string, maxTokens: number = 4500): string[] {
     // Use token estimation instead of character count
     if (this.estimateTokens(text) <= maxTokens) {
       return [text];
@@ -93,107 +111,95 @@ class EmbeddingsService {
     return chunks.filter(chunk => chunk.length > 0);
   }
 
+  /**
+   * Truncate text that is still too large for a single embedding request
+   */
+  private truncateForEmbedding(text: string, label: string): string {
+    const estimatedTokens = this.estimateTokens(text);
+    if (estimatedTokens <= 7000) {
+      return text;
+    }
+
+    console.log(`⚠️ ${label} too large (${estimatedTokens} tokens), truncating...`);
+    // Truncate to approximately 6000 tokens worth of text
+    const maxChars = 6000 * 3; // Conservative estimate
+    const truncated = text.substring(0, maxChars);
+    console.log(`✂️ Truncated to ${truncated.length} chars (~${this.estimateTokens(truncated)} tokens)`);
+    return truncated;
+  }
+
+  /**
+   * Generate a single embedding, e.g. for a search query.
+   * Long text is truncated rather than averaged - use generateChunkEmbeddings for documents.
+   */
   async generateEmbedding(text: string): Promise<number[]> {
-    if (!this.client) {
-      throw new Error('OpenAI API key not configured. Please add VITE_OPENAI_API_KEY to your .env file.');
+    if (!this.provider.isConfigured()) {
+      throw new Error(this.provider.configurationHint());
     }
 
     try {
       console.log('Generating embedding for text:', text.substring(0, 100) + '...');
       console.log('Text length:', text.length, 'characters');
-      
-      // Check if text is too long and needs chunking
-      const chunks = this.chunkText(text);
-      
-      if (chunks.length > 1) {
-        console.log(`📄 Text too long, split into ${chunks.length} chunks`);
-        
-        // Generate embeddings for each chunk
-        const chunkEmbeddings: number[][] = [];
-        for (let i = 0; i < chunks.length; i++) {
-          const estimatedTokens = this.estimateTokens(chunks[i]);
-          console.log(`🔄 Processing chunk ${i + 1}/${chunks.length} (${chunks[i].length} chars, ~${estimatedTokens} tokens)`);
-          
-          // Final safety check - if still too large, truncate
-          let chunkText = chunks[i];
-          if (estimatedTokens > 7000) {
-            console.log(`⚠️ Chunk ${i + 1} still too large (${estimatedTokens} tokens), truncating...`);
-            // Truncate to approximately 6000 tokens worth of text
-            const maxChars = 6000 * 3; // Conservative estimate
-            chunkText = chunkText.substring(0, maxChars);
-            console.log(`✂️ Truncated to ${chunkText.length} chars (~${this.estimateTokens(chunkText)} tokens)`);
-          }
-          
-          const response = await this.client.embeddings.create({
-            model: 'text-embedding-3-small',
-            input: chunkText,
-            encoding_format: 'float',
-          });
-          
-          chunkEmbeddings.push(response.data[0].embedding);
-        }
-        
-        // Average the embeddings (simple approach)
-        const avgEmbedding = new Array(chunkEmbeddings[0].length).fill(0);
-        for (const embedding of chunkEmbeddings) {
-          for (let i = 0; i < embedding.length; i++) {
-            avgEmbedding[i] += embedding[i];
-          }
-        }
-        
-        // Normalize by number of chunks
-        for (let i = 0; i < avgEmbedding.length; i++) {
-          avgEmbedding[i] /= chunkEmbeddings.length;
-        }
-        
-        console.log('✅ Generated averaged embedding from', chunks.length, 'chunks, dimensions:', avgEmbedding.length);
-        return avgEmbedding;
-      } else {
-        // Single chunk - normal processing with safety check
-        const estimatedTokens = this.estimateTokens(text);
-        console.log(`📄 Single chunk processing (~${estimatedTokens} tokens)`);
-        
-        let inputText = text;
-        if (estimatedTokens > 7000) {
-          console.log(`⚠️ Single chunk too large (${estimatedTokens} tokens), truncating...`);
-          // Truncate to approximately 6000 tokens worth of text
-          const maxChars = 6000 * 3; // Conservative estimate
-          inputText = text.substring(0, maxChars);
-          console.log(`✂️ Truncated to ${inputText.length} chars (~${this.estimateTokens(inputText)} tokens)`);
-        }
-        
-        const response = await this.client.embeddings.create({
-          model: 'text-embedding-3-small',
-          input: inputText,
-          encoding_format: 'float',
-        });
 
-        const embedding = response.data[0].embedding;
-        console.log('✅ Generated embedding with dimensions:', embedding.length);
-        
-        return embedding;
-      }
+      const inputText = this.truncateForEmbedding(text, 'Text');
+      const [embedding] = await this.provider.embed([inputText]);
+      console.log('✅ Generated embedding with dimensions:', embedding.length);
+
+      return embedding;
     } catch (error) {
       console.error('Failed to generate embedding:', error);
       throw new Error(`Embedding generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Generate one embedding per chunk so long pages stay searchable chunk by chunk.
+   * The optional prefix (usually the page title) is prepended to every chunk before embedding.
+   */
+  async generateChunkEmbeddings(chunks: string[], prefix?: string): Promise<EmbeddedChunk[]> {
+    if (!this.provider.isConfigured()) {
+      throw new Error(this.provider.configurationHint());
+    }
+
+    console.log(`📄 Generating embeddings for ${chunks.length} chunks`);
+
+    const embeddedChunks: EmbeddedChunk[] = [];
+    const batchSize = 16; // Keep each request well below the per-request token limit
+
+    for (let i = 0; i < chunks.length; i += batchSize) {
+      const batch = chunks.slice(i, i + batchSize);
+      const inputs = batch.map((chunk, offset) =>
+        this.truncateForEmbedding(
+          [prefix || '', chunk].filter(Boolean).join('\n\n'),
+          `Chunk ${i + offset + 1}`
+        )
+      );
+
+      console.log(`🔄 Processing chunks ${i + 1}-${i + batch.length}/${chunks.length}`);
+      const embeddings = await this.generateEmbeddings(inputs);
+
+      batch.forEach((chunk, offset) => {
+        embeddedChunks.push({
+          chunkNumber: i + offset + 1,
+          text: chunk,
+          embedding: embeddings[offset],
+        });
+      });
+    }
+
+    console.log('✅ Generated', embeddedChunks.length, 'chunk embeddings');
+    return embeddedChunks;
+  }
+
   async generateEmbeddings(texts: string[]): Promise<number[][]> {
-    if (!this.client) {
-      throw new Error('OpenAI API key not configured. Please add VITE_OPENAI_API_KEY to your .env file.');
+    if (!this.provider.isConfigured()) {
+      throw new Error(this.provider.configurationHint());
     }
 
     try {
-      console.log('Generating embeddings for', texts.length, 'texts');
+      console.log('Generating embeddings for', texts.length, 'texts with', this.provider.name);
       
-      const response = await this.client.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: texts,
-        encoding_format: 'float',
-      });
-
-      const embeddings = response.data.map(item => item.embedding);
+      const embeddings = await this.provider.embed(texts);
       console.log('✅ Generated', embeddings.length, 'embeddings');
       
       return embeddings;
@@ -204,14 +210,16 @@ class EmbeddingsService {
   }
 
   isConfigured(): boolean {
-    return !!this.client;
+    return this.provider.isConfigured();
   }
 
   async testConnection(): Promise<{ success: boolean; message: string; details?: any }> {
-    if (!this.client) {
+    const provider = this.provider;
+    if (!provider.isConfigured()) {
       return {
         success: false,
-        message: 'OpenAI API key not configured'
+        message: `${provider.name} not configured`,
+        details: { provider: provider.type, model: provider.model, hint: provider.configurationHint() }
       };
     }
 
@@ -221,14 +229,14 @@ class EmbeddingsService {
       
       return {
         success: true,
-        message: `Connected successfully! Generated test embedding with ${testEmbedding.length} dimensions.`,
-        details: { dimensions: testEmbedding.length, model: 'text-embedding-3-small' }
+        message: `Connected to ${provider.name} (${provider.model})! Generated test embedding with ${testEmbedding.length} dimensions.`,
+        details: { provider: provider.type, model: provider.model, dimensions: testEmbedding.length }
       };
     } catch (error) {
       return {
         success: false,
-        message: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        details: error
+        message: `${provider.name} connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        details: { provider: provider.type, model: provider.model, error }
       };
     }
   }
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import type { ExtractionSchema } from '../types';
+import { extractionDomain, extractionMetadata, llmTokenUsage, parseExtractedData, toExtractionStrategy } from './extraction';
+
+const products: ExtractionSchema = {
+  domain: 'shop.example.com',
+  name: 'Products',
+  mode: 'selectors',
+  selectorType: 'css',
+  baseSelector: '.product',
+  fields: [
+    { name: 'title', selector: 'h2', type: 'text' },
+    { name: 'link', selector: 'a', type: 'attribute', attribute: 'href' },
+    { name: 'body', selector: '.desc', type: 'html', attribute: 'ignored' },
+  ],
+};
+
+const summaries: ExtractionSchema = {
+  ...products,
+  name: 'Summaries',
+  mode: 'llm',
+  llm: {
+    provider: 'openai/gpt-4o-mini',
+    instruction: 'Summarise each product',
+    outputSchema: { type: 'object', properties: { title: { type: 'string' } }, required: ['title'] },
+  },
+};
+
+describe('extractionDomain', () => {
+  it('keys schemas by lowercased hostname', () => {
+    expect(extractionDomain('https://Shop.Example.com:8443/a?b=1')).toBe('shop.example.com');
+    expect(extractionDomain('not a url')).toBeNull();
+  });
+});
+
+describe('toExtractionStrategy', () => {
+  it('sends selector schemas as a JSON CSS strategy, with attribute only for attribute fields', () => {
+    expect(toExtractionStrategy(products)).toEqual({
+      type: 'JsonCssExtractionStrategy',
+      params: {
+        schema: {
+          name: 'Products',
+          baseSelector: '.product',
+          fields: [
+            { name: 'title', selector: 'h2', type: 'text' },
+            { name: 'link', selector: 'a', type: 'attribute', attribute: 'href' },
+            { name: 'body', selector: '.desc', type: 'html' },
+          ],
+        },
+      },
+    });
+  });
+
+  it('uses the XPath strategy for XPath selectors', () => {
+    expect(toExtractionStrategy({ ...products, selectorType: 'xpath' }).type).toBe('JsonXPathExtractionStrategy');
+  });
+
+  it('sends LLM schemas as an LLM strategy with the output schema', () => {
+    expect(toExtractionStrategy(summaries)).toEqual({
+      type: 'LLMExtractionStrategy',
+      params: {
+        llm_config: { provider: 'openai/gpt-4o-mini' },
+        instruction: 'Summarise each product',
+        schema: summaries.llm?.outputSchema,
+        extraction_type: 'schema',
+      },
+    });
+  });
+});
+
+describe('parseExtractedData', () => {
+  it('reads a JSON array of records, as a string or already parsed', () => {
+    expect(parseExtractedData('[{"title":"A"},{"title":"B"}]')).toEqual([{ title: 'A' }, { title: 'B' }]);
+    expect(parseExtractedData([{ title: 'A' }])).toEqual([{ title: 'A' }]);
+    expect(parseExtractedData('[]')).toEqual([]);
+  });
+
+  it('returns null for plain text and anything but a list of objects', () => {
+    expect(parseExtractedData('Some page text')).toBeNull();
+    expect(parseExtractedData('{"title":"A"}')).toBeNull();
+    expect(parseExtractedData('[1, 2]')).toBeNull();
+    expect(parseExtractedData([{ title: 'A' }, null])).toBeNull();
+    expect(parseExtractedData(undefined)).toBeNull();
+  });
+});
+
+describe('extractionMetadata', () => {
+  it('stores the records with their count and schema name', () => {
+    expect(extractionMetadata(products, '[{"title":"A"},{"title":"B"}]')).toEqual({
+      extracted_data: [{ title: 'A' }, { title: 'B' }],
+      extracted_items: 2,
+      extraction_schema: 'Products',
+    });
+  });
+
+  it('leaves out the schema name when the crawl had none, and returns null without records', () => {
+    expect(extractionMetadata(undefined, [{ title: 'A' }])).toEqual({ extracted_data: [{ title: 'A' }], extracted_items: 1 });
+    expect(extractionMetadata(products, 'plain text')).toBeNull();
+  });
+});
+
+describe('LLM extraction', () => {
+  it('keeps records matching the output schema and drops the error: false tag Crawl4AI adds', () => {
+    expect(extractionMetadata(summaries, [{ title: 'A', error: false }])).toEqual({
+      extracted_data: [{ title: 'A' }],
+      extracted_items: 1,
+      extraction_schema: 'Summaries',
+      extraction_mode: 'llm',
+    });
+  });
+
+  it('reports invalid records and failed blocks', () => {
+    const content = [{ title: 'A', error: false }, { summary: 'no title' }, { error: true, content: 'rate limited' }];
+    expect(extractionMetadata(summaries, content)).toEqual({
+      extracted_data: [{ title: 'A' }],
+      extracted_items: 1,
+      extraction_schema: 'Summaries',
+      extraction_mode: 'llm',
+      extraction_invalid: 2,
+      extraction_errors: ['$[1].title: is required', '$[2]: rate limited'],
+    });
+  });
+
+  it('validates against the items of an array output schema and keeps error when the schema has it', () => {
+    const listed: ExtractionSchema = {
+      ...summaries,
+      llm: {
+        provider: 'openai/gpt-4o-mini',
+        instruction: 'List problems',
+        outputSchema: { type: 'array', items: { type: 'object', properties: { error: { type: 'boolean' } }, additionalProperties: false } },
+      },
+    };
+    expect(extractionMetadata(listed, [{ error: false }])?.extracted_data).toEqual([{ error: false }]);
+  });
+
+  it('keeps at most ten validation errors', () => {
+    const content = Array.from({ length: 12 }, () => ({}));
+    const metadata = extractionMetadata(summaries, content);
+    expect(metadata?.extraction_invalid).toBe(12);
+    expect(metadata?.extraction_errors).toHaveLength(10);
+  });
+
+  it('uses the token usage Crawl4AI reports', () => {
+    const page = { usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 } };
+    expect(llmTokenUsage(summaries, page)).toEqual({ promptTokens: 120, completionTokens: 30, totalTokens: 150, estimated: false });
+  });
+
+  it('estimates token usage from the text length otherwise', () => {
+    const schemaLength = summaries.llm ? summaries.llm.instruction.length + JSON.stringify(summaries.llm.outputSchema).length : 0;
+    const page = { markdown: { raw_markdown: 'x'.repeat(400) }, extracted_content: '[{"title":"A"}]' };
+    const usage = llmTokenUsage(summaries, page);
+
+    expect(usage.estimated).toBe(true);
+    expect(usage.promptTokens).toBe(Math.ceil((400 + schemaLength) / 4));
+    expect(usage.completionTokens).toBe(4);
+    expect(usage.totalTokens).toBe(usage.promptTokens + 4);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Structured extraction with Crawl4AI's JSON schema and LLM strategies
+ *
+ * A schema saved for a domain is sent as the crawler_config extraction_strategy of every crawl of that
+ * domain. Crawl4AI returns the matches as a JSON string in extracted_content, which is parsed (and for
+ * LLM extraction validated against the output schema) and stored as metadata.extracted_data.
+ * Must match api/shared/extraction.js.
+ */
+import type { ExtractionSchema } from '../types';
+import { validateJsonSchema } from './jsonSchema';
+
+interface JsonExtractionStrategy {
+  type: 'JsonCssExtractionStrategy' | 'JsonXPathExtractionStrategy';
+  params: {
+    schema: {
+      name: string;
+      baseSelector: string;
+      fields: Array<{ name: string; selector: string; type: string; attribute?: string }>;
+    };
+  };
+}
+
+interface LlmExtractionStrategy {
+  type: 'LLMExtractionStrategy';
+  params: {
+    llm_config: { provider: string };
+    instruction: string;
+    schema: Record<string, unknown>;
+    extraction_type: 'schema';
+  };
+}
+
+export type ExtractionStrategy = JsonExtractionStrategy | LlmExtractionStrategy;
+
+export interface LlmTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean; // Crawl4AI didn't report usage, so it was estimated from the text length
+}
+
+// Rough size of a token in English text, for estimating usage Crawl4AI doesn't report
+const CHARS_PER_TOKEN = 4;
+// Validation errors kept in a page's metadata
+const MAX_REPORTED_ERRORS = 10;
+
+/**
+ * The hostname a URL's extraction schema is saved under, or null for an invalid URL
+ */
+export function extractionDomain(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+export function toExtractionStrategy(schema: ExtractionSchema): ExtractionStrategy {
+  if (schema.mode === 'llm' && schema.llm) {
+    return {
+      type: 'LLMExtractionStrategy',
+      params: {
+        llm_config: { provider: schema.llm.provider },
+        instruction: schema.llm.instruction,
+        schema: schema.llm.outputSchema,
+        extraction_type: 'schema',
+      },
+    };
+  }
+
+  return {
+    type: schema.selectorType === 'xpath' ? 'JsonXPathExtractionStrategy' : 'JsonCssExtractionStrategy',
+    params: {
+      schema: {
+        name: schema.name,
+        baseSelector: schema.baseSelector,
+        fields: schema.fields.map(field => ({
+          name: field.name,
+          selector: field.selector,
+          type: field.type,
+          ...(field.type === 'attribute' && { attribute: field.attribute }),
+        })),
+      },
+    },
+  };
+}
+
+/**
+ * The records in a page's extracted_content, or null when it isn't structured JSON
+ * (no schema was used, or an older service returned plain text)
+ */
+export function parseExtractedData(extractedContent: unknown): Record<string, unknown>[] | null {
+  let data = extractedContent;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch {
+      return null;
+    }
+  }
+
+  return Array.isArray(data) && data.every(item => item !== null && typeof item === 'object' && !Array.isArray(item))
+    ? data as Record<string, unknown>[]
+    : null;
+}
+
+/**
+ * LLM records that match the output schema, plus the problems with the rest. Crawl4AI tags each block
+ * with error: false, or returns { error: true, content } for a part of the page that failed.
+ */
+function validateLlmRecords(records: Record<string, unknown>[], outputSchema: Record<string, unknown>) {
+  const recordSchema = outputSchema.type === 'array' && outputSchema.items && typeof outputSchema.items === 'object'
+    ? outputSchema.items as Record<string, unknown>
+    : outputSchema;
+  const schemaHasError = !!(recordSchema.properties as Record<string, unknown> | undefined)?.error;
+  const valid: Record<string, unknown>[] = [];
+  const errors: string[] = [];
+
+  records.forEach((block, index) => {
+    if (block.error === true) {
+      errors.push(`$[${index}]: ${String(block.content ?? 'LLM extraction failed')}`);
+      return;
+    }
+
+    const record = { ...block };
+    if (!schemaHasError) {
+      delete record.error;
+    }
+    const problems = validateJsonSchema(record, recordSchema, `$[${index}]`);
+    if (problems.length > 0) {
+      errors.push(...problems);
+    } else {
+      valid.push(record);
+    }
+  });
+
+  return { valid, errors };
+}
+
+/**
+ * A page's structured extraction results as metadata, or null if it has none. They are kept out of
+ * the page text so the markdown is still what gets chunked and embedded.
+ */
+export function extractionMetadata(schema: ExtractionSchema | undefined, extractedContent: unknown): Record<string, unknown> | null {
+  const data = parseExtractedData(extractedContent);
+  if (!data) {
+    return null;
+  }
+
+  if (schema?.mode !== 'llm' || !schema.llm) {
+    return { extracted_data: data, extracted_items: data.length, ...(schema && { extraction_schema: schema.name }) };
+  }
+
+  const { valid, errors } = validateLlmRecords(data, schema.llm.outputSchema);
+  return {
+    extracted_data: valid,
+    extracted_items: valid.length,
+    extraction_schema: schema.name,
+    extraction_mode: 'llm',
+    ...(errors.length > 0 && {
+      extraction_invalid: data.length - valid.length,
+      extraction_errors: errors.slice(0, MAX_REPORTED_ERRORS),
+    }),
+  };
+}
+
+/**
+ * Tokens an LLM extraction of a page used - as reported by Crawl4AI, or estimated from the page
+ * markdown, instruction and schema (prompt) and the extracted JSON (completion)
+ */
+export function llmTokenUsage(schema: ExtractionSchema, page: Record<string, unknown>): LlmTokenUsage {
+  const reported = (page.llm_usage || page.token_usage || page.usage) as Record<string, unknown> | undefined;
+  if (reported && typeof reported.total_tokens === 'number') {
+    return {
+      promptTokens: Number(reported.prompt_tokens) || 0,
+      completionTokens: Number(reported.completion_tokens) || 0,
+      totalTokens: reported.total_tokens,
+      estimated: false,
+    };
+  }
+
+  const markdown = page.markdown as { raw_markdown?: string } | string | undefined;
+  const markdownLength = (typeof markdown === 'string' ? markdown : markdown?.raw_markdown || '').length;
+  const promptLength = markdownLength + (schema.llm?.instruction.length || 0) + JSON.stringify(schema.llm?.outputSchema || {}).length;
+  const completionLength = typeof page.extracted_content === 'string' ? page.extracted_content.length : 0;
+  const promptTokens = Math.ceil(promptLength / CHARS_PER_TOKEN);
+  const completionTokens = Math.ceil(completionLength / CHARS_PER_TOKEN);
+
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, estimated: true };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { CrawlFrontier, type CrawlStrategy, type FrontierItem } from './frontier';
+
+const item = (path: string, depth = 1, score = 0): FrontierItem => ({ url: `https://example.com${path}`, depth, score });
+const paths = (items: FrontierItem[]) => items.map(entry => new URL(entry.url).pathname);
+
+const frontier = (strategy: CrawlStrategy, options: { maxDepth?: number; maxPages?: number; minScore?: number } = {}) =>
+  new CrawlFrontier({ strategy, maxDepth: 3, maxPages: 100, ...options });
+
+describe('CrawlFrontier', () => {
+  it('hands out bfs URLs in discovery order', () => {
+    const bfs = frontier('bfs');
+    [item('/a'), item('/b'), item('/a/1', 2)].forEach(entry => bfs.add(entry));
+    expect(paths(bfs.next(10))).toEqual(['/a', '/b', '/a/1']);
+  });
+
+  it('hands out dfs URLs most recent first', () => {
+    const dfs = frontier('dfs');
+    [item('/a'), item('/b'), item('/b/1', 2)].forEach(entry => dfs.add(entry));
+    expect(paths(dfs.next(2))).toEqual(['/b/1', '/b']);
+    expect(paths(dfs.next(2))).toEqual(['/a']);
+  });
+
+  it('hands out bestfirst URLs by score, shallower first on ties', () => {
+    const best = frontier('bestfirst');
+    [item('/low', 1, 0.1), item('/deep', 2, 0.9), item('/high', 1, 0.9)].forEach(entry => best.add(entry));
+    expect(paths(best.next(3))).toEqual(['/high', '/deep', '/low']);
+  });
+
+  it('takes the best link of a page first with addMany', () => {
+    const links = [item('/x', 1, 0.2), item('/y', 1, 0.8), item('/z', 1, 0.5)];
+    const bfs = frontier('bfs');
+    bfs.addMany(links);
+    expect(paths(bfs.next(3))).toEqual(['/y', '/z', '/x']);
+
+    const dfs = frontier('dfs');
+    dfs.addMany(links);
+    expect(paths(dfs.next(3))).toEqual(['/y', '/z', '/x']);
+  });
+
+  it('dedupes on the normalized URL', () => {
+    const bfs = frontier('bfs');
+    expect(bfs.add(item('/page'))).toBe(true);
+    expect(bfs.add({ url: 'https://www.example.com/page/?utm_source=x#top', depth: 1, score: 0 })).toBe(false);
+
+    bfs.reject('https://example.com/skipped');
+    expect(bfs.add(item('/skipped'))).toBe(false);
+    expect(bfs.has('https://example.com/skipped/')).toBe(true);
+    expect(bfs.size).toBe(1);
+  });
+
+  it('enforces the depth and page budgets', () => {
+    const bfs = frontier('bfs', { maxDepth: 1, maxPages: 3 });
+    expect(bfs.add(item('/too-deep', 2))).toBe(false);
+
+    bfs.markCrawled('https://example.com/');
+    ['/a', '/b', '/c'].forEach(path => bfs.add(item(path)));
+    expect(paths(bfs.next(10))).toEqual(['/a', '/b']);
+    expect(bfs.hasNext()).toBe(false);
+    expect(bfs.remainingBudget).toBe(0);
+  });
+
+  it('puts requeued items back in front and refunds their budget', () => {
+    const bfs = frontier('bfs', { maxPages: 2 });
+    ['/a', '/b', '/c'].forEach(path => bfs.add(item(path)));
+    const batch = bfs.next(2);
+    bfs.requeue(batch);
+
+    expect(bfs.dispatchedCount).toBe(0);
+    expect(paths(bfs.next(2))).toEqual(['/a', '/b']);
+  });
+
+  it('holds back URLs scoring below minScore', () => {
+    const best = frontier('bestfirst', { minScore: 0.5 });
+    best.addMany([item('/relevant', 1, 0.7), item('/off-topic', 1, 0.2)]);
+
+    expect(best.heldCount).toBe(1);
+    expect(paths(best.next(10))).toEqual(['/relevant']);
+    expect(best.hasNext()).toBe(false);
+  });
+
+  it('survives a snapshot and restore', () => {
+    const best = frontier('bestfirst', { minScore: 0.5, maxPages: 10 });
+    best.addMany([item('/a', 1, 0.9), item('/b', 1, 0.6), item('/held', 1, 0.1)]);
+    best.next(1);
+
+    const restored = CrawlFrontier.restore(best.snapshot());
+    expect(restored.dispatchedCount).toBe(1);
+    expect(restored.heldCount).toBe(1);
+    expect(restored.has('https://example.com/a')).toBe(true);
+    expect(paths(restored.next(10))).toEqual(['/b']);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * URL frontier for multi-level deep crawls
+ *
+ * Holds discovered-but-not-yet-crawled URLs and hands them out according to the strategy:
+ * - bfs: level by level, in discovery order
+ * - dfs: most recently discovered first, following one branch down before the next
+ * - bestfirst: highest score first, shallower pages winning ties
+ *
+ * URLs are deduplicated on their normalized form (see urlNormalizer.ts), and the depth and page budgets
+ * are enforced here. With a minScore (the relevance threshold of a topic-focused crawl) URLs scoring
+ * lower are held back and never handed out, so the crawl ends when the best remaining link isn't
+ * relevant enough.
+ */
+
+import type { FrontierSnapshot } from '../types';
+import { normalizeUrl } from './urlNormalizer';
+
+export type CrawlStrategy = 'bfs' | 'dfs' | 'bestfirst';
+
+export const CRAWL_STRATEGIES: CrawlStrategy[] = ['bfs', 'dfs', 'bestfirst'];
+
+export interface FrontierItem {
+  url: string;
+  depth: number;
+  score: number;
+  parentUrl?: string;
+}
+
+export interface FrontierOptions {
+  strategy: CrawlStrategy;
+  maxDepth: number;
+  maxPages: number;
+  minScore?: number;
+}
+
+export class CrawlFrontier {
+  private options: FrontierOptions;
+  private queue: FrontierItem[] = [];
+  private held: FrontierItem[] = []; // Scored below minScore
+  private seen = new Set<string>();
+  private dispatched = 0;
+
+  constructor(options: FrontierOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Rebuild a frontier from a checkpoint
+   */
+  static restore(snapshot: FrontierSnapshot): CrawlFrontier {
+    const frontier = new CrawlFrontier({
+      strategy: snapshot.strategy,
+      maxDepth: snapshot.maxDepth,
+      maxPages: snapshot.maxPages,
+      minScore: snapshot.minScore,
+    });
+    for (const item of snapshot.queue) {
+      (frontier.qualifies(item) ? frontier.queue : frontier.held).push({ ...item });
+    }
+    frontier.seen = new Set(snapshot.seen);
+    frontier.dispatched = snapshot.dispatched;
+    return frontier;
+  }
+
+  /**
+   * Serialize the frontier for a checkpoint
+   */
+  snapshot(): FrontierSnapshot {
+    return {
+      ...this.options,
+      queue: [...this.queue, ...this.held].map(item => ({ ...item })),
+      seen: Array.from(this.seen),
+      dispatched: this.dispatched,
+    };
+  }
+
+  get strategy(): CrawlStrategy {
+    return this.options.strategy;
+  }
+
+  get maxDepth(): number {
+    return this.options.maxDepth;
+  }
+
+  /** Number of URLs waiting to be crawled */
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /** Number of URLs held back for scoring below minScore */
+  get heldCount(): number {
+    return this.held.length;
+  }
+
+  /** Number of URLs handed out so far (counts against maxPages) */
+  get dispatchedCount(): number {
+    return this.dispatched;
+  }
+
+  /** Page budget left before maxPages is reached */
+  get remainingBudget(): number {
+    return Math.max(0, this.options.maxPages - this.dispatched);
+  }
+
+  /**
+   * Whether the URL (or an equivalent normalized URL) was already added, rejected or crawled
+   */
+  has(url: string): boolean {
+    return this.seen.has(normalizeUrl(url));
+  }
+
+  /**
+   * Remember a URL without queueing it, e.g. one rejected by filters, so it is only evaluated once
+   */
+  reject(url: string): void {
+    this.seen.add(normalizeUrl(url));
+  }
+
+  /**
+   * Mark a URL as already crawled (e.g. the start page) so it counts against the page budget
+   */
+  markCrawled(url: string): void {
+    this.seen.add(normalizeUrl(url));
+    this.dispatched++;
+  }
+
+  private qualifies(item: FrontierItem): boolean {
+    return this.options.minScore === undefined || item.score >= this.options.minScore;
+  }
+
+  /**
+   * Queue a URL. Returns false for duplicates and URLs beyond maxDepth.
+   * URLs scoring below minScore are added but held back.
+   */
+  add(item: FrontierItem): boolean {
+    if (item.depth > this.options.maxDepth) {
+      return false;
+    }
+
+    const key = normalizeUrl(item.url);
+    if (this.seen.has(key)) {
+      return false;
+    }
+
+    this.seen.add(key);
+    (this.qualifies(item) ? this.queue : this.held).push(item);
+    return true;
+  }
+
+  /**
+   * Queue the links found on one page. They are ordered by score so the best link is taken
+   * first: at the front for bfs, at the top of the stack for dfs. Returns the items actually added.
+   */
+  addMany(items: FrontierItem[]): FrontierItem[] {
+    const ordered = [...items].sort((a, b) =>
+      this.options.strategy === 'dfs' ? a.score - b.score : b.score - a.score
+    );
+    return ordered.filter(item => this.add(item));
+  }
+
+  /**
+   * Swap the queue for a set of already-seen URLs, e.g. pages to retry. They were counted when first
+   * dispatched, so the page budget grows by the same amount and the rest of the queue keeps its share.
+   * Returns the previous queue so it can be restored with appendQueue.
+   */
+  replaceQueue(items: FrontierItem[]): FrontierItem[] {
+    const previous = this.queue;
+    this.queue = [...items];
+    items.forEach(item => this.seen.add(normalizeUrl(item.url)));
+    this.options = { ...this.options, maxPages: this.options.maxPages + items.length };
+    return previous;
+  }
+
+  /**
+   * Put previously queued items back (they are already marked as seen)
+   */
+  appendQueue(items: FrontierItem[]): void {
+    this.queue.push(...items);
+  }
+
+  /**
+   * Return dispatched items that were never crawled (e.g. a cancelled batch), so they come out of
+   * next() first again and no longer count against the page budget
+   */
+  requeue(items: FrontierItem[]): void {
+    if (this.options.strategy === 'dfs') {
+      this.queue.push(...[...items].reverse());
+    } else {
+      this.queue.unshift(...items);
+    }
+    this.dispatched = Math.max(0, this.dispatched - items.length);
+  }
+
+  hasNext(): boolean {
+    return this.queue.length > 0 && this.remainingBudget > 0;
+  }
+
+  /**
+   * Take up to `count` URLs according to the strategy, never exceeding the page budget
+   */
+  next(count: number): FrontierItem[] {
+    const take = Math.min(count, this.remainingBudget, this.queue.length);
+    if (take <= 0) {
+      return [];
+    }
+
+    let items: FrontierItem[];
+    switch (this.options.strategy) {
+      case 'dfs':
+        items = this.queue.splice(this.queue.length - take, take).reverse();
+        break;
+      case 'bestfirst':
+        this.queue.sort((a, b) => b.score - a.score || a.depth - b.depth);
+        items = this.queue.splice(0, take);
+        break;
+      case 'bfs':
+      default:
+        items = this.queue.splice(0, take);
+        break;
+    }
+
+    this.dispatched += items.length;
+    return items;
+  }
+}
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HostRateLimiter, parseRetryAfter, rateLimitHost } from './hostRateLimiter';
+
+const OPTIONS = {
+  requestsPerSecond: 1,
+  burst: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+  failureThreshold: 3,
+  cooldownMs: 30_000,
+};
+
+/** Start an acquire and report whether it has gone through yet */
+function track(promise: Promise<void>) {
+  const state = { done: false };
+  promise.then(() => { state.done = true; });
+  return state;
+}
+
+describe('HostRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    vi.spyOn(Math, 'random').mockReturnValue(1); // Backoff without jitter: the full delay
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('lets a burst through, then waits for tokens to refill', async () => {
+    const limiter = new HostRateLimiter(OPTIONS);
+    await limiter.acquire('example.com');
+    await limiter.acquire('example.com');
+
+    const third = track(limiter.acquire('example.com'));
+    await vi.advanceTimersByTimeAsync(500);
+    expect(third.done).toBe(false);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(third.done).toBe(true);
+  });
+
+  it('keeps hosts apart', async () => {
+    const limiter = new HostRateLimiter(OPTIONS);
+    await limiter.acquire('a.example.com', 2);
+    const other = track(limiter.acquire('b.example.com', 2));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(other.done).toBe(true);
+  });
+
+  it('backs off exponentially and honours Retry-After', () => {
+    const limiter = new HostRateLimiter(OPTIONS);
+    expect(limiter.recordFailure('example.com')).toBe(1000);
+    expect(limiter.recordFailure('example.com', { status: 500 })).toBe(2000);
+
+    const other = new HostRateLimiter(OPTIONS);
+    expect(other.recordFailure('example.com', { status: 503, retryAfterMs: 7000 })).toBe(7000);
+    expect(other.pausedFor(['example.com', 'other.com'])).toBe(7000);
+  });
+
+  it('halves the rate on 429 and recovers it on success', () => {
+    const limiter = new HostRateLimiter({ ...OPTIONS, requestsPerSecond: 10 });
+    limiter.recordFailure('example.com', { status: 429 });
+    expect(limiter.state('example.com').requestsPerSecond).toBe(5);
+    expect(limiter.state('example.com').lastStatus).toBe(429);
+
+    limiter.recordSuccess('example.com');
+    expect(limiter.state('example.com').requestsPerSecond).toBe(6);
+    expect(limiter.state('example.com').consecutiveFailures).toBe(0);
+  });
+
+  it('opens the circuit after repeated failures and pauses the host for the cool-down', () => {
+    const limiter = new HostRateLimiter(OPTIONS);
+    limiter.recordFailure('example.com');
+    limiter.recordFailure('example.com');
+    expect(limiter.state('example.com').circuit).toBe('closed');
+
+    expect(limiter.recordFailure('example.com')).toBe(30_000);
+    expect(limiter.state('example.com').circuit).toBe('open');
+    expect(limiter.state('example.com').pausedUntil).toBe(Date.now() + 30_000);
+  });
+
+  describe('half-open circuit', () => {
+    const openCircuit = async (limiter: HostRateLimiter) => {
+      for (let i = 0; i < OPTIONS.failureThreshold; i++) {
+        limiter.recordFailure('example.com');
+      }
+      await vi.advanceTimersByTimeAsync(OPTIONS.cooldownMs);
+    };
+
+    it('sends one probe and closes the circuit when it succeeds', async () => {
+      const limiter = new HostRateLimiter(OPTIONS);
+      await openCircuit(limiter);
+
+      await limiter.acquire('example.com');
+      expect(limiter.state('example.com').circuit).toBe('half_open');
+      const next = track(limiter.acquire('example.com'));
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(next.done).toBe(false);
+
+      limiter.recordSuccess('example.com');
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(next.done).toBe(true);
+      expect(limiter.state('example.com').circuit).toBe('closed');
+    });
+
+    it('reopens the circuit when the probe fails', async () => {
+      const limiter = new HostRateLimiter(OPTIONS);
+      await openCircuit(limiter);
+
+      await limiter.acquire('example.com');
+      limiter.recordFailure('example.com', { status: 503 });
+      expect(limiter.state('example.com').circuit).toBe('open');
+      expect(limiter.pausedFor(['example.com'])).toBe(OPTIONS.cooldownMs);
+    });
+
+    it('lets the next request probe once a probe ends without an outcome', async () => {
+      const limiter = new HostRateLimiter(OPTIONS);
+      await openCircuit(limiter);
+
+      await limiter.acquire('example.com'); // e.g. cancelled before its response came back
+      const next = track(limiter.acquire('example.com'));
+      await vi.advanceTimersByTimeAsync(60_000);
+      expect(next.done).toBe(false);
+
+      limiter.releaseProbe('example.com');
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(next.done).toBe(true);
+      expect(limiter.state('example.com').circuit).toBe('half_open');
+    });
+  });
+
+  it('stops waiting when the crawl is cancelled', async () => {
+    const limiter = new HostRateLimiter(OPTIONS);
+    limiter.recordFailure('example.com', { retryAfterMs: 60_000 });
+    const controller = new AbortController();
+
+    const waiting = limiter.acquire('example.com', 1, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toThrow('Crawl was cancelled');
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('120', now)).toBe(120_000);
+    expect(parseRetryAfter(1.5, now)).toBe(1500);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', now)).toBe(30_000);
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:00:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing and malformed values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('rateLimitHost', () => {
+  it('keys hosts without www.', () => {
+    expect(rateLimitHost('https://www.example.com/page')).toBe('example.com');
+    expect(rateLimitHost('not a url')).toBe('');
+  });
+});
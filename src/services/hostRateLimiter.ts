@@ -0,0 +1,243 @@
+import { sleep, throwIfCancelled } from './cancellation';
+import { hostKey } from './urlNormalizer';
+
+/**
+ * Per-host rate limiter shared by all crawl sessions
+ *
+ * Each host gets a token bucket: a request for n of its pages takes n tokens, and tokens refill at the
+ * host's rate up to the burst size. A 429 or 503 halves the host's rate (it creeps back up with every
+ * success) and, like any failed request, pauses the host for an exponential backoff with jitter - or
+ * for exactly as long as the response's Retry-After asks. After repeated failures the host's circuit
+ * opens and it gets no requests until the cool-down is over; then a single probe request decides
+ * whether it closes again.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface HostRateLimiterOptions {
+  requestsPerSecond: number;
+  burst: number;
+  baseDelayMs: number; // Backoff after the first failure, doubled with every further one
+  maxDelayMs: number;
+  failureThreshold: number; // Consecutive failures that open the circuit
+  cooldownMs: number; // How long an open circuit pauses the host
+}
+
+/** A host's limiter state, as shown in the dashboard */
+export interface HostRateLimitState {
+  host: string;
+  requestsPerSecond: number;
+  tokens: number;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  pausedUntil?: number; // Epoch ms, while the host is backing off or its circuit is open
+  lastStatus?: number; // HTTP status of the last failure
+}
+
+export interface HostFailure {
+  status?: number;
+  retryAfterMs?: number;
+}
+
+interface HostBucket {
+  rate: number;
+  tokens: number;
+  refilledAt: number;
+  failures: number;
+  resumeAt: number;
+  circuit: CircuitState;
+  probing: boolean; // A half-open circuit's probe request is in flight
+  lastStatus?: number;
+}
+
+// Statuses that mean "slow down" rather than "broken"
+export const THROTTLE_STATUSES = [429, 503];
+
+// Rates don't drop below one request per this many seconds
+const MIN_INTERVAL_SECONDS = 60;
+// How often a request waiting on a half-open circuit checks the probe's outcome
+const PROBE_POLL_MS = 1000;
+
+/**
+ * The limiter key of a URL: its hostname without "www.", or '' when it isn't a valid URL
+ */
+export function rateLimitHost(url: string): string {
+  try {
+    return hostKey(new URL(url).hostname);
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Milliseconds a Retry-After header asks to wait, given as seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(parseFloat(text) * 1000);
+  }
+  const date = Date.parse(text);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export class HostRateLimiter {
+  readonly options: HostRateLimiterOptions;
+  private buckets = new Map<string, HostBucket>();
+
+  constructor(options: HostRateLimiterOptions) {
+    this.options = {
+      ...options,
+      requestsPerSecond: options.requestsPerSecond > 0 ? options.requestsPerSecond : 1,
+      burst: Math.max(1, options.burst || 1),
+    };
+  }
+
+  /**
+   * Wait until the host may get a request for `count` pages, and take their tokens
+   */
+  async acquire(host: string, count: number = 1, signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      throwIfCancelled(signal);
+      const wait = this.reserve(host, count);
+      if (wait <= 0) {
+        return;
+      }
+      await sleep(wait, signal);
+    }
+  }
+
+  /**
+   * Record that a request to the host went through
+   */
+  recordSuccess(host: string): void {
+    const bucket = this.bucket(host);
+    const { requestsPerSecond } = this.options;
+    bucket.failures = 0;
+    bucket.circuit = 'closed';
+    bucket.probing = false;
+    bucket.rate = Math.min(requestsPerSecond, bucket.rate + requestsPerSecond / 10);
+  }
+
+  /**
+   * Record a failed request to the host and pause it. Returns how long the host is paused, in ms.
+   */
+  recordFailure(host: string, failure: HostFailure = {}): number {
+    const bucket = this.bucket(host);
+    const now = Date.now();
+    bucket.failures++;
+    bucket.lastStatus = failure.status;
+    bucket.probing = false;
+
+    if (failure.status && THROTTLE_STATUSES.includes(failure.status)) {
+      bucket.rate = Math.max(1 / MIN_INTERVAL_SECONDS, bucket.rate / 2);
+    }
+
+    const delay = failure.retryAfterMs ?? this.backoffDelay(bucket.failures);
+    bucket.resumeAt = Math.max(bucket.resumeAt, now + delay);
+
+    if (bucket.circuit === 'half_open' || bucket.failures >= this.options.failureThreshold) {
+      bucket.circuit = 'open';
+      bucket.resumeAt = Math.max(bucket.resumeAt, now + this.options.cooldownMs);
+      console.warn(`🔌 Circuit open for ${host} after ${bucket.failures} failures, pausing until ${new Date(bucket.resumeAt).toLocaleTimeString()}`);
+    }
+
+    return bucket.resumeAt - now;
+  }
+
+  /**
+   * Let another request probe a half-open circuit, when this one ended without an outcome (e.g. cancelled)
+   */
+  releaseProbe(host: string): void {
+    this.bucket(host).probing = false;
+  }
+
+  /**
+   * How long the slowest of these hosts is paused for, in ms
+   */
+  pausedFor(hosts: string[]): number {
+    const now = Date.now();
+    return Math.max(0, ...hosts.map(host => (this.buckets.get(host)?.resumeAt || 0) - now));
+  }
+
+  /**
+   * The host's current rate, tokens, circuit and backoff
+   */
+  state(host: string): HostRateLimitState {
+    const bucket = this.bucket(host);
+    this.refill(bucket, Date.now());
+    return {
+      host,
+      requestsPerSecond: bucket.rate,
+      tokens: Math.max(0, Math.floor(bucket.tokens)),
+      circuit: bucket.circuit,
+      consecutiveFailures: bucket.failures,
+      pausedUntil: bucket.resumeAt > Date.now() ? bucket.resumeAt : undefined,
+      lastStatus: bucket.lastStatus,
+    };
+  }
+
+  /**
+   * Take the tokens if the host can get the request now, or return how long to wait first.
+   * Requests larger than the burst go through on a full bucket and leave it in debt.
+   */
+  private reserve(host: string, count: number): number {
+    const bucket = this.bucket(host);
+    const now = Date.now();
+    if (now < bucket.resumeAt) {
+      return bucket.resumeAt - now;
+    }
+
+    if (bucket.circuit === 'open') {
+      bucket.circuit = 'half_open';
+      console.log(`🔌 Circuit half-open for ${host}, sending a probe request`);
+    }
+    if (bucket.circuit === 'half_open') {
+      if (bucket.probing) {
+        return PROBE_POLL_MS;
+      }
+      bucket.probing = true;
+    }
+
+    this.refill(bucket, now);
+    const needed = Math.min(count, this.options.burst);
+    if (bucket.tokens < needed && bucket.circuit !== 'half_open') {
+      return Math.ceil(((needed - bucket.tokens) / bucket.rate) * 1000);
+    }
+    bucket.tokens -= count;
+    return 0;
+  }
+
+  private refill(bucket: HostBucket, now: number): void {
+    bucket.tokens = Math.min(this.options.burst, bucket.tokens + ((now - bucket.refilledAt) / 1000) * bucket.rate);
+    bucket.refilledAt = now;
+  }
+
+  /**
+   * Exponential backoff with jitter: half the delay is fixed, the other half random
+   */
+  private backoffDelay(failures: number): number {
+    const delay = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** (failures - 1));
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+
+  private bucket(host: string): HostBucket {
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = {
+        rate: this.options.requestsPerSecond,
+        tokens: this.options.burst,
+        refilledAt: Date.now(),
+        failures: 0,
+        resumeAt: 0,
+        circuit: 'closed',
+        probing: false,
+      };
+      this.buckets.set(host, bucket);
+    }
+    return bucket;
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { validateJsonSchema } from './jsonSchema';
+
+const product = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    price: { type: ['number', 'null'] },
+    stock: { type: 'integer' },
+    status: { enum: ['in_stock', 'sold_out'] },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['title'],
+  additionalProperties: false,
+};
+
+describe('validateJsonSchema', () => {
+  it('accepts a matching record', () => {
+    expect(validateJsonSchema({ title: 'Lamp', price: null, stock: 3, status: 'in_stock', tags: ['home'] }, product)).toEqual([]);
+  });
+
+  it('checks types, including type lists and integer', () => {
+    expect(validateJsonSchema('Lamp', product)).toEqual(['$: expected object, got string']);
+    expect(validateJsonSchema({ title: 'Lamp', price: '12' }, product)).toEqual(['$.price: expected number or null, got string']);
+    expect(validateJsonSchema({ title: 'Lamp', stock: 1.5 }, product)).toEqual(['$.stock: expected integer, got number']);
+    expect(validateJsonSchema([], { type: 'object' })).toEqual(['$: expected object, got array']);
+  });
+
+  it('reports enum, required and unexpected properties', () => {
+    expect(validateJsonSchema({ status: 'maybe', colour: 'red' }, product)).toEqual([
+      '$.title: is required',
+      '$.status: must be one of "in_stock", "sold_out"',
+      '$.colour: is not allowed',
+    ]);
+  });
+
+  it('validates array items with their index in the path', () => {
+    expect(validateJsonSchema({ title: 'Lamp', tags: ['home', 3] }, product)).toEqual(['$.tags[1]: expected string, got number']);
+  });
+
+  it('starts paths where it is told to', () => {
+    expect(validateJsonSchema({}, product, '$[2]')).toEqual(['$[2].title: is required']);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Minimal JSON Schema validation for LLM extraction records
+ *
+ * Supports the keywords an output schema for extraction realistically uses: type (including type
+ * lists and integer), enum, properties, required, additionalProperties: false and items.
+ * Must match api/shared/jsonSchema.js.
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeOf(value) === type;
+  }
+}
+
+/**
+ * Errors of a value against a schema, as "path: problem" strings - empty when it's valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+
+    for (const key of Array.isArray(schema.required) ? schema.required as string[] : []) {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(record)) {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(propertyValue, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items && typeof schema.items === 'object') {
+    value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${index}]`)));
+  }
+
+  return errors;
+}
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RelevanceScorer } from './relevance';
+import { embeddingsService } from './embeddings';
+
+vi.mock('./embeddings', () => ({
+  embeddingsService: {
+    generateEmbedding: vi.fn(),
+    generateEmbeddings: vi.fn(),
+  },
+}));
+
+const link = (path: string, text?: string) => ({ url: `https://example.com${path}`, text });
+
+describe('RelevanceScorer', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('scores anchor text above URL matches and combines several keywords', async () => {
+    const scorer = new RelevanceScorer({ keywords: ['machine learning', 'python'], threshold: 0.3 });
+    const [anchor, url, both, none] = await scorer.score([
+      link('/a', 'Intro to Machine-Learning'),
+      link('/python/setup'),
+      link('/python/machine_learning'),
+      link('/about', 'About us'),
+    ]);
+
+    expect(anchor).toBe(1);
+    expect(url).toBeCloseTo(0.6);
+    expect(both).toBeCloseTo(1 - 0.4 * 0.4);
+    expect(none).toBe(0);
+  });
+
+  it('only matches whole words', async () => {
+    const scorer = new RelevanceScorer({ keywords: ['art'], threshold: 0.3 });
+    expect(await scorer.score([link('/start', 'Get started'), link('/modern-art')])).toEqual([0, 0.6]);
+  });
+
+  it('falls back to the query words without keywords or embeddings', async () => {
+    vi.mocked(embeddingsService.generateEmbedding).mockRejectedValue(new Error('not configured'));
+    const scorer = new RelevanceScorer({ keywords: [], query: 'kubernetes operators', threshold: 0.3 });
+
+    expect(await scorer.score([link('/guides', 'Writing Kubernetes operators'), link('/blog')])).toEqual([1, 0]);
+    expect(await scorer.score([link('/kubernetes')])).toEqual([0.6]);
+    expect(embeddingsService.generateEmbedding).toHaveBeenCalledTimes(1); // Not retried after failing
+  });
+
+  it('averages keyword scores with embedding similarity to the query', async () => {
+    vi.mocked(embeddingsService.generateEmbedding).mockResolvedValue([1, 0]);
+    vi.mocked(embeddingsService.generateEmbeddings).mockResolvedValue([[1, 0], [0, 1], [-1, 0]]);
+    const scorer = new RelevanceScorer({ keywords: ['pricing'], query: 'plans and prices', threshold: 0.3 });
+
+    const scores = await scorer.score([link('/pricing', 'Pricing'), link('/team'), link('/jobs')]);
+    expect(scores).toEqual([1, 0, 0]);
+
+    await scorer.score([link('/x')]);
+    expect(embeddingsService.generateEmbedding).toHaveBeenCalledTimes(1); // The query is embedded once
+  });
+
+  it('uses similarity alone when only a query is given', async () => {
+    vi.mocked(embeddingsService.generateEmbedding).mockResolvedValue([1, 1]);
+    vi.mocked(embeddingsService.generateEmbeddings).mockResolvedValue([[1, 0]]);
+    const scorer = new RelevanceScorer({ keywords: [], query: 'anything', threshold: 0.3 });
+
+    const [score] = await scorer.score([link('/a', 'Something else')]);
+    expect(score).toBeCloseTo(Math.SQRT1_2);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Relevance scoring for topic-focused smart crawls
+ *
+ * Candidate links are scored from 0 to 1 by their anchor text and URL against the crawl's keywords
+ * and, when a query is given, by the cosine similarity of their embedding to the query's (with the
+ * selected embedding provider). A crawl with relevance settings runs best-first and stops when no
+ * queued link reaches the threshold (see CrawlFrontier minScore) or the page budget runs out.
+ */
+import type { RelevanceConfig } from '../types';
+import { embeddingsService } from './embeddings';
+
+export const DEFAULT_RELEVANCE_THRESHOLD = 0.3;
+
+// How much a keyword counts when found in the anchor text and in the URL
+const ANCHOR_MATCH = 1;
+const URL_MATCH = 0.6;
+
+// Links embedded per request
+const EMBEDDING_BATCH_SIZE = 64;
+
+export interface LinkCandidate {
+  url: string;
+  text?: string; // Anchor text
+}
+
+/**
+ * Lowercase words of a text, space-separated with a leading space, so "Machine-Learning" and
+ * "machine learning" match
+ */
+function words(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()}`;
+}
+
+/**
+ * The words of a URL's path and query
+ */
+function urlWords(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return words(decodeURIComponent(parsed.pathname + parsed.search));
+  } catch {
+    return words(url);
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export class RelevanceScorer {
+  readonly config: RelevanceConfig;
+  private keywords: string[];
+  private queryEmbedding: number[] | null = null;
+  private embeddingFailed = false;
+
+  constructor(config: RelevanceConfig) {
+    this.config = config;
+    // Without keywords the query's words stand in for them, e.g. when embeddings aren't available
+    const keywords = config.keywords.length > 0
+      ? config.keywords
+      : (config.query || '').split(/\s+/).filter(word => word.length > 2);
+    this.keywords = keywords.map(words).filter(keyword => keyword.trim());
+  }
+
+  get threshold(): number {
+    return this.config.threshold;
+  }
+
+  /**
+   * Relevance of each link, in order
+   */
+  async score(links: LinkCandidate[]): Promise<number[]> {
+    const keywordScores = links.map(link => this.keywordScore(link));
+    const similarities = await this.similarities(links);
+    if (!similarities) {
+      return keywordScores;
+    }
+    return this.config.keywords.length > 0
+      ? keywordScores.map((score, i) => (score + similarities[i]) / 2)
+      : similarities;
+  }
+
+  /**
+   * Chance-style combination of the keyword matches: any anchor match scores 1, every further
+   * URL match closes part of the remaining gap
+   */
+  private keywordScore(link: LinkCandidate): number {
+    const anchor = words(link.text || '');
+    const url = urlWords(link.url);
+    const miss = this.keywords.reduce((product, keyword) => {
+      const match = anchor.includes(keyword) ? ANCHOR_MATCH : url.includes(keyword) ? URL_MATCH : 0;
+      return product * (1 - match);
+    }, 1);
+    return 1 - miss;
+  }
+
+  /**
+   * Similarity of each link's anchor text and URL to the query, or null without a query or when
+   * embeddings fail - the crawl then goes on with keyword scores
+   */
+  private async similarities(links: LinkCandidate[]): Promise<number[] | null> {
+    if (!this.config.query?.trim() || this.embeddingFailed || links.length === 0) {
+      return null;
+    }
+
+    try {
+      const queryEmbedding = this.queryEmbedding || await embeddingsService.generateEmbedding(this.config.query);
+      this.queryEmbedding = queryEmbedding;
+      const similarities: number[] = [];
+      for (let i = 0; i < links.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = links.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const embeddings = await embeddingsService.generateEmbeddings(
+          batch.map(link => `${link.text || ''}${urlWords(link.url)}`.trim() || link.url)
+        );
+        similarities.push(...embeddings.map(embedding => Math.max(0, cosineSimilarity(embedding, queryEmbedding))));
+      }
+      return similarities;
+    } catch (error) {
+      console.warn('⚠️ Embedding relevance unavailable, scoring links by keywords only:', error);
+      this.embeddingFailed = true;
+      return null;
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RobotsTxt, SITE_STATUS_HEADER, fetchRobotsTxt } from './robots';
+
+const ROBOTS = `
+User-agent: *
+Disallow: /private/
+Allow: /private/public-*
+Disallow: /*.pdf$
+Crawl-delay: 2
+
+User-agent: Crawl4AI
+User-agent: OtherBot
+Disallow: /no-crawl4ai
+Crawl-delay: 5
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+const url = (path: string) => `https://example.com${path}`;
+
+describe('RobotsTxt', () => {
+  const robots = RobotsTxt.parse(ROBOTS);
+
+  it('picks the longest matching rule, Allow winning ties', () => {
+    expect(robots.isAllowed(url('/private/secret'), 'SomeBot')).toBe(false);
+    expect(robots.isAllowed(url('/private/public-page'), 'SomeBot')).toBe(true);
+    expect(robots.isAllowed(url('/docs'), 'SomeBot')).toBe(true);
+    expect(RobotsTxt.parse('User-agent: *\nDisallow: /page\nAllow: /page').isAllowed(url('/page'), 'Bot')).toBe(true);
+  });
+
+  it('supports wildcards and the $ anchor', () => {
+    expect(robots.isAllowed(url('/files/guide.pdf'), 'SomeBot')).toBe(false);
+    expect(robots.isAllowed(url('/files/guide.pdf?download=1'), 'SomeBot')).toBe(true);
+  });
+
+  it('uses the most specific user-agent group only', () => {
+    expect(robots.isAllowed(url('/private/secret'), 'Mozilla/5.0 (compatible; Crawl4AI/1.0)')).toBe(true);
+    expect(robots.isAllowed(url('/no-crawl4ai'), 'Mozilla/5.0 (compatible; Crawl4AI/1.0)')).toBe(false);
+    expect(robots.getCrawlDelay('Crawl4AI')).toBe(5);
+    expect(robots.getCrawlDelay('SomeBot')).toBe(2);
+    expect(robots.ruleCount('SomeBot')).toBe(3);
+  });
+
+  it('always allows robots.txt itself and collects sitemaps', () => {
+    expect(RobotsTxt.parse('User-agent: *\nDisallow: /').isAllowed(url('/robots.txt'), 'Bot')).toBe(true);
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+  });
+
+  it('compares percent-encoded paths', () => {
+    const encoded = RobotsTxt.parse('User-agent: *\nDisallow: /caf%C3%A9');
+    expect(encoded.isAllowed(url('/café'), 'Bot')).toBe(false);
+  });
+});
+
+describe('fetchRobotsTxt', () => {
+  const respond = (status: number, body = '', headers: Record<string, string> = {}) =>
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { status, headers })));
+  const blocksEverything = (robots: RobotsTxt) => !robots.isAllowed(url('/page'), 'Bot');
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('follows RFC 9309 for the site status in direct mode', async () => {
+    respond(404);
+    expect(blocksEverything(await fetchRobotsTxt('https://example.com', false))).toBe(false);
+    respond(503);
+    expect(blocksEverything(await fetchRobotsTxt('https://example.com', false))).toBe(true);
+    respond(200, 'User-agent: *\nDisallow: /page');
+    expect(blocksEverything(await fetchRobotsTxt('https://example.com', false))).toBe(true);
+  });
+
+  it('reads the site status the proxy passes through', async () => {
+    respond(503, '', { [SITE_STATUS_HEADER]: '503' });
+    expect(blocksEverything(await fetchRobotsTxt('https://example.com', true))).toBe(true);
+    respond(410, '', { [SITE_STATUS_HEADER]: '410' });
+    expect(blocksEverything(await fetchRobotsTxt('https://example.com', true))).toBe(false);
+  });
+
+  it("doesn't mistake the proxy's own errors for the site's", async () => {
+    respond(502, JSON.stringify({ error: 'robots request failed' }));
+    expect(blocksEverything(await fetchRobotsTxt('https://example.com', true))).toBe(false);
+    respond(500, 'Crawl proxy is not configured');
+    expect(blocksEverything(await fetchRobotsTxt('https://example.com', true))).toBe(false);
+  });
+
+  it('allows everything when robots.txt cannot be fetched', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    expect(blocksEverything(await fetchRobotsTxt('https://example.com', false))).toBe(false);
+  });
+});
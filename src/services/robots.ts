@@ -0,0 +1,229 @@
+/**
+ * robots.txt parsing and matching (RFC 9309)
+ *
+ * - Rules are grouped by User-agent; consecutive User-agent lines share one group
+ * - The most specific matching user-agent group wins, falling back to `*`
+ * - The longest matching Allow/Disallow pattern wins, Allow wins ties
+ * - Patterns support `*` wildcards and a trailing `$` end anchor
+ */
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export class RobotsTxt {
+  readonly sitemaps: string[];
+  private groups: RobotsGroup[];
+
+  private constructor(groups: RobotsGroup[], sitemaps: string[]) {
+    this.groups = groups;
+    this.sitemaps = sitemaps;
+  }
+
+  /**
+   * Parse robots.txt content. Unknown directives and malformed lines are ignored.
+   */
+  static parse(content: string): RobotsTxt {
+    const groups: RobotsGroup[] = [];
+    const sitemaps: string[] = [];
+    let current: RobotsGroup | null = null;
+    let collectingAgents = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+
+      const key = line.substring(0, separator).trim().toLowerCase();
+      const value = line.substring(separator + 1).trim();
+
+      switch (key) {
+        case 'user-agent':
+          if (!current || !collectingAgents) {
+            current = { userAgents: [], rules: [] };
+            groups.push(current);
+          }
+          current.userAgents.push(value.toLowerCase());
+          collectingAgents = true;
+          break;
+
+        case 'allow':
+        case 'disallow':
+          collectingAgents = false;
+          // An empty Disallow means "allow everything" and adds no rule
+          if (current && value) {
+            current.rules.push({ allow: key === 'allow', pattern: value, regex: RobotsTxt.patternToRegex(value) });
+          }
+          break;
+
+        case 'crawl-delay': {
+          collectingAgents = false;
+          const delay = parseFloat(value);
+          if (current && !isNaN(delay) && delay >= 0) {
+            current.crawlDelay = delay;
+          }
+          break;
+        }
+
+        case 'sitemap':
+          // Sitemap lines are global and not part of any group
+          if (value) {
+            sitemaps.push(value);
+          }
+          break;
+      }
+    }
+
+    return new RobotsTxt(groups, sitemaps);
+  }
+
+  /**
+   * A robots.txt that allows everything - used when the file is missing or unreachable
+   */
+  static allowAll(): RobotsTxt {
+    return new RobotsTxt([], []);
+  }
+
+  /**
+   * Check whether the user agent may fetch the URL
+   */
+  isAllowed(url: string, userAgent: string): boolean {
+    let path: string;
+    try {
+      const parsed = new URL(url);
+      path = parsed.pathname + parsed.search;
+    } catch {
+      return true;
+    }
+
+    if (path === '/robots.txt') {
+      return true;
+    }
+
+    let best: RobotsRule | null = null;
+    for (const rule of this.rulesFor(userAgent)) {
+      if (!rule.regex.test(path)) {
+        continue;
+      }
+      if (
+        !best ||
+        rule.pattern.length > best.pattern.length ||
+        (rule.pattern.length === best.pattern.length && rule.allow)
+      ) {
+        best = rule;
+      }
+    }
+
+    return best ? best.allow : true;
+  }
+
+  /**
+   * Crawl-delay in seconds for the user agent, if the site sets one
+   */
+  getCrawlDelay(userAgent: string): number | undefined {
+    const delays = this.matchingGroups(userAgent)
+      .map(group => group.crawlDelay)
+      .filter((delay): delay is number => delay !== undefined);
+    return delays.length > 0 ? Math.max(...delays) : undefined;
+  }
+
+  /**
+   * Number of Allow/Disallow rules that apply to the user agent
+   */
+  ruleCount(userAgent: string): number {
+    return this.rulesFor(userAgent).length;
+  }
+
+  private rulesFor(userAgent: string): RobotsRule[] {
+    return this.matchingGroups(userAgent).flatMap(group => group.rules);
+  }
+
+  /**
+   * Groups for the longest user-agent token contained in our user agent, else the `*` groups.
+   * Several groups naming the same agent are combined, as RFC 9309 requires.
+   */
+  private matchingGroups(userAgent: string): RobotsGroup[] {
+    const agent = userAgent.toLowerCase();
+    let bestToken = '';
+
+    for (const group of this.groups) {
+      for (const token of group.userAgents) {
+        if (token !== '*' && agent.includes(token) && token.length > bestToken.length) {
+          bestToken = token;
+        }
+      }
+    }
+
+    const target = bestToken || '*';
+    return this.groups.filter(group => group.userAgents.includes(target));
+  }
+
+  private static patternToRegex(pattern: string): RegExp {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split('*')
+      .map(part => RobotsTxt.normalizeEncoding(part).replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+  }
+
+  /**
+   * Percent-encode the pattern the same way URL.pathname is encoded so both sides compare equally
+   */
+  private static normalizeEncoding(value: string): string {
+    try {
+      return encodeURI(decodeURI(value));
+    } catch {
+      return value;
+    }
+  }
+}
+
+/** Header the /api/site function puts the site's own status in - a response without it is the proxy's error */
+export const SITE_STATUS_HEADER = 'X-Site-Status';
+
+/**
+ * Fetch and parse robots.txt for an origin.
+ * In proxy mode the /api/site function fetches it server-side (no CORS); in direct mode the
+ * browser fetches it and falls back to allow-all when the site does not send CORS headers.
+ * Per RFC 9309 a 4xx means "no restrictions" and a 5xx means "disallow everything". A proxy
+ * failure says nothing about the site, so it is handled like a network error.
+ */
+export async function fetchRobotsTxt(origin: string, viaProxy: boolean): Promise<RobotsTxt> {
+  const requestUrl = viaProxy
+    ? `/api/site/robots?url=${encodeURIComponent(origin)}`
+    : `${origin}/robots.txt`;
+
+  try {
+    const response = await fetch(requestUrl);
+    const status = viaProxy ? Number(response.headers.get(SITE_STATUS_HEADER)) : response.status;
+
+    if (!status) {
+      console.warn(`⚠️ robots.txt proxy failed for ${origin} (${response.status}), no restrictions applied`);
+      return RobotsTxt.allowAll();
+    }
+    if (status >= 500) {
+      console.warn(`⚠️ robots.txt for ${origin} returned ${status}, treating site as disallowed`);
+      return RobotsTxt.parse('User-agent: *\nDisallow: /');
+    }
+    if (status >= 400) {
+      console.log(`ℹ️ No robots.txt for ${origin} (${status}), no restrictions apply`);
+      return RobotsTxt.allowAll();
+    }
+
+    return RobotsTxt.parse(await response.text());
+  } catch (error) {
+    console.warn(`⚠️ Could not fetch robots.txt for ${origin}, no restrictions applied:`, error);
+    return RobotsTxt.allowAll();
+  }
+}
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import type { EmbeddingProviderType } from './embeddingProviders';
 
 export interface AppSettings {
   totalMissions: number;
@@ -9,6 +10,8 @@ export interface AppSettings {
     defaultCrawlType: 'single' | 'smart_site';
     maxPagesPerSite: number;
     enableEmbeddings: boolean;
+    embeddingProvider: EmbeddingProviderType;
+    embeddingModel: string; // Empty string uses the provider's default model
   };
   uiPreferences: {
     defaultTab: string;
@@ -30,6 +33,8 @@ const DEFAULT_SETTINGS: AppSettings = {
     defaultCrawlType: 'single',
     maxPagesPerSite: 10,
     enableEmbeddings: true,
+    embeddingProvider: (import.meta.env.VITE_EMBEDDING_PROVIDER || 'openai') as EmbeddingProviderType,
+    embeddingModel: '',
   },
   uiPreferences: {
     defaultTab: 'crawl',
@@ -61,13 +66,27 @@ class SettingsService {
       if (stored) {
         const parsed = JSON.parse(stored);
         // Merge with defaults to handle new settings added over time
-        return { ...DEFAULT_SETTINGS, ...parsed };
+        return this.mergeWithDefaults(parsed);
       }
     } catch (error) {
       console.warn('Failed to load settings from localStorage:', error);
     }
     
-    return { ...DEFAULT_SETTINGS };
+    return this.mergeWithDefaults({});
+  }
+
+  /**
+   * Merge stored settings with defaults, including nested preference groups,
+   * so preferences added in newer versions get their default values
+   */
+  private mergeWithDefaults(stored: Partial<AppSettings>): AppSettings {
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      crawlPreferences: { ...DEFAULT_SETTINGS.crawlPreferences, ...stored.crawlPreferences },
+      uiPreferences: { ...DEFAULT_SETTINGS.uiPreferences, ...stored.uiPreferences },
+      stats: { ...DEFAULT_SETTINGS.stats, ...stored.stats },
+    };
   }
 
   /**
@@ -136,7 +155,7 @@ class SettingsService {
       }
 
       // Merge remote settings with current settings
-      this.settings = { ...DEFAULT_SETTINGS, ...data.settings };
+      this.settings = this.mergeWithDefaults(data.settings);
       localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.settings));
       console.log('✅ Settings loaded from Supabase');
       return true;
@@ -256,7 +275,7 @@ class SettingsService {
   importSettings(settingsJson: string): boolean {
     try {
       const imported = JSON.parse(settingsJson);
-      this.settings = { ...DEFAULT_SETTINGS, ...imported };
+      this.settings = this.mergeWithDefaults(imported);
       this.saveSettings();
       console.log('✅ Settings imported successfully');
       return true;
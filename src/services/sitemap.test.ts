@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { discoverSitemapEntries, parseSitemap } from './sitemap';
+
+describe('parseSitemap', () => {
+  it('reads urlset entries with lastmod and a clamped priority', () => {
+    const parsed = parseSitemap(`<?xml version="1.0"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+        <url>
+          <image:image><image:loc>https://example.com/photo.jpg</image:loc></image:image>
+          <loc>https://example.com/a?x=1&amp;y=2</loc>
+          <lastmod>2026-01-02</lastmod>
+          <priority>1.5</priority>
+        </url>
+        <url><loc><![CDATA[https://example.com/b]]></loc><priority>oops</priority></url>
+        <url><lastmod>2026-01-03</lastmod></url>
+      </urlset>`);
+
+    expect(parsed.type).toBe('urlset');
+    expect(parsed.entries).toEqual([
+      { url: 'https://example.com/a?x=1&y=2', lastmod: '2026-01-02', priority: 1 },
+      { url: 'https://example.com/b', lastmod: undefined, priority: undefined },
+    ]);
+  });
+
+  it('reads namespaced sitemap indexes', () => {
+    const parsed = parseSitemap(`<sm:sitemapindex xmlns:sm="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <sm:sitemap><sm:loc>https://example.com/pages.xml</sm:loc></sm:sitemap>
+      </sm:sitemapindex>`);
+    expect(parsed).toEqual({ type: 'sitemapindex', entries: [{ url: 'https://example.com/pages.xml', lastmod: undefined, priority: undefined }] });
+  });
+});
+
+describe('discoverSitemapEntries', () => {
+  const files: Record<string, string> = {
+    'https://example.com/sitemap.xml': '<sitemapindex><sitemap><loc>https://example.com/one.xml</loc></sitemap><sitemap><loc>https://example.com/broken.xml</loc></sitemap><sitemap><loc>https://example.com/two.xml</loc></sitemap></sitemapindex>',
+    'https://example.com/one.xml': '<urlset><url><loc>https://example.com/a</loc></url><url><loc>https://example.com/b</loc></url></urlset>',
+    'https://example.com/two.xml': '<urlset><url><loc>https://example.com/b</loc></url><url><loc>https://example.com/c</loc></url></urlset>',
+  };
+  const requested: string[] = [];
+
+  beforeEach(() => {
+    requested.length = 0;
+    vi.stubGlobal('fetch', vi.fn(async (input: string) => {
+      requested.push(input);
+      const url = input.startsWith('/api/site/') ? new URL(input, 'https://app.example').searchParams.get('url') ?? '' : input;
+      return url in files ? new Response(files[url]) : new Response('', { status: 404 });
+    }));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to /sitemap.xml, follows indexes, skips broken files and dedupes', async () => {
+    const entries = await discoverSitemapEntries('https://example.com', [], false, 100);
+    expect(entries.map(entry => entry.url)).toEqual(['https://example.com/a', 'https://example.com/b', 'https://example.com/c']);
+  });
+
+  it('stops at maxUrls', async () => {
+    const entries = await discoverSitemapEntries('https://example.com', ['https://example.com/one.xml'], false, 1);
+    expect(entries.map(entry => entry.url)).toEqual(['https://example.com/a']);
+  });
+
+  it('goes through /api/site in proxy mode, naming the site', async () => {
+    await discoverSitemapEntries('https://example.com', ['https://example.com/one.xml'], true, 100);
+    expect(requested).toEqual([
+      `/api/site/sitemap?url=${encodeURIComponent('https://example.com/one.xml')}&site=${encodeURIComponent('https://example.com')}`,
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Sitemap discovery (sitemaps.org protocol)
+ *
+ * Follows sitemap indexes, reads gzip sitemaps and the Sitemap: lines from robots.txt,
+ * and keeps lastmod/priority so the crawler can rank pages.
+ */
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: string;
+  priority?: number;
+}
+
+export interface ParsedSitemap {
+  type: 'urlset' | 'sitemapindex';
+  entries: SitemapEntry[];
+}
+
+const MAX_SITEMAPS = 50; // Upper bound on sitemap files fetched per crawl (indexes included)
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function readTag(block: string, tag: string): string | undefined {
+  // Prefer the unprefixed tag so extension tags such as <image:loc> don't shadow the page <loc>
+  const match =
+    block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i')) ||
+    block.match(new RegExp(`<\\w+:${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</\\w+:${tag}>`, 'i'));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * Parse a <urlset> or <sitemapindex> document. Namespace prefixes are ignored.
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const type = /<(?:\w+:)?sitemapindex[\s>]/i.test(xml) ? 'sitemapindex' : 'urlset';
+  const blockTag = type === 'sitemapindex' ? 'sitemap' : 'url';
+  const blockPattern = new RegExp(`<(?:\\w+:)?${blockTag}[\\s>][\\s\\S]*?</(?:\\w+:)?${blockTag}>`, 'gi');
+
+  const entries: SitemapEntry[] = [];
+  for (const block of xml.match(blockPattern) || []) {
+    const url = readTag(block, 'loc');
+    if (!url) {
+      continue;
+    }
+
+    const priority = parseFloat(readTag(block, 'priority') || '');
+    entries.push({
+      url,
+      lastmod: readTag(block, 'lastmod'),
+      priority: isNaN(priority) ? undefined : Math.min(1, Math.max(0, priority)),
+    });
+  }
+
+  return { type, entries };
+}
+
+/**
+ * Fetch one sitemap of a site as text, decompressing .gz files.
+ * In proxy mode the /api/site function fetches (and gunzips) it server-side - only sitemaps on the
+ * site's host, listed in its robots.txt or listed by a sitemap index it fetched for the site.
+ */
+async function fetchSitemapXml(sitemapUrl: string, origin: string, viaProxy: boolean): Promise<string> {
+  const requestUrl = viaProxy
+    ? `/api/site/sitemap?url=${encodeURIComponent(sitemapUrl)}&site=${encodeURIComponent(origin)}`
+    : sitemapUrl;
+  const response = await fetch(requestUrl);
+  if (!response.ok) {
+    throw new Error(`Sitemap request failed with status ${response.status}`);
+  }
+
+  const buffer = await response.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+
+  // gzip magic number - Content-Encoding: gzip is already decoded by the browser
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'));
+    return await new Response(stream).text();
+  }
+
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Collect page entries from the site's sitemaps.
+ * Starts from the robots.txt Sitemap: lines, or /sitemap.xml when there are none, and follows
+ * sitemap indexes breadth-first. Failures are logged and skipped so discovery never aborts a crawl.
+ */
+export async function discoverSitemapEntries(
+  origin: string,
+  robotsSitemaps: string[],
+  viaProxy: boolean,
+  maxUrls: number
+): Promise<SitemapEntry[]> {
+  const queue = robotsSitemaps.length > 0 ? [...robotsSitemaps] : [`${origin}/sitemap.xml`];
+  const visited = new Set<string>();
+  const entries = new Map<string, SitemapEntry>();
+
+  while (queue.length > 0 && visited.size < MAX_SITEMAPS && entries.size < maxUrls) {
+    const sitemapUrl = queue.shift()!;
+    if (visited.has(sitemapUrl)) {
+      continue;
+    }
+    visited.add(sitemapUrl);
+
+    try {
+      const parsed = parseSitemap(await fetchSitemapXml(sitemapUrl, origin, viaProxy));
+      console.log(`🗺️ Sitemap ${sitemapUrl}: ${parsed.entries.length} ${parsed.type === 'sitemapindex' ? 'child sitemaps' : 'URLs'}`);
+
+      if (parsed.type === 'sitemapindex') {
+        queue.push(...parsed.entries.map(entry => entry.url));
+        continue;
+      }
+
+      for (const entry of parsed.entries) {
+        if (entries.size >= maxUrls) {
+          break;
+        }
+        if (!entries.has(entry.url)) {
+          entries.set(entry.url, entry);
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not read sitemap ${sitemapUrl}:`, error);
+    }
+  }
+
+  return Array.from(entries.values());
+}
@@ -1,9 +1,36 @@
 import { createClient } from '@supabase/supabase-js';
-import type { CrawlJob, CrawlResult, SearchQuery } from '../types';
-import { embeddingsService } from './embeddings';
+import type {
+  CrawlAsset,
+  CrawlCheckpoint,
+  CrawlJob,
+  CrawlResult,
+  CrawlSchedule,
+  CrawlScheduleRun,
+  CrawledPageMetadata,
+  ExtractionSchema,
+  PageCaptures,
+  PageVersion,
+  SearchQuery,
+  UrlRuleSet
+} from '../types';
+import { embeddingsService, type EmbeddedChunk } from './embeddings';
+import { assertEmbeddingDimensions } from './embeddingProviders';
+import { normalizeUrl } from './urlNormalizer';
+import {
+  contentHash,
+  duplicateCandidateFilter,
+  fingerprintContent,
+  nearestDuplicate,
+  simhashBands,
+  type ContentFingerprint,
+  type NearDuplicate,
+  type StoredFingerprint
+} from './contentHash';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
+// 'server' sends crawl results to /api/ingest so the browser only needs read access
+const ingestMode = import.meta.env.VITE_INGEST_MODE === 'server' ? 'server' : 'browser';
 // Direct connection to Supabase (simplified)
 const effectiveSupabaseUrl = supabaseUrl;
 
@@ -31,6 +58,103 @@ export interface Document {
   updated_at?: string;
 }
 
+// crawled_pages rows, one per chunk - see docs/sql_files/crawled_pages.sql
+interface CrawledPageRow {
+  id?: number;
+  url: string;
+  chunk_number: number;
+  content: string;
+  metadata: CrawledPageMetadata;
+  embedding?: number[] | null;
+}
+
+// match_crawled_pages results
+interface CrawledPageMatchRow extends CrawledPageRow {
+  similarity: number;
+}
+
+// crawl_schedules / crawl_schedule_runs rows - see docs/sql_files/crawl_schedules.sql
+interface CrawlScheduleRow {
+  id: string;
+  name: string;
+  url: string;
+  crawl_type: CrawlSchedule['crawlType'];
+  options: CrawlSchedule['options'] | null;
+  cron: string;
+  enabled: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_run_status: CrawlSchedule['lastRunStatus'] | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface CrawlScheduleRunRow {
+  id: string;
+  schedule_id: string;
+  status: CrawlScheduleRun['status'];
+  pages_crawled: number | null;
+  added: string[] | null;
+  changed: string[] | null;
+  removed: string[] | null;
+  failed: string[] | null;
+  unchanged_count: number | null;
+  error: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+// page_versions rows - see docs/sql_files/page_versions.sql
+interface PageVersionRow {
+  id: string;
+  table_name: string;
+  url: string;
+  content_hash: string | null;
+  title: string | null;
+  content?: string;
+  content_length: number | null;
+  crawl_id: string | null;
+  crawled_at: string;
+}
+
+// extraction_schemas rows - see docs/sql_files/extraction_schemas.sql
+interface ExtractionSchemaRow {
+  domain: string;
+  name: string;
+  mode: ExtractionSchema['mode'] | null;
+  selector_type: ExtractionSchema['selectorType'];
+  base_selector: string | null;
+  fields: ExtractionSchema['fields'] | null;
+  llm_config: ExtractionSchema['llm'] | null;
+  updated_at: string;
+}
+
+// crawl_assets rows - see docs/sql_files/crawl_assets.sql
+interface CrawlAssetRow {
+  job_id: string;
+  url: string;
+  type: CrawlAsset['type'];
+  extension: string | null;
+  source_url: string;
+  text: string | null;
+  size_bytes: number | null;
+  content_type: string | null;
+  converted_at: string | null;
+  conversion_error: string | null;
+  created_at: string;
+}
+
+// url_rule_sets rows - see docs/sql_files/url_rule_sets.sql
+interface UrlRuleSetRow {
+  domain: string;
+  rules: UrlRuleSet['rules'] | null;
+  query_params: UrlRuleSet['queryParams'] | null;
+  allowed_query_params: string[] | null;
+  updated_at: string;
+}
+
+const PAGE_VERSION_SUMMARY_COLUMNS = 'id, table_name, url, content_hash, title, content_length, crawl_id, crawled_at';
+
 export class SupabaseService {
   private currentTable: string = 'crawled_pages';
 
@@ -160,6 +284,8 @@ export class SupabaseService {
   }
 
   async saveCrawlResultAsDocument(crawlResult: CrawlResult): Promise<Document> {
+    // Pages are stored under their normalized URL, so every form of a URL updates the same rows
+    crawlResult = { ...crawlResult, url: normalizeUrl(crawlResult.url) };
     try {
       console.log('💾 Saving crawl result to crawled_pages table with embeddings...');
       console.log('📊 Crawl result structure:', {
@@ -186,86 +312,125 @@ export class SupabaseService {
         console.log('⚠️ No markdown field in crawl result');
       }
       
-      // Prepare content for embedding (prioritize fit_markdown, then raw_markdown, then content)
+      if (ingestMode === 'server') {
+        return await this.ingestViaApi(crawlResult);
+      }
+
+      // Prepare content for storage (prioritize fit_markdown, then raw_markdown, then content)
       const markdownContent = crawlResult.fitMarkdown || crawlResult.rawMarkdown || crawlResult.markdown || crawlResult.content || '';
-      const textForEmbedding = [
-        crawlResult.metadata?.title || '',
-        markdownContent
-      ].filter(Boolean).join('\n\n');
+      const title = crawlResult.metadata?.title || new URL(crawlResult.url).hostname;
+      const fingerprint = markdownContent.trim() ? await fingerprintContent(markdownContent) : null;
+
+      // An unchanged page keeps its rows and embeddings - nothing to embed or write
+      if (fingerprint) {
+        const stored = await this.getStoredPage(crawlResult.url);
+        if (stored && this.isStoredPageCurrent(stored, fingerprint.contentHash)) {
+          console.log('⏭️ Content unchanged since the last save, skipping embedding and upsert:', crawlResult.url);
+          return stored;
+        }
+      }
+
+      const duplicate = fingerprint ? await this.findNearDuplicate(crawlResult.url, fingerprint) : null;
+
+      // Split the page into chunks - each chunk becomes its own row keyed by (url, chunk_number)
+      const chunks = markdownContent.trim() ? embeddingsService.chunkText(markdownContent) : [''];
+      let embeddedChunks: EmbeddedChunk[] = [];
+      let embeddingFailed = false;
 
-      let embedding: number[] | undefined;
-      
       console.log('🧠 Embedding generation check:', {
         embeddingsConfigured: embeddingsService.isConfigured(),
-        hasTextForEmbedding: !!textForEmbedding.trim(),
-        textLength: textForEmbedding.length,
-        textSample: textForEmbedding.substring(0, 100) + '...'
+        hasContent: !!markdownContent.trim(),
+        contentLength: markdownContent.length,
+        chunkCount: chunks.length
       });
 
-      // Generate embedding if OpenAI is configured and we have content
-      if (embeddingsService.isConfigured() && textForEmbedding.trim()) {
+      // Near-duplicates are searchable through their canonical page, so they don't need embeddings of their own
+      if (duplicate) {
+        console.log(`🔗 Near-duplicate of ${duplicate.canonicalUrl} (distance ${duplicate.distance}), saving without embeddings`);
+      } else if (embeddingsService.isConfigured() && markdownContent.trim()) {
+        // Generate one embedding per chunk if OpenAI is configured and we have content
         try {
-          console.log('🔄 Generating embedding...');
-          embedding = await embeddingsService.generateEmbedding(textForEmbedding);
-          console.log('✅ Generated embedding for crawl result:', {
-            embeddingLength: embedding?.length,
-            embeddingType: typeof embedding,
-            firstFewValues: embedding?.slice(0, 3)
+          console.log('🔄 Generating chunk embeddings...');
+          embeddedChunks = await embeddingsService.generateChunkEmbeddings(chunks, title);
+          console.log('✅ Generated embeddings for crawl result:', {
+            chunks: embeddedChunks.length,
+            embeddingLength: embeddedChunks[0]?.embedding.length
           });
         } catch (error) {
-          console.warn('⚠️ Failed to generate embedding, saving without vector data:', error);
+          console.warn('⚠️ Failed to generate embeddings, saving without vector data:', error);
+          embeddedChunks = [];
+          embeddingFailed = true;
         }
       } else {
         console.log('⚠️ OpenAI not configured or no content, saving without embeddings');
       }
+      // Vectors of another dimension would only fail the upsert with an opaque pgvector error
+      assertEmbeddingDimensions(embeddedChunks.map(chunk => chunk.embedding), embeddingsService.getProvider().model);
 
-      // Prepare document for storage in crawled_pages table (matching your schema)
-      // Use markdown as content if regular content is empty (many crawlers return better markdown)
-      // Use the best available content for storage
-      const actualContent = markdownContent || '';
-      
-      // Simplified chunk numbering - use page_index if available, otherwise 1
-      const chunkNumber = crawlResult.metadata?.page_index || 1;
-      
-      const document: any = {
-        url: crawlResult.url,
-        chunk_number: chunkNumber,
-        content: actualContent,
-        metadata: {
-          title: crawlResult.metadata?.title || new URL(crawlResult.url).hostname,
-          crawl_id: crawlResult.id,
-          crawl_status: crawlResult.status,
-          links_found: crawlResult.links?.length || 0,
-          crawled_at: crawlResult.createdAt,
-          completed_at: crawlResult.completedAt,
-          source: 'crawl4ai',
-          ...crawlResult.metadata
-        }
+      const pageMetadata = {
+        title,
+        crawl_id: crawlResult.id,
+        crawl_status: crawlResult.status,
+        links_found: crawlResult.links?.length || 0,
+        crawled_at: crawlResult.createdAt,
+        completed_at: crawlResult.completedAt,
+        source: 'crawl4ai',
+        ...crawlResult.metadata
       };
 
-      // Add embedding if available
-      if (embedding) {
-        document.embedding = embedding;
-      }
+      // Prepare one document per chunk for storage in crawled_pages table (matching your schema)
+      const documents = chunks.map((chunk, index) => {
+        const document: CrawledPageRow = {
+          url: crawlResult.url,
+          chunk_number: index + 1,
+          content: chunk,
+          metadata: {
+            ...pageMetadata,
+            total_chunks: chunks.length
+          },
+          // Always written, so changed text never keeps the vector of its previous version
+          embedding: embeddedChunks[index]?.embedding ?? null
+        };
+
+        return document;
+      });
 
-      // Add all markdown variants if available (store in metadata)
+      // Markdown variants describe the whole page, so store them once on the first chunk
+      const pageDocument = documents[0];
       if (crawlResult.rawMarkdown) {
-        document.metadata.raw_markdown = crawlResult.rawMarkdown;
+        pageDocument.metadata.raw_markdown = crawlResult.rawMarkdown;
       }
       if (crawlResult.fitMarkdown) {
-        document.metadata.fit_markdown = crawlResult.fitMarkdown;
+        pageDocument.metadata.fit_markdown = crawlResult.fitMarkdown;
       }
       if (crawlResult.markdown) {
-        document.metadata.markdown = crawlResult.markdown;
+        pageDocument.metadata.markdown = crawlResult.markdown;
+      }
+      if (embeddedChunks.length > 0) {
+        const provider = embeddingsService.getProvider();
+        pageDocument.metadata.embedding_provider = provider.type;
+        pageDocument.metadata.embedding_model = provider.model;
+      }
+      // Without a hash the page doesn't count as unchanged next time, so a failed embedding is retried
+      if (fingerprint && !embeddingFailed) {
+        pageDocument.metadata.content_hash = fingerprint.contentHash;
+        if (fingerprint.simhash) {
+          pageDocument.metadata.simhash = fingerprint.simhash;
+          pageDocument.metadata.simhash_bands = simhashBands(fingerprint.simhash);
+        }
+      }
+      if (duplicate) {
+        pageDocument.metadata.canonical_url = duplicate.canonicalUrl;
+        pageDocument.metadata.duplicate_distance = duplicate.distance;
       }
 
-      console.log('📄 Inserting crawled page:', { 
-        url: document.url, 
-        chunk_number: document.chunk_number,
-        content_length: document.content?.length || 0,
-        has_embedding: !!embedding,
-        embedding_dimensions: embedding?.length,
-        metadata_keys: Object.keys(document.metadata)
+      console.log('📄 Inserting crawled page chunks:', { 
+        url: crawlResult.url, 
+        chunks: documents.length,
+        content_length: markdownContent.length,
+        has_embeddings: embeddedChunks.length > 0,
+        embedding_dimensions: embeddedChunks[0]?.embedding.length,
+        metadata_keys: Object.keys(pageDocument.metadata)
       });
 
       console.log('📤 Attempting database upsert...');
@@ -273,26 +438,22 @@ export class SupabaseService {
       // Use upsert with URL and chunk_number as conflict resolution (matches unique constraint)
       const insertResult = await supabase
         .from(this.currentTable)
-        .upsert([document], {
+        .upsert(documents, {
           onConflict: 'url,chunk_number'
         })
         .select()
-        .single();
+        .order('chunk_number', { ascending: true });
         
       console.log('📥 Database response:', { 
-        hasData: !!insertResult.data, 
+        rows: insertResult.data?.length || 0, 
         hasError: !!insertResult.error, 
         errorCode: insertResult.error?.code 
       });
 
-      // Check if upsert succeeded
-      if (insertResult.data && !insertResult.error) {
-        console.log('✅ Successfully upserted crawled page to database');
-        return insertResult.data as Document;
-      } else if (insertResult.error) {
-        // Log the error but don't fail completely
+      if (insertResult.error) {
+        // Log the error before failing
         console.error('❌ Database upsert error:', insertResult.error);
-        console.error('Document structure attempted:', Object.keys(document));
+        console.error('Document structure attempted:', Object.keys(pageDocument));
         console.log('🔍 Error details:', {
           code: insertResult.error?.code,
           message: insertResult.error?.message,
@@ -300,17 +461,176 @@ export class SupabaseService {
           hint: insertResult.error?.hint
         });
         throw insertResult.error;
-      } else {
+      }
+
+      if (!insertResult.data || insertResult.data.length === 0) {
         // This shouldn't happen but handle it gracefully
         console.warn('⚠️ Upsert returned no data and no error');
         throw new Error('Upsert operation completed but returned no data');
       }
+
+      // Remove chunks left over from a previous, longer version of this page
+      const { error: cleanupError } = await supabase
+        .from(this.currentTable)
+        .delete()
+        .eq('url', crawlResult.url)
+        .gt('chunk_number', documents.length);
+
+      if (cleanupError) {
+        console.warn('⚠️ Failed to remove stale chunks:', cleanupError);
+      }
+
+      if (fingerprint) {
+        await this.savePageVersion(crawlResult, markdownContent, fingerprint.contentHash, title);
+      }
+
+      console.log(`✅ Successfully upserted ${insertResult.data.length} chunks to database`);
+      return insertResult.data[0] as Document;
     } catch (error) {
       console.error('❌ Failed to save crawl result as document:', error);
       throw new Error(`Failed to save to database: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Append the page's new content to its version history. Optional like crawl jobs - a missing
+   * page_versions table only loses the history, not the save.
+   */
+  private async savePageVersion(crawlResult: CrawlResult, content: string, hash: string, title: string): Promise<void> {
+    const { error } = await supabase
+      .from('page_versions')
+      .insert({
+        table_name: this.currentTable,
+        url: crawlResult.url,
+        content_hash: hash,
+        title,
+        content,
+        crawl_id: crawlResult.id,
+        crawled_at: crawlResult.completedAt || crawlResult.createdAt || new Date().toISOString()
+      });
+
+    if (error) {
+      console.warn('⚠️ Could not record page version:', error);
+    }
+  }
+
+  /**
+   * Whether a stored page already holds this content, embedded by the current provider and model.
+   * Vectors from another provider live in a different embedding space, so the page is embedded again.
+   * Must match isStoredPageCurrent in api/shared/ingestion.js.
+   */
+  private isStoredPageCurrent(stored: Document, contentHash: string): boolean {
+    const metadata = stored.metadata;
+    if (metadata?.content_hash !== contentHash) {
+      return false;
+    }
+    // Near-duplicates are searchable through their canonical page and keep no vectors of their own
+    const provider = embeddingsService.getProvider();
+    if (metadata.canonical_url || !provider.isConfigured()) {
+      return true;
+    }
+    return metadata.embedding_provider === provider.type && metadata.embedding_model === provider.model;
+  }
+
+  /**
+   * Chunk 1 of a stored page, or null if the URL hasn't been saved yet
+   */
+  private async getStoredPage(url: string): Promise<Document | null> {
+    const { data, error } = await supabase
+      .from(this.currentTable)
+      .select('id, url, content, metadata, created_at')
+      .eq('url', url)
+      .eq('chunk_number', 1)
+      .maybeSingle();
+
+    if (error) {
+      console.warn('⚠️ Could not load the stored page, saving it again:', error);
+      return null;
+    }
+    return data as Document | null;
+  }
+
+  /**
+   * Another stored page with the same or nearly the same content, resolved to its canonical URL
+   */
+  private async findNearDuplicate(url: string, fingerprint: ContentFingerprint): Promise<NearDuplicate | null> {
+    const { data, error } = await supabase
+      .from(this.currentTable)
+      .select('url, content_hash:metadata->>content_hash, simhash:metadata->>simhash, canonical_url:metadata->>canonical_url')
+      .eq('chunk_number', 1)
+      .neq('url', url)
+      .or(duplicateCandidateFilter(fingerprint))
+      .limit(50);
+
+    if (error) {
+      console.warn('⚠️ Near-duplicate lookup failed, saving as a new page:', error);
+      return null;
+    }
+    return nearestDuplicate(url, fingerprint, (data || []) as unknown as StoredFingerprint[]);
+  }
+
+  /**
+   * Upload a page's screenshot / PDF to Storage and return the metadata that links to them
+   * (screenshot_url, pdf_url, captured_at). Best effort: a failed upload only loses the capture.
+   * Uploads always go through the /api/capture function, since only the service role may write
+   * to the page-captures bucket.
+   */
+  async uploadPageCaptures(url: string, captures: PageCaptures): Promise<Record<string, string> | null> {
+    try {
+      const response = await fetch('/api/capture', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, ...captures })
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || `Capture upload failed with status ${response.status}`);
+      }
+      console.log(`📸 Stored ${Object.keys(body).length - 1} captures of ${url}`);
+      return body as Record<string, string>;
+    } catch (error) {
+      console.warn(`⚠️ Could not store captures of ${url}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Chunk, embed and upsert a crawl result server-side via the /api/ingest function
+   */
+  private async ingestViaApi(crawlResult: CrawlResult): Promise<Document> {
+    const provider = embeddingsService.getProvider();
+    console.log('📤 Sending crawl result to /api/ingest:', {
+      url: crawlResult.url,
+      table: this.currentTable,
+      embeddingProvider: provider.type
+    });
+
+    const response = await fetch('/api/ingest', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        result: crawlResult,
+        table: this.currentTable,
+        embeddingProvider: provider.type,
+        embeddingModel: provider.model
+      })
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(body.error || `Ingest request failed with status ${response.status}`);
+    }
+
+    if (body.unchanged) {
+      console.log(`⏭️ Server skipped ${body.url}: content unchanged`);
+    } else if (body.canonicalUrl) {
+      console.log(`🔗 Server saved ${body.url} as a near-duplicate of ${body.canonicalUrl}`);
+    } else {
+      console.log(`✅ Server ingested ${body.chunks} chunks (${body.embedded} embedded) for ${body.url}`);
+    }
+    return body.document as Document;
+  }
+
   async searchDocumentsByVector(query: string, limit = 10): Promise<Document[]> {
     try {
       if (!embeddingsService.isConfigured()) {
@@ -328,9 +648,10 @@ export class SupabaseService {
         ? 'match_crawled_pages' 
         : `match_${this.currentTable}`;
         
+      // Fetch extra chunks so that several matches on one page don't crowd out other pages
       const { data, error } = await supabase.rpc(matchFunction, {
         query_embedding: queryEmbedding,
-        match_count: limit,
+        match_count: limit * 4,
         filter: {} // Can be used to filter by metadata
       });
 
@@ -339,10 +660,20 @@ export class SupabaseService {
         return this.searchDocumentsByText(query, limit);
       }
 
-      console.log('✅ Vector search returned', data?.length || 0, 'results');
+      console.log('✅ Vector search returned', data?.length || 0, 'chunks');
       
+      // Keep the best-matching chunk for each parent page (results arrive ordered by similarity)
+      const bestChunks = new Map<string, CrawledPageMatchRow>();
+      const matchCounts = new Map<string, number>();
+      for (const item of (data || []) as CrawledPageMatchRow[]) {
+        matchCounts.set(item.url, (matchCounts.get(item.url) || 0) + 1);
+        if (!bestChunks.has(item.url)) {
+          bestChunks.set(item.url, item);
+        }
+      }
+
       // Convert to Document format for consistency
-      const documents = data?.map((item: any) => ({
+      const documents = Array.from(bestChunks.values()).slice(0, limit).map((item) => ({
         id: item.id?.toString(),
         url: item.url,
         title: item.metadata?.title || item.url,
@@ -350,9 +681,10 @@ export class SupabaseService {
         metadata: {
           ...item.metadata,
           chunk_number: item.chunk_number,
-          similarity: item.similarity
+          similarity: item.similarity,
+          matched_chunks: matchCounts.get(item.url) || 1
         }
-      })) || [];
+      }));
       
       return documents;
     } catch (error) {
@@ -402,6 +734,7 @@ export class SupabaseService {
         id: job.id,
         config: job.config,
         status: job.status,
+        checkpoint: job.checkpoint || null,
         created_at: job.createdAt,
         updated_at: job.updatedAt,
       }])
@@ -412,7 +745,7 @@ export class SupabaseService {
     return this.mapCrawlJob(data);
   }
 
-  async updateCrawlJob(id: string, updates: Partial<CrawlJob>): Promise<CrawlJob> {
+  async updateCrawlJob(id: string, updates: Partial<Pick<CrawlJob, 'config' | 'status' | 'checkpoint'>>): Promise<CrawlJob> {
     const { data, error } = await supabase
       .from('crawl_jobs')
       .update({
@@ -452,11 +785,14 @@ export class SupabaseService {
     return data.map(this.mapCrawlJob);
   }
 
+  /**
+   * Record a page of a crawl job. Upserts on (job_id, url) so retries overwrite the earlier status.
+   */
   async saveCrawlResult(result: CrawlResult, jobId: string): Promise<CrawlResult> {
     const { data, error } = await supabase
       .from('crawl_results')
-      .insert([{
-        id: result.id,
+      .upsert([{
+        // id is left to the database so an upsert never rewrites the primary key
         job_id: jobId,
         url: result.url,
         status: result.status,
@@ -467,7 +803,9 @@ export class SupabaseService {
         created_at: result.createdAt,
         completed_at: result.completedAt,
         error: result.error,
-      }])
+        content_hash: result.content?.trim() ? await contentHash(result.content) : null,
+        content_length: result.content?.length || result.metadata?.content_length || 0,
+      }], { onConflict: 'job_id,url' })
       .select()
       .single();
 
@@ -475,17 +813,286 @@ export class SupabaseService {
     return this.mapCrawlResult(data);
   }
 
-  async getCrawlResults(jobId: string): Promise<CrawlResult[]> {
-    const { data, error } = await supabase
+  async getCrawlResults(jobId: string, status?: CrawlResult['status']): Promise<CrawlResult[]> {
+    let query = supabase
       .from('crawl_results')
       .select('*')
-      .eq('job_id', jobId)
-      .order('created_at', { ascending: false });
+      .eq('job_id', jobId);
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false });
 
     if (error) throw error;
     return data.map(this.mapCrawlResult);
   }
 
+  /**
+   * Save the frontier and counters of a running job
+   */
+  async saveCrawlCheckpoint(jobId: string, checkpoint: CrawlCheckpoint): Promise<void> {
+    const { error } = await supabase
+      .from('crawl_jobs')
+      .update({
+        checkpoint,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', jobId);
+
+    if (error) throw error;
+  }
+
+  async getCrawlSchedules(): Promise<CrawlSchedule[]> {
+    const { data, error } = await supabase
+      .from('crawl_schedules')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data as CrawlScheduleRow[]).map(row => this.mapCrawlSchedule(row));
+  }
+
+  async saveCrawlSchedule(schedule: CrawlSchedule): Promise<CrawlSchedule> {
+    const { data, error } = await supabase
+      .from('crawl_schedules')
+      .insert([{
+        id: schedule.id,
+        name: schedule.name,
+        url: schedule.url,
+        crawl_type: schedule.crawlType,
+        options: schedule.options,
+        cron: schedule.cron,
+        enabled: schedule.enabled,
+        next_run_at: schedule.nextRunAt || null,
+        created_at: schedule.createdAt,
+        updated_at: schedule.updatedAt,
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapCrawlSchedule(data as CrawlScheduleRow);
+  }
+
+  async updateCrawlSchedule(id: string, updates: Partial<Pick<CrawlSchedule, 'enabled' | 'nextRunAt'>>): Promise<CrawlSchedule> {
+    const { data, error } = await supabase
+      .from('crawl_schedules')
+      .update({
+        ...(updates.enabled !== undefined && { enabled: updates.enabled }),
+        ...(updates.nextRunAt !== undefined && { next_run_at: updates.nextRunAt }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapCrawlSchedule(data as CrawlScheduleRow);
+  }
+
+  async deleteCrawlSchedule(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('crawl_schedules')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Latest recrawl runs, newest first - of one schedule, or of all of them
+   */
+  async getCrawlScheduleRuns(scheduleId?: string, limit = 20): Promise<CrawlScheduleRun[]> {
+    let query = supabase
+      .from('crawl_schedule_runs')
+      .select('*');
+
+    if (scheduleId) {
+      query = query.eq('schedule_id', scheduleId);
+    }
+
+    const { data, error } = await query
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data as CrawlScheduleRunRow[]).map(row => this.mapCrawlScheduleRun(row));
+  }
+
+  /**
+   * Saved versions of a page in the current table, newest first, without their content
+   */
+  async getPageVersions(url: string, limit = 50): Promise<PageVersion[]> {
+    const { data, error } = await supabase
+      .from('page_versions')
+      .select(PAGE_VERSION_SUMMARY_COLUMNS)
+      .eq('table_name', this.currentTable)
+      .eq('url', url)
+      .order('crawled_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data as PageVersionRow[]).map(row => this.mapPageVersion(row));
+  }
+
+  async getPageVersion(id: string): Promise<PageVersion> {
+    const { data, error } = await supabase
+      .from('page_versions')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return this.mapPageVersion(data as PageVersionRow);
+  }
+
+  async getExtractionSchemas(): Promise<ExtractionSchema[]> {
+    const { data, error } = await supabase
+      .from('extraction_schemas')
+      .select('*')
+      .order('domain', { ascending: true });
+
+    if (error) throw error;
+    return (data as ExtractionSchemaRow[]).map(row => this.mapExtractionSchema(row));
+  }
+
+  /**
+   * The extraction schema saved for a hostname, or null if it has none
+   */
+  async getExtractionSchema(domain: string): Promise<ExtractionSchema | null> {
+    const { data, error } = await supabase
+      .from('extraction_schemas')
+      .select('*')
+      .eq('domain', domain)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapExtractionSchema(data as ExtractionSchemaRow) : null;
+  }
+
+  /**
+   * Create or replace the extraction schema of a domain
+   */
+  async saveExtractionSchema(schema: ExtractionSchema): Promise<ExtractionSchema> {
+    const { data, error } = await supabase
+      .from('extraction_schemas')
+      .upsert([{
+        domain: schema.domain,
+        name: schema.name,
+        mode: schema.mode,
+        selector_type: schema.selectorType,
+        base_selector: schema.mode === 'selectors' ? schema.baseSelector : null,
+        fields: schema.mode === 'selectors' ? schema.fields : [],
+        llm_config: schema.mode === 'llm' ? schema.llm : null,
+        updated_at: new Date().toISOString(),
+      }], { onConflict: 'domain' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapExtractionSchema(data as ExtractionSchemaRow);
+  }
+
+  async deleteExtractionSchema(domain: string): Promise<void> {
+    const { error } = await supabase
+      .from('extraction_schemas')
+      .delete()
+      .eq('domain', domain);
+
+    if (error) throw error;
+  }
+
+  /**
+   * The URL rules saved for a hostname, or null if it has none
+   */
+  async getUrlRuleSet(domain: string): Promise<UrlRuleSet | null> {
+    const { data, error } = await supabase
+      .from('url_rule_sets')
+      .select('*')
+      .eq('domain', domain)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? this.mapUrlRuleSet(data as UrlRuleSetRow) : null;
+  }
+
+  /**
+   * Create or replace the URL rules of a domain
+   */
+  async saveUrlRuleSet(domain: string, ruleSet: UrlRuleSet): Promise<UrlRuleSet> {
+    const { data, error } = await supabase
+      .from('url_rule_sets')
+      .upsert([{
+        domain,
+        rules: ruleSet.rules,
+        query_params: ruleSet.queryParams,
+        allowed_query_params: ruleSet.allowedQueryParams?.length ? ruleSet.allowedQueryParams : null,
+        updated_at: new Date().toISOString(),
+      }], { onConflict: 'domain' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.mapUrlRuleSet(data as UrlRuleSetRow);
+  }
+
+  async deleteUrlRuleSet(domain: string): Promise<void> {
+    const { error } = await supabase
+      .from('url_rule_sets')
+      .delete()
+      .eq('domain', domain);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Add assets to a crawl's inventory. An asset already recorded for the job keeps its first entry.
+   */
+  async saveCrawlAssets(assets: CrawlAsset[]): Promise<void> {
+    const { error } = await supabase
+      .from('crawl_assets')
+      .upsert(assets.map(asset => ({
+        job_id: asset.jobId,
+        url: asset.url,
+        type: asset.type,
+        extension: asset.extension || null,
+        source_url: asset.sourceUrl,
+        text: asset.text || null,
+        size_bytes: asset.sizeBytes ?? null,
+        content_type: asset.contentType || null,
+        converted_at: asset.convertedAt || null,
+        conversion_error: asset.conversionError || null,
+        created_at: asset.createdAt,
+      })), { onConflict: 'job_id,url', ignoreDuplicates: true });
+
+    if (error) throw error;
+  }
+
+  /**
+   * The asset inventory of a crawl job, or everything recorded as found on one page
+   */
+  async getCrawlAssets(filter: { jobId?: string; sourceUrl?: string }, limit = 500): Promise<CrawlAsset[]> {
+    let query = supabase
+      .from('crawl_assets')
+      .select('*');
+
+    if (filter.jobId) {
+      query = query.eq('job_id', filter.jobId);
+    }
+    if (filter.sourceUrl) {
+      query = query.eq('source_url', filter.sourceUrl);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data as CrawlAssetRow[]).map(row => this.mapCrawlAsset(row));
+  }
+
   async searchContent(query: string, limit = 10): Promise<CrawlResult[]> {
     const { data, error } = await supabase
       .from('crawl_results')
@@ -519,11 +1126,97 @@ export class SupabaseService {
       config: data.config,
       status: data.status,
       results: [],
+      checkpoint: data.checkpoint || undefined,
       createdAt: data.created_at,
       updatedAt: data.updated_at,
     };
   }
 
+  private mapCrawlSchedule(row: CrawlScheduleRow): CrawlSchedule {
+    return {
+      id: row.id,
+      name: row.name,
+      url: row.url,
+      crawlType: row.crawl_type,
+      options: row.options || {},
+      cron: row.cron,
+      enabled: row.enabled,
+      nextRunAt: row.next_run_at || undefined,
+      lastRunAt: row.last_run_at || undefined,
+      lastRunStatus: row.last_run_status || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapCrawlScheduleRun(row: CrawlScheduleRunRow): CrawlScheduleRun {
+    return {
+      id: row.id,
+      scheduleId: row.schedule_id,
+      status: row.status,
+      pagesCrawled: row.pages_crawled || 0,
+      added: row.added || [],
+      changed: row.changed || [],
+      removed: row.removed || [],
+      failed: row.failed || [],
+      unchangedCount: row.unchanged_count || 0,
+      error: row.error || undefined,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at || undefined,
+    };
+  }
+
+  private mapExtractionSchema(row: ExtractionSchemaRow): ExtractionSchema {
+    return {
+      domain: row.domain,
+      name: row.name,
+      mode: row.mode || 'selectors',
+      selectorType: row.selector_type,
+      baseSelector: row.base_selector || '',
+      fields: row.fields || [],
+      llm: row.llm_config || undefined,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapUrlRuleSet(row: UrlRuleSetRow): UrlRuleSet {
+    return {
+      rules: row.rules || [],
+      queryParams: row.query_params || 'keep',
+      allowedQueryParams: row.allowed_query_params || undefined,
+    };
+  }
+
+  private mapPageVersion(row: PageVersionRow): PageVersion {
+    return {
+      id: row.id,
+      table: row.table_name,
+      url: row.url,
+      contentHash: row.content_hash || undefined,
+      title: row.title || undefined,
+      content: row.content,
+      contentLength: row.content_length ?? row.content?.length ?? 0,
+      crawlId: row.crawl_id || undefined,
+      crawledAt: row.crawled_at,
+    };
+  }
+
+  private mapCrawlAsset(row: CrawlAssetRow): CrawlAsset {
+    return {
+      jobId: row.job_id,
+      url: row.url,
+      type: row.type,
+      extension: row.extension || undefined,
+      sourceUrl: row.source_url,
+      text: row.text || undefined,
+      sizeBytes: row.size_bytes ?? undefined,
+      contentType: row.content_type || undefined,
+      convertedAt: row.converted_at || undefined,
+      conversionError: row.conversion_error || undefined,
+      createdAt: row.created_at,
+    };
+  }
+
   private mapCrawlResult(data: any): CrawlResult {
     return {
       id: data.id,
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, toSideBySide, withContext, type DiffLine } from './textDiff';
+
+const before = (lines: DiffLine[]) => lines.filter(line => line.type !== 'added').map(line => line.text).join('\n');
+const after = (lines: DiffLine[]) => lines.filter(line => line.type !== 'removed').map(line => line.text).join('\n');
+const changes = (lines: DiffLine[]) => lines.filter(line => line.type !== 'equal').length;
+
+/** Length of the longest common subsequence, to check the diff is a shortest one */
+function lcs(a: string[], b: string[]): number {
+  const row = new Array(b.length + 1).fill(0);
+  for (const line of a) {
+    let diagonal = 0;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = line === b[j - 1] ? diagonal + 1 : Math.max(row[j], row[j - 1]);
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+/** Deterministic pseudo-random texts over a few distinct lines, so they share a lot */
+function randomText(seed: number, length: number): string {
+  let state = seed;
+  const lines = [];
+  for (let i = 0; i < length; i++) {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    lines.push(String.fromCharCode(97 + (state % 4)));
+  }
+  return lines.join('\n');
+}
+
+describe('diffLines', () => {
+  it('marks added and removed lines with their line numbers', () => {
+    expect(diffLines('a\nb\nc', 'a\nc\nd')).toEqual([
+      { type: 'equal', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'removed', text: 'b', oldLine: 2 },
+      { type: 'equal', text: 'c', oldLine: 3, newLine: 2 },
+      { type: 'added', text: 'd', newLine: 3 },
+    ]);
+  });
+
+  it('reports identical texts as unchanged', () => {
+    const lines = diffLines('one\ntwo', 'one\ntwo');
+    expect(changes(lines)).toBe(0);
+    expect(lines.map(line => line.newLine)).toEqual([1, 2]);
+  });
+
+  it('handles empty texts on either side', () => {
+    expect(diffLines('', 'new')).toEqual([
+      { type: 'removed', text: '', oldLine: 1 },
+      { type: 'added', text: 'new', newLine: 1 },
+    ]);
+    expect(after(diffLines('old\ntext', ''))).toBe('');
+  });
+
+  it('finds a shortest edit script that rebuilds both texts', () => {
+    for (let seed = 1; seed <= 40; seed++) {
+      const a = randomText(seed, 5 + (seed % 17));
+      const b = randomText(seed * 7919, 3 + (seed % 23));
+      const lines = diffLines(a, b);
+
+      expect(before(lines)).toBe(a);
+      expect(after(lines)).toBe(b);
+      const aLines = a.split('\n');
+      const bLines = b.split('\n');
+      expect(changes(lines)).toBe(aLines.length + bLines.length - 2 * lcs(aLines, bLines));
+    }
+  });
+
+  it('shows versions too different to diff as fully replaced', () => {
+    const a = Array.from({ length: 1100 }, (_, i) => `old ${i}`).join('\n');
+    const b = Array.from({ length: 1100 }, (_, i) => `new ${i}`).join('\n');
+    const lines = diffLines(`same\n${a}\nend`, `same\n${b}\nend`);
+
+    expect(lines[0].type).toBe('equal');
+    expect(lines.slice(1, 1101).every(line => line.type === 'removed')).toBe(true);
+    expect(lines.slice(1101, 2201).every(line => line.type === 'added')).toBe(true);
+    expect(lines[lines.length - 1]).toEqual({ type: 'equal', text: 'end', oldLine: 1102, newLine: 1102 });
+  });
+});
+
+describe('withContext', () => {
+  it('folds unchanged lines away from changes into gaps', () => {
+    const a = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+    const b = [...a];
+    b[10] = 'changed';
+    const folded = withContext(diffLines(a.join('\n'), b.join('\n')), 2);
+
+    expect(folded[0]).toEqual({ type: 'gap', count: 8 });
+    expect(folded.slice(1, -1).map(line => (line as DiffLine).text))
+      .toEqual(['line 8', 'line 9', 'line 10', 'changed', 'line 11', 'line 12']);
+    expect(folded[folded.length - 1]).toEqual({ type: 'gap', count: 7 });
+  });
+
+  it('keeps everything when the whole text is within context', () => {
+    expect(withContext(diffLines('a\nb', 'a\nc'))).toHaveLength(3);
+  });
+});
+
+describe('toSideBySide', () => {
+  it('pairs removed lines with the added lines that replaced them', () => {
+    const rows = toSideBySide(diffLines('a\nb\nc\nd', 'a\nB\nd\ne'));
+    expect(rows.map(row => [row.left?.text, row.right?.text])).toEqual([
+      ['a', 'a'],
+      ['b', 'B'],
+      ['c', undefined],
+      ['d', 'd'],
+      [undefined, 'e'],
+    ]);
+  });
+});
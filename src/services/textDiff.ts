@@ -0,0 +1,188 @@
+/**
+ * Line diff for comparing page versions (Myers' O(ND) algorithm)
+ */
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+  oldLine?: number; // 1-based, absent for added lines
+  newLine?: number; // 1-based, absent for removed lines
+}
+
+/** A run of unchanged lines hidden between hunks */
+export interface DiffGap {
+  type: 'gap';
+  count: number;
+}
+
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Past this many edits the trace gets too big to keep; the versions are shown as fully replaced instead
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Shortest edit script between two line lists, or null when it's longer than MAX_EDIT_DISTANCE
+ */
+function myers(a: string[], b: string[]): Array<Pick<DiffLine, 'type' | 'text'>> | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d-1..d+1] as it was before step d, which is all backtracking needs
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): Array<Pick<DiffLine, 'type' | 'text'>> {
+  const edits: Array<Pick<DiffLine, 'type' | 'text'>> = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: 'equal', text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      edits.push(x === prevX ? { type: 'added', text: b[y - 1] } : { type: 'removed', text: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Most versions differ in a few places, so take the common head and tail off before diffing
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) {
+    head++;
+  }
+  let tail = 0;
+  while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) {
+    tail++;
+  }
+
+  const middleA = a.slice(head, a.length - tail);
+  const middleB = b.slice(head, b.length - tail);
+  const middle = myers(middleA, middleB) ?? [
+    ...middleA.map(text => ({ type: 'removed' as const, text })),
+    ...middleB.map(text => ({ type: 'added' as const, text }))
+  ];
+
+  const edits = [
+    ...a.slice(0, head).map(text => ({ type: 'equal' as const, text })),
+    ...middle,
+    ...a.slice(a.length - tail).map(text => ({ type: 'equal' as const, text }))
+  ];
+
+  let oldLine = 0;
+  let newLine = 0;
+  return edits.map(edit => {
+    switch (edit.type) {
+      case 'equal': return { ...edit, oldLine: ++oldLine, newLine: ++newLine };
+      case 'removed': return { ...edit, oldLine: ++oldLine };
+      default: return { ...edit, newLine: ++newLine };
+    }
+  });
+}
+
+/**
+ * Keep `context` unchanged lines around each change and fold the rest into gaps
+ */
+export function withContext(lines: DiffLine[], context = 3): Array<DiffLine | DiffGap> {
+  const keep = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, index) => {
+    if (line.type !== 'equal') {
+      for (let i = Math.max(0, index - context); i <= Math.min(lines.length - 1, index + context); i++) {
+        keep[i] = true;
+      }
+    }
+  });
+
+  const result: Array<DiffLine | DiffGap> = [];
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      result.push(line);
+    } else {
+      const last = result[result.length - 1];
+      if (last?.type === 'gap') {
+        last.count++;
+      } else {
+        result.push({ type: 'gap', count: 1 });
+      }
+    }
+  });
+  return result;
+}
+
+/**
+ * Pair removed and added lines up for a two-column view
+ */
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'removed') {
+      removed.push(line);
+    } else if (line.type === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  URL_NORMALIZATION_RULES,
+  canonicalLink,
+  canonicalPageUrl,
+  cleanUrl,
+  hostKey,
+  normalizeUrl,
+  parseNormalizationRules,
+  sameSite,
+} from './urlNormalizer';
+
+const ALL = new Set(URL_NORMALIZATION_RULES);
+const NONE = parseNormalizationRules('none');
+
+describe('parseNormalizationRules', () => {
+  it('turns every rule on when empty', () => {
+    expect(parseNormalizationRules('')).toEqual(ALL);
+    expect(parseNormalizationRules(undefined)).toEqual(ALL);
+  });
+
+  it('keeps only known rules, and none for "none"', () => {
+    expect(parseNormalizationRules(' Drop_Fragment, sort_query, bogus')).toEqual(new Set(['drop_fragment', 'sort_query']));
+    expect(NONE.size).toBe(0);
+  });
+});
+
+describe('normalizeUrl', () => {
+  it('applies every rule', () => {
+    expect(normalizeUrl('HTTPS://WWW.Example.com:443/Docs/?utm_source=x&b=2&a=1&fbclid=y#intro', ALL))
+      .toBe('https://example.com/Docs?a=1&b=2');
+  });
+
+  it('drops an empty query and keeps the root slash', () => {
+    expect(normalizeUrl('https://example.com/?utm_medium=email', ALL)).toBe('https://example.com/');
+  });
+
+  it('only lowercases scheme and host and drops default ports with no rules', () => {
+    expect(normalizeUrl('HTTP://WWW.Example.com:80/a/?b=2&a=1#x', NONE)).toBe('http://www.example.com/a/?b=2&a=1#x');
+  });
+
+  it('applies single rules on their own', () => {
+    const url = 'https://www.example.com/a/?b=2&a=1#x';
+    expect(normalizeUrl(url, new Set(['drop_fragment']))).toBe('https://www.example.com/a/?b=2&a=1');
+    expect(normalizeUrl(url, new Set(['sort_query']))).toBe('https://www.example.com/a/?a=1&b=2#x');
+    expect(normalizeUrl(url, new Set(['strip_trailing_slash']))).toBe('https://www.example.com/a?b=2&a=1#x');
+  });
+
+  it('returns invalid URLs unchanged', () => {
+    expect(normalizeUrl('not a url', ALL)).toBe('not a url');
+  });
+});
+
+describe('hosts', () => {
+  it('strips www. but not from a bare two-label domain', () => {
+    expect(hostKey('WWW.Example.com', ALL)).toBe('example.com');
+    expect(hostKey('www.com', ALL)).toBe('www.com');
+    expect(hostKey('www.example.com', NONE)).toBe('www.example.com');
+  });
+
+  it('treats www. and the bare domain as the same site', () => {
+    expect(sameSite('https://www.example.com/a', 'http://example.com/b', ALL)).toBe(true);
+    expect(sameSite('https://www.example.com/a', 'https://example.com/b', NONE)).toBe(false);
+    expect(sameSite('https://docs.example.com', 'https://example.com', ALL)).toBe(false);
+    expect(sameSite('not a url', 'https://example.com', ALL)).toBe(false);
+  });
+
+  it('keeps the linked host when cleaning a URL to fetch', () => {
+    expect(cleanUrl('https://www.example.com/a/#top', ALL)).toBe('https://www.example.com/a');
+  });
+});
+
+describe('canonical URLs', () => {
+  const page = (canonical: string) =>
+    `<html><head><title>Page</title><link href="${canonical}" rel="Canonical"></head><body></body></html>`;
+
+  it('reads the rel=canonical link in the head', () => {
+    expect(canonicalLink(page('/guide/'), 'https://example.com/guide/?ref=nav')).toBe('https://example.com/guide/');
+    expect(canonicalLink("<head><link rel='alternate stylesheet' href='/a.css'></head>", 'https://example.com')).toBeNull();
+    expect(canonicalLink('<head></head><body><link rel="canonical" href="/elsewhere"></body>', 'https://example.com')).toBeNull();
+  });
+
+  it('stores a page under its same-site canonical URL', () => {
+    const result = { url: 'https://www.example.com/guide?session=1', html: page('https://example.com/guide/') };
+    expect(canonicalPageUrl(result, ALL)).toBe('https://example.com/guide');
+  });
+
+  it('ignores cross-site canonicals and follow_canonical being off', () => {
+    const syndicated = { url: 'https://blog.example.org/post', html: page('https://news.example.com/post') };
+    expect(canonicalPageUrl(syndicated, ALL)).toBe('https://blog.example.org/post');
+
+    const rules = new Set(ALL);
+    rules.delete('follow_canonical');
+    expect(canonicalPageUrl({ url: 'https://example.com/a', html: page('/b') }, rules)).toBe('https://example.com/a');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * URL normalization and canonicalization
+ *
+ * One form of every URL is used for discovery, filtering, frontier dedupe and as the (url, chunk_number)
+ * key pages are stored under, so the same page isn't crawled or saved twice because of a fragment,
+ * tracking parameters, parameter order, www. or a trailing slash. URL parsing already lowercases the
+ * scheme and host and drops default ports; the other rules can be chosen with VITE_URL_NORMALIZATION.
+ * Must match api/shared/urlNormalizer.js.
+ */
+
+export type UrlNormalizationRule =
+  | 'drop_fragment'
+  | 'strip_tracking_params'
+  | 'sort_query'
+  | 'strip_www'
+  | 'strip_trailing_slash'
+  | 'follow_canonical';
+
+export const URL_NORMALIZATION_RULES: UrlNormalizationRule[] = [
+  'drop_fragment',
+  'strip_tracking_params',
+  'sort_query',
+  'strip_www',
+  'strip_trailing_slash',
+  'follow_canonical',
+];
+
+// utm_* and the click ids and mail campaign parameters ad and analytics tools append
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|gbraid|wbraid|msclkid|yclid|twclid|igshid|mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi|mkt_tok)$/i;
+
+/**
+ * Rules from a comma-separated list: empty means all of them, "none" turns normalization off
+ */
+export function parseNormalizationRules(value?: string): Set<UrlNormalizationRule> {
+  if (!value?.trim()) {
+    return new Set(URL_NORMALIZATION_RULES);
+  }
+  return new Set(
+    value.split(',')
+      .map(rule => rule.trim().toLowerCase())
+      .filter((rule): rule is UrlNormalizationRule => URL_NORMALIZATION_RULES.includes(rule as UrlNormalizationRule))
+  );
+}
+
+const activeRules = parseNormalizationRules(import.meta.env.VITE_URL_NORMALIZATION);
+
+/**
+ * The host a URL is compared by - without www. when strip_www is on
+ */
+export function hostKey(hostname: string, rules: Set<UrlNormalizationRule> = activeRules): string {
+  const host = hostname.toLowerCase();
+  return rules.has('strip_www') && host.startsWith('www.') && host.split('.').length > 2 ? host.slice(4) : host;
+}
+
+/**
+ * Whether two URLs are on the same site, treating www. and the bare domain alike when strip_www is on
+ */
+export function sameSite(url: string, otherUrl: string, rules: Set<UrlNormalizationRule> = activeRules): boolean {
+  try {
+    return hostKey(new URL(url).hostname, rules) === hostKey(new URL(otherUrl).hostname, rules);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Normalize a URL for dedupe and storage. Invalid URLs are returned unchanged.
+ */
+export function normalizeUrl(url: string, rules: Set<UrlNormalizationRule> = activeRules): string {
+  try {
+    const parsed = new URL(url);
+    if (rules.has('drop_fragment')) {
+      parsed.hash = '';
+    }
+    if (rules.has('strip_tracking_params')) {
+      for (const key of Array.from(parsed.searchParams.keys())) {
+        if (TRACKING_PARAMS.test(key)) {
+          parsed.searchParams.delete(key);
+        }
+      }
+    }
+    if (rules.has('sort_query')) {
+      parsed.searchParams.sort();
+    }
+    if (!parsed.searchParams.toString()) {
+      parsed.search = '';
+    }
+    parsed.hostname = hostKey(parsed.hostname, rules);
+    if (rules.has('strip_trailing_slash') && parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+      parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+    }
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Normalize a URL that is going to be fetched. The host is kept as it was linked, since a site's
+ * www. and bare domain don't always both resolve.
+ */
+export function cleanUrl(url: string, rules: Set<UrlNormalizationRule> = activeRules): string {
+  const fetchRules = new Set(rules);
+  fetchRules.delete('strip_www');
+  return normalizeUrl(url, fetchRules);
+}
+
+/**
+ * Value of an attribute in a single HTML tag
+ */
+function tagAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? match[1] ?? match[2] ?? match[3] : null;
+}
+
+/**
+ * The absolute rel=canonical URL declared in a page's <head>, or null if it declares none
+ */
+export function canonicalLink(html: string, pageUrl: string): string | null {
+  const headEnd = html.search(/<\/head>/i);
+  const head = headEnd >= 0 ? html.slice(0, headEnd) : html;
+
+  for (const tag of head.match(/<link\b[^>]*>/gi) || []) {
+    const rel = tagAttribute(tag, 'rel')?.toLowerCase().split(/\s+/) || [];
+    const href = tagAttribute(tag, 'href');
+    if (rel.includes('canonical') && href) {
+      try {
+        return new URL(href, pageUrl).toString();
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * The normalized URL a raw Crawl4AI page result is stored under: its rel=canonical URL when
+ * follow_canonical is on and the canonical is on the same site, otherwise the URL it was crawled at.
+ * Cross-site canonicals (syndicated copies) are not followed.
+ */
+export function canonicalPageUrl(result: Record<string, unknown>, rules: Set<UrlNormalizationRule> = activeRules): string {
+  const url = normalizeUrl(String(result.url || ''), rules);
+  if (!rules.has('follow_canonical') || typeof result.html !== 'string') {
+    return url;
+  }
+
+  const canonical = canonicalLink(result.html, url);
+  return canonical && sameSite(canonical, url, rules) ? normalizeUrl(canonical, rules) : url;
+}
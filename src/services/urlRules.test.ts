@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { UrlRule, UrlRuleSet } from '../types';
+import { NO_INCLUDE_MATCH_RULE_ID, QUERY_PARAMS_RULE_ID, UrlRuleMatcher, globToRegExp, validateUrlRule } from './urlRules';
+
+const rule = (id: string, action: UrlRule['action'], match: UrlRule['match'], pattern: string, boost?: number): UrlRule =>
+  ({ id, action, match, pattern, ...(boost !== undefined && { boost }) });
+
+const ruleSet = (rules: UrlRule[], queryParams: UrlRuleSet['queryParams'] = 'keep', allowedQueryParams?: string[]): UrlRuleSet =>
+  ({ rules, queryParams, allowedQueryParams });
+
+describe('globToRegExp', () => {
+  it('lets * stay within a path segment and ** cross them', () => {
+    expect(globToRegExp('/docs/*').test('/docs/intro')).toBe(true);
+    expect(globToRegExp('/docs/*').test('/docs/a/b')).toBe(false);
+    expect(globToRegExp('/docs/**').test('/docs/a/b')).toBe(true);
+    expect(globToRegExp('/*.PDF').test('/guide.pdf')).toBe(true);
+    expect(globToRegExp('/a.b').test('/axb')).toBe(false);
+  });
+});
+
+describe('validateUrlRule', () => {
+  it('names what is wrong with a rule', () => {
+    expect(validateUrlRule(rule(' ', 'exclude', 'glob', '/x'))).toBe('Every rule needs an id');
+    expect(validateUrlRule(rule('a', 'exclude', 'glob', ' '))).toBe('The pattern is empty');
+    expect(validateUrlRule(rule('a', 'exclude', 'path_prefix', 'docs'))).toBe('Path prefixes start with /');
+    expect(validateUrlRule(rule('a', 'exclude', 'regex', '(unclosed'))).toMatch(/^Invalid regex/);
+    expect(validateUrlRule(rule('a', 'exclude', 'regex', '/docs/\\d+'))).toBeNull();
+  });
+});
+
+describe('UrlRuleMatcher', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('applies the default filters', () => {
+    const matcher = new UrlRuleMatcher();
+    expect(matcher.check('https://example.com/login')).toEqual({ allowed: false, ruleId: 'auth-pages' });
+    expect(matcher.check('https://example.com/assets/app.js')).toEqual({ allowed: false, ruleId: 'static-files' });
+    expect(matcher.check('https://example.com/docs/intro')).toEqual({ allowed: true });
+    expect(matcher.boost('https://example.com/docs/intro')).toBe(1);
+  });
+
+  it('lets excludes win over includes and follows only included URLs once there are any', () => {
+    const matcher = new UrlRuleMatcher(ruleSet([
+      rule('docs', 'include', 'path_prefix', '/Docs/'),
+      rule('drafts', 'exclude', 'glob', '/docs/drafts/**'),
+    ]));
+    expect(matcher.check('https://example.com/docs/guide')).toEqual({ allowed: true });
+    expect(matcher.check('https://example.com/docs/drafts/a/b')).toEqual({ allowed: false, ruleId: 'drafts' });
+    expect(matcher.check('https://example.com/blog')).toEqual({ allowed: false, ruleId: NO_INCLUDE_MATCH_RULE_ID });
+  });
+
+  it('leaves invalid rules out instead of failing', () => {
+    const matcher = new UrlRuleMatcher(ruleSet([rule('broken', 'include', 'regex', '(')]));
+    expect(matcher.check('https://example.com/anything')).toEqual({ allowed: true });
+  });
+
+  it('applies the query parameter policies', () => {
+    const excluding = new UrlRuleMatcher(ruleSet([], 'exclude', ['page']));
+    expect(excluding.check('https://example.com/list?page=2')).toEqual({ allowed: true });
+    expect(excluding.check('https://example.com/list?page=2&sort=asc')).toEqual({ allowed: false, ruleId: QUERY_PARAMS_RULE_ID });
+
+    const stripping = new UrlRuleMatcher(ruleSet([], 'strip', ['Page']));
+    expect(stripping.rewrite('https://example.com/list?page=2&sort=asc')).toBe('https://example.com/list?page=2');
+    expect(stripping.rewrite('https://example.com/list?sort=asc')).toBe('https://example.com/list');
+    expect(new UrlRuleMatcher(ruleSet([])).rewrite('https://example.com/?a=1')).toBe('https://example.com/?a=1');
+  });
+
+  it('adds up the boosts of every matching boost rule', () => {
+    const matcher = new UrlRuleMatcher(ruleSet([
+      rule('docs', 'boost', 'path_prefix', '/docs'),
+      rule('api', 'boost', 'regex', '/api/', 2),
+    ]));
+    expect(matcher.boost('https://example.com/docs/api/x')).toBe(3);
+    expect(matcher.boost('https://example.com/blog')).toBe(0);
+    expect(matcher.boost('not a url')).toBe(0);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Include/exclude URL rules and priority boosts
+ *
+ * A rule set decides which discovered URLs a crawl follows and which it follows first. A crawl (or its
+ * schedule) can carry its own set; otherwise the one saved for the domain in url_rule_sets is used, and
+ * without that DEFAULT_URL_RULE_SET, which holds the filters and boosts smart crawls always had.
+ * Exclude rules win over include rules, and once a set has an include rule only URLs matching one are
+ * followed. Skipped URLs are reported with the id of the rule that skipped them.
+ * Must match api/shared/urlRules.js.
+ */
+import type { UrlRule, UrlRuleSet } from '../types';
+
+export const DEFAULT_URL_RULE_SET: UrlRuleSet = {
+  rules: [
+    { id: 'auth-pages', action: 'exclude', match: 'regex', pattern: '/(login|register|signup|signin|auth)' },
+    { id: 'commerce-pages', action: 'exclude', match: 'regex', pattern: '/(cart|checkout|payment|billing)' },
+    { id: 'admin-pages', action: 'exclude', match: 'regex', pattern: '/(admin|wp-admin)' },
+    { id: 'static-files', action: 'exclude', match: 'regex', pattern: '\\.(css|js|json|txt|xml)$' },
+    { id: 'content-sections', action: 'boost', match: 'regex', pattern: '/(docs|documentation|api|guide|tutorial|blog|news|product)', boost: 1 },
+  ],
+  queryParams: 'keep',
+};
+
+// ruleId of URLs skipped because no include rule matched them, or because of the query parameter policy
+export const NO_INCLUDE_MATCH_RULE_ID = 'no_include_match';
+export const QUERY_PARAMS_RULE_ID = 'query_params';
+
+export type UrlRuleVerdict = { allowed: true } | { allowed: false; ruleId: string };
+
+interface CompiledRule {
+  rule: UrlRule;
+  test: (url: URL) => boolean;
+}
+
+/**
+ * A glob as a case-insensitive regular expression: ** matches anything, * anything but a slash
+ */
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('**')
+    .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Why a rule can't be used, or null when it is valid
+ */
+export function validateUrlRule(rule: UrlRule): string | null {
+  if (!rule.id.trim()) {
+    return 'Every rule needs an id';
+  }
+  if (!rule.pattern.trim()) {
+    return 'The pattern is empty';
+  }
+  if (rule.match === 'path_prefix' && !rule.pattern.startsWith('/')) {
+    return 'Path prefixes start with /';
+  }
+  if (rule.match === 'regex') {
+    try {
+      new RegExp(rule.pattern);
+    } catch (error) {
+      return `Invalid regex: ${error instanceof Error ? error.message : 'unknown error'}`;
+    }
+  }
+  return null;
+}
+
+function compileRule(rule: UrlRule): CompiledRule {
+  switch (rule.match) {
+    case 'regex': {
+      const pattern = new RegExp(rule.pattern, 'i');
+      return { rule, test: url => pattern.test(url.toString()) };
+    }
+    case 'glob': {
+      const pattern = globToRegExp(rule.pattern);
+      return { rule, test: url => pattern.test(url.pathname + url.search) };
+    }
+    case 'path_prefix':
+    default: {
+      const prefix = rule.pattern.toLowerCase();
+      return { rule, test: url => url.pathname.toLowerCase().startsWith(prefix) };
+    }
+  }
+}
+
+/**
+ * Compiled form of a rule set. Invalid rules are left out with a warning rather than failing the crawl.
+ */
+export class UrlRuleMatcher {
+  private includes: CompiledRule[] = [];
+  private excludes: CompiledRule[] = [];
+  private boosts: CompiledRule[] = [];
+  private queryParams: UrlRuleSet['queryParams'];
+  private allowedQueryParams: Set<string>;
+
+  constructor(ruleSet: UrlRuleSet = DEFAULT_URL_RULE_SET) {
+    for (const rule of ruleSet.rules) {
+      const problem = validateUrlRule(rule);
+      if (problem) {
+        console.warn(`⚠️ Ignoring URL rule "${rule.id}": ${problem}`);
+        continue;
+      }
+      const compiled = compileRule(rule);
+      (rule.action === 'include' ? this.includes : rule.action === 'exclude' ? this.excludes : this.boosts).push(compiled);
+    }
+    this.queryParams = ruleSet.queryParams || 'keep';
+    this.allowedQueryParams = new Set((ruleSet.allowedQueryParams || []).map(param => param.toLowerCase()));
+  }
+
+  /**
+   * The URL with the 'strip' query parameter policy applied
+   */
+  rewrite(url: string): string {
+    if (this.queryParams !== 'strip') {
+      return url;
+    }
+    try {
+      const parsed = new URL(url);
+      for (const key of Array.from(parsed.searchParams.keys())) {
+        if (!this.allowedQueryParams.has(key.toLowerCase())) {
+          parsed.searchParams.delete(key);
+        }
+      }
+      if (!parsed.searchParams.toString()) {
+        parsed.search = '';
+      }
+      return parsed.toString();
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * Whether a URL may be crawled, with the id of the rule that skips it if not
+   */
+  check(url: string): UrlRuleVerdict {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { allowed: false, ruleId: NO_INCLUDE_MATCH_RULE_ID };
+    }
+
+    const excluded = this.excludes.find(compiled => compiled.test(parsed));
+    if (excluded) {
+      return { allowed: false, ruleId: excluded.rule.id };
+    }
+    if (this.queryParams === 'exclude' && Array.from(parsed.searchParams.keys()).some(key => !this.allowedQueryParams.has(key.toLowerCase()))) {
+      return { allowed: false, ruleId: QUERY_PARAMS_RULE_ID };
+    }
+    if (this.includes.length > 0 && !this.includes.some(compiled => compiled.test(parsed))) {
+      return { allowed: false, ruleId: NO_INCLUDE_MATCH_RULE_ID };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Path levels to take off a URL's priority: the sum of the boosts of every boost rule it matches
+   */
+  boost(url: string): number {
+    try {
+      const parsed = new URL(url);
+      return this.boosts
+        .filter(compiled => compiled.test(parsed))
+        .reduce((total, compiled) => total + (compiled.rule.boost ?? 1), 0);
+    } catch {
+      return 0;
+    }
+  }
+}
@@ -2,6 +2,80 @@
 export interface SimplifiedCrawlConfig {
   url: string;
   crawlType: 'single' | 'smart_site';
+  // Smart crawl budgets - default to VITE_CRAWL4AI_MAX_DEPTH / MAX_PAGES / STRATEGY
+  maxDepth?: number;
+  maxPages?: number;
+  strategy?: 'bfs' | 'dfs' | 'bestfirst';
+  advanced?: CrawlerOptions;
+  urlRules?: UrlRuleSet; // This crawl's URL rules - otherwise the domain's saved rules, or the defaults
+  scope?: CrawlScope; // Hosts a smart crawl may follow links to - the start host only by default
+  relevance?: RelevanceConfig; // Topic-focused smart crawl: best-first by relevance, stopping below the threshold
+}
+
+// See services/relevance.ts
+export interface RelevanceConfig {
+  keywords: string[]; // Matched against each link's anchor text and URL
+  query?: string; // Also score links by embedding similarity to this text
+  threshold: number; // 0-1: the crawl stops when no queued link scores at least this much
+}
+
+// 'host': the start host (www. and the bare domain count as one); 'domain': every host of its registrable
+// domain; 'hosts': the start host and allowedHosts; 'external_one_hop': the start host plus pages it links
+// to on other hosts, whose own links aren't followed
+export type CrawlScopeMode = 'host' | 'domain' | 'hosts' | 'external_one_hop';
+
+// See services/crawlScope.ts
+export interface CrawlScope {
+  mode: CrawlScopeMode;
+  allowedHosts?: string[]; // 'hosts' mode - "*.example.com" also covers every subdomain
+}
+
+export type UrlRuleAction = 'include' | 'exclude' | 'boost';
+
+// regex is tested against the whole URL, glob against the path and query, path_prefix against the path
+export type UrlRuleMatch = 'glob' | 'regex' | 'path_prefix';
+
+// 'strip' removes query parameters and 'exclude' skips URLs that have them, except allowedQueryParams
+export type QueryParamPolicy = 'keep' | 'strip' | 'exclude';
+
+// One include/exclude filter or priority boost - see services/urlRules.ts
+export interface UrlRule {
+  id: string; // Reported as ruleId when the rule skips a URL
+  action: UrlRuleAction;
+  match: UrlRuleMatch;
+  pattern: string;
+  boost?: number; // Boost rules: path levels taken off the URL's priority, so it is crawled sooner
+}
+
+export interface UrlRuleSet {
+  rules: UrlRule[];
+  queryParams: QueryParamPolicy;
+  allowedQueryParams?: string[];
+}
+
+export interface ProxySettings {
+  server?: string;
+  username?: string;
+  password?: string;
+}
+
+export type CacheMode = 'bypass' | 'enabled' | 'disabled' | 'read_only' | 'write_only';
+
+// Advanced Crawl4AI options, mapped onto browser_config / crawler_config by services/crawlerOptions.ts
+export interface CrawlerOptions {
+  waitFor?: string; // CSS selector ("css:.content") or JS condition ("js:() => ...") to wait for
+  jsCode?: string; // Script run on the page before extraction
+  pageTimeout?: number; // Milliseconds
+  excludedTags?: string[];
+  wordCountThreshold?: number;
+  userAgent?: string;
+  viewport?: { width: number; height: number };
+  cacheMode?: CacheMode;
+  proxy?: ProxySettings;
+  screenshot?: boolean; // Capture each page as a PNG, stored in Supabase Storage
+  pdf?: boolean; // Capture each page as a PDF, stored in Supabase Storage
+  collectAssets?: boolean; // Record linked files and page media in the crawl_assets inventory
+  convertDocuments?: boolean; // Also crawl linked documents and save them as markdown pages
 }
 
 // Legacy interface maintained for backward compatibility
@@ -12,13 +86,13 @@ export interface CrawlConfig {
   extractStrategy?: 'basic' | 'llm' | 'css' | 'xpath';
   crawlStrategy?: 'single' | 'deep_crawl';
   deepCrawlMethod?: 'bfs' | 'dfs' | 'bestfirst';
-  proxySettings?: {
-    server?: string;
-    username?: string;
-    password?: string;
-  };
+  proxySettings?: ProxySettings;
   userAgent?: string;
   timeout?: number;
+  crawlerOptions?: CrawlerOptions; // Advanced options of a smart crawl, reused when it is resumed
+  urlRules?: UrlRuleSet; // The URL rules the crawl started with, reused when it is resumed
+  scope?: CrawlScope; // Likewise its scope
+  relevance?: RelevanceConfig; // ...and its relevance keywords, query and threshold
 }
 
 export interface CrawlResult {
@@ -39,12 +113,164 @@ export interface CrawlResult {
 export interface CrawlJob {
   id: string;
   config: CrawlConfig;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
   results: CrawlResult[];
+  checkpoint?: CrawlCheckpoint;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Serialized crawl frontier - see CrawlFrontier.snapshot()
+export interface FrontierSnapshot {
+  strategy: 'bfs' | 'dfs' | 'bestfirst';
+  maxDepth: number;
+  maxPages: number;
+  minScore?: number;
+  queue: { url: string; depth: number; score: number; parentUrl?: string }[]; // Including held items
+  seen: string[];
+  dispatched: number;
+}
+
+// Progress saved after every batch so a smart crawl can be resumed
+export interface CrawlCheckpoint {
+  frontier: FrontierSnapshot;
+  pagesCrawled: number;
+  pagesFailed: number;
+  savedAt: string;
+}
+
+// A saved crawl recipe that api/recrawl runs on a cron schedule
+export interface CrawlSchedule {
+  id: string;
+  name: string;
+  url: string;
+  crawlType: SimplifiedCrawlConfig['crawlType'];
+  options: {
+    maxDepth?: number;
+    maxPages?: number;
+    table?: string;
+    embeddingProvider?: string;
+    embeddingModel?: string;
+    urlRules?: UrlRuleSet; // Otherwise the domain's saved rules, or the defaults
+  };
+  cron: string; // Five fields, UTC - see services/cron.ts
+  enabled: boolean;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastRunStatus?: CrawlScheduleRun['status'];
   createdAt: string;
   updatedAt: string;
 }
 
+// What one scheduled recrawl found, compared with the pages already stored
+export interface CrawlScheduleRun {
+  id: string;
+  scheduleId: string;
+  status: 'running' | 'completed' | 'failed';
+  pagesCrawled: number;
+  added: string[];
+  changed: string[];
+  removed: string[];
+  failed: string[];
+  unchangedCount: number;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
+
+// One value pulled from each element matched by an extraction schema's baseSelector
+export interface ExtractionField {
+  name: string;
+  selector: string; // CSS or XPath, relative to the base element - same kind as the schema's selectorType
+  type: 'text' | 'attribute' | 'html';
+  attribute?: string; // For type 'attribute', e.g. href or src
+}
+
+// Settings for Crawl4AI's LLMExtractionStrategy
+export interface LlmExtractionConfig {
+  provider: string; // LiteLLM provider/model, e.g. openai/gpt-4o-mini - its API key is configured on the Crawl4AI server
+  instruction: string;
+  outputSchema: Record<string, unknown>; // JSON Schema of one record; records that don't match are dropped
+}
+
+// A structured extraction schema saved per domain. 'selectors' mode is sent as Crawl4AI's
+// JsonCss/JsonXPathExtractionStrategy, 'llm' mode as its LLMExtractionStrategy.
+export interface ExtractionSchema {
+  domain: string; // Hostname the schema applies to
+  name: string;
+  mode: 'selectors' | 'llm';
+  selectorType: 'css' | 'xpath';
+  baseSelector: string;
+  fields: ExtractionField[];
+  llm?: LlmExtractionConfig;
+  updatedAt?: string;
+}
+
+// Base64 captures Crawl4AI returns when a crawl requests a screenshot or PDF - see services/captures.ts
+export interface PageCaptures {
+  screenshot?: string;
+  pdf?: string;
+}
+
+export type AssetType = 'document' | 'image' | 'video' | 'audio' | 'archive' | 'installer';
+
+// A file or media link found while crawling - see services/assets.ts
+export interface CrawlAsset {
+  jobId: string;
+  url: string;
+  type: AssetType;
+  extension?: string;
+  sourceUrl: string; // The page it was first found on
+  text?: string; // Anchor text of a link, alt text of an image
+  sizeBytes?: number; // Content-Length from a HEAD request, when the server allows it
+  contentType?: string;
+  convertedAt?: string; // Set once a document was saved as a markdown page
+  conversionError?: string;
+  createdAt: string;
+}
+
+// What the browser sees of a credential profile - its secrets stay server-side (api/shared/credentials.js)
+export interface CredentialProfileSummary {
+  domain: string;
+  name: string;
+  cookieNames: string[];
+  headerNames: string[];
+  localStorageKeys: string[];
+  hasLoginScript: boolean;
+  loginWaitFor?: string;
+  updatedAt?: string;
+}
+
+// A credential profile as it is saved - write-only, it is never read back
+export interface CredentialProfileInput {
+  name: string;
+  cookies: Array<{ name: string; value: string; path?: string }>;
+  headers: Record<string, string>;
+  localStorage: Record<string, string>;
+  loginScript?: string;
+  loginWaitFor?: string;
+}
+
+// metadata column of a crawled_pages chunk - page-level fields plus whatever the crawl reported
+export interface CrawledPageMetadata {
+  [key: string]: unknown;
+  title?: string;
+  total_chunks?: number;
+}
+
+// A snapshot of a page's content, recorded whenever a save changes it - see docs/sql_files/page_versions.sql
+export interface PageVersion {
+  id: string;
+  table: string;
+  url: string;
+  contentHash?: string;
+  title?: string;
+  content?: string; // Only loaded when a version is opened
+  contentLength: number;
+  crawlId?: string;
+  crawledAt: string;
+}
+
 export interface SearchQuery {
   id: string;
   query: string;
@@ -1,9 +1,14 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  test: {
+    // The Functions app in api/ runs its own tests with node --test
+    include: ['src/**/*.test.ts'],
+  },
   build: {
     rollupOptions: {
       output: {